@@ -14,8 +14,22 @@ import {
   TestCoupon,
   TestOrder,
   TestBitcoinPayment,
+  BitcoinPaymentState,
+  TestInventoryBatch,
+  TestCredit,
+  TestCoaSubmission,
+  TestSavedAddress,
   E2ETestFixtures,
 } from './types';
+import { getFixtureCoupons, getProfileFixtures } from './profiles';
+import { env } from '../helpers/env';
+import { assertMutationAllowed } from './runMode';
+import { RUN_ID_FIELD, RunContext, getRunId } from './runTag';
+import {
+  PaymentConfigProfile,
+  PaymentConfigProfileName,
+  applyPaymentConfigOverrides,
+} from './paymentConfigProfiles';
 
 /**
  * MongoDB connection configuration
@@ -23,27 +37,33 @@ import {
 interface DataSeederConfig {
   connectionUri: string;
   databaseName: string;
+  /** Run ID written to every seeded document (default: the current run's, see ./runTag) */
+  runId?: string;
 }
 
 /**
  * Default configuration for E2E test database
  */
 const DEFAULT_CONFIG: DataSeederConfig = {
-  connectionUri: process.env.MONGODB_URI || 'mongodb://localhost:27017',
-  databaseName: process.env.MONGODB_DATABASE || 'zenith_e2e',
+  connectionUri: env.mongoUri,
+  databaseName: env.mongoDatabase,
 };
 
 /**
  * Collection names used in the database (matching backend entity @Document annotations)
  */
-const COLLECTIONS = {
+export const COLLECTIONS = {
   USERS: 'users',
   PRODUCTS: 'product',
   COUPONS: 'coupons',
   ORDERS: 'orders',
   INVENTORY_BATCHES: 'inventory_batches',
+  BATCH_COAS: 'certificates_of_analysis',
   PAYMENT_METHOD_CONFIGURATIONS: 'payment_method_configurations',
   PAYMENTS: 'payments',
+  ACCOUNT_CREDITS: 'account_credits',
+  COA_SUBMISSIONS: 'coa_submissions',
+  ADDRESSES: 'addresses',
 } as const;
 
 /**
@@ -53,6 +73,72 @@ const COLLECTIONS = {
  */
 const ARGON2_TEST_PASSWORD_HASH = '$argon2id$v=19$m=4096,t=3,p=1$Fc7AoV1rusBGnW+Rpk8rkg$ywQyD5sJRRWvYBRkfmTCWwgiN0kxmlBIQhIEgymGTmk';
 
+/**
+ * Maximum number of records logged individually when seeding
+ * Large fixture profiles only log counts to keep setup output readable
+ */
+const DETAIL_LOG_LIMIT = 50;
+
+/**
+ * Snapshot storage: collections are copied to `<prefix><name>.<collection>`
+ * and each snapshot is described by a document in the manifest collection
+ */
+const SNAPSHOT_COLLECTION_PREFIX = 'e2e_snapshot.';
+const SNAPSHOT_MANIFEST_COLLECTION = 'e2e_snapshots';
+
+/**
+ * Runs that seeded this database (see ./runTag) - survives resets so
+ * setup can tell whether another run is still using the data
+ */
+const RUN_REGISTRY_COLLECTION = 'e2e_runs';
+
+/**
+ * Collections never captured or restored by snapshots (migration and run bookkeeping)
+ */
+const SNAPSHOT_EXCLUDED_COLLECTIONS = [
+  'mongockLock',
+  'mongockChangeLog',
+  SNAPSHOT_MANIFEST_COLLECTION,
+  RUN_REGISTRY_COLLECTION,
+];
+
+/**
+ * Snapshot taken by global setup right after seeding
+ */
+export const CLEAN_SNAPSHOT = 'clean';
+
+/**
+ * Snapshot manifest document
+ */
+export interface SnapshotInfo {
+  name: string;
+  collections: string[];
+  createdAt: Date;
+}
+
+/**
+ * Maps the payment progress fields of a Bitcoin payment to the CryptoPayment schema
+ * Shared by seeding and updating so simulated payments look like seeded ones
+ * @param state - Progress fields; without a payment date the field is cleared
+ */
+function toBitcoinPaymentStateFields(state: BitcoinPaymentState): Document {
+  const txids = state.txids ?? [];
+  return {
+    status: state.status,
+    paymentDate: state.paymentDate || null,
+    transactionId: txids.length > 0 ? txids[0] : null,
+    transactionSignature: txids.length > 0 ? txids[0] : null,
+    confirmationCount: state.confirmationCount || 0,
+    receivedSats: state.receivedSats || null,
+    confirmedSats: state.confirmedSats || null,
+    txids,
+    underpaid: state.underpaid || false,
+    overpaid: state.overpaid || false,
+    expiresAt: state.expiresAt || null,
+    refundedAmount: Decimal128.fromString((state.refundedAmount ?? 0).toFixed(2)),
+  };
+}
+
 /**
  * DataSeeder class for managing E2E test data in MongoDB
  *
@@ -60,6 +146,9 @@ const ARGON2_TEST_PASSWORD_HASH = '$argon2id$v=19$m=4096,t=3,p=1$Fc7AoV1rusBGnW+
  * - Connect/disconnect from MongoDB
  * - Seed test users, products, and coupons
  * - Reset database or specific collections
+ *
+ * Every method that writes refuses to run in read-only mode (see ./runMode).
+ * Every seeded document is tagged with the run ID (see ./runTag).
  */
 export class DataSeeder {
   private client: MongoClient | null = null;
@@ -117,6 +206,30 @@ export class DataSeeder {
     return this.client !== null && this.db !== null;
   }
 
+  /**
+   * Checks that MongoDB answers, connecting first if needed
+   * @throws Error if MongoDB is unreachable
+   */
+  async ping(): Promise<void> {
+    await this.connect();
+
+    try {
+      await this.getDb().command({ ping: 1 });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      throw new Error(`[DataSeeder] MongoDB ping failed: ${message}`);
+    }
+  }
+
+  /**
+   * Gets the run tag to spread into seeded documents
+   * @returns The run ID field, or nothing outside a test run (e.g. the seeder CLI)
+   */
+  private runTag(): Document {
+    const runId = this.config.runId ?? getRunId();
+    return runId ? { [RUN_ID_FIELD]: runId } : {};
+  }
+
   /**
    * Gets the database instance, ensuring connection is established
    * @throws Error if not connected
@@ -144,6 +257,8 @@ export class DataSeeder {
    * @throws Error if seeding fails
    */
   async seedUsers(users: TestUser[]): Promise<void> {
+    assertMutationAllowed('seed users');
+
     if (users.length === 0) {
       console.log('[DataSeeder] No users to seed');
       return;
@@ -177,6 +292,7 @@ export class DataSeeder {
         createdDate: now,
         lastModifiedBy: 'e2e-seeder',
         lastModifiedDate: now,
+        ...this.runTag(),
       }));
 
       await collection.insertMany(usersToInsert);
@@ -195,6 +311,8 @@ export class DataSeeder {
    * @throws Error if seeding fails
    */
   async seedSpecialTestUsers(users: TestUser[]): Promise<void> {
+    assertMutationAllowed('seed special test users');
+
     if (users.length === 0) {
       console.log('[DataSeeder] No special test users to seed');
       return;
@@ -228,6 +346,7 @@ export class DataSeeder {
               terms_acceptance: null,
               lastModifiedBy: 'e2e-seeder',
               lastModifiedDate: now,
+              ...this.runTag(),
             },
             $setOnInsert: {
               createdBy: 'e2e-seeder',
@@ -264,6 +383,8 @@ export class DataSeeder {
    * @throws Error if seeding fails
    */
   async seedProducts(products: TestProduct[]): Promise<void> {
+    assertMutationAllowed('seed products');
+
     if (products.length === 0) {
       console.log('[DataSeeder] No products to seed');
       return;
@@ -299,6 +420,7 @@ export class DataSeeder {
               // Audit fields from AbstractAuditingEntity
               lastModifiedBy: 'e2e-seeder',
               lastModifiedDate: now,
+              ...this.runTag(),
               // Additional audit fields
               lastModifiedByIp: null,
               lastModifiedByUserAgent: null,
@@ -328,12 +450,53 @@ export class DataSeeder {
     }
   }
 
+  /**
+   * Removes seeder-created products that are not part of the given catalog
+   * The product collection survives resetDatabase, so switching from a larger
+   * fixture profile would otherwise leave its generated products behind.
+   * Products created by backend migrations are never touched.
+   * @param products - Products that should remain
+   * @returns Number of products removed
+   * @throws Error if pruning fails
+   */
+  async pruneSeededProducts(products: TestProduct[]): Promise<number> {
+    assertMutationAllowed('prune seeded products');
+
+    try {
+      const collection = this.getCollection(COLLECTIONS.PRODUCTS);
+      const keepSlugs = products.map((product) => product.slug);
+
+      const result = await collection.deleteMany({
+        createdBy: 'e2e-seeder',
+        slug: { $nin: keepSlugs },
+      });
+
+      if (result.deletedCount > 0) {
+        console.log(`[DataSeeder] Removed ${result.deletedCount} stale seeded products`);
+      }
+      return result.deletedCount;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      throw new Error(`[DataSeeder] Failed to prune seeded products: ${message}`);
+    }
+  }
+
   /**
    * Seeds test coupons into the database
+   * Validity window, usage limits and product/category restrictions default to an
+   * unrestricted coupon valid for 30 days. Per-user usage is keyed by email and
+   * product restrictions by slug in the fixtures; both are resolved to IDs here
+   * (products may keep the _id of an earlier seed), so users and products must
+   * be seeded first.
+   * The rule fields (perUserLimit, userUsageCounts, applicableCategories,
+   * applicableProductIds) are not confirmed against the backend Coupon entity -
+   * E2E_VERIFY_SCHEMA compares them with coupons the backend wrote (see ./schemaDrift).
    * @param coupons - Array of test coupons to seed
-   * @throws Error if seeding fails
+   * @throws Error if seeding fails or a product restriction names no seeded product
    */
   async seedCoupons(coupons: TestCoupon[]): Promise<void> {
+    assertMutationAllowed('seed coupons');
+
     if (coupons.length === 0) {
       console.log('[DataSeeder] No coupons to seed');
       return;
@@ -341,29 +504,65 @@ export class DataSeeder {
 
     try {
       const collection = this.getCollection(COLLECTIONS.COUPONS);
+      const now = new Date();
 
-      // Transform coupons with additional fields
-      const couponsToInsert: Document[] = coupons.map((coupon, index) => {
-        // Check if this is the expired coupon (code contains 'EXPIRED')
-        const isExpiredCoupon = coupon.code.toUpperCase().includes('EXPIRED');
-        
-        return {
+      const productSlugs = [...new Set(coupons.flatMap((coupon) => coupon.applicableProductSlugs ?? []))];
+      const slugToId = new Map<string, string>();
+      if (productSlugs.length > 0) {
+        const dbProducts = await this.getCollection(COLLECTIONS.PRODUCTS)
+          .find({ slug: { $in: productSlugs } })
+          .toArray();
+        for (const dbProduct of dbProducts) {
+          slugToId.set(dbProduct.slug as string, String(dbProduct._id));
+        }
+      }
+
+      // Transform coupons to match backend Coupon entity schema
+      const couponsToInsert: Document[] = [];
+      for (const [index, coupon] of coupons.entries()) {
+        const userUsageCounts: Record<string, number> = {};
+        for (const [email, count] of Object.entries(coupon.userUsageCounts ?? {})) {
+          const userId = await this.getUserIdByEmail(email);
+          if (userId) {
+            userUsageCounts[userId] = count;
+          } else {
+            // Isolated users only exist when global setup registered them
+            console.warn(`[DataSeeder] Coupon ${coupon.code}: no user ${email}, skipping its usage count`);
+          }
+        }
+
+        // An empty list means every product, so a missing product must not widen the coupon
+        const applicableProductIds = (coupon.applicableProductSlugs ?? []).map((slug) => {
+          const productId = slugToId.get(slug);
+          if (!productId) {
+            throw new Error(`coupon ${coupon.code} is restricted to product ${slug}, which is not seeded`);
+          }
+          return productId;
+        });
+
+        couponsToInsert.push({
           _id: `coupon-${index + 1}`,
           code: coupon.code,
           discountType: coupon.discountType,
           discountValue: coupon.discountValue,
           minOrderAmount: coupon.minOrderAmount || 0,
-          active: !isExpiredCoupon, // Mark expired coupons as inactive
-          usageLimit: 100,
-          usageCount: 0,
-          validFrom: new Date(),
-          validUntil: isExpiredCoupon
-            ? new Date(Date.now() - 86400000) // Yesterday for expired
-            : new Date(Date.now() + 30 * 86400000), // 30 days from now
-          createdDate: new Date(),
-          lastModifiedDate: new Date(),
-        };
-      });
+          active: coupon.active ?? true,
+          usageLimit: coupon.usageLimit ?? 100,
+          usageCount: coupon.usageCount ?? 0,
+          perUserLimit: coupon.perUserLimit ?? null,
+          userUsageCounts,
+          // Fixture profiles may be deep-copied through JSON, turning dates into strings
+          validFrom: coupon.validFrom ? new Date(coupon.validFrom) : now,
+          validUntil: coupon.validUntil ? new Date(coupon.validUntil) : new Date(now.getTime() + 30 * 86400000),
+          applicableCategories: coupon.applicableCategories ?? [],
+          applicableProductIds,
+          createdBy: 'e2e-seeder',
+          createdDate: now,
+          lastModifiedBy: 'e2e-seeder',
+          lastModifiedDate: now,
+          ...this.runTag(),
+        });
+      }
 
       await collection.insertMany(couponsToInsert);
       console.log(`[DataSeeder] Seeded ${coupons.length} coupons`);
@@ -377,10 +576,17 @@ export class DataSeeder {
    * Seeds inventory batches for products
    * This is REQUIRED for products to have inventory - the backend calculates
    * inventory from batches, not from the product.inventory field
+   *
+   * Products listed in batches get exactly those batches (with their
+   * certificates of analysis). Every other product with inventory gets a
+   * single one-year batch for its full inventory.
    * @param products - Array of test products to create batches for
+   * @param batches - Explicit batches, by product slug
    * @throws Error if seeding fails
    */
-  async seedInventoryBatches(products: TestProduct[]): Promise<void> {
+  async seedInventoryBatches(products: TestProduct[], batches: TestInventoryBatch[] = []): Promise<void> {
+    assertMutationAllowed('seed inventory batches');
+
     if (products.length === 0) {
       console.log('[DataSeeder] No products to create batches for');
       return;
@@ -393,8 +599,11 @@ export class DataSeeder {
       const dateStr = now.toISOString().slice(2, 10).replace(/-/g, ''); // YYMMDD format
 
       // Get actual product IDs from database (since upsert may have different IDs)
-      const productSlugs = products.filter(p => p.inventory > 0).map(p => p.slug);
-      console.log(`[DataSeeder] Looking up products by slugs: ${productSlugs.join(', ')}`);
+      const batchSlugs = new Set(batches.map((batch) => batch.productSlug));
+      const productSlugs = products.filter(p => p.inventory > 0 || batchSlugs.has(p.slug)).map(p => p.slug);
+      if (productSlugs.length <= DETAIL_LOG_LIMIT) {
+        console.log(`[DataSeeder] Looking up products by slugs: ${productSlugs.join(', ')}`);
+      }
       
       const dbProducts = await productCollection.find({ slug: { $in: productSlugs } }).toArray();
       console.log(`[DataSeeder] Found ${dbProducts.length} products in database`);
@@ -404,12 +613,14 @@ export class DataSeeder {
         const productId = String(dbProduct._id);
         const productSlug = dbProduct.slug as string;
         slugToId.set(productSlug, productId);
-        console.log(`[DataSeeder]   - Product slug=${productSlug}, _id=${productId}`);
+        if (dbProducts.length <= DETAIL_LOG_LIMIT) {
+          console.log(`[DataSeeder]   - Product slug=${productSlug}, _id=${productId}`);
+        }
       }
 
-      // Create batches for products that have inventory > 0
-      const batchesToUpsert = products
-        .filter((product) => product.inventory > 0 && slugToId.has(product.slug))
+      // Create a default batch for products that have inventory > 0 and no explicit batches
+      const defaultBatches = products
+        .filter((product) => product.inventory > 0 && !batchSlugs.has(product.slug) && slugToId.has(product.slug))
         .map((product, index) => {
           const actualProductId = slugToId.get(product.slug)!;
           return {
@@ -419,7 +630,7 @@ export class DataSeeder {
             quantity: product.inventory,
             availableQuantity: product.inventory, // This is what the backend sums for inventory
             supplier: 'E2E Test Supplier',
-            coaId: null,
+            coaId: null as string | null,
             manufactureDate: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000), // 30 days ago
             expiryDate: new Date(Date.now() + 365 * 24 * 60 * 60 * 1000), // 1 year from now
             purity: 99.5,
@@ -427,31 +638,99 @@ export class DataSeeder {
             active: true,
             sequence: index + 1,
             version: 0,
+            ...this.runTag(),
+          };
+        });
+
+      const unknownBatches = batches.filter((batch) => !slugToId.has(batch.productSlug));
+      for (const batch of unknownBatches) {
+        console.warn(`[DataSeeder] Skipping batch ${batch.batchNumber}: product ${batch.productSlug} not found`);
+      }
+
+      const fixtureBatches = batches
+        .filter((batch) => slugToId.has(batch.productSlug))
+        .map((batch, index) => {
+          const actualProductId = slugToId.get(batch.productSlug)!;
+          return {
+            _id: `e2e-batch-${actualProductId}-${batch.batchNumber}`,
+            batchNumber: batch.batchNumber,
+            productId: actualProductId,
+            quantity: batch.quantity,
+            availableQuantity: batch.availableQuantity ?? batch.quantity,
+            supplier: batch.supplier ?? 'E2E Test Supplier',
+            coaId: batch.coa?.id ?? null,
+            manufactureDate: batch.manufactureDate ?? new Date(Date.now() - 30 * 24 * 60 * 60 * 1000),
+            expiryDate: batch.expiryDate,
+            purity: batch.purity ?? batch.coa?.purity ?? 99.5,
+            receivedDate: batch.receivedDate ?? now,
+            active: batch.active ?? true,
+            sequence: defaultBatches.length + index + 1,
+            version: 0,
+            ...this.runTag(),
           };
         });
 
+      const batchesToUpsert = [...defaultBatches, ...fixtureBatches];
+
       if (batchesToUpsert.length > 0) {
-        // Delete existing batches for these products first
-        const batchIds = batchesToUpsert.map(b => b._id);
-        await batchCollection.deleteMany({ _id: { $in: batchIds } } as Document);
+        // Delete existing seeded batches for these products first (including batches a
+        // previous run declared differently)
+        const productIds = [...new Set(batchesToUpsert.map(b => b.productId))];
+        await batchCollection.deleteMany({ productId: { $in: productIds }, _id: /^e2e-batch-/ } as Document);
         
         // Then insert fresh batches (cast to Document[] to satisfy TypeScript)
         await batchCollection.insertMany(batchesToUpsert as Document[]);
         console.log(`[DataSeeder] Seeded ${batchesToUpsert.length} inventory batches`);
         
         // Log batch details for debugging
-        for (const batch of batchesToUpsert) {
-          console.log(`[DataSeeder]   - Batch ${batch.batchNumber}: productId=${batch.productId}, qty=${batch.availableQuantity}`);
+        for (const batch of batchesToUpsert.slice(0, DETAIL_LOG_LIMIT)) {
+          console.log(
+            `[DataSeeder]   - Batch ${batch.batchNumber}: productId=${batch.productId}, qty=${batch.availableQuantity}, ` +
+              `expires=${batch.expiryDate.toISOString().slice(0, 10)}${batch.active ? '' : ' (inactive)'}`
+          );
         }
       } else {
         console.log('[DataSeeder] No batches to seed (all products have 0 inventory or not found in DB)');
       }
+
+      await this.seedBatchCoas(batches.filter((batch) => slugToId.has(batch.productSlug)));
     } catch (error) {
       const message = error instanceof Error ? error.message : 'Unknown error';
       throw new Error(`[DataSeeder] Failed to seed inventory batches: ${message}`);
     }
   }
 
+  /**
+   * Seeds the certificates of analysis linked from inventory batches
+   * @param batches - Batches whose coa should be seeded
+   */
+  private async seedBatchCoas(batches: TestInventoryBatch[]): Promise<void> {
+    const coas = batches.filter((batch) => batch.coa);
+    if (coas.length === 0) {
+      return;
+    }
+
+    const collection = this.getCollection(COLLECTIONS.BATCH_COAS);
+    const now = new Date();
+
+    const coasToInsert: Document[] = coas.map(({ batchNumber, coa }) => ({
+      _id: coa!.id,
+      batchNumber,
+      laboratory: coa!.laboratory,
+      testDate: coa!.testDate,
+      purity: coa!.purity,
+      reportUrl: coa!.reportUrl ?? null,
+      createdBy: 'e2e-seeder',
+      createdDate: now,
+      lastModifiedDate: now,
+      ...this.runTag(),
+    }));
+
+    await collection.deleteMany({ _id: { $in: coasToInsert.map((coa) => coa._id) } } as Document);
+    await collection.insertMany(coasToInsert);
+    console.log(`[DataSeeder] Seeded ${coasToInsert.length} batch certificates of analysis`);
+  }
+
   /**
    * Seeds test orders into the database
    * Matches the Order entity schema from the backend
@@ -459,6 +738,8 @@ export class DataSeeder {
    * @throws Error if seeding fails
    */
   async seedOrders(orders: TestOrder[]): Promise<void> {
+    assertMutationAllowed('seed orders');
+
     if (orders.length === 0) {
       console.log('[DataSeeder] No orders to seed');
       return;
@@ -552,6 +833,7 @@ export class DataSeeder {
         createdDate: order.orderDate,
         lastModifiedBy: 'e2e-seeder',
         lastModifiedDate: now,
+        ...this.runTag(),
         createdByIp: null,
         createdByUserAgent: null,
         lastModifiedByIp: null,
@@ -576,7 +858,7 @@ export class DataSeeder {
       console.log(`[DataSeeder] Seeded ${orders.length} orders (${result.upsertedCount} inserted, ${result.modifiedCount} updated)`);
       
       // Log order details for debugging
-      for (const order of orders) {
+      for (const order of orders.slice(0, DETAIL_LOG_LIMIT)) {
         console.log(`[DataSeeder]   - Order ${order.orderNumber}: status=${order.status}, total=$${order.total}`);
       }
     } catch (error) {
@@ -592,6 +874,8 @@ export class DataSeeder {
    * @throws Error if seeding fails
    */
   async seedBitcoinPayments(payments: TestBitcoinPayment[]): Promise<void> {
+    assertMutationAllowed('seed Bitcoin payments');
+
     if (payments.length === 0) {
       console.log('[DataSeeder] No Bitcoin payments to seed');
       return;
@@ -608,13 +892,10 @@ export class DataSeeder {
         orderId: payment.orderId,
         userId: payment.userId,
         amount: Decimal128.fromString(payment.amount.toFixed(2)),
-        refundedAmount: Decimal128.fromString('0.00'),
-        status: payment.status,
         paymentType: 'BITCOIN', // PaymentMethodType enum value
-        paymentDate: payment.paymentDate || now,
-        transactionId: payment.txids && payment.txids.length > 0 ? payment.txids[0] : null,
+        // Status, amounts received, confirmations and txids
+        ...toBitcoinPaymentStateFields({ ...payment, paymentDate: payment.paymentDate || now }),
         // CryptoPayment-specific fields
-        transactionSignature: payment.txids && payment.txids.length > 0 ? payment.txids[0] : null,
         blockchainNetwork: payment.blockchainNetwork,
         tokenSymbol: payment.tokenSymbol,
         senderWalletAddress: payment.senderWalletAddress || null,
@@ -622,7 +903,6 @@ export class DataSeeder {
         tokenMintAddress: null, // Not used for Bitcoin
         paymentReference: null,
         tokenAmount: null, // Bitcoin uses satoshis instead
-        confirmationCount: payment.confirmationCount || 0,
         blockHash: null,
         blockTime: null,
         programId: null,
@@ -638,18 +918,13 @@ export class DataSeeder {
         // Bitcoin-specific fields
         derivationIndex: payment.derivationIndex,
         expectedSats: payment.expectedSats,
-        receivedSats: payment.receivedSats || null,
-        confirmedSats: payment.confirmedSats || null,
         lockedBtcUsdRate: Decimal128.fromString(payment.lockedBtcUsdRate.toFixed(2)),
-        txids: payment.txids || [],
-        underpaid: payment.underpaid || false,
-        overpaid: payment.overpaid || false,
-        expiresAt: payment.expiresAt || null,
         // Audit fields from AbstractAuditingEntity
         createdBy: 'e2e-seeder',
         createdDate: payment.paymentDate || now,
         lastModifiedBy: 'e2e-seeder',
         lastModifiedDate: now,
+        ...this.runTag(),
         // Sensitive data access audit
         sensitiveDataLastAccessed: null,
         sensitiveDataAccessedBy: null,
@@ -681,12 +956,270 @@ export class DataSeeder {
     }
   }
 
+  /**
+   * Updates the progress of an order's Bitcoin payment
+   * Writes the same fields as seedBitcoinPayments (see BitcoinPaymentState)
+   * @param orderId - Order the payment belongs to
+   * @param state - New progress fields
+   * @returns The updated payment document, or null if the order has no Bitcoin payment
+   * @throws Error if the update fails
+   */
+  async updateBitcoinPayment(orderId: string, state: BitcoinPaymentState): Promise<Document | null> {
+    assertMutationAllowed('update Bitcoin payments');
+
+    try {
+      const now = new Date();
+      return await this.getCollection(COLLECTIONS.PAYMENTS).findOneAndUpdate(
+        { orderId, paymentType: 'BITCOIN' },
+        {
+          $set: {
+            ...toBitcoinPaymentStateFields(state),
+            lastModifiedBy: 'e2e-seeder',
+            lastModifiedDate: now,
+          },
+        },
+        { returnDocument: 'after' }
+      );
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      throw new Error(`[DataSeeder] Failed to update Bitcoin payment for order ${orderId}: ${message}`);
+    }
+  }
+
+  /**
+   * Seeds store-credit ledger entries into the database
+   * Matches the AccountCredit entity schema from the backend.
+   * Owners are keyed by email in the fixtures and resolved to user IDs here,
+   * so users must be seeded (or registered) first.
+   * @param credits - Array of test credits to seed
+   * @throws Error if seeding fails
+   */
+  async seedCredits(credits: TestCredit[]): Promise<void> {
+    assertMutationAllowed('seed credits');
+
+    if (credits.length === 0) {
+      console.log('[DataSeeder] No credits to seed');
+      return;
+    }
+
+    try {
+      const collection = this.getCollection(COLLECTIONS.ACCOUNT_CREDITS);
+      const now = new Date();
+
+      const userIds = new Map<string, string | null>();
+      const creditsToInsert: Document[] = [];
+      for (const credit of credits) {
+        if (!userIds.has(credit.userEmail)) {
+          userIds.set(credit.userEmail, await this.getUserIdByEmail(credit.userEmail));
+        }
+        const userId = userIds.get(credit.userEmail);
+        if (!userId) {
+          // Isolated users only exist when global setup registered them
+          console.warn(`[DataSeeder] Credit ${credit.id}: no user ${credit.userEmail}, skipping`);
+          continue;
+        }
+
+        creditsToInsert.push({
+          _id: credit.id,
+          userId,
+          type: credit.type,
+          status: credit.status,
+          amount: Decimal128.fromString(credit.amount.toFixed(2)),
+          description: credit.description,
+          sourceReference: credit.sourceReference ?? null,
+          // Fixture profiles may be deep-copied through JSON, turning dates into strings
+          expirationDate: credit.expirationDate ? new Date(credit.expirationDate) : null,
+          usedDate: credit.usedDate ? new Date(credit.usedDate) : null,
+          version: 0,
+          createdBy: 'e2e-seeder',
+          createdDate: new Date(credit.createdDate),
+          lastModifiedBy: 'e2e-seeder',
+          lastModifiedDate: now,
+          ...this.runTag(),
+        });
+      }
+
+      if (creditsToInsert.length === 0) {
+        console.log('[DataSeeder] No credits to seed (owners not found)');
+        return;
+      }
+
+      // Delete existing credits with the same IDs first
+      await collection.deleteMany({ _id: { $in: creditsToInsert.map((credit) => credit._id) } } as Document);
+      await collection.insertMany(creditsToInsert);
+      console.log(`[DataSeeder] Seeded ${creditsToInsert.length} credits`);
+
+      for (const credit of creditsToInsert.slice(0, DETAIL_LOG_LIMIT)) {
+        console.log(`[DataSeeder]   - Credit ${credit._id}: type=${credit.type}, status=${credit.status}, amount=${credit.amount}`);
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      throw new Error(`[DataSeeder] Failed to seed credits: ${message}`);
+    }
+  }
+
+  /**
+   * Seeds customer COA submissions into the database
+   * Matches the CoaSubmission entity schema from the backend.
+   * Submitters are keyed by email in the fixtures and resolved to user IDs here,
+   * so users must be seeded (or registered) first.
+   * @param submissions - Array of test COA submissions to seed
+   * @throws Error if seeding fails
+   */
+  async seedCoaSubmissions(submissions: TestCoaSubmission[]): Promise<void> {
+    assertMutationAllowed('seed COA submissions');
+
+    if (submissions.length === 0) {
+      console.log('[DataSeeder] No COA submissions to seed');
+      return;
+    }
+
+    try {
+      const collection = this.getCollection(COLLECTIONS.COA_SUBMISSIONS);
+      const now = new Date();
+
+      const userIds = new Map<string, string | null>();
+      const submissionsToInsert: Document[] = [];
+      for (const submission of submissions) {
+        if (!userIds.has(submission.userEmail)) {
+          userIds.set(submission.userEmail, await this.getUserIdByEmail(submission.userEmail));
+        }
+        const userId = userIds.get(submission.userEmail);
+        if (!userId) {
+          // Isolated users only exist when global setup registered them
+          console.warn(`[DataSeeder] COA submission ${submission.id}: no user ${submission.userEmail}, skipping`);
+          continue;
+        }
+
+        submissionsToInsert.push({
+          _id: submission.id,
+          userId,
+          orderNumber: submission.orderNumber,
+          productId: submission.productId,
+          productName: submission.productName,
+          batchNumber: submission.batchNumber,
+          status: submission.status,
+          testingProvider: submission.testingProvider,
+          laboratory: submission.laboratory,
+          // Fixture profiles may be deep-copied through JSON, turning dates into strings
+          testDate: new Date(submission.testDate),
+          fileName: submission.fileName,
+          submissionDate: new Date(submission.submissionDate),
+          reviewedDate: submission.reviewedDate ? new Date(submission.reviewedDate) : null,
+          creditAmount:
+            submission.creditAmount !== undefined ? Decimal128.fromString(submission.creditAmount.toFixed(2)) : null,
+          rejectionReason: submission.rejectionReason ?? null,
+          version: 0,
+          createdBy: 'e2e-seeder',
+          createdDate: new Date(submission.submissionDate),
+          lastModifiedBy: 'e2e-seeder',
+          lastModifiedDate: now,
+          ...this.runTag(),
+        });
+      }
+
+      if (submissionsToInsert.length === 0) {
+        console.log('[DataSeeder] No COA submissions to seed (submitters not found)');
+        return;
+      }
+
+      // Delete existing submissions with the same IDs first
+      await collection.deleteMany({ _id: { $in: submissionsToInsert.map((submission) => submission._id) } } as Document);
+      await collection.insertMany(submissionsToInsert);
+      console.log(`[DataSeeder] Seeded ${submissionsToInsert.length} COA submissions`);
+
+      for (const submission of submissionsToInsert.slice(0, DETAIL_LOG_LIMIT)) {
+        console.log(`[DataSeeder]   - COA submission ${submission._id}: status=${submission.status}, batch=${submission.batchNumber}`);
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      throw new Error(`[DataSeeder] Failed to seed COA submissions: ${message}`);
+    }
+  }
+
+  /**
+   * Replaces a user's address book
+   * Matches the Address entity schema from the backend. Each address type gets
+   * exactly one default: the flagged address, or the first one when none is flagged.
+   * @param userEmail - Owner email (resolved to the user ID, so the user must exist)
+   * @param addresses - Addresses to save, in display order
+   * @throws Error if the user doesn't exist, a type has several defaults, or seeding fails
+   */
+  async seedAddresses(userEmail: string, addresses: TestSavedAddress[]): Promise<void> {
+    assertMutationAllowed('seed addresses');
+
+    try {
+      const userId = await this.getUserIdByEmail(userEmail);
+      if (!userId) {
+        throw new Error(`no user ${userEmail}`);
+      }
+
+      const defaults = new Map<TestSavedAddress['addressType'], number>();
+      for (const [index, address] of addresses.entries()) {
+        if (address.isDefault) {
+          if (defaults.has(address.addressType)) {
+            throw new Error(`several default ${address.addressType} addresses for ${userEmail}`);
+          }
+          defaults.set(address.addressType, index);
+        }
+      }
+      for (const [index, address] of addresses.entries()) {
+        if (!defaults.has(address.addressType)) {
+          defaults.set(address.addressType, index);
+        }
+      }
+
+      const collection = this.getCollection(COLLECTIONS.ADDRESSES);
+      const now = new Date();
+
+      const addressesToInsert: Document[] = addresses.map((address, index) => ({
+        _id: `e2e-address-${userId}-${index + 1}`,
+        userId,
+        addressType: address.addressType,
+        firstName: address.firstName,
+        lastName: address.lastName,
+        companyName: address.companyName || null,
+        addressLine1: address.addressLine1,
+        addressLine2: address.addressLine2 || null,
+        city: address.city,
+        state: address.state,
+        postalCode: address.postalCode,
+        country: address.country,
+        phoneNumber: address.phoneNumber || null,
+        additionalInfo: address.additionalInfo || null,
+        isDefault: defaults.get(address.addressType) === index,
+        version: 0,
+        createdBy: 'e2e-seeder',
+        createdDate: now,
+        lastModifiedBy: 'e2e-seeder',
+        lastModifiedDate: now,
+        ...this.runTag(),
+      }));
+
+      // Replace the whole address book - tests add and delete addresses through the UI
+      await collection.deleteMany({ userId } as Document);
+      if (addressesToInsert.length > 0) {
+        await collection.insertMany(addressesToInsert);
+      }
+      console.log(`[DataSeeder] Seeded ${addressesToInsert.length} addresses for ${userEmail}`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      throw new Error(`[DataSeeder] Failed to seed addresses: ${message}`);
+    }
+  }
+
   /**
    * Seeds payment method configurations into the database
    * This is REQUIRED for payment methods to be available during checkout
-   * @throws Error if seeding fails
+   * Call refreshPaymentConfigCache afterwards - the backend caches configurations
+   * @param profile - Overrides for the seeded settings (default: 'default', see ./paymentConfigProfiles)
+   * @throws Error if seeding fails or the profile is unknown
    */
-  async seedPaymentMethodConfigurations(): Promise<void> {
+  async seedPaymentMethodConfigurations(
+    profile: PaymentConfigProfileName | PaymentConfigProfile = 'default'
+  ): Promise<void> {
+    assertMutationAllowed('seed payment method configurations');
+
     try {
       const collection = this.getCollection(COLLECTIONS.PAYMENT_METHOD_CONFIGURATIONS);
       const now = new Date();
@@ -694,7 +1227,7 @@ export class DataSeeder {
       // Payment method configurations matching backend PaymentMethodConfiguration entity
       // IMPLEMENTED payment methods: CashApp, Solana Pay (enabled: true)
       // NOT IMPLEMENTED payment methods: Zelle, ACH (enabled: false)
-      const configurations: Document[] = [
+      const seededConfigurations: Document[] = [
         {
           _id: 'config-cashapp',
           paymentMethodType: 'CASHAPP',
@@ -816,18 +1349,20 @@ export class DataSeeder {
           updatedBy: 'e2e-seeder',
         },
       ];
+      const configurations = applyPaymentConfigOverrides(seededConfigurations, profile);
 
       // Use bulkWrite with upsert to handle existing configurations
       const bulkOps = configurations.map(config => ({
         updateOne: {
           filter: { _id: config._id },
-          update: { $set: config },
+          update: { $set: { ...config, ...this.runTag() } },
           upsert: true
         }
       }));
 
       const result = await collection.bulkWrite(bulkOps);
-      console.log(`[DataSeeder] Seeded ${configurations.length} payment method configurations (${result.upsertedCount} inserted, ${result.modifiedCount} updated)`);
+      const profileName = typeof profile === 'string' ? profile : 'custom';
+      console.log(`[DataSeeder] Seeded ${configurations.length} payment method configurations, profile "${profileName}" (${result.upsertedCount} inserted, ${result.modifiedCount} updated)`);
       
       // Log enabled payment methods
       const enabledMethods = configurations.filter(c => c.enabled).map(c => c.displayName);
@@ -840,49 +1375,48 @@ export class DataSeeder {
 
   /**
    * Seeds all test data from fixtures
-   * @param fixtures - Complete E2E test fixtures
+   * @param fixtures - Complete E2E test fixtures (default: profile selected by E2E_FIXTURE_PROFILE)
    * @throws Error if seeding fails
    */
-  async seedAll(fixtures: E2ETestFixtures): Promise<void> {
+  async seedAll(fixtures: E2ETestFixtures = getProfileFixtures()): Promise<void> {
+    assertMutationAllowed('seed the database');
+
     console.log('[DataSeeder] Starting full data seed...');
 
     try {
       // Extract users array from fixtures (including optional activation/reset test users)
-      // Include all browser-specific activation and reset users for parallel test execution
       const users = [
         fixtures.users.customer,
         fixtures.users.admin,
         fixtures.users.unverified,
-        // Activation users (chromium, firefox, mobile-chrome)
+        // Activation/reset users
         ...(fixtures.users.pendingActivation ? [fixtures.users.pendingActivation] : []),
-        ...(fixtures.users.pendingActivation2 ? [fixtures.users.pendingActivation2] : []),
-        ...(fixtures.users.pendingActivation3 ? [fixtures.users.pendingActivation3] : []),
-        ...(fixtures.users.pendingActivation4 ? [fixtures.users.pendingActivation4] : []),
-        ...(fixtures.users.pendingActivation5 ? [fixtures.users.pendingActivation5] : []),
-        ...(fixtures.users.pendingActivation6 ? [fixtures.users.pendingActivation6] : []),
-        // Reset users (chromium, firefox, mobile-chrome)
         ...(fixtures.users.pendingReset ? [fixtures.users.pendingReset] : []),
-        ...(fixtures.users.pendingReset2 ? [fixtures.users.pendingReset2] : []),
-        ...(fixtures.users.pendingReset3 ? [fixtures.users.pendingReset3] : []),
-        ...(fixtures.users.pendingReset4 ? [fixtures.users.pendingReset4] : []),
-        ...(fixtures.users.pendingReset5 ? [fixtures.users.pendingReset5] : []),
-        ...(fixtures.users.pendingReset6 ? [fixtures.users.pendingReset6] : []),
         ...(fixtures.users.expiredReset ? [fixtures.users.expiredReset] : []),
+        // Bulk users (large profile)
+        ...(fixtures.bulkUsers ?? []),
       ];
 
-      // Extract coupons array from fixtures
-      const coupons = [
-        fixtures.coupons.percentage,
-        fixtures.coupons.fixed,
-        fixtures.coupons.expired,
-      ];
+      // Extract coupons array from fixtures (including optional rule coupons)
+      const coupons = getFixtureCoupons(fixtures);
 
       // Seed all data
       await this.seedUsers(users);
       await this.seedProducts(fixtures.products);
-      await this.seedInventoryBatches(fixtures.products); // CRITICAL: Seed batches for inventory
+      await this.pruneSeededProducts(fixtures.products);
+      await this.seedInventoryBatches(fixtures.products, fixtures.inventoryBatches); // CRITICAL: Seed batches for inventory
       await this.seedCoupons(coupons);
       await this.seedOrders(fixtures.orders);
+      await this.seedCredits(fixtures.credits ?? []);
+      await this.seedCoaSubmissions(fixtures.coaSubmissions ?? []);
+      for (const book of fixtures.addressBooks ?? []) {
+        // Address book owners are isolated users, which only exist after global setup
+        if (await this.getUserIdByEmail(book.userEmail)) {
+          await this.seedAddresses(book.userEmail, book.addresses);
+        } else {
+          console.warn(`[DataSeeder] No user ${book.userEmail}, skipping its address book`);
+        }
+      }
       await this.seedPaymentMethodConfigurations(); // CRITICAL: Seed payment methods for checkout
 
       console.log('[DataSeeder] Full data seed completed successfully');
@@ -896,9 +1430,12 @@ export class DataSeeder {
    * Resets test-related collections in the database
    * Preserves product collection (uses upsert for products)
    * Preserves mongockLock and mongockChangeLog collections (migration tracking)
+   * Preserves the run registry (see ./runTag)
    * @throws Error if reset fails
    */
   async resetDatabase(): Promise<void> {
+    assertMutationAllowed('reset the database');
+
     console.log('[DataSeeder] Resetting test data...');
 
     try {
@@ -911,6 +1448,7 @@ export class DataSeeder {
         'mongockLock',       // Mongock migration lock
         'mongockChangeLog',  // Mongock migration history
         'email_templates',   // Email templates from migrations
+        RUN_REGISTRY_COLLECTION, // Runs sharing this database
       ];
 
       // Collections to explicitly drop (including inventory_batches and payment configs for clean state)
@@ -941,6 +1479,8 @@ export class DataSeeder {
    * @throws Error if reset fails
    */
   async resetCollection(name: string): Promise<void> {
+    assertMutationAllowed(`reset collection ${name}`);
+
     console.log(`[DataSeeder] Resetting collection: ${name}`);
 
     try {
@@ -967,6 +1507,8 @@ export class DataSeeder {
   async activateAndSetupUsers(
     users: Array<{ email: string; authorities: string[] }>
   ): Promise<void> {
+    assertMutationAllowed('activate users');
+
     try {
       const collection = this.getCollection(COLLECTIONS.USERS);
 
@@ -978,6 +1520,8 @@ export class DataSeeder {
               activated: true,
               authorities: user.authorities,
               activationKey: null,
+              // Registered through the API - tag them as this run's like seeded users
+              ...this.runTag(),
             },
           }
         );
@@ -1015,49 +1559,62 @@ export class DataSeeder {
     }
   }
 
+  /**
+   * Deletes users by ID
+   * Used to remove single-use users allocated by the user pool
+   * @param ids - User IDs to delete
+   * @returns The number of deleted users
+   * @throws Error if deletion fails
+   */
+  async deleteUsers(ids: string[]): Promise<number> {
+    assertMutationAllowed('delete users');
+
+    if (ids.length === 0) {
+      return 0;
+    }
+
+    try {
+      const collection = this.getCollection(COLLECTIONS.USERS);
+      const result = await collection.deleteMany({ _id: { $in: ids } } as Document);
+      return result.deletedCount;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      throw new Error(`[DataSeeder] Failed to delete users: ${message}`);
+    }
+  }
+
   /**
    * Updates orders to use actual database user IDs instead of fixture IDs
    * This is necessary because users registered via API get new UUIDs,
    * not the IDs specified in fixtures
-   * @param emailToFixtureId - Map of email to fixture user ID
+   * @param userIds - Map of fixture user ID to actual database user ID (see the run manifest)
    */
-  async updateOrderUserIds(
-    emailToFixtureId: Map<string, string>
-  ): Promise<void> {
+  async updateOrderUserIds(userIds: Map<string, string>): Promise<void> {
+    assertMutationAllowed('update order user IDs');
+
     try {
       const ordersCollection = this.getCollection(COLLECTIONS.ORDERS);
-      const usersCollection = this.getCollection(COLLECTIONS.USERS);
-      
+
       let updatedCount = 0;
-      
-      for (const [email, fixtureId] of emailToFixtureId) {
-        // Get the actual database user ID
-        const user = await usersCollection.findOne({ email });
-        if (!user) {
-          console.warn(`[DataSeeder] User not found for order update: ${email}`);
-          continue;
-        }
-        
-        const actualUserId = String(user._id);
-        
+
+      for (const [fixtureId, actualUserId] of userIds) {
         // Skip if the IDs are the same
         if (actualUserId === fixtureId) {
-          console.log(`[DataSeeder] User ID unchanged for ${email}: ${actualUserId}`);
           continue;
         }
-        
+
         // Update all orders with the fixture userId to use the actual userId
         const result = await ordersCollection.updateMany(
           { userId: fixtureId },
           { $set: { userId: actualUserId } }
         );
-        
+
         if (result.modifiedCount > 0) {
-          console.log(`[DataSeeder] Updated ${result.modifiedCount} orders for ${email}: ${fixtureId} -> ${actualUserId}`);
+          console.log(`[DataSeeder] Updated ${result.modifiedCount} orders: ${fixtureId} -> ${actualUserId}`);
           updatedCount += result.modifiedCount;
         }
       }
-      
+
       console.log(`[DataSeeder] Total orders updated with correct user IDs: ${updatedCount}`);
     } catch (error) {
       const message = error instanceof Error ? error.message : 'Unknown error';
@@ -1080,6 +1637,389 @@ export class DataSeeder {
       return 0;
     }
   }
+
+  /**
+   * Finds every document matching a filter
+   * @param name - Collection name
+   * @param filter - Query filter
+   * @param sort - Sort order (default: insertion order)
+   * @returns The matching documents
+   * @throws Error if the query fails
+   */
+  async findDocuments(name: string, filter: Document = {}, sort: Document = {}): Promise<Document[]> {
+    try {
+      return await this.getCollection(name).find(filter).sort(sort).toArray();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      throw new Error(`[DataSeeder] Failed to query ${name}: ${message}`);
+    }
+  }
+
+  /**
+   * Counts documents in a collection
+   * @param name - Collection name
+   * @param filter - Query filter
+   * @returns The number of matching documents
+   * @throws Error if counting fails
+   */
+  async countDocuments(name: string, filter: Document = {}): Promise<number> {
+    try {
+      return await this.getCollection(name).countDocuments(filter);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      throw new Error(`[DataSeeder] Failed to count ${name}: ${message}`);
+    }
+  }
+
+  /**
+   * Reads a sample of raw documents from a collection
+   * Newest documents first, so samples reflect what the current backend writes
+   * @param name - Collection name
+   * @param filter - Query filter
+   * @param limit - Maximum number of documents (0 for all)
+   * @returns Matching documents
+   */
+  async sampleDocuments(name: string, filter: Document = {}, limit = 20): Promise<Document[]> {
+    try {
+      return await this.getCollection(name).find(filter).sort({ createdDate: -1 }).limit(limit).toArray();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      throw new Error(`[DataSeeder] Failed to sample ${name}: ${message}`);
+    }
+  }
+
+  /**
+   * Deletes every document matching a filter
+   * Used by targeted run cleanup (see ./runTag)
+   * @param name - Collection name
+   * @param filter - Query filter
+   * @returns The number of deleted documents
+   * @throws Error if deletion fails
+   */
+  async deleteDocuments(name: string, filter: Document): Promise<number> {
+    assertMutationAllowed(`delete documents from ${name}`);
+
+    try {
+      const result = await this.getCollection(name).deleteMany(filter);
+      return result.deletedCount;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      throw new Error(`[DataSeeder] Failed to delete documents from ${name}: ${message}`);
+    }
+  }
+
+  /**
+   * Lists the collections holding application data
+   * Excludes system, migration and snapshot collections
+   * @returns Collection names
+   */
+  async listApplicationCollections(): Promise<string[]> {
+    const collections = await this.getDb().listCollections({}, { nameOnly: true }).toArray();
+    return collections
+      .map((collection) => collection.name)
+      .filter((collectionName) => this.isSnapshotCandidate(collectionName));
+  }
+
+  // ============================================================================
+  // Run registry
+  // ============================================================================
+
+  /**
+   * Records that a run is using this database
+   * Finished runs older than the run are pruned, so the registry stays small
+   * @param run - The run started by global setup
+   */
+  async registerRun(run: RunContext): Promise<void> {
+    assertMutationAllowed('register the run');
+
+    try {
+      const collection = this.getCollection(RUN_REGISTRY_COLLECTION);
+      await collection.deleteMany({ finishedAt: { $lt: run.startedAt } });
+      await collection.updateOne(
+        { _id: run.id } as Document,
+        { $set: { startedAt: run.startedAt, finishedAt: null } },
+        { upsert: true }
+      );
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      throw new Error(`[DataSeeder] Failed to register run ${run.id}: ${message}`);
+    }
+  }
+
+  /**
+   * Marks a run as finished - its tagged data may be reset from then on
+   * @param runId - Run ID
+   */
+  async finishRun(runId: string): Promise<void> {
+    assertMutationAllowed('finish the run');
+
+    try {
+      await this.getCollection(RUN_REGISTRY_COLLECTION).updateOne(
+        { _id: runId } as Document,
+        { $set: { finishedAt: new Date() } }
+      );
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      throw new Error(`[DataSeeder] Failed to finish run ${runId}: ${message}`);
+    }
+  }
+
+  /**
+   * Lists runs that started after a point in time and haven't finished
+   * @param startedAfter - Older unfinished runs are treated as crashed
+   * @returns The runs, oldest first
+   */
+  async listUnfinishedRuns(startedAfter: Date): Promise<RunContext[]> {
+    const documents = await this.findDocuments(
+      RUN_REGISTRY_COLLECTION,
+      { finishedAt: null, startedAt: { $gt: startedAfter } },
+      { startedAt: 1 }
+    );
+    return documents.map((document) => ({ id: String(document._id), startedAt: document.startedAt as Date }));
+  }
+
+  // ============================================================================
+  // Snapshots
+  // ============================================================================
+
+  /**
+   * Rejects snapshot names that would clash with the collection naming scheme
+   */
+  private assertSnapshotName(name: string): void {
+    if (!/^[A-Za-z0-9_-]+$/.test(name)) {
+      throw new Error(`[DataSeeder] Invalid snapshot name "${name}" (use letters, digits, - and _)`);
+    }
+  }
+
+  /**
+   * Checks whether a collection holds application data that snapshots cover
+   */
+  private isSnapshotCandidate(name: string): boolean {
+    return (
+      !name.startsWith('system.') &&
+      !name.startsWith(SNAPSHOT_COLLECTION_PREFIX) &&
+      !SNAPSHOT_EXCLUDED_COLLECTIONS.includes(name)
+    );
+  }
+
+  /**
+   * Copies every application collection into a named snapshot
+   * Copies run server-side ($out), so even large profiles snapshot in seconds.
+   * An existing snapshot with the same name is replaced.
+   * @param name - Snapshot name (e.g. 'clean')
+   * @returns The snapshot manifest
+   * @throws Error if the snapshot fails
+   */
+  async snapshot(name: string): Promise<SnapshotInfo> {
+    assertMutationAllowed('snapshot the database');
+
+    this.assertSnapshotName(name);
+
+    try {
+      const db = this.getDb();
+      await this.deleteSnapshot(name);
+
+      const collections = (await db.listCollections({}, { nameOnly: true }).toArray())
+        .map((collection) => collection.name)
+        .filter((collectionName) => this.isSnapshotCandidate(collectionName));
+
+      for (const collectionName of collections) {
+        await db
+          .collection(collectionName)
+          .aggregate([{ $match: {} }, { $out: `${SNAPSHOT_COLLECTION_PREFIX}${name}.${collectionName}` }])
+          .toArray();
+      }
+
+      const info: SnapshotInfo = { name, collections, createdAt: new Date() };
+      await db
+        .collection(SNAPSHOT_MANIFEST_COLLECTION)
+        .replaceOne({ _id: name } as Document, info, { upsert: true });
+
+      console.log(`[DataSeeder] Created snapshot "${name}" (${collections.length} collections)`);
+      return info;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      throw new Error(`[DataSeeder] Failed to create snapshot ${name}: ${message}`);
+    }
+  }
+
+  /**
+   * Restores application collections from a named snapshot
+   * Captured collections are replaced in place (indexes are kept); collections
+   * created after the snapshot (carts, preferences, ...) are dropped.
+   * @param name - Snapshot name
+   * @throws Error if the snapshot does not exist or restoring fails
+   */
+  async restore(name: string): Promise<void> {
+    assertMutationAllowed(`restore snapshot ${name}`);
+
+    this.assertSnapshotName(name);
+
+    try {
+      const db = this.getDb();
+      const info = await this.getSnapshot(name);
+      if (!info) {
+        throw new Error(`snapshot "${name}" does not exist`);
+      }
+
+      const existing = (await db.listCollections({}, { nameOnly: true }).toArray())
+        .map((collection) => collection.name)
+        .filter((collectionName) => this.isSnapshotCandidate(collectionName));
+
+      for (const collectionName of existing) {
+        if (!info.collections.includes(collectionName)) {
+          await db.dropCollection(collectionName);
+        }
+      }
+
+      for (const collectionName of info.collections) {
+        await db
+          .collection(`${SNAPSHOT_COLLECTION_PREFIX}${name}.${collectionName}`)
+          .aggregate([{ $match: {} }, { $out: collectionName }])
+          .toArray();
+      }
+
+      console.log(`[DataSeeder] Restored snapshot "${name}" (${info.collections.length} collections)`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      throw new Error(`[DataSeeder] Failed to restore snapshot ${name}: ${message}`);
+    }
+  }
+
+  /**
+   * Gets a snapshot manifest
+   * @param name - Snapshot name
+   * @returns The manifest, or null if the snapshot does not exist
+   */
+  async getSnapshot(name: string): Promise<SnapshotInfo | null> {
+    const document = await this.getCollection(SNAPSHOT_MANIFEST_COLLECTION).findOne({ _id: name } as Document);
+    return document ? { name, collections: document.collections, createdAt: document.createdAt } : null;
+  }
+
+  /**
+   * Lists all snapshots in the database
+   * @returns Snapshot manifests, oldest first
+   */
+  async listSnapshots(): Promise<SnapshotInfo[]> {
+    const documents = await this.getCollection(SNAPSHOT_MANIFEST_COLLECTION).find().sort({ createdAt: 1 }).toArray();
+    return documents.map((document) => ({
+      name: String(document._id),
+      collections: document.collections,
+      createdAt: document.createdAt,
+    }));
+  }
+
+  /**
+   * Deletes a snapshot and its collections
+   * @param name - Snapshot name
+   * @returns true if a snapshot was deleted
+   */
+  async deleteSnapshot(name: string): Promise<boolean> {
+    assertMutationAllowed(`delete snapshot ${name}`);
+
+    this.assertSnapshotName(name);
+    const db = this.getDb();
+    const prefix = `${SNAPSHOT_COLLECTION_PREFIX}${name}.`;
+    const collections = await db.listCollections({}, { nameOnly: true }).toArray();
+
+    for (const { name: collectionName } of collections) {
+      if (collectionName.startsWith(prefix)) {
+        await db.dropCollection(collectionName);
+      }
+    }
+
+    const result = await db.collection(SNAPSHOT_MANIFEST_COLLECTION).deleteOne({ _id: name } as Document);
+    return result.deletedCount > 0;
+  }
+
+  // ============================================================================
+  // Database isolation
+  // ============================================================================
+
+  /**
+   * Gets the name of the database this seeder is configured for
+   */
+  getDatabaseName(): string {
+    return this.config.databaseName;
+  }
+
+  /**
+   * Copies every collection (documents and indexes) of the connected database
+   * into another database on the same server, replacing its contents
+   * Used to give each worker/project an identical copy of the seeded data
+   * @param targetDatabaseName - Database to create or overwrite
+   * @throws Error if cloning fails
+   */
+  async cloneDatabase(targetDatabaseName: string): Promise<void> {
+    assertMutationAllowed(`clone the database into ${targetDatabaseName}`);
+
+    if (targetDatabaseName === this.config.databaseName) {
+      throw new Error('[DataSeeder] Cannot clone a database onto itself');
+    }
+
+    try {
+      const source = this.getDb();
+      const target = this.client!.db(targetDatabaseName);
+      await target.dropDatabase();
+
+      const collections = await source.listCollections({}, { nameOnly: true }).toArray();
+      let documentCount = 0;
+
+      for (const { name } of collections) {
+        if (name.startsWith('system.')) {
+          continue;
+        }
+
+        const documents = await source.collection(name).find().toArray();
+        const targetCollection = target.collection(name);
+        if (documents.length > 0) {
+          await targetCollection.insertMany(documents);
+          documentCount += documents.length;
+        } else {
+          await target.createCollection(name);
+        }
+
+        // Recreate secondary indexes (unique email, slug, etc.) that the backend relies on
+        const indexes = (await source.collection(name).indexes()).filter((index) => index.name !== '_id_');
+        for (const { key, v: _version, ns: _namespace, ...options } of indexes) {
+          await targetCollection.createIndex(key, options);
+        }
+      }
+
+      console.log(
+        `[DataSeeder] Cloned ${this.config.databaseName} -> ${targetDatabaseName} ` +
+          `(${collections.length} collections, ${documentCount} documents)`
+      );
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      throw new Error(`[DataSeeder] Failed to clone database to ${targetDatabaseName}: ${message}`);
+    }
+  }
+
+  /**
+   * Drops the per-worker/per-project copies of the configured database
+   * Matches databases named <databaseName>_<suffix>
+   * @returns Names of the dropped databases
+   * @throws Error if dropping fails
+   */
+  async dropIsolatedDatabases(): Promise<string[]> {
+    assertMutationAllowed('drop isolated databases');
+
+    try {
+      const prefix = `${this.config.databaseName}_`;
+      const { databases } = await this.getDb().admin().listDatabases({ nameOnly: true });
+      const isolated = databases.map((db) => db.name).filter((name) => name.startsWith(prefix));
+
+      for (const name of isolated) {
+        await this.client!.db(name).dropDatabase();
+        console.log(`[DataSeeder] Dropped isolated database: ${name}`);
+      }
+      return isolated;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      throw new Error(`[DataSeeder] Failed to drop isolated databases: ${message}`);
+    }
+  }
 }
 
 /**
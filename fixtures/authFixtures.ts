@@ -0,0 +1,137 @@
+/**
+ * Authenticated Test Fixtures
+ *
+ * Extends Playwright's `test` with fixtures that provide a page logged in as an
+ * isolated test user, an API client/token for that user, and an empty cart.
+ *
+ * Usage:
+ * ```typescript
+ * import { test, expect } from '../../fixtures/authFixtures';
+ *
+ * test.use({ isolatedUserKey: 'checkoutFlow' });
+ *
+ * test('checks out', async ({ page, apiToken }) => {
+ *   // page is already logged in and the cart is empty
+ * });
+ * ```
+ *
+ * Sessions are restored from storageState files created by global setup, so
+ * the UI login only runs when no cached session exists. Builds on the worker
+ * isolation fixtures, so the page and API client follow the worker's database.
+ */
+
+import { expect } from '@playwright/test';
+import { test as base } from './workerFixtures';
+import { ApiHelper, createApiHelper } from '../helpers/ApiHelper';
+import { LoginPage } from '../page-objects/LoginPage';
+import { getIsolatedUser } from './defaultFixtures';
+import { IsolatedUserKey, getStorageStatePath, hasStorageState } from './authSessions';
+import { readRunManifest } from './runManifest';
+import { TestUser } from './types';
+
+/**
+ * Options configured with test.use()
+ */
+export interface AuthOptions {
+  /** Isolated user to authenticate as; leave undefined for an anonymous page */
+  isolatedUserKey: IsolatedUserKey | undefined;
+}
+
+/**
+ * Fixtures provided to tests
+ */
+export interface AuthFixtures {
+  /** The isolated user selected by isolatedUserKey, with its database ID */
+  isolatedUser: TestUser;
+  /** API client, logged in as the isolated user when isolatedUserKey is set */
+  userApi: ApiHelper;
+  /** Bearer token of the isolated user */
+  apiToken: string;
+}
+
+export const test = base.extend<AuthFixtures & AuthOptions>({
+  isolatedUserKey: [undefined, { option: true }],
+
+  storageState: async ({ isolatedUserKey, storageState }, use) => {
+    if (isolatedUserKey && hasStorageState(isolatedUserKey)) {
+      await use(getStorageStatePath(isolatedUserKey));
+    } else {
+      await use(storageState);
+    }
+  },
+
+  isolatedUser: async ({ isolatedUserKey }, use) => {
+    if (!isolatedUserKey) {
+      throw new Error('[authFixtures] isolatedUser requires test.use({ isolatedUserKey })');
+    }
+    // Registration assigns a new ID - use the one global setup recorded (absent in read-only runs)
+    const user = getIsolatedUser(isolatedUserKey);
+    const recorded = readRunManifest()?.isolatedUsers[isolatedUserKey];
+    await use(recorded ? { ...user, id: recorded.id } : user);
+  },
+
+  userApi: async ({ isolatedUserKey, isolationTarget }, use) => {
+    const api = createApiHelper({
+      backendUrl: isolationTarget.backendUrl,
+      frontendUrl: isolationTarget.frontendUrl,
+      extraHeaders: isolationTarget.headers,
+    });
+
+    if (isolatedUserKey) {
+      const user = getIsolatedUser(isolatedUserKey);
+      const result = await api.login(user.email, user.password);
+      if (!result.success) {
+        throw new Error(`[authFixtures] API login failed for ${user.email}: ${result.error}`);
+      }
+    }
+
+    await use(api);
+    api.logout();
+  },
+
+  apiToken: async ({ userApi }, use) => {
+    const token = userApi.getAuthToken();
+    if (!token) {
+      throw new Error('[authFixtures] apiToken requires test.use({ isolatedUserKey })');
+    }
+    await use(token);
+  },
+
+  page: async ({ page, isolatedUserKey, userApi }, use) => {
+    if (!isolatedUserKey) {
+      await use(page);
+      return;
+    }
+
+    // Clear the backend cart first - browser projects share the same test user
+    await userApi.ensureEmptyCart();
+
+    await page.goto('/');
+    await page.evaluate(() => {
+      localStorage.removeItem('zenithCartItems');
+    });
+
+    // Fall back to a UI login when global setup couldn't cache a session
+    if (!hasStorageState(isolatedUserKey)) {
+      const user = getIsolatedUser(isolatedUserKey);
+      const loginPage = new LoginPage(page);
+      await loginPage.goto();
+      await loginPage.waitForForm();
+      await loginPage.login(user.email, user.password);
+      await loginPage.waitForLoginComplete();
+
+      // Cart sync may have restored items during login
+      await page.evaluate(() => {
+        localStorage.removeItem('zenithCartItems');
+      });
+    }
+
+    // Reload so the app picks up the clean cart state
+    await page.reload();
+    await page.waitForLoadState('domcontentloaded');
+
+    await use(page);
+  },
+});
+
+export { expect };
@@ -0,0 +1,139 @@
+/**
+ * Cached Authentication Sessions
+ *
+ * Creates and locates Playwright storageState files for isolated test users.
+ * Global setup logs every isolated user in once through the UI and saves the
+ * resulting cookies/localStorage, so specs can start already authenticated
+ * instead of repeating the login flow in every test.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { Browser } from '@playwright/test';
+import { LoginPage } from '../page-objects/LoginPage';
+import { isolatedTestUsers } from './defaultFixtures';
+
+/**
+ * Key of an isolated test user (e.g. 'checkoutFlow', 'bitcoinPaymentStatus')
+ */
+export type IsolatedUserKey = keyof typeof isolatedTestUsers;
+
+/**
+ * Directory where storageState files are written
+ * Lives under test-results/ so Playwright cleans it before every run
+ */
+export const AUTH_STATE_DIR = path.join(__dirname, '..', 'test-results', '.auth');
+
+/**
+ * Gets the storageState file path for an isolated user
+ * @param userKey - Isolated user key
+ * @returns Absolute path of the storageState JSON file
+ */
+export function getStorageStatePath(userKey: IsolatedUserKey): string {
+  return path.join(AUTH_STATE_DIR, `${userKey}.json`);
+}
+
+/**
+ * Checks whether a cached session exists for an isolated user
+ * @param userKey - Isolated user key
+ * @returns true if the storageState file exists
+ */
+export function hasStorageState(userKey: IsolatedUserKey): boolean {
+  return fs.existsSync(getStorageStatePath(userKey));
+}
+
+/**
+ * Reads the expiry of a JWT
+ * @returns Expiry in epoch milliseconds, undefined if the token has no exp claim
+ */
+function getJwtExpiry(token: string): number | undefined {
+  try {
+    const payload = JSON.parse(Buffer.from(token.split('.')[1], 'base64url').toString('utf8'));
+    return typeof payload.exp === 'number' ? payload.exp * 1000 : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Gets when a cached session stops working
+ * Uses the earliest JWT expiry found in the session's cookies and localStorage,
+ * falling back to the earliest persistent cookie expiry
+ * @param userKey - Isolated user key
+ * @returns The expiry, or undefined if there is no cached session or it never expires
+ */
+export function getStorageStateExpiry(userKey: IsolatedUserKey): Date | undefined {
+  if (!hasStorageState(userKey)) {
+    return undefined;
+  }
+
+  const state = JSON.parse(fs.readFileSync(getStorageStatePath(userKey), 'utf8')) as {
+    cookies?: Array<{ value: string; expires: number }>;
+    origins?: Array<{ localStorage?: Array<{ value: string }> }>;
+  };
+  const cookies = state.cookies ?? [];
+  const values = [
+    ...cookies.map((cookie) => cookie.value),
+    ...(state.origins ?? []).flatMap((origin) => (origin.localStorage ?? []).map((entry) => entry.value)),
+  ];
+
+  // Tokens may be stored on their own or inside a JSON value
+  const tokenExpiries = values
+    .flatMap((value) => value.match(/eyJ[\w-]+\.[\w-]+\.[\w-]+/g) ?? [])
+    .map(getJwtExpiry)
+    .filter((expiry): expiry is number => expiry !== undefined);
+  const expiries =
+    tokenExpiries.length > 0
+      ? tokenExpiries
+      : cookies.filter((cookie) => cookie.expires > 0).map((cookie) => cookie.expires * 1000);
+
+  return expiries.length > 0 ? new Date(Math.min(...expiries)) : undefined;
+}
+
+/**
+ * Logs each isolated user in through the UI and saves their session
+ * Failures are logged and skipped - the auth fixture falls back to a UI login
+ * @param browser - Browser used for the logins
+ * @param baseURL - Frontend base URL
+ * @param userKeys - Users to create sessions for (default: all isolated users)
+ * @returns Number of sessions created
+ */
+export async function createAuthSessions(
+  browser: Browser,
+  baseURL: string,
+  userKeys: IsolatedUserKey[] = Object.keys(isolatedTestUsers) as IsolatedUserKey[]
+): Promise<number> {
+  fs.mkdirSync(AUTH_STATE_DIR, { recursive: true });
+
+  let created = 0;
+  for (const userKey of userKeys) {
+    const user = isolatedTestUsers[userKey];
+    const context = await browser.newContext({ baseURL });
+
+    try {
+      const page = await context.newPage();
+      const loginPage = new LoginPage(page);
+
+      await loginPage.goto();
+      await loginPage.waitForForm();
+      await loginPage.login(user.email, user.password);
+      await loginPage.waitForLoginComplete();
+
+      // Don't capture cart items in the cached session
+      await page.evaluate(() => {
+        localStorage.removeItem('zenithCartItems');
+      });
+
+      await context.storageState({ path: getStorageStatePath(userKey) });
+      created++;
+      console.log(`[AuthSessions] Saved session for ${userKey} (${user.email})`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      console.warn(`[AuthSessions] Failed to create session for ${userKey}: ${message}`);
+    } finally {
+      await context.close();
+    }
+  }
+
+  return created;
+}
@@ -0,0 +1,573 @@
+/**
+ * Local Bitcoin Chain Stand-In
+ *
+ * The backend detects Bitcoin payments by polling an Esplora-compatible
+ * block explorer API (the one blockstream.info and mempool.space serve).
+ * When its explorer URL points at this stand-in, tests can pay an invoice
+ * for real:
+ *
+ * ```typescript
+ * test.skip(!(await bitcoinChain.isPolled(invoiceAddress, startedAt)), BACKEND_NOT_POLLING_REASON);
+ * const tx = await bitcoinChain.broadcast(invoiceAddress, expectedSats);
+ * await bitcoinChain.waitForPoll(invoiceAddress); // the backend has seen it
+ * await bitcoinPage.waitForPaymentDetection();    // PROCESSING - 0 confirmations
+ * await bitcoinChain.mine(1);                      // COMPLETED - 1 confirmation (seeded confirmationsRequired)
+ * ```
+ *
+ * The backend's explorer URL setting is not part of this repo, so the compose
+ * file doesn't set one. The stand-in records which addresses were queried;
+ * chain-driven specs check that the backend polls a fresh invoice address
+ * (isPolled) and skip when it doesn't, instead of a UI wait timing out.
+ *
+ * Global setup starts the stand-in on BTC_CHAIN_PORT (default 3030) in the
+ * Playwright process; workers drive it through its control endpoints
+ * (/e2e/...) with the BitcoinChain client. The chain is shared by the run -
+ * mining confirms every worker's transactions, so assert on the confirmation
+ * count of your own transaction rather than the tip height.
+ *
+ * Served explorer endpoints (JSON shapes follow Esplora):
+ * - GET /api/blocks/tip/height, /api/blocks/tip/hash, /api/block-height/:height
+ * - GET /api/address/:address, /api/address/:address/txs[/mempool], /api/address/:address/utxo
+ * - GET /api/tx/:txid, /api/tx/:txid/status
+ */
+
+import * as http from 'http';
+import { randomBytes } from 'crypto';
+import { env } from '../helpers/env';
+
+/**
+ * Skip reason for chain-driven tests when the backend doesn't poll the stand-in
+ */
+export const BACKEND_NOT_POLLING_REASON =
+  'The backend never queried the Bitcoin chain stand-in for the invoice address - ' +
+  "point the backend's block explorer URL at the stand-in (BTC_CHAIN_URL) to run chain-driven tests";
+
+/**
+ * How long isPolled waits for the backend's first query of a new invoice address
+ */
+const FIRST_POLL_TIMEOUT_MS = 30000;
+
+/**
+ * Fee every simulated transaction pays, in satoshis
+ */
+const SIMULATED_FEE_SATS = 1000;
+
+/**
+ * Sender of simulated transactions (the BIP173 testnet example address)
+ */
+const DEFAULT_SENDER_ADDRESS = 'tb1qw508d6qejxtdg4y5r3zarvary0c5xw7kxpjzsx';
+
+/**
+ * Height of the first block the stand-in serves
+ */
+const GENESIS_HEIGHT = 2_500_000;
+
+/**
+ * Confirmation status of a transaction (Esplora shape)
+ */
+export interface ChainTransactionStatus {
+  confirmed: boolean;
+  block_height?: number;
+  block_hash?: string;
+  block_time?: number;
+}
+
+/**
+ * A transaction output (Esplora shape)
+ */
+export interface ChainTransactionOutput {
+  scriptpubkey_address: string;
+  scriptpubkey_type: string;
+  value: number;
+}
+
+/**
+ * A simulated transaction (Esplora shape)
+ * Every transaction pays one address from one made-up input.
+ */
+export interface ChainTransaction {
+  txid: string;
+  version: number;
+  locktime: number;
+  vin: Array<{ txid: string; vout: number; prevout: ChainTransactionOutput; is_coinbase: boolean; sequence: number }>;
+  vout: ChainTransactionOutput[];
+  size: number;
+  weight: number;
+  fee: number;
+  status: ChainTransactionStatus;
+}
+
+/**
+ * A transaction with its confirmation count, as returned by the control endpoints
+ */
+export interface BroadcastTransaction {
+  txid: string;
+  address: string;
+  sats: number;
+  confirmations: number;
+}
+
+/**
+ * Options for a simulated payment
+ */
+export interface BroadcastOptions {
+  /** Sender address shown in the input (default: a fixed testnet address) */
+  from?: string;
+}
+
+interface Block {
+  height: number;
+  hash: string;
+  time: number;
+}
+
+// ============================================================================
+// Chain state
+// ============================================================================
+
+function randomHash(): string {
+  return randomBytes(32).toString('hex');
+}
+
+function toOutput(address: string, value: number): ChainTransactionOutput {
+  return {
+    scriptpubkey_address: address,
+    scriptpubkey_type: address.startsWith('tb1') || address.startsWith('bc1') ? 'v0_p2wpkh' : 'p2pkh',
+    value,
+  };
+}
+
+/**
+ * In-memory chain: a list of blocks, a mempool and the transactions they hold
+ */
+class ChainState {
+  private blocks: Block[] = [];
+  private transactions = new Map<string, ChainTransaction>();
+  /** Address -> when the explorer API was last asked about it */
+  private polls = new Map<string, Date>();
+
+  constructor() {
+    this.reset();
+  }
+
+  reset(): void {
+    this.blocks = [{ height: GENESIS_HEIGHT, hash: randomHash(), time: Math.floor(Date.now() / 1000) }];
+    this.transactions.clear();
+    this.polls.clear();
+  }
+
+  recordPoll(address: string): void {
+    this.polls.set(address, new Date());
+  }
+
+  getLastPoll(address: string): Date | undefined {
+    return this.polls.get(address);
+  }
+
+  get tip(): Block {
+    return this.blocks[this.blocks.length - 1];
+  }
+
+  getBlock(height: number): Block | undefined {
+    return this.blocks[height - GENESIS_HEIGHT];
+  }
+
+  getTransaction(txid: string): ChainTransaction | undefined {
+    return this.transactions.get(txid);
+  }
+
+  /**
+   * Adds a transaction paying `sats` to `address` to the mempool
+   */
+  broadcast(address: string, sats: number, options: BroadcastOptions = {}): ChainTransaction {
+    const transaction: ChainTransaction = {
+      txid: randomHash(),
+      version: 2,
+      locktime: 0,
+      vin: [
+        {
+          txid: randomHash(),
+          vout: 0,
+          prevout: toOutput(options.from ?? DEFAULT_SENDER_ADDRESS, sats + SIMULATED_FEE_SATS),
+          is_coinbase: false,
+          sequence: 0xfffffffd,
+        },
+      ],
+      vout: [toOutput(address, sats)],
+      size: 222,
+      weight: 561,
+      fee: SIMULATED_FEE_SATS,
+      status: { confirmed: false },
+    };
+    this.transactions.set(transaction.txid, transaction);
+    return transaction;
+  }
+
+  /**
+   * Mines blocks; the first one confirms every mempool transaction
+   */
+  mine(count: number): Block {
+    for (let i = 0; i < count; i++) {
+      const block: Block = {
+        height: this.tip.height + 1,
+        hash: randomHash(),
+        time: Math.max(this.tip.time + 1, Math.floor(Date.now() / 1000)),
+      };
+      this.blocks.push(block);
+
+      for (const transaction of this.transactions.values()) {
+        if (!transaction.status.confirmed) {
+          transaction.status = { confirmed: true, block_height: block.height, block_hash: block.hash, block_time: block.time };
+        }
+      }
+    }
+    return this.tip;
+  }
+
+  getConfirmations(transaction: ChainTransaction): number {
+    return transaction.status.confirmed ? this.tip.height - transaction.status.block_height! + 1 : 0;
+  }
+
+  /**
+   * Transactions paying an address, mempool first, then newest block first
+   */
+  getAddressTransactions(address: string): ChainTransaction[] {
+    return [...this.transactions.values()]
+      .filter((transaction) => transaction.vout.some((output) => output.scriptpubkey_address === address))
+      .reverse()
+      .sort((a, b) => (b.status.block_height ?? Number.MAX_SAFE_INTEGER) - (a.status.block_height ?? Number.MAX_SAFE_INTEGER));
+  }
+
+  toBroadcastTransaction(transaction: ChainTransaction): BroadcastTransaction {
+    return {
+      txid: transaction.txid,
+      address: transaction.vout[0].scriptpubkey_address,
+      sats: transaction.vout[0].value,
+      confirmations: this.getConfirmations(transaction),
+    };
+  }
+}
+
+// ============================================================================
+// HTTP server
+// ============================================================================
+
+type JsonBody = Record<string, unknown>;
+
+class HttpError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+function addressStats(transactions: ChainTransaction[], address: string): JsonBody {
+  const funded = transactions.flatMap((transaction) =>
+    transaction.vout.filter((output) => output.scriptpubkey_address === address)
+  );
+  return {
+    funded_txo_count: funded.length,
+    funded_txo_sum: funded.reduce((sum, output) => sum + output.value, 0),
+    spent_txo_count: 0,
+    spent_txo_sum: 0,
+    tx_count: transactions.length,
+  };
+}
+
+function readBody(request: http.IncomingMessage): Promise<JsonBody> {
+  return new Promise((resolve, reject) => {
+    let data = '';
+    request.on('data', (chunk) => (data += chunk));
+    request.on('end', () => {
+      try {
+        resolve(data ? (JSON.parse(data) as JsonBody) : {});
+      } catch {
+        reject(new HttpError(400, 'Request body is not valid JSON'));
+      }
+    });
+    request.on('error', reject);
+  });
+}
+
+function positiveInteger(value: unknown, name: string, fallback?: number): number {
+  const parsed = value === undefined ? fallback : value;
+  if (typeof parsed !== 'number' || !Number.isInteger(parsed) || parsed < 1) {
+    throw new HttpError(400, `${name} must be a positive whole number`);
+  }
+  return parsed;
+}
+
+/**
+ * Routes a request to the explorer or control endpoints
+ * @returns The response body - strings are sent as text/plain like Esplora does
+ */
+async function route(chain: ChainState, request: http.IncomingMessage): Promise<unknown> {
+  const { pathname } = new URL(request.url ?? '/', 'http://localhost');
+  const parts = pathname.split('/').filter(Boolean).map(decodeURIComponent);
+  const method = request.method ?? 'GET';
+
+  if (parts[0] === 'e2e') {
+    if (method === 'GET' && parts[1] === 'state') {
+      return { tipHeight: chain.tip.height, tipHash: chain.tip.hash };
+    }
+    if (method === 'POST' && parts[1] === 'transactions') {
+      const body = await readBody(request);
+      if (typeof body.address !== 'string' || !body.address) {
+        throw new HttpError(400, 'address is required');
+      }
+      const sats = positiveInteger(body.sats, 'sats');
+      const from = typeof body.from === 'string' ? body.from : undefined;
+      return chain.toBroadcastTransaction(chain.broadcast(body.address, sats, { from }));
+    }
+    if (method === 'GET' && parts[1] === 'transactions' && parts[2]) {
+      const transaction = chain.getTransaction(parts[2]);
+      if (!transaction) {
+        throw new HttpError(404, 'Transaction not found');
+      }
+      return chain.toBroadcastTransaction(transaction);
+    }
+    if (method === 'GET' && parts[1] === 'addresses' && parts[2]) {
+      return { address: parts[2], lastPolledAt: chain.getLastPoll(parts[2])?.toISOString() ?? null };
+    }
+    if (method === 'POST' && parts[1] === 'blocks') {
+      const count = positiveInteger((await readBody(request)).count, 'count', 1);
+      const tip = chain.mine(count);
+      return { tipHeight: tip.height, tipHash: tip.hash };
+    }
+    if (method === 'POST' && parts[1] === 'reset') {
+      chain.reset();
+      return { tipHeight: chain.tip.height, tipHash: chain.tip.hash };
+    }
+    throw new HttpError(404, 'Unknown control endpoint');
+  }
+
+  if (parts[0] !== 'api' || method !== 'GET') {
+    throw new HttpError(404, 'Not found');
+  }
+
+  const [, resource, id, sub, subSub] = parts;
+
+  if (resource === 'blocks' && id === 'tip' && sub === 'height') {
+    return String(chain.tip.height);
+  }
+  if (resource === 'blocks' && id === 'tip' && sub === 'hash') {
+    return chain.tip.hash;
+  }
+  if (resource === 'block-height' && id) {
+    const block = chain.getBlock(Number(id));
+    if (!block) {
+      throw new HttpError(404, 'Block not found');
+    }
+    return block.hash;
+  }
+
+  if (resource === 'address' && id) {
+    chain.recordPoll(id);
+    const transactions = chain.getAddressTransactions(id);
+    const confirmed = transactions.filter((transaction) => transaction.status.confirmed);
+    const mempool = transactions.filter((transaction) => !transaction.status.confirmed);
+
+    if (sub === undefined) {
+      return { address: id, chain_stats: addressStats(confirmed, id), mempool_stats: addressStats(mempool, id) };
+    }
+    if (sub === 'txs') {
+      return subSub === 'mempool' ? mempool : transactions;
+    }
+    if (sub === 'utxo') {
+      return transactions.flatMap((transaction) =>
+        transaction.vout.flatMap((output, vout) =>
+          output.scriptpubkey_address === id
+            ? [{ txid: transaction.txid, vout, status: transaction.status, value: output.value }]
+            : []
+        )
+      );
+    }
+  }
+
+  if (resource === 'tx' && id) {
+    const transaction = chain.getTransaction(id);
+    if (!transaction) {
+      throw new HttpError(404, 'Transaction not found');
+    }
+    if (sub === undefined) {
+      return transaction;
+    }
+    if (sub === 'status') {
+      return transaction.status;
+    }
+  }
+
+  throw new HttpError(404, 'Not found');
+}
+
+/**
+ * The running stand-in, started by global setup
+ */
+export interface BitcoinChainServer {
+  port: number;
+  close: () => Promise<void>;
+}
+
+let runningServer: BitcoinChainServer | undefined;
+
+/**
+ * Starts the chain stand-in in this process
+ * Listens on every interface so the backend container can reach it via host.docker.internal.
+ * @param port - Port to listen on
+ * @returns The running server
+ * @throws Error if the port is taken
+ */
+export async function startBitcoinChain(port: number): Promise<BitcoinChainServer> {
+  const chain = new ChainState();
+
+  const server = http.createServer((request, response) => {
+    route(chain, request)
+      .then((body) => {
+        const text = typeof body === 'string';
+        response.writeHead(200, { 'Content-Type': text ? 'text/plain' : 'application/json' });
+        response.end(text ? body : JSON.stringify(body));
+      })
+      .catch((error: unknown) => {
+        const status = error instanceof HttpError ? error.status : 500;
+        response.writeHead(status, { 'Content-Type': 'text/plain' });
+        response.end(error instanceof Error ? error.message : 'Unknown error');
+      });
+  });
+
+  try {
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(port, '0.0.0.0', () => resolve());
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    throw new Error(`[BitcoinChain] Failed to start the chain stand-in on port ${port}: ${message}`);
+  }
+  // Don't keep the Playwright process alive if teardown never runs
+  server.unref();
+
+  runningServer = {
+    port,
+    close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  };
+  return runningServer;
+}
+
+/**
+ * Stops the stand-in started by startBitcoinChain, if any
+ */
+export async function stopBitcoinChain(): Promise<void> {
+  await runningServer?.close();
+  runningServer = undefined;
+}
+
+// ============================================================================
+// Client
+// ============================================================================
+
+/**
+ * Drives the chain stand-in from tests
+ */
+export class BitcoinChain {
+  constructor(private readonly baseUrl: string = env.bitcoinChainUrl) {}
+
+  /**
+   * Checks whether the stand-in is running
+   */
+  async isAvailable(): Promise<boolean> {
+    try {
+      return (await fetch(`${this.baseUrl}/e2e/state`, { signal: AbortSignal.timeout(2000) })).ok;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Broadcasts a transaction paying an address - the backend sees it with 0 confirmations
+   * @param address - Invoice address
+   * @param sats - Amount in satoshis (more or less than expected for over-/underpayment)
+   * @param options - Sender address
+   */
+  async broadcast(address: string, sats: number, options: BroadcastOptions = {}): Promise<BroadcastTransaction> {
+    return this.request<BroadcastTransaction>('POST', '/e2e/transactions', { address, sats, ...options });
+  }
+
+  /**
+   * Mines blocks, confirming every broadcast transaction
+   * @param count - Number of blocks (default: 1)
+   * @returns The new tip height
+   */
+  async mine(count = 1): Promise<number> {
+    return (await this.request<{ tipHeight: number }>('POST', '/e2e/blocks', { count })).tipHeight;
+  }
+
+  /**
+   * Gets a broadcast transaction with its current confirmation count
+   */
+  async getTransaction(txid: string): Promise<BroadcastTransaction> {
+    return this.request<BroadcastTransaction>('GET', `/e2e/transactions/${encodeURIComponent(txid)}`);
+  }
+
+  /**
+   * Checks whether the backend queries an address on the explorer API
+   * Used as a readiness check on a fresh invoice address before paying it
+   * @param address - Invoice address
+   * @param since - Only count queries after this time (default: now)
+   * @param timeout - Milliseconds to wait
+   * @returns true once the address is queried, false if it isn't in time
+   */
+  async isPolled(address: string, since: Date = new Date(), timeout = FIRST_POLL_TIMEOUT_MS): Promise<boolean> {
+    const deadline = Date.now() + timeout;
+    const path = `/e2e/addresses/${encodeURIComponent(address)}`;
+    while (Date.now() < deadline) {
+      const { lastPolledAt } = await this.request<{ lastPolledAt: string | null }>('GET', path);
+      if (lastPolledAt && new Date(lastPolledAt) >= since) {
+        return true;
+      }
+      await new Promise((resolve) => setTimeout(resolve, 1000));
+    }
+    return false;
+  }
+
+  /**
+   * Waits until the backend queries an address on the explorer API
+   * @param address - Invoice address
+   * @param since - Only count queries after this time (default: now)
+   * @param timeout - Milliseconds to wait
+   * @throws Error if the backend doesn't query the address in time
+   */
+  async waitForPoll(address: string, since: Date = new Date(), timeout = 60000): Promise<void> {
+    if (!(await this.isPolled(address, since, timeout))) {
+      throw new Error(`[BitcoinChain] The backend did not query ${address} within ${timeout}ms`);
+    }
+  }
+
+  /**
+   * Mines until a transaction has the given number of confirmations
+   * @returns The transaction
+   */
+  async confirm(txid: string, confirmations: number): Promise<BroadcastTransaction> {
+    const transaction = await this.getTransaction(txid);
+    if (transaction.confirmations >= confirmations) {
+      return transaction;
+    }
+    await this.mine(confirmations - transaction.confirmations);
+    return this.getTransaction(txid);
+  }
+
+  private async request<T>(method: string, path: string, body?: unknown): Promise<T> {
+    try {
+      const response = await fetch(`${this.baseUrl}${path}`, {
+        method,
+        headers: body === undefined ? undefined : { 'Content-Type': 'application/json' },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      });
+      if (!response.ok) {
+        throw new Error(`${response.status} ${await response.text()}`);
+      }
+      return (await response.json()) as T;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      throw new Error(`[BitcoinChain] Failed to ${method} ${path}: ${message}`);
+    }
+  }
+}
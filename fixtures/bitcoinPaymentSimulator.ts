@@ -0,0 +1,186 @@
+/**
+ * Bitcoin Payment Simulator
+ *
+ * Drives an order's CryptoPayment through its states by writing the payment
+ * document directly - lighter than paying on the chain stand-in
+ * (see ./bitcoinChain) when a test only cares about what the UI shows.
+ *
+ * Only the database is updated: the backend publishes status changes from
+ * its own chain monitoring and exposes no endpoint to publish a changed
+ * document, so pages see the new state after a reload. Tests of the live
+ * update path inject the status over the page's WebSocket instead.
+ *
+ * Tests use the simulateBitcoinPayment fixture (see ./workerFixtures):
+ * ```typescript
+ * await simulateBitcoinPayment(orderId, { receivedSats: 15000, confirmations: 0 }); // detected
+ * await simulateBitcoinPayment(orderId, 'underpaid');
+ * ```
+ *
+ * The status follows from the event unless given: nothing received is
+ * PENDING, a full payment with enough confirmations is COMPLETED, anything
+ * in between is PROCESSING.
+ */
+
+import { randomBytes } from 'crypto';
+import type { Document } from 'mongodb';
+import { COLLECTIONS, DataSeeder } from './DataSeeder';
+import { BitcoinPaymentState, BitcoinPaymentStatus } from './types';
+
+/**
+ * Confirmations the seeded BITCOIN payment configuration requires
+ */
+export const DEFAULT_CONFIRMATIONS_REQUIRED = 1;
+
+/**
+ * A change to simulate - omitted fields keep their current value where that makes sense
+ */
+export interface BitcoinPaymentEvent {
+  /** Total received in satoshis (default: the current amount) */
+  receivedSats?: number;
+  /** Confirmations of the paying transactions (default: 0) */
+  confirmations?: number;
+  /** Paying transactions (default: the current ones, or a generated txid once something is received) */
+  txids?: string[];
+  /** Explicit status, e.g. TIMEOUT or REFUNDED (default: derived from the amounts and confirmations) */
+  status?: BitcoinPaymentStatus;
+}
+
+/**
+ * Predefined events, sized from the payment's expected amount
+ * - detected: full amount, unconfirmed
+ * - completed: full amount, confirmed
+ * - underpaid: half the amount, confirmed - stays PROCESSING
+ * - overpaid: 10% extra, confirmed
+ * - timeout: nothing received before the invoice expired
+ * - refunded: full amount confirmed, then refunded
+ */
+export type BitcoinPaymentScenario = 'detected' | 'completed' | 'underpaid' | 'overpaid' | 'timeout' | 'refunded';
+
+/**
+ * Options for BitcoinPaymentSimulator
+ */
+export interface BitcoinPaymentSimulatorOptions {
+  /** Confirmations needed to complete a payment (default: DEFAULT_CONFIRMATIONS_REQUIRED) */
+  confirmationsRequired?: number;
+}
+
+// ============================================================================
+// Events
+// ============================================================================
+
+/**
+ * Builds the event for a scenario
+ * @param scenario - Scenario name
+ * @param expectedSats - Invoice amount in satoshis
+ * @param confirmationsRequired - Confirmations needed to complete
+ */
+export function getScenarioEvent(
+  scenario: BitcoinPaymentScenario,
+  expectedSats: number,
+  confirmationsRequired: number = DEFAULT_CONFIRMATIONS_REQUIRED
+): BitcoinPaymentEvent {
+  switch (scenario) {
+    case 'detected':
+      return { receivedSats: expectedSats, confirmations: 0 };
+    case 'completed':
+      return { receivedSats: expectedSats, confirmations: confirmationsRequired };
+    case 'underpaid':
+      return { receivedSats: Math.floor(expectedSats / 2), confirmations: confirmationsRequired };
+    case 'overpaid':
+      return { receivedSats: expectedSats + Math.ceil(expectedSats / 10), confirmations: confirmationsRequired };
+    case 'timeout':
+      return { receivedSats: 0, confirmations: 0, txids: [], status: 'TIMEOUT' };
+    case 'refunded':
+      return { receivedSats: expectedSats, confirmations: confirmationsRequired, status: 'REFUNDED' };
+  }
+}
+
+/**
+ * Computes the payment fields for an event
+ * @param payment - Current payment document
+ * @param event - Event to apply
+ * @param confirmationsRequired - Confirmations needed to complete
+ */
+export function resolveBitcoinPaymentState(
+  payment: Document,
+  event: BitcoinPaymentEvent,
+  confirmationsRequired: number = DEFAULT_CONFIRMATIONS_REQUIRED
+): BitcoinPaymentState {
+  const expectedSats = payment.expectedSats as number;
+  const receivedSats = event.receivedSats ?? (payment.receivedSats as number | null) ?? 0;
+  const confirmations = receivedSats > 0 ? event.confirmations ?? 0 : 0;
+  const currentTxids = (payment.txids as string[] | undefined) ?? [];
+  const txids =
+    event.txids ?? (currentTxids.length > 0 || receivedSats === 0 ? currentTxids : [randomBytes(32).toString('hex')]);
+
+  const derivedStatus: BitcoinPaymentStatus =
+    receivedSats === 0
+      ? 'PENDING'
+      : receivedSats >= expectedSats && confirmations >= confirmationsRequired
+        ? 'COMPLETED'
+        : 'PROCESSING';
+  const status = event.status ?? derivedStatus;
+
+  return {
+    status,
+    receivedSats,
+    confirmedSats: confirmations > 0 ? receivedSats : 0,
+    txids,
+    confirmationCount: confirmations,
+    underpaid: receivedSats > 0 && receivedSats < expectedSats,
+    overpaid: receivedSats > expectedSats,
+    // An expired invoice - anything else keeps its expiry
+    expiresAt: status === 'TIMEOUT' ? new Date(Date.now() - 60 * 1000) : (payment.expiresAt as Date | undefined),
+    // Paid when first received - cleared again when nothing was
+    paymentDate: receivedSats > 0 ? ((payment.paymentDate as Date | null) ?? new Date()) : undefined,
+    // amount is a Decimal128
+    refundedAmount: status === 'REFUNDED' ? Number(String(payment.amount)) : 0,
+  };
+}
+
+// ============================================================================
+// Simulator
+// ============================================================================
+
+/**
+ * Applies payment events to the payments of one database
+ */
+export class BitcoinPaymentSimulator {
+  private confirmationsRequired: number;
+
+  /**
+   * @param seeder - Connected seeder for the database the backend reads
+   * @param options - Confirmations required
+   */
+  constructor(
+    private readonly seeder: DataSeeder,
+    options: BitcoinPaymentSimulatorOptions = {}
+  ) {
+    this.confirmationsRequired = options.confirmationsRequired ?? DEFAULT_CONFIRMATIONS_REQUIRED;
+  }
+
+  /**
+   * Applies an event or scenario to an order's Bitcoin payment
+   * @param orderId - Order paid with Bitcoin
+   * @param event - Event, or the name of a predefined scenario
+   * @returns The fields written
+   * @throws Error if the order has no Bitcoin payment
+   */
+  async simulate(orderId: string, event: BitcoinPaymentEvent | BitcoinPaymentScenario): Promise<BitcoinPaymentState> {
+    const [payment] = await this.seeder.findDocuments(COLLECTIONS.PAYMENTS, { orderId, paymentType: 'BITCOIN' });
+    if (!payment) {
+      throw new Error(`[BitcoinPaymentSimulator] Failed to simulate payment: order ${orderId} has no Bitcoin payment`);
+    }
+
+    const resolvedEvent =
+      typeof event === 'string' ? getScenarioEvent(event, payment.expectedSats, this.confirmationsRequired) : event;
+    const state = resolveBitcoinPaymentState(payment, resolvedEvent, this.confirmationsRequired);
+    await this.seeder.updateBitcoinPayment(orderId, state);
+
+    console.log(
+      `[BitcoinPaymentSimulator] Order ${orderId}: ${state.status}, ${state.receivedSats}/${payment.expectedSats} sats, ` +
+        `${state.confirmationCount} confirmations`
+    );
+    return state;
+  }
+}
@@ -5,7 +5,13 @@
  * Users are created via the backend API and activated directly in MongoDB.
  */
 
-import { E2ETestFixtures, ProductCategory, TestShippingAddress, TestOrder, TestOrderItem, TestOrderAddress, TestBitcoinPayment } from './types';
+import { E2ETestFixtures, ProductCategory, TestCoupon, TestShippingAddress, TestOrder, TestOrderItem, TestOrderAddress, TestBitcoinPayment, TestInventoryBatch, TestCredit, TestCoaSubmission, CoaSubmissionStatus, TestAddressBook } from './types';
+
+/**
+ * Note on the CONFIRMED Test Peptide Alpha orders reserved for FIFO batch allocation
+ * (inventory-batches.spec.ts leases them by status, product and this note)
+ */
+export const FIFO_ALLOCATION_ORDER_NOTE = 'Reserved for FIFO batch allocation';
 
 /**
  * Generate a unique order number
@@ -15,6 +21,15 @@ function generateOrderNumber(index: number): string {
   return `ZB${dateStr}${String(index).padStart(4, '0')}`;
 }
 
+/**
+ * Generate a fixture batch number
+ * The 9xxx range keeps clear of the default batches DataSeeder numbers from 0001
+ */
+function generateBatchNumber(index: number): string {
+  const dateStr = new Date().toISOString().slice(2, 10).replace(/-/g, '');
+  return `ZB${dateStr}${9000 + index}`;
+}
+
 /**
  * Create test orders for E2E testing
  * These orders reference the seeded products and users
@@ -42,12 +57,14 @@ function generateOrderNumber(index: number): string {
  * 
  * SHARED/UNUSED:
  * - Order 0002, 0012, 0013: PENDING (extra)
- * - Order 0004: CONFIRMED (extra)
  * - Order 0010, 0014: AWAITING_PAYMENT (extra)
  * - Order 0015, 0016: PROCESSING with batch (extra)
  * - Order 0007: SHIPPED
  * - Order 0008: DELIVERED
  * - Order 0011: CANCELLED
+ *
+ * FIFO ALLOCATION (inventory-batches.spec.ts, leased - one per browser project):
+ * - Orders 0004, 0034, 0035: CONFIRMED Test Peptide Alpha, marked with FIFO_ALLOCATION_ORDER_NOTE
  */
 function createTestOrders(): TestOrder[] {
   const now = new Date();
@@ -223,7 +240,7 @@ function createTestOrders(): TestOrder[] {
       total: 155.71,
       orderDate: twoDaysAgo,
     },
-    // Order 4: CONFIRMED - for property tests
+    // Order 4: CONFIRMED - leased by inventory-batches.spec.ts for FIFO batch allocation (see orders 34-35)
     {
       id: 'e2e-order-004',
       orderNumber: generateOrderNumber(4),
@@ -252,6 +269,7 @@ function createTestOrders(): TestOrder[] {
       shippingCost: 9.99,
       total: 118.23,
       orderDate: twoDaysAgo,
+      notes: FIFO_ALLOCATION_ORDER_NOTE,
     },
     // Order 5: PROCESSING - for spec tests (with batch numbers for SHIPPED transition)
     {
@@ -1284,6 +1302,68 @@ function createTestOrders(): TestOrder[] {
       orderDate: oneWeekAgo,
       trackingNumber: 'E2ECOA003TRACK',
     },
+    // Order 34: CONFIRMED - FIFO batch allocation, like order 4
+    {
+      id: 'e2e-order-034',
+      orderNumber: generateOrderNumber(34),
+      userId: 'e2e-customer-001',
+      customerEmail: 'testcustomer@test.zenithbioscience.com',
+      customerName: 'Test Customer',
+      items: [
+        {
+          productId: 'e2e-prod-001',
+          productName: 'Test Peptide Alpha',
+          productSku: 'E2E-PEPTIDE-001',
+          productDose: '5mg',
+          quantity: 1,
+          unitPrice: 99.99,
+          totalPrice: 99.99,
+        },
+      ],
+      shippingAddress,
+      billingAddress,
+      status: 'CONFIRMED',
+      paymentStatus: 'COMPLETED',
+      paymentMethod: 'ACH',
+      shippingMethod: 'STANDARD',
+      subtotal: 99.99,
+      tax: 8.25,
+      shippingCost: 9.99,
+      total: 118.23,
+      orderDate: twoDaysAgo,
+      notes: FIFO_ALLOCATION_ORDER_NOTE,
+    },
+    // Order 35: CONFIRMED - FIFO batch allocation, like order 4
+    {
+      id: 'e2e-order-035',
+      orderNumber: generateOrderNumber(35),
+      userId: 'e2e-customer-001',
+      customerEmail: 'testcustomer@test.zenithbioscience.com',
+      customerName: 'Test Customer',
+      items: [
+        {
+          productId: 'e2e-prod-001',
+          productName: 'Test Peptide Alpha',
+          productSku: 'E2E-PEPTIDE-001',
+          productDose: '5mg',
+          quantity: 1,
+          unitPrice: 99.99,
+          totalPrice: 99.99,
+        },
+      ],
+      shippingAddress,
+      billingAddress,
+      status: 'CONFIRMED',
+      paymentStatus: 'COMPLETED',
+      paymentMethod: 'ACH',
+      shippingMethod: 'STANDARD',
+      subtotal: 99.99,
+      tax: 8.25,
+      shippingCost: 9.99,
+      total: 118.23,
+      orderDate: twoDaysAgo,
+      notes: FIFO_ALLOCATION_ORDER_NOTE,
+    },
   ];
 }
 
@@ -1511,6 +1591,272 @@ function createTestBitcoinPayments(): TestBitcoinPayment[] {
   ];
 }
 
+/**
+ * Create test inventory batches for E2E testing
+ * Test Peptide Alpha gets several batches so FIFO allocation and expiry
+ * warnings can be checked; every other product keeps DataSeeder's single batch.
+ * Available quantities of the active batches add up to the product inventory (10000).
+ *
+ * BATCH ASSIGNMENTS (test-peptide-alpha):
+ * - Batch 9001: expires in 5 days, no stock left → skipped by allocation
+ * - Batch 9002: expires in 10 days, inactive (quarantined) → skipped by allocation
+ * - Batch 9003: expires in 20 days, with COA → first FIFO pick, shows in expiry warnings
+ * - Batch 9004: expires in 1 year, with COA → used once 9003 runs out
+ */
+function createTestInventoryBatches(): TestInventoryBatch[] {
+  const now = new Date();
+  const daysFromNow = (days: number) => new Date(now.getTime() + days * 24 * 60 * 60 * 1000);
+  const productSlug = 'test-peptide-alpha';
+
+  return [
+    {
+      batchNumber: generateBatchNumber(1),
+      productSlug,
+      quantity: 200,
+      availableQuantity: 0,
+      expiryDate: daysFromNow(5),
+      manufactureDate: daysFromNow(-360),
+    },
+    {
+      batchNumber: generateBatchNumber(2),
+      productSlug,
+      quantity: 500,
+      expiryDate: daysFromNow(10),
+      manufactureDate: daysFromNow(-355),
+      active: false,
+      purity: 97.2, // Below spec - the reason it was pulled
+    },
+    {
+      batchNumber: generateBatchNumber(3),
+      productSlug,
+      quantity: 4000,
+      expiryDate: daysFromNow(20),
+      manufactureDate: daysFromNow(-345),
+      coa: {
+        id: 'e2e-coa-batch-9003',
+        laboratory: 'E2E Analytical Labs',
+        testDate: daysFromNow(-340),
+        purity: 99.1,
+        reportUrl: 'https://test.zenithbioscience.com/coa/e2e-coa-batch-9003.pdf',
+      },
+    },
+    {
+      batchNumber: generateBatchNumber(4),
+      productSlug,
+      quantity: 6000,
+      expiryDate: daysFromNow(365),
+      coa: {
+        id: 'e2e-coa-batch-9004',
+        laboratory: 'E2E Analytical Labs',
+        testDate: daysFromNow(-25),
+        purity: 99.6,
+        reportUrl: 'https://test.zenithbioscience.com/coa/e2e-coa-batch-9004.pdf',
+      },
+    },
+  ];
+}
+
+/**
+ * Create test store-credit ledger entries for E2E testing
+ * All entries belong to the accountCredits isolated user (credits.spec.ts)
+ *
+ * LEDGER:
+ * - $50.00 COA_SUBMISSION, ACTIVE - earned 10 days ago, expires in 6 months
+ * - $25.00 COA_SUBMISSION, ACTIVE - earned 60 days ago, expires in 10 days (expiring soon)
+ * - $15.00 MANUAL_ADJUSTMENT, ACTIVE - granted 5 days ago, never expires
+ * - $40.00 REFUND, USED - issued 45 days ago, spent 20 days ago
+ * - $30.00 COA_SUBMISSION, EXPIRED - earned 400 days ago, expired 35 days ago
+ */
+function createTestCredits(): TestCredit[] {
+  const now = new Date();
+  const daysFromNow = (days: number) => new Date(now.getTime() + days * 24 * 60 * 60 * 1000);
+  const userEmail = 'account-credits@test.zenithbioscience.com';
+
+  return [
+    {
+      id: 'e2e-credit-001',
+      userEmail,
+      type: 'COA_SUBMISSION',
+      status: 'ACTIVE',
+      amount: 50,
+      description: 'COA submission reward - Test Peptide Alpha',
+      sourceReference: 'e2e-coa-submission-001',
+      createdDate: daysFromNow(-10),
+      expirationDate: daysFromNow(180),
+    },
+    {
+      id: 'e2e-credit-002',
+      userEmail,
+      type: 'COA_SUBMISSION',
+      status: 'ACTIVE',
+      amount: 25,
+      description: 'COA submission reward - Test Blend Beta',
+      sourceReference: 'e2e-coa-submission-002',
+      createdDate: daysFromNow(-60),
+      expirationDate: daysFromNow(10),
+    },
+    {
+      id: 'e2e-credit-003',
+      userEmail,
+      type: 'MANUAL_ADJUSTMENT',
+      status: 'ACTIVE',
+      amount: 15,
+      description: 'Goodwill adjustment for delayed shipment',
+      createdDate: daysFromNow(-5),
+    },
+    {
+      id: 'e2e-credit-004',
+      userEmail,
+      type: 'REFUND',
+      status: 'USED',
+      amount: 40,
+      description: 'Refund for returned item',
+      sourceReference: generateOrderNumber(90),
+      createdDate: daysFromNow(-45),
+      usedDate: daysFromNow(-20),
+    },
+    {
+      id: 'e2e-credit-005',
+      userEmail,
+      type: 'COA_SUBMISSION',
+      status: 'EXPIRED',
+      amount: 30,
+      description: 'COA submission reward - Out of Stock BAC Water',
+      sourceReference: 'e2e-coa-submission-003',
+      createdDate: daysFromNow(-400),
+      expirationDate: daysFromNow(-35),
+    },
+  ];
+}
+
+/**
+ * Create test COA submissions for E2E testing
+ * All submissions belong to the accountCoaReview isolated user (coa-review-lifecycle.spec.ts)
+ *
+ * Three submissions per review state, twelve in total so the history spans
+ * more than one page. Submitted a day apart, newest first:
+ * - PENDING_REVIEW: not reviewed yet
+ * - APPROVED: reviewed, credit issued ($25.00 / $30.00 / $35.00)
+ * - REJECTED: reviewed, rejection reason given - resubmittable
+ * - REQUIRES_MODIFICATION: reviewed, reason given - resubmittable
+ */
+function createTestCoaSubmissions(): TestCoaSubmission[] {
+  const now = new Date();
+  const daysAgo = (days: number) => new Date(now.getTime() - days * 24 * 60 * 60 * 1000);
+  const userEmail = 'coa-review@test.zenithbioscience.com';
+  const products = [
+    { productId: 'e2e-prod-001', productName: 'Test Peptide Alpha' },
+    { productId: 'e2e-prod-002', productName: 'Test Blend Beta' },
+  ];
+
+  const rejectionReasons: Partial<Record<CoaSubmissionStatus, string[]>> = {
+    REJECTED: [
+      'Batch number on the certificate does not match the order',
+      'Certificate is from a laboratory that is not accredited',
+      'Test date is before the batch manufacture date',
+    ],
+    REQUIRES_MODIFICATION: [
+      'Upload is missing the chromatogram page',
+      'Laboratory name is not legible - please upload a clearer scan',
+      'Purity result is missing from the certificate',
+    ],
+  };
+
+  const statuses: CoaSubmissionStatus[] = ['PENDING_REVIEW', 'APPROVED', 'REJECTED', 'REQUIRES_MODIFICATION'];
+
+  return statuses.flatMap((status, statusIndex) =>
+    [0, 1, 2].map((index) => {
+      const number = statusIndex * 3 + index + 1;
+      const submittedDaysAgo = number * 2;
+      const suffix = String(number).padStart(2, '0');
+
+      return {
+        id: `e2e-coa-submission-r${suffix}`,
+        userEmail,
+        orderNumber: generateOrderNumber(100 + number),
+        ...products[number % products.length],
+        batchNumber: `BATCH-E2E-R${suffix}`,
+        status,
+        testingProvider: 'Janoshik Analytical',
+        laboratory: 'E2E Analytical Labs',
+        testDate: daysAgo(submittedDaysAgo + 3),
+        fileName: `coa-r${suffix}.pdf`,
+        submissionDate: daysAgo(submittedDaysAgo),
+        reviewedDate: status === 'PENDING_REVIEW' ? undefined : daysAgo(submittedDaysAgo - 1),
+        creditAmount: status === 'APPROVED' ? 25 + index * 5 : undefined,
+        rejectionReason: rejectionReasons[status]?.[index],
+      };
+    })
+  );
+}
+
+/**
+ * Create saved address books for E2E testing
+ *
+ * checkoutPrefill user (checkout-prefill.spec.ts):
+ * - Shipping: Denver office (default), Boulder lab
+ * - Billing: Austin accounts office (default), Dallas warehouse
+ * Every address differs in every field so a prefilled form shows which one was used.
+ */
+function createTestAddressBooks(): TestAddressBook[] {
+  return [
+    {
+      userEmail: 'checkout-prefill@test.zenithbioscience.com',
+      addresses: [
+        {
+          addressType: 'SHIPPING',
+          isDefault: true,
+          firstName: 'Prefill',
+          lastName: 'Shipping',
+          addressLine1: '1600 Glenarm Pl',
+          addressLine2: 'Suite 210',
+          city: 'Denver',
+          state: 'CO',
+          postalCode: '80202',
+          country: 'US',
+          phoneNumber: '+13035550101',
+        },
+        {
+          addressType: 'SHIPPING',
+          firstName: 'Prefill',
+          lastName: 'Lab',
+          addressLine1: '3100 Marine St',
+          city: 'Boulder',
+          state: 'CO',
+          postalCode: '80303',
+          country: 'US',
+          phoneNumber: '+13035550102',
+        },
+        {
+          addressType: 'BILLING',
+          isDefault: true,
+          firstName: 'Prefill',
+          lastName: 'Billing',
+          companyName: 'Prefill Research LLC',
+          addressLine1: '500 W 2nd St',
+          addressLine2: 'Floor 19',
+          city: 'Austin',
+          state: 'TX',
+          postalCode: '78701',
+          country: 'US',
+          phoneNumber: '+15125550103',
+        },
+        {
+          addressType: 'BILLING',
+          firstName: 'Prefill',
+          lastName: 'Warehouse',
+          addressLine1: '2200 Ross Ave',
+          city: 'Dallas',
+          state: 'TX',
+          postalCode: '75201',
+          country: 'US',
+          phoneNumber: '+12145550104',
+        },
+      ],
+    },
+  ];
+}
+
 /**
  * Default test fixtures for standard E2E test scenarios
  */
@@ -1578,121 +1924,6 @@ export const defaultFixtures: E2ETestFixtures = {
       resetKey: 'e2e-expired-reset-key-12345',
       resetDate: new Date(Date.now() - 25 * 60 * 60 * 1000), // Expired 25 hours ago (past 24h window)
     },
-    // Second user pending activation - for login-after-activation test
-    pendingActivation2: {
-      id: 'e2e-pending-activation-002',
-      email: 'testpendingactivation2@test.zenithbioscience.com',
-      password: 'TestPassword123!', // Must match BCRYPT_TEST_PASSWORD_HASH in DataSeeder
-      firstName: 'Test',
-      lastName: 'PendingActivation2',
-      authorities: ['ROLE_USER'],
-      activated: false,
-      activationKey: 'e2e-valid-activation-key-67890',
-    },
-    // Second user with valid reset key - for login-after-reset test
-    pendingReset2: {
-      id: 'e2e-pending-reset-002',
-      email: 'testpendingreset2@test.zenithbioscience.com',
-      password: 'TestPassword123!', // Must match BCRYPT_TEST_PASSWORD_HASH in DataSeeder
-      firstName: 'Test',
-      lastName: 'PendingReset2',
-      authorities: ['ROLE_USER'],
-      activated: true,
-      resetKey: 'e2e-valid-reset-key-67890',
-      resetDate: new Date(), // Reset requested NOW (valid for 24 hours from now)
-    },
-    // Third user with valid reset key - for Firefox browser reset test
-    pendingReset3: {
-      id: 'e2e-pending-reset-003',
-      email: 'testpendingreset3@test.zenithbioscience.com',
-      password: 'TestPassword123!',
-      firstName: 'Test',
-      lastName: 'PendingReset3',
-      authorities: ['ROLE_USER'],
-      activated: true,
-      resetKey: 'e2e-valid-reset-key-firefox-1',
-      resetDate: new Date(),
-    },
-    // Fourth user with valid reset key - for Firefox browser login-after-reset test
-    pendingReset4: {
-      id: 'e2e-pending-reset-004',
-      email: 'testpendingreset4@test.zenithbioscience.com',
-      password: 'TestPassword123!',
-      firstName: 'Test',
-      lastName: 'PendingReset4',
-      authorities: ['ROLE_USER'],
-      activated: true,
-      resetKey: 'e2e-valid-reset-key-firefox-2',
-      resetDate: new Date(),
-    },
-    // Fifth user with valid reset key - for mobile-chrome browser reset test
-    pendingReset5: {
-      id: 'e2e-pending-reset-005',
-      email: 'testpendingreset5@test.zenithbioscience.com',
-      password: 'TestPassword123!',
-      firstName: 'Test',
-      lastName: 'PendingReset5',
-      authorities: ['ROLE_USER'],
-      activated: true,
-      resetKey: 'e2e-valid-reset-key-mobile-1',
-      resetDate: new Date(),
-    },
-    // Sixth user with valid reset key - for mobile-chrome browser login-after-reset test
-    pendingReset6: {
-      id: 'e2e-pending-reset-006',
-      email: 'testpendingreset6@test.zenithbioscience.com',
-      password: 'TestPassword123!',
-      firstName: 'Test',
-      lastName: 'PendingReset6',
-      authorities: ['ROLE_USER'],
-      activated: true,
-      resetKey: 'e2e-valid-reset-key-mobile-2',
-      resetDate: new Date(),
-    },
-    // Third user pending activation - for Firefox browser activation test
-    pendingActivation3: {
-      id: 'e2e-pending-activation-003',
-      email: 'testpendingactivation3@test.zenithbioscience.com',
-      password: 'TestPassword123!',
-      firstName: 'Test',
-      lastName: 'PendingActivation3',
-      authorities: ['ROLE_USER'],
-      activated: false,
-      activationKey: 'e2e-valid-activation-key-firefox-1',
-    },
-    // Fourth user pending activation - for Firefox browser login-after-activation test
-    pendingActivation4: {
-      id: 'e2e-pending-activation-004',
-      email: 'testpendingactivation4@test.zenithbioscience.com',
-      password: 'TestPassword123!',
-      firstName: 'Test',
-      lastName: 'PendingActivation4',
-      authorities: ['ROLE_USER'],
-      activated: false,
-      activationKey: 'e2e-valid-activation-key-firefox-2',
-    },
-    // Fifth user pending activation - for mobile-chrome browser activation test
-    pendingActivation5: {
-      id: 'e2e-pending-activation-005',
-      email: 'testpendingactivation5@test.zenithbioscience.com',
-      password: 'TestPassword123!',
-      firstName: 'Test',
-      lastName: 'PendingActivation5',
-      authorities: ['ROLE_USER'],
-      activated: false,
-      activationKey: 'e2e-valid-activation-key-mobile-1',
-    },
-    // Sixth user pending activation - for mobile-chrome browser login-after-activation test
-    pendingActivation6: {
-      id: 'e2e-pending-activation-006',
-      email: 'testpendingactivation6@test.zenithbioscience.com',
-      password: 'TestPassword123!',
-      firstName: 'Test',
-      lastName: 'PendingActivation6',
-      authorities: ['ROLE_USER'],
-      activated: false,
-      activationKey: 'e2e-valid-activation-key-mobile-2',
-    },
   },
   products: [
     {
@@ -1735,6 +1966,7 @@ export const defaultFixtures: E2ETestFixtures = {
       price: 19.99,
     },
   ],
+  inventoryBatches: createTestInventoryBatches(),
   coupons: {
     percentage: {
       code: 'E2ETEST10',
@@ -1751,10 +1983,58 @@ export const defaultFixtures: E2ETestFixtures = {
       code: 'E2EEXPIRED',
       discountType: 'PERCENTAGE',
       discountValue: 50,
+      active: false,
+      validUntil: new Date(Date.now() - 24 * 60 * 60 * 1000), // Expired yesterday
+    },
+    // Rule coupons for coupon-rules.spec.ts
+    lapsed: {
+      code: 'E2ELAPSED',
+      discountType: 'PERCENTAGE',
+      discountValue: 15,
+      active: true, // Still enabled - only the end date makes it invalid
+      validFrom: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000),
+      validUntil: new Date(Date.now() - 24 * 60 * 60 * 1000),
+    },
+    notYetValid: {
+      code: 'E2EFUTURE',
+      discountType: 'PERCENTAGE',
+      discountValue: 10,
+      validFrom: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000), // Starts next week
+      validUntil: new Date(Date.now() + 37 * 24 * 60 * 60 * 1000),
+    },
+    exhausted: {
+      code: 'E2EMAXEDOUT',
+      discountType: 'PERCENTAGE',
+      discountValue: 10,
+      usageLimit: 5,
+      usageCount: 5,
+    },
+    perUserLimited: {
+      code: 'E2EONCEPERUSER',
+      discountType: 'PERCENTAGE',
+      discountValue: 10,
+      perUserLimit: 1,
+      // isolatedTestUsers.cartCoupons has already redeemed it once
+      userUsageCounts: { 'cart-coupons@test.zenithbioscience.com': 1 },
+    },
+    categoryScoped: {
+      code: 'E2EBLENDS15',
+      discountType: 'PERCENTAGE',
+      discountValue: 15,
+      applicableCategories: ['BLEND'],
+    },
+    productScoped: {
+      code: 'E2EALPHA10',
+      discountType: 'PERCENTAGE',
+      discountValue: 10,
+      applicableProductSlugs: ['test-peptide-alpha'],
     },
   },
   orders: createTestOrders(),
   bitcoinPayments: createTestBitcoinPayments(),
+  credits: createTestCredits(),
+  coaSubmissions: createTestCoaSubmissions(),
+  addressBooks: createTestAddressBooks(),
   shippingAddresses: {
     valid: {
       firstName: 'Test',
@@ -1832,6 +2112,26 @@ export const isolatedTestUsers = {
     authorities: ['ROLE_USER'],
     activated: true,
   },
+  // For checkout-prefill.spec.ts (owns the seeded address book)
+  checkoutPrefill: {
+    id: 'e2e-checkout-prefill-001',
+    email: 'checkout-prefill@test.zenithbioscience.com',
+    password: 'TestPassword123!',
+    firstName: 'Checkout',
+    lastName: 'Prefill',
+    authorities: ['ROLE_USER'],
+    activated: true,
+  },
+  // For payment-config-profiles.spec.ts
+  paymentConfigProfiles: {
+    id: 'e2e-payment-config-001',
+    email: 'payment-config@test.zenithbioscience.com',
+    password: 'TestPassword123!',
+    firstName: 'Payment',
+    lastName: 'Config',
+    authorities: ['ROLE_USER'],
+    activated: true,
+  },
   // For payment-processing.spec.ts
   paymentProcessing: {
     id: 'e2e-payment-proc-001',
@@ -1854,6 +2154,16 @@ export const isolatedTestUsers = {
     authorities: ['ROLE_USER'],
     activated: true,
   },
+  // For coupon-rules.spec.ts - has already redeemed E2EONCEPERUSER
+  cartCoupons: {
+    id: 'e2e-cart-coupons-001',
+    email: 'cart-coupons@test.zenithbioscience.com',
+    password: 'TestPassword123!',
+    firstName: 'Cart',
+    lastName: 'Coupons',
+    authorities: ['ROLE_USER'],
+    activated: true,
+  },
   
   // ============ AUTH TESTS ============
   // For login.spec.ts (read-only, but isolated for safety)
@@ -1948,6 +2258,16 @@ export const isolatedTestUsers = {
     authorities: ['ROLE_USER'],
     activated: true,
   },
+  // For coa-review-lifecycle.spec.ts (owns the seeded COA submissions)
+  accountCoaReview: {
+    id: 'e2e-account-coa-review-001',
+    email: 'coa-review@test.zenithbioscience.com',
+    password: 'TestPassword123!',
+    firstName: 'Account',
+    lastName: 'CoaReview',
+    authorities: ['ROLE_USER'],
+    activated: true,
+  },
   // For credits.spec.ts
   accountCredits: {
     id: 'e2e-account-credits-001',
@@ -2085,6 +2405,7 @@ export function getAccountUser(
     | 'accountPassword'
     | 'accountOrders'
     | 'accountCoa'
+    | 'accountCoaReview'
     | 'accountCredits'
     | 'accountGdpr'
 ) {
@@ -2118,8 +2439,12 @@ export function getTestProduct(index: number) {
 /**
  * Helper function to get a specific test coupon by type
  */
-export function getTestCoupon(type: 'percentage' | 'fixed' | 'expired') {
-  return { ...defaultFixtures.coupons[type] };
+export function getTestCoupon(type: keyof E2ETestFixtures['coupons']): TestCoupon {
+  const coupon = defaultFixtures.coupons[type];
+  if (!coupon) {
+    throw new Error(`Coupon ${type} not found in fixtures`);
+  }
+  return { ...coupon };
 }
 
 /**
@@ -2158,6 +2483,74 @@ export function getInvalidShippingAddress(): TestShippingAddress {
   return { ...defaultFixtures.shippingAddresses!.invalid };
 }
 
+/**
+ * Helper function to get the fixture batches of a product
+ * @param productSlug - Product slug
+ * @returns Batches in declaration order (empty if the product uses the default batch)
+ */
+export function getInventoryBatches(productSlug: string): TestInventoryBatch[] {
+  return (defaultFixtures.inventoryBatches ?? [])
+    .filter((batch) => batch.productSlug === productSlug)
+    .map((batch) => ({ ...batch }));
+}
+
+/**
+ * Helper function to get the seeded credits of a user
+ * @param email - Owner email
+ */
+export function getUserCredits(email: string): TestCredit[] {
+  return (defaultFixtures.credits ?? []).filter((credit) => credit.userEmail === email).map((credit) => ({ ...credit }));
+}
+
+/**
+ * Helper function to compute the credit dashboard totals for a ledger
+ * - balance: ACTIVE credits
+ * - totalEarned: every credit ever issued, whatever happened to it since
+ * - totalUsed: USED credits
+ * - expiringSoon: ACTIVE credits expiring within 30 days
+ */
+export function getCreditSummary(credits: TestCredit[]): {
+  balance: number;
+  totalEarned: number;
+  totalUsed: number;
+  expiringSoon: number;
+} {
+  const sum = (entries: TestCredit[]) => entries.reduce((total, credit) => total + credit.amount, 0);
+  const expiringBefore = Date.now() + 30 * 24 * 60 * 60 * 1000;
+  const active = credits.filter((credit) => credit.status === 'ACTIVE');
+
+  return {
+    balance: sum(active),
+    totalEarned: sum(credits),
+    totalUsed: sum(credits.filter((credit) => credit.status === 'USED')),
+    expiringSoon: sum(active.filter((credit) => credit.expirationDate && credit.expirationDate.getTime() <= expiringBefore)),
+  };
+}
+
+/**
+ * Helper function to get the seeded COA submissions of a user
+ * @param email - Submitter email
+ * @returns Submissions, newest first
+ */
+export function getUserCoaSubmissions(email: string): TestCoaSubmission[] {
+  return (defaultFixtures.coaSubmissions ?? [])
+    .filter((submission) => submission.userEmail === email)
+    .map((submission) => ({ ...submission }));
+}
+
+/**
+ * Helper function to get the seeded address book of a user
+ * @param email - Owner email
+ * @throws Error if the user has no seeded address book
+ */
+export function getAddressBook(email: string): TestAddressBook {
+  const book = (defaultFixtures.addressBooks ?? []).find((candidate) => candidate.userEmail === email);
+  if (!book) {
+    throw new Error(`Address book for ${email} not found in fixtures`);
+  }
+  return { ...book, addresses: book.addresses.map((address) => ({ ...address })) };
+}
+
 /**
  * Helper function to get the pending activation test user
  * Use this user for account activation testing
@@ -2169,17 +2562,6 @@ export function getPendingActivationUser() {
   return { ...defaultFixtures.users.pendingActivation };
 }
 
-/**
- * Helper function to get the second pending activation test user
- * Use this user for login-after-activation testing (separate from basic activation test)
- */
-export function getPendingActivationUser2() {
-  if (!defaultFixtures.users.pendingActivation2) {
-    throw new Error('Pending activation user 2 not found in fixtures');
-  }
-  return { ...defaultFixtures.users.pendingActivation2 };
-}
-
 /**
  * Helper function to get the pending reset test user
  * Use this user for password reset testing with a valid reset key
@@ -2191,17 +2573,6 @@ export function getPendingResetUser() {
   return { ...defaultFixtures.users.pendingReset };
 }
 
-/**
- * Helper function to get the second pending reset test user
- * Use this user for login-after-reset testing (separate from basic reset test)
- */
-export function getPendingResetUser2() {
-  if (!defaultFixtures.users.pendingReset2) {
-    throw new Error('Pending reset user 2 not found in fixtures');
-  }
-  return { ...defaultFixtures.users.pendingReset2 };
-}
-
 /**
  * Helper function to get the expired reset test user
  * Use this user for testing expired password reset tokens
@@ -2224,18 +2595,6 @@ export function getValidActivationKey(): string {
   return user.activationKey;
 }
 
-/**
- * Get the activation key for the second pending activation user
- * Use this for login-after-activation testing
- */
-export function getValidActivationKey2(): string {
-  const user = getPendingActivationUser2();
-  if (!user.activationKey) {
-    throw new Error('Activation key not set for pending activation user 2');
-  }
-  return user.activationKey;
-}
-
 /**
  * Get the valid reset key for password reset testing
  */
@@ -2247,94 +2606,6 @@ export function getValidResetKey(): string {
   return user.resetKey;
 }
 
-/**
- * Get the valid reset key for the second pending reset user
- * Use this for login-after-reset testing
- */
-export function getValidResetKey2(): string {
-  const user = getPendingResetUser2();
-  if (!user.resetKey) {
-    throw new Error('Reset key not set for pending reset user 2');
-  }
-  return user.resetKey;
-}
-
-/**
- * Get the pending reset user 3 (for Firefox browser)
- */
-export function getPendingResetUser3() {
-  if (!defaultFixtures.users.pendingReset3) {
-    throw new Error('Pending reset user 3 not found in fixtures');
-  }
-  return { ...defaultFixtures.users.pendingReset3 };
-}
-
-/**
- * Get the pending reset user 4 (for Firefox browser login-after-reset)
- */
-export function getPendingResetUser4() {
-  if (!defaultFixtures.users.pendingReset4) {
-    throw new Error('Pending reset user 4 not found in fixtures');
-  }
-  return { ...defaultFixtures.users.pendingReset4 };
-}
-
-/**
- * Get the pending reset user 5 (for mobile-chrome browser)
- */
-export function getPendingResetUser5() {
-  if (!defaultFixtures.users.pendingReset5) {
-    throw new Error('Pending reset user 5 not found in fixtures');
-  }
-  return { ...defaultFixtures.users.pendingReset5 };
-}
-
-/**
- * Get the pending reset user 6 (for mobile-chrome browser login-after-reset)
- */
-export function getPendingResetUser6() {
-  if (!defaultFixtures.users.pendingReset6) {
-    throw new Error('Pending reset user 6 not found in fixtures');
-  }
-  return { ...defaultFixtures.users.pendingReset6 };
-}
-
-/**
- * Get browser-specific reset key and user for the "successful reset" test
- * Each browser gets its own reset key to avoid conflicts in parallel execution
- * @param browserName - The browser name from Playwright (chromium, firefox, webkit, Mobile Chrome, etc.)
- */
-export function getBrowserResetKeyAndUser(browserName: string): { resetKey: string; user: ReturnType<typeof getPendingResetUser> } {
-  const normalizedBrowser = browserName.toLowerCase();
-  
-  if (normalizedBrowser.includes('firefox')) {
-    return { resetKey: getPendingResetUser3().resetKey!, user: getPendingResetUser3() };
-  } else if (normalizedBrowser.includes('mobile') || normalizedBrowser.includes('android') || normalizedBrowser.includes('pixel')) {
-    return { resetKey: getPendingResetUser5().resetKey!, user: getPendingResetUser5() };
-  } else {
-    // Default to chromium/webkit
-    return { resetKey: getPendingResetUser().resetKey!, user: getPendingResetUser() };
-  }
-}
-
-/**
- * Get browser-specific reset key and user for the "login after reset" test
- * Each browser gets its own reset key to avoid conflicts in parallel execution
- * @param browserName - The browser name from Playwright (chromium, firefox, webkit, Mobile Chrome, etc.)
- */
-export function getBrowserLoginAfterResetKeyAndUser(browserName: string): { resetKey: string; user: ReturnType<typeof getPendingResetUser> } {
-  const normalizedBrowser = browserName.toLowerCase();
-  
-  if (normalizedBrowser.includes('firefox')) {
-    return { resetKey: getPendingResetUser4().resetKey!, user: getPendingResetUser4() };
-  } else if (normalizedBrowser.includes('mobile') || normalizedBrowser.includes('android') || normalizedBrowser.includes('pixel')) {
-    return { resetKey: getPendingResetUser6().resetKey!, user: getPendingResetUser6() };
-  } else {
-    // Default to chromium/webkit
-    return { resetKey: getPendingResetUser2().resetKey!, user: getPendingResetUser2() };
-  }
-}
-
 /**
  * Get the expired reset key for expired token testing
  */
@@ -2346,94 +2617,6 @@ export function getExpiredResetKey(): string {
   return user.resetKey;
 }
 
-/**
- * Get the pending activation user 3 (for Firefox browser)
- */
-export function getPendingActivationUser3() {
-  if (!defaultFixtures.users.pendingActivation3) {
-    throw new Error('Pending activation user 3 not found in fixtures');
-  }
-  return { ...defaultFixtures.users.pendingActivation3 };
-}
-
-/**
- * Get the pending activation user 4 (for Firefox browser login-after-activation)
- */
-export function getPendingActivationUser4() {
-  if (!defaultFixtures.users.pendingActivation4) {
-    throw new Error('Pending activation user 4 not found in fixtures');
-  }
-  return { ...defaultFixtures.users.pendingActivation4 };
-}
-
-/**
- * Get the pending activation user 5 (for mobile-chrome browser)
- */
-export function getPendingActivationUser5() {
-  if (!defaultFixtures.users.pendingActivation5) {
-    throw new Error('Pending activation user 5 not found in fixtures');
-  }
-  return { ...defaultFixtures.users.pendingActivation5 };
-}
-
-/**
- * Get the pending activation user 6 (for mobile-chrome browser login-after-activation)
- */
-export function getPendingActivationUser6() {
-  if (!defaultFixtures.users.pendingActivation6) {
-    throw new Error('Pending activation user 6 not found in fixtures');
-  }
-  return { ...defaultFixtures.users.pendingActivation6 };
-}
-
-/**
- * Get browser-specific activation key and user for the "successful activation" test
- * Each browser gets its own activation key to avoid conflicts in parallel execution
- * @param browserName - The browser name from Playwright (chromium, firefox, webkit, Mobile Chrome, etc.)
- */
-export function getBrowserActivationKeyAndUser(browserName: string): { activationKey: string; user: ReturnType<typeof getPendingActivationUser> } {
-  const normalizedBrowser = browserName.toLowerCase();
-  
-  // Debug logging to help diagnose browser detection issues
-  console.log(`[getBrowserActivationKeyAndUser] browserName: "${browserName}", normalized: "${normalizedBrowser}"`);
-  
-  if (normalizedBrowser.includes('firefox')) {
-    console.log(`[getBrowserActivationKeyAndUser] Using Firefox user: pendingActivation3`);
-    return { activationKey: getPendingActivationUser3().activationKey!, user: getPendingActivationUser3() };
-  } else if (normalizedBrowser.includes('mobile') || normalizedBrowser.includes('android') || normalizedBrowser.includes('pixel')) {
-    console.log(`[getBrowserActivationKeyAndUser] Using Mobile user: pendingActivation5`);
-    return { activationKey: getPendingActivationUser5().activationKey!, user: getPendingActivationUser5() };
-  } else {
-    // Default to chromium/webkit
-    console.log(`[getBrowserActivationKeyAndUser] Using Chromium user: pendingActivation`);
-    return { activationKey: getPendingActivationUser().activationKey!, user: getPendingActivationUser() };
-  }
-}
-
-/**
- * Get browser-specific activation key and user for the "login after activation" test
- * Each browser gets its own activation key to avoid conflicts in parallel execution
- * @param browserName - The browser name from Playwright (chromium, firefox, webkit, Mobile Chrome, etc.)
- */
-export function getBrowserLoginAfterActivationKeyAndUser(browserName: string): { activationKey: string; user: ReturnType<typeof getPendingActivationUser> } {
-  const normalizedBrowser = browserName.toLowerCase();
-  
-  // Debug logging to help diagnose browser detection issues
-  console.log(`[getBrowserLoginAfterActivationKeyAndUser] browserName: "${browserName}", normalized: "${normalizedBrowser}"`);
-  
-  if (normalizedBrowser.includes('firefox')) {
-    console.log(`[getBrowserLoginAfterActivationKeyAndUser] Using Firefox user: pendingActivation4`);
-    return { activationKey: getPendingActivationUser4().activationKey!, user: getPendingActivationUser4() };
-  } else if (normalizedBrowser.includes('mobile') || normalizedBrowser.includes('android') || normalizedBrowser.includes('pixel')) {
-    console.log(`[getBrowserLoginAfterActivationKeyAndUser] Using Mobile user: pendingActivation6`);
-    return { activationKey: getPendingActivationUser6().activationKey!, user: getPendingActivationUser6() };
-  } else {
-    // Default to chromium/webkit
-    console.log(`[getBrowserLoginAfterActivationKeyAndUser] Using Chromium user: pendingActivation2`);
-    return { activationKey: getPendingActivationUser2().activationKey!, user: getPendingActivationUser2() };
-  }
-}
-
 /**
  * Get orders for the accountOrders test user
  * These are orders 24-30 which are dedicated for order-history.spec.ts tests
@@ -0,0 +1,822 @@
+/**
+ * Fixture Factories
+ *
+ * Seeded, deterministic builders for every fixture type in ./types.
+ * Each builder fills in sensible defaults, accepts overrides, and computes
+ * derived fields (item totals, order subtotal/tax/shipping/total, satoshi
+ * amounts, batch and COA references) so tests can declare exactly the data
+ * they need.
+ *
+ * Usage:
+ * ```typescript
+ * const factory = createFixtureFactory({ seed: 42, idPrefix: 'order-mgmt' });
+ * const customer = factory.buildUser();
+ * const product = factory.buildProduct({ category: 'BLEND', price: 49.99 });
+ * const order = factory.buildOrder({ status: 'CONFIRMED' }, { user: customer, products: [product] });
+ * await seeder.seedOrders([order]);
+ * ```
+ *
+ * The same seed and build sequence always yields the same data. Dates are
+ * relative to the factory's referenceDate (default: now) - pass a fixed date
+ * for fully reproducible timestamps.
+ */
+
+import {
+  BitcoinPaymentStatus,
+  CoaSubmissionStatus,
+  CreditStatus,
+  E2ETestFixtures,
+  ImageMetadata,
+  ImageVariant,
+  OrderStatus,
+  PaymentStatus,
+  ProductCategory,
+  ProductImages,
+  ShippingMethod,
+  TestAddressBook,
+  TestBatchCoa,
+  TestBitcoinPayment,
+  TestCoaSubmission,
+  TestCoupon,
+  TestCredit,
+  TestInventoryBatch,
+  TestOrder,
+  TestOrderAddress,
+  TestOrderItem,
+  TestProduct,
+  TestSavedAddress,
+  TestShippingAddress,
+  TestUser,
+} from './types';
+import { DEFAULT_SEED, SeededRandom } from './random';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * Sales tax rate applied to order subtotals (matches the default fixtures)
+ */
+export const ORDER_TAX_RATE = 0.0825;
+
+/**
+ * Shipping cost per shipping method
+ */
+export const SHIPPING_COSTS: Record<ShippingMethod, number> = {
+  STANDARD: 9.99,
+  EXPRESS: 19.99,
+  OVERNIGHT: 39.99,
+  PICKUP: 0,
+};
+
+/**
+ * Password for factory users - DataSeeder.seedUsers always stores the hash of this password
+ */
+export const FACTORY_USER_PASSWORD = 'TestPassword123!';
+
+/**
+ * Email domain used by all generated users
+ */
+const EMAIL_DOMAIN = 'test.zenithbioscience.com';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Bech32 alphabet used for generated Bitcoin addresses
+ */
+const BECH32_ALPHABET = 'qpzry9x8gf2tvdw0s3jn54khce6mua7l';
+
+const LABORATORIES = ['E2E Analytical Labs', 'E2E Peptide Testing', 'E2E Purity Services'];
+
+/**
+ * Rejection reasons for COA submissions sent back to the customer
+ */
+const COA_REVIEW_REASONS: Partial<Record<CoaSubmissionStatus, string>> = {
+  REJECTED: 'Batch number on the certificate does not match the order',
+  REQUIRES_MODIFICATION: 'Upload is missing the chromatogram page',
+};
+
+const FIRST_NAMES = ['Alex', 'Jordan', 'Taylor', 'Morgan', 'Casey', 'Riley', 'Jamie', 'Avery', 'Quinn', 'Parker', 'Drew', 'Reese'];
+const LAST_NAMES = ['Smith', 'Johnson', 'Lee', 'Garcia', 'Brown', 'Nguyen', 'Patel', 'Kim', 'Lopez', 'Walker', 'Young', 'Hall'];
+
+const ADDRESSES: Array<Pick<TestOrderAddress, 'addressLine1' | 'city' | 'state' | 'postalCode'>> = [
+  { addressLine1: '417 Montgomery St', city: 'San Francisco', state: 'CA', postalCode: '94104' },
+  { addressLine1: '1600 Larimer St', city: 'Denver', state: 'CO', postalCode: '80202' },
+  { addressLine1: '233 S Wacker Dr', city: 'Chicago', state: 'IL', postalCode: '60606' },
+  { addressLine1: '350 5th Ave', city: 'New York', state: 'NY', postalCode: '10118' },
+  { addressLine1: '1000 Main St', city: 'Houston', state: 'TX', postalCode: '77002' },
+  { addressLine1: '400 Broad St', city: 'Seattle', state: 'WA', postalCode: '98109' },
+];
+
+/**
+ * Name parts and doses per product category
+ */
+const CATEGORY_DETAILS: Record<ProductCategory, { label: string; words: string[]; doses: string[] }> = {
+  PEPTIDE: {
+    label: 'Peptide',
+    words: ['Alpha', 'Beta', 'Gamma', 'Delta', 'Sigma', 'Omega', 'Kappa', 'Lambda', 'Theta', 'Zeta'],
+    doses: ['2mg', '5mg', '10mg', '20mg'],
+  },
+  BLEND: {
+    label: 'Blend',
+    words: ['Recovery', 'Vitality', 'Focus', 'Balance', 'Renewal', 'Endurance', 'Clarity', 'Restore'],
+    doses: ['10mg', '20mg', '30mg'],
+  },
+  BAC_WATER: {
+    label: 'Bacteriostatic Water',
+    words: ['Standard', 'Sterile', 'Clinical', 'Research', 'Lab'],
+    doses: ['3ml', '10ml', '30ml'],
+  },
+};
+
+/**
+ * Every ProductCategory
+ */
+export const PRODUCT_CATEGORIES: ProductCategory[] = ['PEPTIDE', 'BLEND', 'BAC_WATER'];
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Options for creating a FixtureFactory
+ */
+export interface FixtureFactoryOptions {
+  /** PRNG seed */
+  seed: number;
+  /** Prefix for generated ids, emails, slugs and codes - keep it unique per spec file */
+  idPrefix: string;
+  /** Base date that generated dates are relative to */
+  referenceDate: Date;
+}
+
+/**
+ * Extra inputs for buildOrder
+ */
+export interface BuildOrderOptions {
+  /** Customer placing the order - sets userId, customerEmail, customerName and addresses */
+  user?: TestUser;
+  /** Products to build items from when items are not overridden (default: one new product) */
+  products?: TestProduct[];
+  /** Tax rate used to compute tax (default: ORDER_TAX_RATE) */
+  taxRate?: number;
+}
+
+/**
+ * Extra inputs for buildBitcoinPayment
+ */
+export interface BuildBitcoinPaymentOptions {
+  /** Order being paid - sets orderId, userId and amount */
+  order?: TestOrder;
+}
+
+/**
+ * Extra inputs for buildInventoryBatch
+ */
+export interface BuildInventoryBatchOptions {
+  /** Product the batch belongs to - sets productSlug (default: a new product) */
+  product?: TestProduct;
+}
+
+/**
+ * Extra inputs for buildCredit
+ */
+export interface BuildCreditOptions {
+  /** Owner of the credit - sets userEmail (default: a new user) */
+  user?: TestUser;
+}
+
+/**
+ * Extra inputs for buildCoaSubmission
+ */
+export interface BuildCoaSubmissionOptions {
+  /** Submitter - sets userEmail (default: the order's customer, or a new user) */
+  user?: TestUser;
+  /** Order the certificate was tested from - sets orderNumber and the product and batch of its first item */
+  order?: TestOrder;
+}
+
+/**
+ * Extra inputs for buildAddressBook
+ */
+export interface BuildAddressBookOptions {
+  /** Owner of the address book - sets userEmail (default: a new user) */
+  user?: TestUser;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function pad(value: number, length: number): string {
+  return String(value).padStart(length, '0');
+}
+
+function slugify(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+}
+
+/**
+ * Maps an order status to a consistent payment status
+ */
+export function paymentStatusForOrder(status: OrderStatus): PaymentStatus {
+  switch (status) {
+    case 'AWAITING_PAYMENT':
+      return 'PENDING';
+    case 'CANCELLED':
+      return 'CANCELLED';
+    default:
+      return 'COMPLETED';
+  }
+}
+
+/**
+ * Converts a USD amount to satoshis at a BTC/USD rate
+ */
+export function usdToSats(amount: number, btcUsdRate: number): number {
+  return Math.round((amount / btcUsdRate) * 100_000_000);
+}
+
+// ============================================================================
+// FixtureFactory
+// ============================================================================
+
+/**
+ * FixtureFactory class for building test data
+ *
+ * Provides builders for:
+ * - Users, products (with images), coupons
+ * - Inventory batches and their certificates of analysis
+ * - Order items, addresses, orders
+ * - Saved addresses, address books and shipping addresses
+ * - Bitcoin payments, credits and COA submissions
+ * - Complete E2ETestFixtures sets
+ */
+export class FixtureFactory {
+  readonly random: SeededRandom;
+  readonly idPrefix: string;
+  readonly referenceDate: Date;
+  private sequences = new Map<string, number>();
+
+  /**
+   * Creates a new FixtureFactory instance
+   * @param options - Optional seed, id prefix and reference date
+   */
+  constructor(options: Partial<FixtureFactoryOptions> = {}) {
+    this.random = new SeededRandom(options.seed ?? DEFAULT_SEED);
+    this.idPrefix = options.idPrefix ?? 'factory';
+    this.referenceDate = options.referenceDate ?? new Date();
+  }
+
+  /**
+   * Returns the next 1-based sequence number for a kind of record
+   */
+  private nextSequence(kind: string): number {
+    const next = (this.sequences.get(kind) ?? 0) + 1;
+    this.sequences.set(kind, next);
+    return next;
+  }
+
+  /**
+   * Returns a date offset from the reference date
+   */
+  private dateFromReference(offsetMs: number): Date {
+    return new Date(this.referenceDate.getTime() + offsetMs);
+  }
+
+  // ==========================================================================
+  // Users
+  // ==========================================================================
+
+  /**
+   * Builds an activated customer
+   * @param overrides - Fields to override
+   */
+  buildUser(overrides: Partial<TestUser> = {}): TestUser {
+    const seq = this.nextSequence('user');
+    const name = `${this.idPrefix}-user-${pad(seq, 4)}`;
+
+    return {
+      id: name,
+      email: `${name}@${EMAIL_DOMAIN}`,
+      password: FACTORY_USER_PASSWORD,
+      firstName: this.random.pick(FIRST_NAMES),
+      lastName: this.random.pick(LAST_NAMES),
+      authorities: ['ROLE_USER'],
+      activated: true,
+      ...overrides,
+    };
+  }
+
+  /**
+   * Builds an activated admin
+   * @param overrides - Fields to override
+   */
+  buildAdmin(overrides: Partial<TestUser> = {}): TestUser {
+    return this.buildUser({ authorities: ['ROLE_USER', 'ROLE_ADMIN'], ...overrides });
+  }
+
+  // ==========================================================================
+  // Products
+  // ==========================================================================
+
+  /**
+   * Builds an in-stock product
+   * Slug and SKU are derived from the name; salePrice defaults to 80% of price when onSale
+   * @param overrides - Fields to override
+   */
+  buildProduct(overrides: Partial<TestProduct> = {}): TestProduct {
+    const seq = this.nextSequence('product');
+    const category = overrides.category ?? this.random.pick(PRODUCT_CATEGORIES);
+    const details = CATEGORY_DETAILS[category];
+    const name = overrides.name ?? `${details.label} ${this.random.pick(details.words)} ${pad(seq, 4)}`;
+    const price = overrides.price ?? this.random.money(19.99, 299.99);
+    const onSale = overrides.onSale ?? false;
+
+    return {
+      id: `${this.idPrefix}-prod-${pad(seq, 4)}`,
+      slug: `${this.idPrefix}-${slugify(name)}`,
+      sku: `${this.idPrefix.toUpperCase()}-${category}-${pad(seq, 4)}`,
+      name,
+      description: `${name} for E2E testing`,
+      category,
+      onSale,
+      isFeatured: false,
+      inventory: 100,
+      price,
+      salePrice: onSale ? roundMoney(price * 0.8) : undefined,
+      dose: this.random.pick(details.doses),
+      ...overrides,
+    };
+  }
+
+  /**
+   * Builds product images with a thumbnail and medium variant
+   * @param overrides - Fields to override
+   */
+  buildProductImages(overrides: Partial<ProductImages> = {}): ProductImages {
+    const seq = this.nextSequence('image');
+    const baseUrl = `https://cdn.test.zenithbioscience.com/products/${this.idPrefix}-${pad(seq, 4)}`;
+    const variant = (name: string, size: number): ImageVariant => ({
+      url: `${baseUrl}/${name}.webp`,
+      width: size,
+      height: size,
+      fileSize: size * size * 0.1,
+      format: 'webp',
+    });
+    const metadata: ImageMetadata = {
+      originalFormat: 'png',
+      originalSize: this.random.int(200_000, 2_000_000),
+      uploadedAt: this.dateFromReference(-30 * DAY_MS),
+      uploadedBy: 'e2e-seeder',
+    };
+
+    return {
+      originalUrl: `${baseUrl}/original.png`,
+      variants: {
+        thumbnail: variant('thumbnail', 150),
+        medium: variant('medium', 600),
+      },
+      metadata,
+      ...overrides,
+    };
+  }
+
+  // ==========================================================================
+  // Inventory batches
+  // ==========================================================================
+
+  /**
+   * Builds an active one-year inventory batch
+   * Batch numbers use the ZB{YYMMDD}8xxx range, clear of DataSeeder's default
+   * batches (from 0001) and the default fixture batches (9xxx)
+   * @param overrides - Fields to override
+   * @param options - Product the batch belongs to
+   */
+  buildInventoryBatch(
+    overrides: Partial<TestInventoryBatch> = {},
+    options: BuildInventoryBatchOptions = {}
+  ): TestInventoryBatch {
+    const seq = this.nextSequence('batch');
+    const dateStr = this.referenceDate.toISOString().slice(2, 10).replace(/-/g, '');
+
+    return {
+      batchNumber: `ZB${dateStr}${8000 + (seq % 1000)}`,
+      productSlug: (options.product ?? this.buildProduct()).slug,
+      quantity: this.random.int(100, 1000),
+      expiryDate: this.dateFromReference(365 * DAY_MS),
+      manufactureDate: this.dateFromReference(-30 * DAY_MS),
+      supplier: 'E2E Test Supplier',
+      ...overrides,
+    };
+  }
+
+  /**
+   * Builds a certificate of analysis to attach to a batch
+   * @param overrides - Fields to override
+   */
+  buildBatchCoa(overrides: Partial<TestBatchCoa> = {}): TestBatchCoa {
+    const id = `${this.idPrefix}-coa-${pad(this.nextSequence('batchCoa'), 4)}`;
+
+    return {
+      id,
+      laboratory: this.random.pick(LABORATORIES),
+      testDate: this.dateFromReference(-25 * DAY_MS),
+      purity: this.random.money(98.5, 99.9),
+      reportUrl: `https://test.zenithbioscience.com/coa/${id}.pdf`,
+      ...overrides,
+    };
+  }
+
+  // ==========================================================================
+  // Coupons
+  // ==========================================================================
+
+  /**
+   * Builds a 10% percentage coupon
+   * @param overrides - Fields to override
+   */
+  buildCoupon(overrides: Partial<TestCoupon> = {}): TestCoupon {
+    const seq = this.nextSequence('coupon');
+
+    return {
+      code: `${this.idPrefix.toUpperCase().replace(/[^A-Z0-9]/g, '')}${pad(seq, 3)}`,
+      discountType: 'PERCENTAGE',
+      discountValue: 10,
+      ...overrides,
+    };
+  }
+
+  // ==========================================================================
+  // Addresses
+  // ==========================================================================
+
+  /**
+   * Builds a US order address
+   * @param overrides - Fields to override
+   */
+  buildOrderAddress(overrides: Partial<TestOrderAddress> = {}): TestOrderAddress {
+    return {
+      firstName: this.random.pick(FIRST_NAMES),
+      lastName: this.random.pick(LAST_NAMES),
+      ...this.random.pick(ADDRESSES),
+      country: 'US',
+      phoneNumber: `+1555${pad(this.random.int(0, 9_999_999), 7)}`,
+      ...overrides,
+    };
+  }
+
+  /**
+   * Builds a saved address-book entry (shipping unless overridden)
+   * @param overrides - Fields to override
+   */
+  buildSavedAddress(overrides: Partial<TestSavedAddress> = {}): TestSavedAddress {
+    return {
+      ...this.buildOrderAddress(),
+      addressType: 'SHIPPING',
+      ...overrides,
+    };
+  }
+
+  /**
+   * Builds an address book with a default shipping and a default billing address
+   * @param overrides - Fields to override
+   * @param options - Owner of the address book
+   */
+  buildAddressBook(overrides: Partial<TestAddressBook> = {}, options: BuildAddressBookOptions = {}): TestAddressBook {
+    const user = options.user ?? this.buildUser();
+    const name = { firstName: user.firstName, lastName: user.lastName || 'Customer' };
+
+    return {
+      userEmail: user.email,
+      addresses: [
+        this.buildSavedAddress({ ...name, addressType: 'SHIPPING', isDefault: true }),
+        this.buildSavedAddress({ ...name, addressType: 'BILLING', isDefault: true }),
+      ],
+      ...overrides,
+    };
+  }
+
+  /**
+   * Builds a valid checkout shipping address
+   * @param overrides - Fields to override
+   */
+  buildShippingAddress(overrides: Partial<TestShippingAddress> = {}): TestShippingAddress {
+    const address = this.buildOrderAddress();
+
+    return {
+      firstName: address.firstName,
+      lastName: address.lastName,
+      email: `${this.idPrefix}-shipping-${pad(this.nextSequence('shipping'), 4)}@${EMAIL_DOMAIN}`,
+      address1: address.addressLine1,
+      city: address.city,
+      state: address.state,
+      zip: address.postalCode,
+      country: address.country,
+      phoneNumber: address.phoneNumber!.replace('+1', ''),
+      ...overrides,
+    };
+  }
+
+  // ==========================================================================
+  // Orders
+  // ==========================================================================
+
+  /**
+   * Builds an order item, optionally from a product
+   * unitPrice uses the sale price for on-sale products; totalPrice is always unitPrice * quantity
+   * @param overrides - Fields to override
+   * @param product - Product being ordered (default: a new product)
+   */
+  buildOrderItem(overrides: Partial<TestOrderItem> = {}, product?: TestProduct): TestOrderItem {
+    const source = product ?? this.buildProduct();
+    const quantity = overrides.quantity ?? this.random.int(1, 3);
+    const unitPrice =
+      overrides.unitPrice ?? (source.onSale && source.salePrice ? source.salePrice : source.price);
+
+    return {
+      productId: source.id,
+      productName: source.name,
+      productSku: source.sku,
+      productDose: source.dose,
+      ...overrides,
+      quantity,
+      unitPrice,
+      totalPrice: roundMoney(unitPrice * quantity),
+    };
+  }
+
+  /**
+   * Builds an order with totals computed from its items
+   * subtotal, tax, shippingCost and total are derived unless explicitly overridden;
+   * paymentStatus follows status unless overridden
+   * @param overrides - Fields to override
+   * @param options - Customer, products and tax rate
+   */
+  buildOrder(overrides: Partial<TestOrder> = {}, options: BuildOrderOptions = {}): TestOrder {
+    const seq = this.nextSequence('order');
+    const user = options.user ?? this.buildUser();
+    const products = options.products ?? [this.buildProduct()];
+    const items = overrides.items ?? products.map((product) => this.buildOrderItem({}, product));
+    const status = overrides.status ?? 'PENDING';
+    const shippingMethod = overrides.shippingMethod ?? 'STANDARD';
+    const address = this.buildOrderAddress({
+      firstName: user.firstName,
+      lastName: user.lastName || 'Customer',
+    });
+
+    const subtotal = overrides.subtotal ?? roundMoney(items.reduce((sum, item) => sum + item.totalPrice, 0));
+    const discountAmount = overrides.discountAmount ?? 0;
+    const tax = overrides.tax ?? roundMoney((subtotal - discountAmount) * (options.taxRate ?? ORDER_TAX_RATE));
+    const shippingCost = overrides.shippingCost ?? SHIPPING_COSTS[shippingMethod];
+    const dateStr = this.referenceDate.toISOString().slice(2, 10).replace(/-/g, '');
+
+    return {
+      id: `${this.idPrefix}-order-${pad(seq, 4)}`,
+      // ZF prefix keeps factory order numbers clear of the default ZB fixtures
+      orderNumber: `ZF${dateStr}${pad(seq, 4)}`,
+      userId: user.id,
+      customerEmail: user.email,
+      customerName: `${user.firstName} ${user.lastName || ''}`.trim(),
+      items,
+      shippingAddress: address,
+      billingAddress: { ...address },
+      status,
+      paymentStatus: paymentStatusForOrder(status),
+      paymentMethod: 'CASHAPP',
+      shippingMethod,
+      subtotal,
+      tax,
+      shippingCost,
+      total: roundMoney(subtotal - discountAmount + tax + shippingCost),
+      orderDate: this.dateFromReference(-DAY_MS),
+      trackingNumber: status === 'SHIPPED' || status === 'DELIVERED' ? `1Z${this.random.hex(16).toUpperCase()}` : undefined,
+      ...(discountAmount > 0 ? { discountAmount } : {}),
+      ...overrides,
+    };
+  }
+
+  // ==========================================================================
+  // Bitcoin payments
+  // ==========================================================================
+
+  /**
+   * Builds a testnet Bitcoin payment
+   * expectedSats is derived from amount and lockedBtcUsdRate; received/confirmed
+   * amounts, confirmations and txids follow the status unless overridden
+   * @param overrides - Fields to override
+   * @param options - Order being paid
+   */
+  buildBitcoinPayment(
+    overrides: Partial<TestBitcoinPayment> = {},
+    options: BuildBitcoinPaymentOptions = {}
+  ): TestBitcoinPayment {
+    const seq = this.nextSequence('bitcoinPayment');
+    const status: BitcoinPaymentStatus = overrides.status ?? 'PENDING';
+    const network = overrides.blockchainNetwork ?? 'bitcoin-testnet';
+    const addressPrefix = network === 'bitcoin-mainnet' ? 'bc1q' : 'tb1q';
+    const amount = overrides.amount ?? options.order?.total ?? this.random.money(19.99, 499.99);
+    const lockedBtcUsdRate = overrides.lockedBtcUsdRate ?? 40000;
+    const expectedSats = overrides.expectedSats ?? usdToSats(amount, lockedBtcUsdRate);
+
+    const isPaid = status === 'PROCESSING' || status === 'COMPLETED' || status === 'REFUNDED';
+    const receivedSats = overrides.receivedSats ?? (isPaid ? expectedSats : 0);
+    const confirmationCount =
+      overrides.confirmationCount ?? (status === 'COMPLETED' || status === 'REFUNDED' ? 6 : status === 'PROCESSING' ? 1 : 0);
+
+    return {
+      id: `${this.idPrefix}-btc-payment-${pad(seq, 4)}`,
+      orderId: options.order?.id ?? `${this.idPrefix}-order-btc-${pad(seq, 4)}`,
+      userId: options.order?.userId ?? `${this.idPrefix}-user-btc-${pad(seq, 4)}`,
+      amount,
+      status,
+      blockchainNetwork: network,
+      tokenSymbol: 'BTC',
+      recipientWalletAddress: `${addressPrefix}${this.random.string(38, BECH32_ALPHABET)}`,
+      senderWalletAddress: receivedSats > 0 ? `${addressPrefix}${this.random.string(38, BECH32_ALPHABET)}` : undefined,
+      derivationIndex: seq - 1,
+      expectedSats,
+      receivedSats,
+      confirmedSats: confirmationCount > 0 ? receivedSats : 0,
+      lockedBtcUsdRate,
+      txids: receivedSats > 0 ? [this.random.hex(64)] : [],
+      confirmationCount,
+      underpaid: receivedSats > 0 && receivedSats < expectedSats,
+      overpaid: receivedSats > expectedSats,
+      expiresAt: status === 'TIMEOUT' ? this.dateFromReference(-HOUR_MS) : this.dateFromReference(HOUR_MS),
+      paymentDate: isPaid ? this.dateFromReference(-DAY_MS) : undefined,
+      complianceStatus: 'PENDING',
+      ...overrides,
+    };
+  }
+
+  // ==========================================================================
+  // Credits
+  // ==========================================================================
+
+  /**
+   * Builds an active manual store credit
+   * expirationDate and usedDate follow the status unless overridden
+   * @param overrides - Fields to override
+   * @param options - Owner of the credit
+   */
+  buildCredit(overrides: Partial<TestCredit> = {}, options: BuildCreditOptions = {}): TestCredit {
+    const seq = this.nextSequence('credit');
+    const status: CreditStatus = overrides.status ?? 'ACTIVE';
+
+    return {
+      id: `${this.idPrefix}-credit-${pad(seq, 4)}`,
+      userEmail: (options.user ?? this.buildUser()).email,
+      type: 'MANUAL_ADJUSTMENT',
+      status,
+      amount: this.random.money(5, 50),
+      description: `E2E store credit ${pad(seq, 4)}`,
+      createdDate: this.dateFromReference(-30 * DAY_MS),
+      expirationDate: this.dateFromReference(status === 'EXPIRED' ? -DAY_MS : 180 * DAY_MS),
+      usedDate: status === 'USED' ? this.dateFromReference(-DAY_MS) : undefined,
+      ...overrides,
+    };
+  }
+
+  // ==========================================================================
+  // COA submissions
+  // ==========================================================================
+
+  /**
+   * Builds a COA submission awaiting review
+   * reviewedDate, creditAmount and rejectionReason follow the status unless overridden
+   * @param overrides - Fields to override
+   * @param options - Submitter and the order the certificate belongs to
+   */
+  buildCoaSubmission(
+    overrides: Partial<TestCoaSubmission> = {},
+    options: BuildCoaSubmissionOptions = {}
+  ): TestCoaSubmission {
+    const seq = this.nextSequence('coaSubmission');
+    const status: CoaSubmissionStatus = overrides.status ?? 'PENDING_REVIEW';
+    const order = options.order ?? this.buildOrder({}, { user: options.user });
+    const item = order.items[0];
+    const id = `${this.idPrefix}-coa-submission-${pad(seq, 4)}`;
+
+    return {
+      id,
+      userEmail: options.user?.email ?? order.customerEmail,
+      orderNumber: order.orderNumber,
+      productId: item.productId,
+      productName: item.productName,
+      batchNumber: item.batchNumber ?? this.buildInventoryBatch().batchNumber,
+      status,
+      testingProvider: 'Janoshik Analytical',
+      laboratory: this.random.pick(LABORATORIES),
+      testDate: this.dateFromReference(-4 * DAY_MS),
+      fileName: `${id}.pdf`,
+      submissionDate: this.dateFromReference(-2 * DAY_MS),
+      reviewedDate: status === 'PENDING_REVIEW' ? undefined : this.dateFromReference(-DAY_MS),
+      creditAmount: status === 'APPROVED' ? 25 : undefined,
+      rejectionReason: COA_REVIEW_REASONS[status],
+      ...overrides,
+    };
+  }
+
+  // ==========================================================================
+  // Fixture sets
+  // ==========================================================================
+
+  /**
+   * Builds a complete fixture set with one product per category and an order per product
+   * @param overrides - Top-level fields to override
+   */
+  buildFixtures(overrides: Partial<E2ETestFixtures> = {}): E2ETestFixtures {
+    const customer = this.buildUser({ firstName: 'Test', lastName: 'Customer' });
+    const products = PRODUCT_CATEGORIES.map((category) => this.buildProduct({ category }));
+
+    return {
+      users: {
+        customer,
+        admin: this.buildAdmin({ firstName: 'Test', lastName: 'Admin' }),
+        unverified: this.buildUser({ firstName: 'Test', lastName: 'Unverified', activated: false }),
+      },
+      products,
+      coupons: {
+        percentage: this.buildCoupon(),
+        fixed: this.buildCoupon({ discountType: 'FIXED', discountValue: 20, minOrderAmount: 50 }),
+        expired: this.buildCoupon({
+          code: `${this.idPrefix.toUpperCase().replace(/[^A-Z0-9]/g, '')}EXPIRED`,
+          active: false,
+          validUntil: this.dateFromReference(-DAY_MS),
+        }),
+      },
+      orders: products.map((product) => this.buildOrder({}, { user: customer, products: [product] })),
+      ...overrides,
+    };
+  }
+}
+
+// ============================================================================
+// Default factory
+// ============================================================================
+
+/**
+ * Shared factory instance used by the standalone build* functions
+ */
+let defaultFactory = new FixtureFactory();
+
+/**
+ * Creates a new FixtureFactory instance
+ * @param options - Seed, id prefix and reference date
+ * @returns New FixtureFactory instance
+ */
+export function createFixtureFactory(options?: Partial<FixtureFactoryOptions>): FixtureFactory {
+  return new FixtureFactory(options);
+}
+
+/**
+ * Resets the shared factory so the build* functions start a fresh sequence
+ * @param options - Seed, id prefix and reference date
+ */
+export function resetFixtureFactory(options?: Partial<FixtureFactoryOptions>): void {
+  defaultFactory = new FixtureFactory(options);
+}
+
+export const buildUser = (overrides?: Partial<TestUser>): TestUser => defaultFactory.buildUser(overrides);
+export const buildAdmin = (overrides?: Partial<TestUser>): TestUser => defaultFactory.buildAdmin(overrides);
+export const buildProduct = (overrides?: Partial<TestProduct>): TestProduct => defaultFactory.buildProduct(overrides);
+export const buildProductImages = (overrides?: Partial<ProductImages>): ProductImages =>
+  defaultFactory.buildProductImages(overrides);
+export const buildCoupon = (overrides?: Partial<TestCoupon>): TestCoupon => defaultFactory.buildCoupon(overrides);
+export const buildInventoryBatch = (
+  overrides?: Partial<TestInventoryBatch>,
+  options?: BuildInventoryBatchOptions
+): TestInventoryBatch => defaultFactory.buildInventoryBatch(overrides, options);
+export const buildBatchCoa = (overrides?: Partial<TestBatchCoa>): TestBatchCoa => defaultFactory.buildBatchCoa(overrides);
+export const buildOrderAddress = (overrides?: Partial<TestOrderAddress>): TestOrderAddress =>
+  defaultFactory.buildOrderAddress(overrides);
+export const buildSavedAddress = (overrides?: Partial<TestSavedAddress>): TestSavedAddress =>
+  defaultFactory.buildSavedAddress(overrides);
+export const buildAddressBook = (
+  overrides?: Partial<TestAddressBook>,
+  options?: BuildAddressBookOptions
+): TestAddressBook => defaultFactory.buildAddressBook(overrides, options);
+export const buildShippingAddress = (overrides?: Partial<TestShippingAddress>): TestShippingAddress =>
+  defaultFactory.buildShippingAddress(overrides);
+export const buildOrderItem = (overrides?: Partial<TestOrderItem>, product?: TestProduct): TestOrderItem =>
+  defaultFactory.buildOrderItem(overrides, product);
+export const buildOrder = (overrides?: Partial<TestOrder>, options?: BuildOrderOptions): TestOrder =>
+  defaultFactory.buildOrder(overrides, options);
+export const buildBitcoinPayment = (
+  overrides?: Partial<TestBitcoinPayment>,
+  options?: BuildBitcoinPaymentOptions
+): TestBitcoinPayment => defaultFactory.buildBitcoinPayment(overrides, options);
+export const buildCredit = (overrides?: Partial<TestCredit>, options?: BuildCreditOptions): TestCredit =>
+  defaultFactory.buildCredit(overrides, options);
+export const buildCoaSubmission = (
+  overrides?: Partial<TestCoaSubmission>,
+  options?: BuildCoaSubmissionOptions
+): TestCoaSubmission => defaultFactory.buildCoaSubmission(overrides, options);
+export const buildFixtures = (overrides?: Partial<E2ETestFixtures>): E2ETestFixtures =>
+  defaultFactory.buildFixtures(overrides);
@@ -0,0 +1,174 @@
+/**
+ * Database Isolation
+ *
+ * Resolves which MongoDB database - and which backend - a Playwright worker
+ * talks to. With isolation enabled every worker (or project) gets its own copy
+ * of the seeded database, so specs can run fully parallel without sharing
+ * carts, orders or one-time activation/reset keys.
+ *
+ * Selected with E2E_DB_ISOLATION:
+ * - shared (default): every worker uses MONGODB_DATABASE
+ * - worker: one database per worker, e.g. zenith_e2e_w0, zenith_e2e_w1
+ * - project: one database per project, e.g. zenith_e2e_chromium
+ *
+ * Routing tests to the isolated database needs backend support, either:
+ * - One backend per database: E2E_WORKER_BACKEND_URLS (and E2E_WORKER_FRONTEND_URLS
+ *   when each backend has its own frontend) list the instances, paired by index.
+ *   Instance N must be configured for the database of worker/project N.
+ * - A tenant-aware backend: requests carry the X-E2E-Database header and the
+ *   backend selects the database from it (header must be allowed by CORS)
+ */
+
+/**
+ * Isolation mode name
+ */
+export type DatabaseIsolationMode = 'shared' | 'worker' | 'project';
+
+/**
+ * Environment variable used to select the isolation mode
+ */
+export const DB_ISOLATION_ENV = 'E2E_DB_ISOLATION';
+
+/**
+ * Header that tells a tenant-aware backend which database to use
+ */
+export const TENANT_DATABASE_HEADER = 'X-E2E-Database';
+
+const ISOLATION_MODES: DatabaseIsolationMode[] = ['shared', 'worker', 'project'];
+
+/**
+ * Where a worker's tests should send their traffic
+ */
+export interface IsolationTarget {
+  mode: DatabaseIsolationMode;
+  /** Database the worker's data lives in */
+  databaseName: string;
+  /** Backend API URL for this worker */
+  backendUrl: string;
+  /** Frontend URL for this worker */
+  frontendUrl: string;
+  /** Extra headers for browser and API requests (tenant routing) */
+  headers: Record<string, string>;
+}
+
+/**
+ * Identifies the worker or project a target is resolved for
+ */
+export interface IsolationSlot {
+  /** Playwright workerInfo.parallelIndex */
+  parallelIndex: number;
+  /** Playwright project name */
+  projectName: string;
+  /** Index of the project in the config - pairs projects with backend instances */
+  projectIndex: number;
+}
+
+/**
+ * Resolves the isolation mode
+ * @param value - Mode name (default: the E2E_DB_ISOLATION environment variable)
+ * @returns The isolation mode, 'shared' when unset
+ * @throws Error if the value is not a known mode
+ */
+export function resolveDatabaseIsolation(
+  value: string | undefined = process.env[DB_ISOLATION_ENV]
+): DatabaseIsolationMode {
+  const mode = (value || 'shared').trim().toLowerCase() as DatabaseIsolationMode;
+
+  if (!ISOLATION_MODES.includes(mode)) {
+    throw new Error(
+      `[Isolation] Unknown database isolation mode "${value}" (expected one of: ${ISOLATION_MODES.join(', ')})`
+    );
+  }
+
+  return mode;
+}
+
+/**
+ * Gets the database name for a worker or project
+ * @param baseName - Shared database name (e.g. zenith_e2e)
+ * @param mode - Isolation mode
+ * @param slot - Worker/project identity
+ * @returns Database name to use
+ */
+export function getIsolatedDatabaseName(
+  baseName: string,
+  mode: DatabaseIsolationMode,
+  slot: Pick<IsolationSlot, 'parallelIndex' | 'projectName'>
+): string {
+  switch (mode) {
+    case 'worker':
+      return `${baseName}_w${slot.parallelIndex}`;
+    case 'project':
+      return `${baseName}_${slot.projectName.toLowerCase().replace(/[^a-z0-9]+/g, '_')}`;
+    default:
+      return baseName;
+  }
+}
+
+/**
+ * Splits a comma-separated URL list from the environment
+ */
+function readUrlList(name: string): string[] {
+  return (process.env[name] || '')
+    .split(',')
+    .map((url) => url.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Resolves the database, backend and headers for a worker or project
+ * Dedicated backend instances win over header routing when configured
+ * @param slot - Worker/project identity
+ * @param defaults - Shared database name and URLs
+ * @returns Isolation target
+ */
+export function resolveIsolationTarget(
+  slot: IsolationSlot,
+  defaults: { databaseName: string; backendUrl: string; frontendUrl: string }
+): IsolationTarget {
+  const mode = resolveDatabaseIsolation();
+  const databaseName = getIsolatedDatabaseName(defaults.databaseName, mode, slot);
+
+  if (mode === 'shared') {
+    return { mode, databaseName, backendUrl: defaults.backendUrl, frontendUrl: defaults.frontendUrl, headers: {} };
+  }
+
+  const backendUrls = readUrlList('E2E_WORKER_BACKEND_URLS');
+  const frontendUrls = readUrlList('E2E_WORKER_FRONTEND_URLS');
+  const index = mode === 'worker' ? slot.parallelIndex : slot.projectIndex;
+
+  if (backendUrls.length > 0) {
+    if (index >= backendUrls.length) {
+      throw new Error(
+        `[Isolation] No backend instance for ${mode} ${index} - E2E_WORKER_BACKEND_URLS lists ${backendUrls.length} ` +
+          `(lower --workers or add instances)`
+      );
+    }
+    return {
+      mode,
+      databaseName,
+      backendUrl: backendUrls[index],
+      frontendUrl: frontendUrls[index] ?? defaults.frontendUrl,
+      headers: {},
+    };
+  }
+
+  return {
+    mode,
+    databaseName,
+    backendUrl: defaults.backendUrl,
+    frontendUrl: defaults.frontendUrl,
+    headers: { [TENANT_DATABASE_HEADER]: databaseName },
+  };
+}
+
+/**
+ * Checks whether other workers may be using the target's database at the same time
+ * Only worker mode gives a worker a database of its own - a project database
+ * is shared by every worker of the project
+ * @param target - The worker's isolation target
+ * @param workers - Worker count of the run
+ */
+export function isDatabaseShared(target: IsolationTarget, workers: number): boolean {
+  return target.mode !== 'worker' && workers > 1;
+}
@@ -0,0 +1,475 @@
+/**
+ * Fixture Leases
+ *
+ * Hands out seeded fixture entities (users, orders, Bitcoin payments, COA
+ * submissions) to one test at a time across all workers. Tests that change an
+ * entity - cancel an order, change a password, pay an invoice - lease it first
+ * instead of relying on naming conventions to keep other tests away:
+ *
+ * ```typescript
+ * test('cancels an order', async ({ leases }) => {
+ *   const order = await leases.order((o) => o.status === 'AWAITING_PAYMENT');
+ *   // ... cancel it ...
+ *   await leases.consume(order);
+ * });
+ * ```
+ *
+ * Leases are released when the test finishes. Consumed entities are never
+ * handed out again in the run (until their database is restored from a
+ * snapshot). When every candidate is consumed, or still leased after the
+ * wait timeout, the pool has run dry and acquire() fails with a report.
+ *
+ * State lives in a JSON file guarded by an exclusive lock file, so it is
+ * shared by every worker process. It sits under test-results/, which
+ * Playwright cleans before every run.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { randomBytes } from 'crypto';
+import { defaultFixtures, getAccountOrdersUserOrders, getIsolatedUser, isolatedTestUsers } from './defaultFixtures';
+import { TestBitcoinPayment, TestCoaSubmission, TestOrder, TestUser } from './types';
+
+/**
+ * Directory holding the lease state and lock files
+ */
+export const LEASE_DIR = path.join(__dirname, '..', 'test-results', '.leases');
+
+/**
+ * Kinds of entity that can be leased
+ */
+export type LeasePool = 'users' | 'orders' | 'bitcoinPayments' | 'coaSubmissions';
+
+/**
+ * An active lease
+ */
+interface LeaseRecord {
+  holder: string;
+  /** Worker process holding the lease - leases of dead processes are dropped */
+  pid: number;
+  acquiredAt: string;
+}
+
+/**
+ * A consumed entity
+ */
+interface ConsumedRecord {
+  holder: string;
+  consumedAt: string;
+}
+
+/**
+ * Contents of the state file, keyed by `<scope>/<pool>/<id>`
+ */
+interface LeaseState {
+  leases: Record<string, LeaseRecord>;
+  consumed: Record<string, ConsumedRecord>;
+}
+
+/**
+ * LeaseManager configuration
+ */
+export interface LeaseManagerConfig {
+  /** Identifies the test holding leases */
+  holder: string;
+  /** Namespace for entity ids - the database the entities live in */
+  scope: string;
+  /** State/lock directory (default: LEASE_DIR) */
+  directory?: string;
+  /** How long acquire() waits for a leased entity to be released (default: 60s) */
+  waitTimeoutMs?: number;
+}
+
+/**
+ * Free/leased/consumed counts for a set of candidates
+ */
+export interface LeasePoolStatus {
+  free: string[];
+  leased: Array<{ id: string; holder: string }>;
+  consumed: string[];
+}
+
+/**
+ * Lock files older than this, or held by a dead process, are assumed to belong to a crashed process
+ */
+const LOCK_STALE_MS = 10_000;
+const LOCK_RETRY_MS = 25;
+const ACQUIRE_RETRY_MS = 250;
+const DEFAULT_WAIT_TIMEOUT_MS = 60_000;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM means the process exists but belongs to someone else
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+/**
+ * Cross-process lease bookkeeping
+ */
+export class LeaseManager {
+  private readonly directory: string;
+  private readonly stateFile: string;
+  private readonly lockFile: string;
+  private readonly waitTimeoutMs: number;
+  /** Contents of the lock file while this manager holds it (`<pid>:<nonce>`) */
+  private lockToken: string | null = null;
+
+  /**
+   * @param config - Holder, scope and optional directory/timeout
+   */
+  constructor(private readonly config: LeaseManagerConfig) {
+    this.directory = config.directory ?? LEASE_DIR;
+    this.stateFile = path.join(this.directory, 'leases.json');
+    this.lockFile = path.join(this.directory, 'leases.lock');
+    this.waitTimeoutMs = config.waitTimeoutMs ?? DEFAULT_WAIT_TIMEOUT_MS;
+  }
+
+  private key(pool: LeasePool, id: string): string {
+    return `${this.config.scope}/${pool}/${id}`;
+  }
+
+  // ============================================================================
+  // Locking
+  // ============================================================================
+
+  /**
+   * Takes the lock file, waiting while another process holds it
+   * Breaks locks left behind by crashed processes
+   */
+  private async lock(): Promise<void> {
+    fs.mkdirSync(this.directory, { recursive: true });
+    const token = `${process.pid}:${randomBytes(8).toString('hex')}`;
+
+    for (;;) {
+      try {
+        fs.writeFileSync(this.lockFile, token, { flag: 'wx' });
+        this.lockToken = token;
+        return;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+          throw new Error(`[LeaseManager] Failed to take lock ${this.lockFile}: ${(error as Error).message}`);
+        }
+      }
+
+      let holder: string;
+      let modifiedAt: number;
+      try {
+        holder = fs.readFileSync(this.lockFile, 'utf-8');
+        modifiedAt = fs.statSync(this.lockFile).mtimeMs;
+      } catch {
+        // Released between the write attempt and the read - retry immediately
+        continue;
+      }
+
+      const holderPid = Number(holder.split(':')[0]);
+      const stale = Date.now() - modifiedAt > LOCK_STALE_MS || (holderPid > 0 && !isProcessAlive(holderPid));
+      if (stale && this.removeLockFile(holder)) {
+        console.warn(`[LeaseManager] Removed stale lock ${this.lockFile} (held by ${holder})`);
+        continue;
+      }
+
+      await sleep(LOCK_RETRY_MS);
+    }
+  }
+
+  private unlock(): void {
+    if (this.lockToken && !this.removeLockFile(this.lockToken)) {
+      console.warn(`[LeaseManager] Lock ${this.lockFile} was taken over while held - leaving it to its new owner`);
+    }
+    this.lockToken = null;
+  }
+
+  /**
+   * Removes the lock file only if it still holds the expected contents
+   * The file is first renamed to a unique name - an atomic step only one
+   * process can win - and put back if it turns out to be someone else's.
+   * @param expected - Contents of the lock to remove
+   * @returns Whether the expected lock was removed
+   */
+  private removeLockFile(expected: string): boolean {
+    const moved = `${this.lockFile}.${process.pid}.${randomBytes(4).toString('hex')}`;
+    try {
+      fs.renameSync(this.lockFile, moved);
+    } catch {
+      // Already gone - released or broken by another process
+      return false;
+    }
+
+    try {
+      if (fs.readFileSync(moved, 'utf-8') === expected) {
+        return true;
+      }
+      // Another process took the lock in the meantime - give it back
+      try {
+        fs.linkSync(moved, this.lockFile);
+      } catch {
+        // A third process holds the lock now; its owner keeps it
+      }
+      return false;
+    } finally {
+      fs.rmSync(moved, { force: true });
+    }
+  }
+
+  /**
+   * Runs fn with the state loaded under the lock and saves the state afterwards
+   */
+  private async update<T>(fn: (state: LeaseState) => T): Promise<T> {
+    await this.lock();
+
+    try {
+      const state: LeaseState = fs.existsSync(this.stateFile)
+        ? JSON.parse(fs.readFileSync(this.stateFile, 'utf-8'))
+        : { leases: {}, consumed: {} };
+
+      // Drop leases of workers that died without releasing them
+      for (const [key, lease] of Object.entries(state.leases)) {
+        if (!isProcessAlive(lease.pid)) {
+          delete state.leases[key];
+        }
+      }
+
+      const result = fn(state);
+      fs.writeFileSync(this.stateFile, JSON.stringify(state, null, 2));
+      return result;
+    } finally {
+      this.unlock();
+    }
+  }
+
+  // ============================================================================
+  // Leases
+  // ============================================================================
+
+  /**
+   * Leases the first free candidate
+   * Waits up to the wait timeout while candidates are leased by other tests
+   * @param pool - Entity kind
+   * @param candidates - Entities that satisfy the test, in order of preference
+   * @param idOf - Gets an entity's id
+   * @returns The leased entity
+   * @throws Error if the pool runs dry
+   */
+  async acquire<T>(pool: LeasePool, candidates: T[], idOf: (entity: T) => string): Promise<T> {
+    if (candidates.length === 0) {
+      throw new Error(`[LeaseManager] Pool "${pool}" ran dry: no fixture entities match the request`);
+    }
+
+    const deadline = Date.now() + this.waitTimeoutMs;
+
+    for (;;) {
+      const result = await this.update((state) => {
+        const free = candidates.find((candidate) => {
+          const key = this.key(pool, idOf(candidate));
+          return !state.leases[key] && !state.consumed[key];
+        });
+
+        if (free !== undefined) {
+          state.leases[this.key(pool, idOf(free))] = {
+            holder: this.config.holder,
+            pid: process.pid,
+            acquiredAt: new Date().toISOString(),
+          };
+        }
+        return free;
+      });
+
+      if (result !== undefined) {
+        return result;
+      }
+
+      const status = await this.getStatus(pool, candidates.map(idOf));
+      if (status.leased.length === 0 || Date.now() >= deadline) {
+        throw new Error(
+          `[LeaseManager] Pool "${pool}" ran dry for ${this.config.holder}: ` +
+            `${status.consumed.length} of ${candidates.length} candidates consumed, ` +
+            `${status.leased.length} leased (${status.leased.map((lease) => `${lease.id} by ${lease.holder}`).join(', ') || 'none'})`
+        );
+      }
+
+      await sleep(ACQUIRE_RETRY_MS);
+    }
+  }
+
+  /**
+   * Releases a lease held by this holder
+   * @param pool - Entity kind
+   * @param id - Entity id
+   */
+  async release(pool: LeasePool, id: string): Promise<void> {
+    await this.update((state) => {
+      const key = this.key(pool, id);
+      if (state.leases[key]?.holder === this.config.holder) {
+        delete state.leases[key];
+      }
+    });
+  }
+
+  /**
+   * Marks an entity as consumed - it won't be handed out again
+   * @param pool - Entity kind
+   * @param id - Entity id
+   */
+  async consume(pool: LeasePool, id: string): Promise<void> {
+    await this.update((state) => {
+      const key = this.key(pool, id);
+      delete state.leases[key];
+      state.consumed[key] = { holder: this.config.holder, consumedAt: new Date().toISOString() };
+    });
+  }
+
+  /**
+   * Releases every lease held by this holder
+   * @returns The number of released leases
+   */
+  async releaseAll(): Promise<number> {
+    return this.update((state) => {
+      const held = Object.keys(state.leases).filter((key) => state.leases[key].holder === this.config.holder);
+      for (const key of held) {
+        delete state.leases[key];
+      }
+      return held.length;
+    });
+  }
+
+  /**
+   * Makes every consumed entity in this scope available again
+   * Call after the scope's database has been restored
+   */
+  async resetConsumed(): Promise<void> {
+    await this.update((state) => {
+      for (const key of Object.keys(state.consumed)) {
+        if (key.startsWith(`${this.config.scope}/`)) {
+          delete state.consumed[key];
+        }
+      }
+    });
+  }
+
+  /**
+   * Reports which candidates are free, leased or consumed
+   * @param pool - Entity kind
+   * @param ids - Candidate ids
+   */
+  async getStatus(pool: LeasePool, ids: string[]): Promise<LeasePoolStatus> {
+    return this.update((state) => {
+      const status: LeasePoolStatus = { free: [], leased: [], consumed: [] };
+      for (const id of ids) {
+        const key = this.key(pool, id);
+        if (state.consumed[key]) {
+          status.consumed.push(id);
+        } else if (state.leases[key]) {
+          status.leased.push({ id, holder: state.leases[key].holder });
+        } else {
+          status.free.push(id);
+        }
+      }
+      return status;
+    });
+  }
+}
+
+// ============================================================================
+// Fixture lookups
+// ============================================================================
+
+/**
+ * Leases fixture entities for a single test
+ * Wraps the defaultFixtures lookups and remembers what the test holds
+ */
+export class FixtureLeases {
+  private readonly held = new Map<string, LeasePool>();
+
+  /**
+   * @param manager - LeaseManager for the test
+   */
+  constructor(private readonly manager: LeaseManager) {}
+
+  private async acquire<T extends { id: string }>(pool: LeasePool, candidates: T[]): Promise<T> {
+    const entity = await this.manager.acquire(pool, candidates, (candidate) => candidate.id);
+    this.held.set(entity.id, pool);
+    return { ...entity };
+  }
+
+  /**
+   * Leases an isolated user (see getIsolatedUser)
+   * Waits while another test holds the same user
+   * @param testDomain - Isolated user key
+   */
+  isolatedUser(testDomain: keyof typeof isolatedTestUsers): Promise<TestUser> {
+    return this.acquire('users', [getIsolatedUser(testDomain)]);
+  }
+
+  /**
+   * Leases an order of the accountOrders user (see getAccountOrdersUserOrders)
+   * @param predicate - Narrows the candidates (e.g. by status)
+   */
+  accountOrder(predicate: (order: TestOrder) => boolean = () => true): Promise<TestOrder> {
+    return this.acquire('orders', getAccountOrdersUserOrders().filter(predicate));
+  }
+
+  /**
+   * Leases any seeded order
+   * @param predicate - Narrows the candidates (e.g. by status)
+   */
+  order(predicate: (order: TestOrder) => boolean = () => true): Promise<TestOrder> {
+    return this.acquire('orders', defaultFixtures.orders.filter(predicate));
+  }
+
+  /**
+   * Counts seeded orders that no test has consumed yet (leased ones included)
+   * Lets a test skip when earlier tests used up its candidates, instead of running dry
+   * @param predicate - Narrows the candidates (e.g. by status)
+   */
+  async remainingOrders(predicate: (order: TestOrder) => boolean = () => true): Promise<number> {
+    const ids = defaultFixtures.orders.filter(predicate).map((order) => order.id);
+    const status = await this.manager.getStatus('orders', ids);
+    return ids.length - status.consumed.length;
+  }
+
+  /**
+   * Leases a seeded Bitcoin payment
+   * @param predicate - Narrows the candidates (e.g. by status)
+   */
+  bitcoinPayment(predicate: (payment: TestBitcoinPayment) => boolean = () => true): Promise<TestBitcoinPayment> {
+    return this.acquire('bitcoinPayments', (defaultFixtures.bitcoinPayments ?? []).filter(predicate));
+  }
+
+  /**
+   * Leases a seeded COA submission
+   * @param predicate - Narrows the candidates (e.g. by status)
+   */
+  coaSubmission(predicate: (submission: TestCoaSubmission) => boolean = () => true): Promise<TestCoaSubmission> {
+    return this.acquire('coaSubmissions', (defaultFixtures.coaSubmissions ?? []).filter(predicate));
+  }
+
+  /**
+   * Marks a leased entity as consumed so no later test receives it
+   * @param entity - Entity returned by one of the lease methods
+   * @throws Error if the entity isn't leased by this test
+   */
+  async consume(entity: { id: string }): Promise<void> {
+    const pool = this.held.get(entity.id);
+    if (!pool) {
+      throw new Error(`[LeaseManager] ${entity.id} is not leased by this test`);
+    }
+    await this.manager.consume(pool, entity.id);
+    this.held.delete(entity.id);
+  }
+
+  /**
+   * Releases everything the test still holds
+   */
+  async releaseAll(): Promise<void> {
+    this.held.clear();
+    await this.manager.releaseAll();
+  }
+}
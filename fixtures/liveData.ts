@@ -0,0 +1,524 @@
+/**
+ * Live Database Fixtures
+ *
+ * Reads the documents currently in the E2E database back into fixture types,
+ * compares them with a fixture definition, and renders them as a fixture
+ * module. Used by the seeder CLI's `diff` and `export` commands.
+ */
+
+import { Decimal128, Document } from 'mongodb';
+import { COLLECTIONS, DataSeeder } from './DataSeeder';
+import { FACTORY_USER_PASSWORD } from './factories';
+import { getFixtureCoupons } from './profiles';
+import {
+  E2ETestFixtures,
+  TestAddressBook,
+  TestBitcoinPayment,
+  TestCoaSubmission,
+  TestCoupon,
+  TestCredit,
+  TestInventoryBatch,
+  TestOrder,
+  TestOrderAddress,
+  TestProduct,
+  TestSavedAddress,
+  TestUser,
+} from './types';
+
+/**
+ * Saved address with its owner - address books are flattened into one list
+ */
+export interface LiveSavedAddress extends TestSavedAddress {
+  userEmail: string;
+}
+
+/**
+ * Fixture records read from the live database, as flat lists
+ */
+export interface LiveData {
+  users: TestUser[];
+  products: TestProduct[];
+  inventoryBatches: TestInventoryBatch[];
+  coupons: TestCoupon[];
+  orders: TestOrder[];
+  credits: TestCredit[];
+  coaSubmissions: TestCoaSubmission[];
+  bitcoinPayments: TestBitcoinPayment[];
+  addresses: LiveSavedAddress[];
+}
+
+/**
+ * Differences for one kind of record
+ */
+export interface FixtureDiffSection {
+  kind: keyof LiveData;
+  /** Keys defined in the fixtures but absent from the database */
+  missing: string[];
+  /** Keys in the database but not in the fixtures (e.g. users registered by specs) */
+  extra: string[];
+  /** Field-level differences for records present on both sides */
+  changed: Array<{ key: string; field: string; expected: unknown; actual: unknown }>;
+}
+
+// ============================================================================
+// Reading
+// ============================================================================
+
+function toNumber(value: unknown): number {
+  if (value instanceof Decimal128) {
+    return parseFloat(value.toString());
+  }
+  return typeof value === 'number' ? value : parseFloat(String(value ?? 0));
+}
+
+function optional<T>(value: T | null | undefined): T | undefined {
+  return value === null ? undefined : value;
+}
+
+function toAddress(document: Document | undefined): TestOrderAddress {
+  return {
+    firstName: document?.firstName ?? '',
+    lastName: document?.lastName ?? '',
+    addressLine1: document?.addressLine1 ?? '',
+    addressLine2: optional(document?.addressLine2),
+    city: document?.city ?? '',
+    state: document?.state ?? '',
+    postalCode: document?.postalCode ?? '',
+    country: document?.country ?? '',
+    phoneNumber: optional(document?.phoneNumber),
+    companyName: optional(document?.companyName),
+  };
+}
+
+/**
+ * Reads every record kind the seeder writes from the database
+ * Passwords can't be recovered from hashes, so users get the shared test password.
+ * Owners and products are referenced by id in the database and mapped back to
+ * emails and slugs; records whose owner or product no longer exists are left
+ * out. The default batches the seeder derives from product inventory are left
+ * out too, since seeding the products recreates them.
+ * @param seeder - Connected DataSeeder
+ * @returns Live records as fixture types
+ */
+export async function readLiveData(seeder: DataSeeder): Promise<LiveData> {
+  const [users, products, batches, batchCoas, coupons, orders, credits, submissions, payments, addresses] =
+    await Promise.all([
+      seeder.sampleDocuments(COLLECTIONS.USERS, {}, 0),
+      seeder.sampleDocuments(COLLECTIONS.PRODUCTS, {}, 0),
+      seeder.sampleDocuments(COLLECTIONS.INVENTORY_BATCHES, {}, 0),
+      seeder.sampleDocuments(COLLECTIONS.BATCH_COAS, {}, 0),
+      seeder.sampleDocuments(COLLECTIONS.COUPONS, {}, 0),
+      seeder.sampleDocuments(COLLECTIONS.ORDERS, {}, 0),
+      seeder.sampleDocuments(COLLECTIONS.ACCOUNT_CREDITS, {}, 0),
+      seeder.sampleDocuments(COLLECTIONS.COA_SUBMISSIONS, {}, 0),
+      seeder.sampleDocuments(COLLECTIONS.PAYMENTS, { _class: /CryptoPayment$/ }, 0),
+      seeder.sampleDocuments(COLLECTIONS.ADDRESSES, {}, 0),
+    ]);
+
+  const emailsById = new Map(users.map((document) => [String(document._id), document.email as string]));
+  const slugsById = new Map(products.map((document) => [String(document._id), document.slug as string]));
+  const coasById = new Map(batchCoas.map((document) => [String(document._id), document]));
+  const hasOwner = (document: Document) => emailsById.has(String(document.userId));
+  const ownerEmail = (document: Document) => emailsById.get(String(document.userId))!;
+
+  return {
+    users: users.map((document) => ({
+      id: String(document._id),
+      email: document.email,
+      password: FACTORY_USER_PASSWORD,
+      firstName: document.firstName,
+      lastName: optional(document.lastName),
+      authorities: document.authorities ?? [],
+      activated: document.activated,
+      activationKey: optional(document.activationKey),
+      resetKey: optional(document.resetKey),
+      resetDate: optional(document.resetDate),
+    })),
+    products: products.map((document) => ({
+      id: String(document._id),
+      slug: document.slug,
+      sku: document.sku,
+      name: document.name,
+      description: optional(document.description),
+      category: document.category,
+      onSale: document.onSale,
+      isFeatured: document.isFeatured,
+      inventory: toNumber(document.inventory),
+      price: toNumber(document.price),
+      salePrice: document.salePrice == null ? undefined : toNumber(document.salePrice),
+      dose: optional(document.dose),
+      images: optional(document.images),
+    })),
+    inventoryBatches: batches
+      .filter((document) => slugsById.has(document.productId) && document._id !== `e2e-batch-${document.productId}`)
+      .map((document) => {
+        const coa = document.coaId ? coasById.get(document.coaId) : undefined;
+        return {
+          batchNumber: document.batchNumber,
+          productSlug: slugsById.get(document.productId)!,
+          quantity: document.quantity,
+          availableQuantity: optional(document.availableQuantity),
+          expiryDate: document.expiryDate,
+          manufactureDate: optional(document.manufactureDate),
+          receivedDate: optional(document.receivedDate),
+          purity: document.purity == null ? undefined : toNumber(document.purity),
+          active: optional(document.active),
+          supplier: optional(document.supplier),
+          coa: coa
+            ? {
+                id: String(coa._id),
+                laboratory: coa.laboratory,
+                testDate: coa.testDate,
+                purity: toNumber(coa.purity),
+                reportUrl: optional(coa.reportUrl),
+              }
+            : undefined,
+        };
+      }),
+    coupons: coupons.map((document) => ({
+      code: document.code,
+      discountType: document.discountType,
+      discountValue: toNumber(document.discountValue),
+      minOrderAmount: document.minOrderAmount ? toNumber(document.minOrderAmount) : undefined,
+      active: optional(document.active),
+      validFrom: optional(document.validFrom),
+      validUntil: optional(document.validUntil),
+      usageLimit: optional(document.usageLimit),
+      usageCount: optional(document.usageCount),
+      perUserLimit: optional(document.perUserLimit),
+      applicableCategories: document.applicableCategories?.length ? document.applicableCategories : undefined,
+      applicableProductSlugs: document.applicableProductIds?.length
+        ? document.applicableProductIds.map((productId: string) => slugsById.get(String(productId)) ?? String(productId))
+        : undefined,
+    })),
+    orders: orders.map((document) => ({
+      id: String(document._id),
+      orderNumber: document.orderNumber,
+      userId: document.userId,
+      customerEmail: document.customerEmail,
+      customerName: document.customerName,
+      items: (document.items ?? []).map((item: Document) => ({
+        productId: item.productId,
+        productName: item.productName,
+        productSku: item.productSku,
+        productDose: optional(item.productDose),
+        productImage: optional(item.productImage),
+        quantity: item.quantity,
+        unitPrice: toNumber(item.unitPrice),
+        totalPrice: toNumber(item.totalPrice),
+        batchNumber: optional(item.batchNumber),
+        reservationId: optional(item.reservationId),
+      })),
+      shippingAddress: toAddress(document.shipping_address),
+      billingAddress: toAddress(document.billing_address),
+      status: document.status,
+      paymentStatus: document.paymentStatus,
+      paymentMethod: document.paymentMethod,
+      shippingMethod: document.shippingMethod,
+      subtotal: toNumber(document.subtotal),
+      tax: toNumber(document.tax),
+      shippingCost: toNumber(document.shippingCost),
+      total: toNumber(document.total),
+      orderDate: document.orderDate,
+      couponCode: optional(document.couponCode),
+      discountAmount: document.discountAmount ? toNumber(document.discountAmount) || undefined : undefined,
+      trackingNumber: optional(document.trackingNumber),
+      notes: optional(document.notes),
+    })),
+    credits: credits.filter(hasOwner).map((document) => ({
+      id: String(document._id),
+      userEmail: ownerEmail(document),
+      type: document.type,
+      status: document.status,
+      amount: toNumber(document.amount),
+      description: document.description,
+      sourceReference: optional(document.sourceReference),
+      createdDate: document.createdDate,
+      expirationDate: optional(document.expirationDate),
+      usedDate: optional(document.usedDate),
+    })),
+    coaSubmissions: submissions.filter(hasOwner).map((document) => ({
+      id: String(document._id),
+      userEmail: ownerEmail(document),
+      orderNumber: document.orderNumber,
+      productId: document.productId,
+      productName: document.productName,
+      batchNumber: document.batchNumber,
+      status: document.status,
+      testingProvider: document.testingProvider,
+      laboratory: document.laboratory,
+      testDate: document.testDate,
+      fileName: document.fileName,
+      submissionDate: document.submissionDate,
+      reviewedDate: optional(document.reviewedDate),
+      creditAmount: document.creditAmount == null ? undefined : toNumber(document.creditAmount),
+      rejectionReason: optional(document.rejectionReason),
+    })),
+    bitcoinPayments: payments.map((document) => ({
+      id: String(document._id),
+      orderId: document.orderId,
+      userId: document.userId,
+      amount: toNumber(document.amount),
+      status: document.status,
+      blockchainNetwork: document.blockchainNetwork,
+      tokenSymbol: 'BTC',
+      recipientWalletAddress: document.recipientWalletAddress,
+      senderWalletAddress: optional(document.senderWalletAddress),
+      derivationIndex: document.derivationIndex,
+      expectedSats: document.expectedSats,
+      receivedSats: optional(document.receivedSats),
+      confirmedSats: optional(document.confirmedSats),
+      lockedBtcUsdRate: toNumber(document.lockedBtcUsdRate),
+      txids: document.txids ?? [],
+      confirmationCount: document.confirmationCount,
+      underpaid: document.underpaid,
+      overpaid: document.overpaid,
+      expiresAt: optional(document.expiresAt),
+      paymentDate: optional(document.paymentDate),
+      complianceStatus: optional(document.complianceStatus),
+      complianceNotes: optional(document.complianceNotes),
+      complianceVerifiedAt: optional(document.complianceVerifiedAt),
+    })),
+    addresses: addresses
+      .filter(hasOwner)
+      // sampleDocuments returns newest first - address books list oldest first
+      .reverse()
+      .map((document) => ({
+        ...toAddress(document),
+        userEmail: ownerEmail(document),
+        addressType: document.addressType,
+        isDefault: optional(document.isDefault),
+        additionalInfo: optional(document.additionalInfo),
+      })),
+  };
+}
+
+// ============================================================================
+// Diffing
+// ============================================================================
+
+/**
+ * Fields compared per record kind, and the key that identifies a record
+ * Only fields tests depend on are compared - ids and timestamps are left out
+ */
+const DIFF_FIELDS: { [K in keyof LiveData]: { key: (record: LiveData[K][number]) => string; fields: string[] } } = {
+  users: {
+    key: (user) => user.email,
+    fields: ['firstName', 'lastName', 'authorities', 'activated', 'activationKey', 'resetKey'],
+  },
+  products: {
+    key: (product) => product.slug,
+    fields: ['name', 'sku', 'category', 'price', 'salePrice', 'onSale', 'isFeatured', 'inventory', 'dose'],
+  },
+  inventoryBatches: {
+    key: (batch) => batch.batchNumber,
+    fields: ['productSlug', 'quantity', 'availableQuantity', 'purity', 'active', 'supplier'],
+  },
+  coupons: {
+    key: (coupon) => coupon.code,
+    fields: [
+      'discountType',
+      'discountValue',
+      'minOrderAmount',
+      'active',
+      'usageLimit',
+      'usageCount',
+      'perUserLimit',
+      'applicableCategories',
+      'applicableProductSlugs',
+    ],
+  },
+  orders: {
+    key: (order) => order.id,
+    fields: ['orderNumber', 'userId', 'customerEmail', 'status', 'paymentStatus', 'paymentMethod', 'total'],
+  },
+  credits: {
+    key: (credit) => credit.id,
+    fields: ['userEmail', 'type', 'status', 'amount', 'sourceReference'],
+  },
+  coaSubmissions: {
+    key: (submission) => submission.id,
+    fields: ['userEmail', 'orderNumber', 'batchNumber', 'status', 'creditAmount', 'rejectionReason'],
+  },
+  bitcoinPayments: {
+    key: (payment) => payment.id,
+    fields: ['orderId', 'status', 'amount', 'expectedSats', 'receivedSats', 'confirmationCount', 'complianceStatus'],
+  },
+  addresses: {
+    key: (address) => `${address.userEmail} ${address.addressType} ${address.addressLine1}`,
+    fields: ['firstName', 'lastName', 'city', 'state', 'postalCode', 'country', 'phoneNumber', 'isDefault'],
+  },
+};
+
+/**
+ * Flattens the fixture structure into the same lists readLiveData returns
+ */
+export function toRecordLists(fixtures: E2ETestFixtures): LiveData {
+  return {
+    users: [...Object.values(fixtures.users).filter((user): user is TestUser => !!user), ...(fixtures.bulkUsers ?? [])],
+    products: fixtures.products,
+    inventoryBatches: fixtures.inventoryBatches ?? [],
+    coupons: getFixtureCoupons(fixtures),
+    orders: fixtures.orders,
+    credits: fixtures.credits ?? [],
+    coaSubmissions: fixtures.coaSubmissions ?? [],
+    bitcoinPayments: fixtures.bitcoinPayments ?? [],
+    addresses: (fixtures.addressBooks ?? []).flatMap(({ userEmail, addresses }) =>
+      addresses.map((address) => ({ ...address, userEmail }))
+    ),
+  };
+}
+
+/**
+ * Compares a fixture definition with the live database
+ * Users are matched by email because API-registered users get new ids
+ * @param expected - Fixture definition
+ * @param live - Records read with readLiveData
+ * @returns One section per record kind
+ */
+export function diffFixtures(expected: E2ETestFixtures, live: LiveData): FixtureDiffSection[] {
+  const expectedLists = toRecordLists(expected);
+
+  return (Object.keys(DIFF_FIELDS) as Array<keyof LiveData>).map((kind) => {
+    const { key, fields } = DIFF_FIELDS[kind] as { key: (record: unknown) => string; fields: string[] };
+    const expectedByKey = new Map(expectedLists[kind].map((record) => [key(record), record as object]));
+    const liveByKey = new Map(live[kind].map((record) => [key(record), record as object]));
+    const section: FixtureDiffSection = { kind, missing: [], extra: [], changed: [] };
+
+    for (const [recordKey, expectedRecord] of expectedByKey) {
+      const liveRecord = liveByKey.get(recordKey);
+      if (!liveRecord) {
+        section.missing.push(recordKey);
+        continue;
+      }
+      for (const field of fields) {
+        const expectedValue = (expectedRecord as Record<string, unknown>)[field];
+        const actualValue = (liveRecord as Record<string, unknown>)[field];
+        if (expectedValue !== undefined && JSON.stringify(expectedValue) !== JSON.stringify(actualValue)) {
+          section.changed.push({ key: recordKey, field, expected: expectedValue, actual: actualValue });
+        }
+      }
+    }
+
+    for (const recordKey of liveByKey.keys()) {
+      if (!expectedByKey.has(recordKey)) {
+        section.extra.push(recordKey);
+      }
+    }
+
+    return section;
+  });
+}
+
+/**
+ * Formats a fixture diff for the terminal
+ */
+export function formatFixtureDiff(sections: FixtureDiffSection[]): string {
+  const lines: string[] = [];
+
+  for (const section of sections) {
+    const total = section.missing.length + section.extra.length + section.changed.length;
+    lines.push(`${section.kind}: ${total === 0 ? 'in sync' : `${total} difference(s)`}`);
+
+    for (const key of section.missing) {
+      lines.push(`  - ${key} (missing from database)`);
+    }
+    for (const key of section.extra) {
+      lines.push(`  + ${key} (not in fixtures)`);
+    }
+    for (const change of section.changed) {
+      lines.push(`  ~ ${change.key} ${change.field}: ${JSON.stringify(change.expected)} -> ${JSON.stringify(change.actual)}`);
+    }
+  }
+
+  return lines.join('\n');
+}
+
+// ============================================================================
+// Exporting
+// ============================================================================
+
+/**
+ * Builds a fixture set from live records
+ * The customer/admin/unverified slots take the first matching user; every
+ * other user becomes a bulk user. Likewise the percentage/fixed/expired coupon
+ * slots take the first active percentage, active fixed and inactive coupon;
+ * every other coupon is kept under its code.
+ */
+export function toFixtures(live: LiveData): E2ETestFixtures {
+  const admin = live.users.find((user) => user.authorities.includes('ROLE_ADMIN'));
+  const unverified = live.users.find((user) => user.activated === false && user !== admin);
+  const customer = live.users.find((user) => user !== admin && user !== unverified && user.activated !== false);
+
+  if (!admin || !customer || !unverified) {
+    throw new Error('[LiveData] Export needs at least one admin, one activated customer and one unverified user');
+  }
+
+  const percentage = live.coupons.find((coupon) => coupon.active !== false && coupon.discountType === 'PERCENTAGE');
+  const fixed = live.coupons.find((coupon) => coupon.active !== false && coupon.discountType === 'FIXED');
+  const expired = live.coupons.find((coupon) => coupon.active === false);
+
+  if (!percentage || !fixed || !expired) {
+    throw new Error('[LiveData] Export needs at least one active percentage, one active fixed and one inactive coupon');
+  }
+
+  const otherCoupons = live.coupons.filter((coupon) => coupon !== percentage && coupon !== fixed && coupon !== expired);
+
+  const addressBooks = new Map<string, TestAddressBook>();
+  for (const { userEmail, ...address } of live.addresses) {
+    if (!addressBooks.has(userEmail)) {
+      addressBooks.set(userEmail, { userEmail, addresses: [] });
+    }
+    addressBooks.get(userEmail)!.addresses.push(address);
+  }
+
+  return {
+    users: { customer, admin, unverified },
+    bulkUsers: live.users.filter((user) => user !== admin && user !== customer && user !== unverified),
+    products: live.products,
+    inventoryBatches: live.inventoryBatches,
+    coupons: {
+      ...Object.fromEntries(otherCoupons.map((coupon) => [coupon.code, coupon])),
+      percentage,
+      fixed,
+      expired,
+    },
+    orders: live.orders,
+    credits: live.credits,
+    coaSubmissions: live.coaSubmissions,
+    bitcoinPayments: live.bitcoinPayments,
+    addressBooks: [...addressBooks.values()],
+  };
+}
+
+/**
+ * Renders fixtures as a TypeScript module that can be used as a profile
+ * @param fixtures - Fixtures to render
+ * @param exportName - Name of the exported constant
+ * @returns Module source
+ */
+export function renderFixtureModule(fixtures: E2ETestFixtures, exportName: string): string {
+  const DATE_MARKER = '__DATE__';
+  const body = JSON.stringify(
+    fixtures,
+    function (this: Record<string, unknown>, key: string, value: unknown) {
+      const raw = this[key];
+      return raw instanceof Date ? `${DATE_MARKER}${raw.toISOString()}` : value;
+    },
+    2
+  ).replace(new RegExp(`"${DATE_MARKER}([^"]+)"`, 'g'), "new Date('$1')");
+
+  return [
+    '/**',
+    ' * Exported Fixture Profile',
+    ' *',
+    ` * Generated by the seeder CLI export command on ${new Date().toISOString()}.`,
+    ` * User passwords are not recoverable from the database and are set to ${FACTORY_USER_PASSWORD}.`,
+    ' */',
+    '',
+    "import { E2ETestFixtures } from '../types';",
+    '',
+    `export const ${exportName}: E2ETestFixtures = ${body};`,
+    '',
+  ].join('\n');
+}
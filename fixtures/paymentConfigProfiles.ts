@@ -0,0 +1,191 @@
+/**
+ * Payment Method Configuration Profiles
+ *
+ * Named overrides for the payment method configurations seeded by
+ * DataSeeder.seedPaymentMethodConfigurations. Global setup seeds the default
+ * profile; a test can switch profiles mid-run through the paymentConfig
+ * fixture (see ./workerFixtures), which restores the default afterwards:
+ *
+ * ```typescript
+ * test('hides crypto when disabled', async ({ paymentConfig }) => {
+ *   await paymentConfig.apply('allCryptoDisabled');
+ *   // ... checkout shows CashApp only ...
+ * });
+ * ```
+ *
+ * The backend caches payment configurations, so applying a profile always
+ * refreshes that cache (refreshPaymentConfigCache).
+ */
+
+import type { Document } from 'mongodb';
+import type { DataSeeder } from './DataSeeder';
+import { ApiHelper } from '../helpers/ApiHelper';
+
+/**
+ * Payment method type as stored in the backend PaymentMethodConfiguration entity
+ */
+export type PaymentMethodConfigType = 'CASHAPP' | 'SOLANA_PAY' | 'ZELLE' | 'ACH' | 'BITCOIN';
+
+/**
+ * Every payment method DataSeeder configures
+ */
+export const PAYMENT_METHOD_CONFIG_TYPES: PaymentMethodConfigType[] = ['CASHAPP', 'SOLANA_PAY', 'ZELLE', 'ACH', 'BITCOIN'];
+
+/**
+ * Fields a profile can change on one payment method
+ */
+export interface PaymentMethodOverride {
+  enabled?: boolean;
+  minimumAmount?: number;
+  maximumAmount?: number;
+  /** Stored in metadata - only shown for crypto payment methods */
+  cryptoDiscountPercentage?: number;
+}
+
+/**
+ * Overrides by payment method - methods not listed keep their seeded settings
+ */
+export type PaymentConfigProfile = Partial<Record<PaymentMethodConfigType, PaymentMethodOverride>>;
+
+/**
+ * Name of a predefined payment configuration profile
+ */
+export type PaymentConfigProfileName =
+  | 'default'
+  | 'allCryptoDisabled'
+  | 'bitcoinMin500'
+  | 'cashAppOnly'
+  | 'cryptoDiscount20';
+
+/**
+ * Payment methods that receive the crypto discount
+ */
+export const CRYPTO_PAYMENT_METHODS: PaymentMethodConfigType[] = ['SOLANA_PAY', 'BITCOIN'];
+
+/**
+ * Predefined profiles
+ * - default: CashApp, Solana Pay and Bitcoin enabled, 10% crypto discount
+ * - allCryptoDisabled: Solana Pay and Bitcoin disabled
+ * - bitcoinMin500: Bitcoin only accepted for orders of $500 or more
+ * - cashAppOnly: every method except CashApp disabled
+ * - cryptoDiscount20: crypto discount raised to 20%
+ */
+export const PAYMENT_CONFIG_PROFILES: Record<PaymentConfigProfileName, PaymentConfigProfile> = {
+  default: {},
+  allCryptoDisabled: {
+    SOLANA_PAY: { enabled: false },
+    BITCOIN: { enabled: false },
+  },
+  bitcoinMin500: {
+    BITCOIN: { minimumAmount: 500 },
+  },
+  cashAppOnly: {
+    CASHAPP: { enabled: true },
+    SOLANA_PAY: { enabled: false },
+    ZELLE: { enabled: false },
+    ACH: { enabled: false },
+    BITCOIN: { enabled: false },
+  },
+  cryptoDiscount20: {
+    SOLANA_PAY: { cryptoDiscountPercentage: 20 },
+    BITCOIN: { cryptoDiscountPercentage: 20 },
+  },
+};
+
+/**
+ * All profile names, in the order they are documented
+ */
+export const PAYMENT_CONFIG_PROFILE_NAMES = Object.keys(PAYMENT_CONFIG_PROFILES) as PaymentConfigProfileName[];
+
+/**
+ * Gets a profile by name
+ * @param profile - Profile name, or a profile for one-off configurations
+ * @throws Error if the name is not a known profile
+ */
+export function getPaymentConfigProfile(profile: PaymentConfigProfileName | PaymentConfigProfile): PaymentConfigProfile {
+  if (typeof profile !== 'string') {
+    return profile;
+  }
+
+  const overrides = PAYMENT_CONFIG_PROFILES[profile];
+  if (!overrides) {
+    throw new Error(
+      `[PaymentConfig] Unknown payment configuration profile "${profile}" (expected one of: ${PAYMENT_CONFIG_PROFILE_NAMES.join(', ')})`
+    );
+  }
+  return overrides;
+}
+
+/**
+ * Applies a profile's overrides to payment method configuration documents
+ * @param configurations - Documents with the seeded settings
+ * @param profile - Profile name or profile
+ * @returns New documents with the overrides applied
+ * @throws Error if the profile overrides a payment method that isn't configured
+ */
+export function applyPaymentConfigOverrides(
+  configurations: Document[],
+  profile: PaymentConfigProfileName | PaymentConfigProfile
+): Document[] {
+  const overrides = getPaymentConfigProfile(profile);
+
+  for (const type of Object.keys(overrides)) {
+    if (!configurations.some((config) => config.paymentMethodType === type)) {
+      throw new Error(`[PaymentConfig] Profile overrides ${type}, which has no payment method configuration`);
+    }
+  }
+
+  return configurations.map((config) => {
+    const override = overrides[config.paymentMethodType as PaymentMethodConfigType];
+    if (!override) {
+      return config;
+    }
+
+    const { cryptoDiscountPercentage, ...fields } = override;
+    return {
+      ...config,
+      ...fields,
+      metadata:
+        cryptoDiscountPercentage === undefined
+          ? config.metadata
+          : { ...config.metadata, cryptoDiscountPercentage },
+    };
+  });
+}
+
+/**
+ * Refresh payment configuration cache (requires admin login on the client)
+ * This is CRITICAL after seeding payment method configurations
+ * Threat detection blocks are retried by the client's RequestScheduler
+ */
+export async function refreshPaymentConfigCache(api: ApiHelper): Promise<boolean> {
+  const response = await api.refreshPaymentConfiguration();
+
+  if (response.success) {
+    console.log('[PaymentConfig] Payment configuration cache refreshed');
+    return true;
+  }
+
+  console.warn(`[PaymentConfig] Failed to refresh payment config cache: ${response.status} - ${response.errorBody ?? response.error}`);
+  return false;
+}
+
+/**
+ * Seeds a profile and refreshes the backend's payment configuration cache
+ * @param seeder - Seeder connected to the database the backend reads
+ * @param api - Client logged in as admin
+ * @param profile - Profile name or profile
+ * @throws Error if seeding or the cache refresh fails - the app would keep serving the old configuration
+ */
+export async function applyPaymentConfigProfile(
+  seeder: DataSeeder,
+  api: ApiHelper,
+  profile: PaymentConfigProfileName | PaymentConfigProfile
+): Promise<void> {
+  await seeder.seedPaymentMethodConfigurations(profile);
+
+  if (!(await refreshPaymentConfigCache(api))) {
+    const name = typeof profile === 'string' ? profile : 'custom';
+    throw new Error(`[PaymentConfig] Seeded the "${name}" profile but could not refresh the payment configuration cache`);
+  }
+}
@@ -56,6 +56,8 @@ export const emptyFixtures: E2ETestFixtures = {
       code: 'EMPTY_EXPIRED',
       discountType: 'PERCENTAGE',
       discountValue: 0,
+      active: false,
+      validUntil: new Date(Date.now() - 24 * 60 * 60 * 1000),
     },
   },
   orders: [],
@@ -0,0 +1,88 @@
+/**
+ * Fixture Profiles
+ *
+ * Selects the data set seeded by global setup and DataSeeder.seedAll.
+ * The profile is chosen with the E2E_FIXTURE_PROFILE environment variable:
+ * - default: standard test data used by the spec suite
+ * - empty: no products, orders or usable coupons (empty state testing)
+ * - large: default data plus a generated high-volume catalog, users and orders
+ *
+ * Usage:
+ * ```bash
+ * E2E_FIXTURE_PROFILE=large npx playwright test tests/shop
+ * ```
+ */
+
+import { E2ETestFixtures, TestCoupon } from '../types';
+import { defaultFixtures } from '../defaultFixtures';
+import { getEmptyFixtures } from './empty';
+import { getLargeFixtures } from './large';
+
+/**
+ * Name of a selectable fixture profile
+ */
+export type FixtureProfileName = 'default' | 'empty' | 'large';
+
+/**
+ * Environment variable used to select the fixture profile
+ */
+export const FIXTURE_PROFILE_ENV = 'E2E_FIXTURE_PROFILE';
+
+/**
+ * Fixture builders by profile name
+ * The default profile returns the shared object so Date fields stay intact
+ */
+const PROFILE_BUILDERS: Record<FixtureProfileName, () => E2ETestFixtures> = {
+  default: () => defaultFixtures,
+  empty: getEmptyFixtures,
+  large: getLargeFixtures,
+};
+
+/**
+ * All profile names, in the order they are documented
+ */
+export const FIXTURE_PROFILE_NAMES = Object.keys(PROFILE_BUILDERS) as FixtureProfileName[];
+
+/**
+ * Checks whether a string is a known profile name
+ */
+export function isFixtureProfileName(value: string): value is FixtureProfileName {
+  return (FIXTURE_PROFILE_NAMES as string[]).includes(value);
+}
+
+/**
+ * Resolves the active profile name
+ * @param value - Profile name (default: the E2E_FIXTURE_PROFILE environment variable)
+ * @returns The profile name, 'default' when unset
+ * @throws Error if the value is not a known profile
+ */
+export function resolveFixtureProfile(value: string | undefined = process.env[FIXTURE_PROFILE_ENV]): FixtureProfileName {
+  const name = (value || 'default').trim().toLowerCase();
+
+  if (!isFixtureProfileName(name)) {
+    throw new Error(
+      `[FixtureProfiles] Unknown fixture profile "${value}" (expected one of: ${FIXTURE_PROFILE_NAMES.join(', ')})`
+    );
+  }
+
+  return name;
+}
+
+/**
+ * Gets the fixtures for a profile
+ * @param profile - Profile name (default: resolved from E2E_FIXTURE_PROFILE)
+ * @returns Fixtures for the profile
+ */
+export function getProfileFixtures(profile: FixtureProfileName = resolveFixtureProfile()): E2ETestFixtures {
+  console.log(`[FixtureProfiles] Using fixture profile: ${profile}`);
+  return PROFILE_BUILDERS[profile]();
+}
+
+/**
+ * Lists every coupon of a fixture set, including the optional rule coupons
+ * @param fixtures - Fixture set
+ * @returns Coupons in declaration order
+ */
+export function getFixtureCoupons(fixtures: E2ETestFixtures): TestCoupon[] {
+  return Object.values(fixtures.coupons).filter((coupon): coupon is TestCoupon => !!coupon);
+}
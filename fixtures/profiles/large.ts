@@ -0,0 +1,177 @@
+/**
+ * Large Fixture Profile
+ *
+ * High-volume test data for pagination, search and admin table testing.
+ * Builds on the default fixtures (so every existing spec still finds its users,
+ * products and orders) and adds a generated catalog, bulk users and order history.
+ *
+ * The generator is deterministic: the same options always produce the same
+ * fixtures, so failures against large data sets are reproducible.
+ */
+
+import { E2ETestFixtures, OrderStatus, PaymentStatus, ShippingMethod, TestOrder, TestProduct, TestUser } from '../types';
+import { defaultFixtures } from '../defaultFixtures';
+import { FixtureFactory, PRODUCT_CATEGORIES, SHIPPING_COSTS } from '../factories';
+
+/**
+ * Options for the large profile generator
+ */
+export interface LargeProfileOptions {
+  /** PRNG seed - change it to get a different (but still reproducible) data set */
+  seed: number;
+  /** Generated products per ProductCategory */
+  productsPerCategory: number;
+  /** Generated bulk users */
+  userCount: number;
+  /** Generated orders, spread across the bulk users */
+  orderCount: number;
+  /** Newest order date - orders go back up to a year from here */
+  referenceDate: Date;
+}
+
+/**
+ * Default generator options (~300 products, 250 users, 2500 orders)
+ */
+export const DEFAULT_LARGE_PROFILE_OPTIONS: LargeProfileOptions = {
+  seed: 20240601,
+  productsPerCategory: 100,
+  userCount: 250,
+  orderCount: 2500,
+  referenceDate: new Date('2025-01-01T12:00:00.000Z'),
+};
+
+const ORDER_STATUSES: OrderStatus[] = [
+  'AWAITING_PAYMENT',
+  'PENDING',
+  'CONFIRMED',
+  'PROCESSING',
+  'SHIPPED',
+  'DELIVERED',
+  'COMPLETED',
+  'CANCELLED',
+];
+const PAYMENT_METHODS = ['CASHAPP', 'SOLANA_PAY', 'BITCOIN', 'ZELLE'];
+const SHIPPING_METHODS = Object.keys(SHIPPING_COSTS) as ShippingMethod[];
+
+function pad(value: number, length: number): string {
+  return String(value).padStart(length, '0');
+}
+
+/**
+ * Cancelled orders are split between cancelled and refunded payments
+ */
+function paymentStatusFor(factory: FixtureFactory, status: OrderStatus): PaymentStatus | undefined {
+  if (status !== 'CANCELLED') {
+    return undefined;
+  }
+  return factory.random.bool() ? 'CANCELLED' : 'REFUNDED';
+}
+
+/**
+ * Generate products for every category
+ * Roughly 10% are out of stock, 15% on sale and 4% featured
+ */
+function createLargeProducts(factory: FixtureFactory, perCategory: number): TestProduct[] {
+  const products: TestProduct[] = [];
+
+  for (const category of PRODUCT_CATEGORIES) {
+    const slugPrefix = category.toLowerCase().replace(/_/g, '-');
+
+    for (let i = 1; i <= perCategory; i++) {
+      const product = factory.buildProduct({
+        category,
+        onSale: factory.random.bool(0.15),
+        isFeatured: factory.random.bool(0.04),
+        inventory: factory.random.bool(0.1) ? 0 : factory.random.int(5, 500),
+      });
+
+      products.push({
+        ...product,
+        slug: `large-${slugPrefix}-${pad(i, 3)}`,
+        sku: `LRG-${category}-${pad(i, 3)}`,
+        name: `Large ${product.name}`,
+      });
+    }
+  }
+
+  return products;
+}
+
+/**
+ * Generate orders for the bulk users from the generated catalog
+ * Order numbers use the reference date so they never collide with default orders
+ */
+function createLargeOrders(
+  factory: FixtureFactory,
+  count: number,
+  users: TestUser[],
+  products: TestProduct[]
+): TestOrder[] {
+  if (users.length === 0 || products.length === 0) {
+    return [];
+  }
+
+  const orders: TestOrder[] = [];
+  const dateStr = factory.referenceDate.toISOString().slice(2, 10).replace(/-/g, '');
+  const dayMs = 24 * 60 * 60 * 1000;
+
+  for (let i = 1; i <= count; i++) {
+    const user = factory.random.pick(users);
+    const orderProducts = Array.from({ length: factory.random.int(1, 4) }, () => factory.random.pick(products));
+    const status = factory.random.pick(ORDER_STATUSES);
+    const paymentStatus = paymentStatusFor(factory, status);
+    const daysAgo = factory.random.int(0, 365);
+
+    orders.push(
+      factory.buildOrder(
+        {
+          orderNumber: `ZB${dateStr}${pad(i, 4)}`,
+          status,
+          ...(paymentStatus ? { paymentStatus } : {}),
+          paymentMethod: factory.random.pick(PAYMENT_METHODS),
+          shippingMethod: factory.random.pick(SHIPPING_METHODS),
+          orderDate: new Date(factory.referenceDate.getTime() - daysAgo * dayMs - factory.random.int(0, dayMs - 1)),
+        },
+        { user, products: orderProducts }
+      )
+    );
+  }
+
+  return orders;
+}
+
+/**
+ * Build the large profile fixtures
+ * Default users, products, coupons and orders are kept so existing specs still work
+ * @param overrides - Generator options to override
+ * @returns Fixtures with default data plus the generated volume data
+ */
+export function createLargeFixtures(overrides: Partial<LargeProfileOptions> = {}): E2ETestFixtures {
+  const options = { ...DEFAULT_LARGE_PROFILE_OPTIONS, ...overrides };
+  const factory = new FixtureFactory({
+    seed: options.seed,
+    idPrefix: 'large',
+    referenceDate: options.referenceDate,
+  });
+
+  const products = createLargeProducts(factory, options.productsPerCategory);
+  const bulkUsers = Array.from({ length: options.userCount }, () => factory.buildUser());
+  const orders = createLargeOrders(factory, options.orderCount, bulkUsers, products);
+
+  return {
+    ...defaultFixtures,
+    users: { ...defaultFixtures.users },
+    bulkUsers,
+    products: [...defaultFixtures.products, ...products],
+    coupons: { ...defaultFixtures.coupons },
+    orders: [...defaultFixtures.orders, ...orders],
+  };
+}
+
+/**
+ * Helper function to get the large fixtures with default generator options
+ * Returns a fresh object on every call
+ */
+export function getLargeFixtures(): E2ETestFixtures {
+  return createLargeFixtures();
+}
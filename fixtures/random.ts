@@ -0,0 +1,102 @@
+/**
+ * Seeded Random Number Generator
+ *
+ * Deterministic PRNG used by the fixture factories and generated profiles.
+ * The same seed always produces the same sequence, so generated test data
+ * is reproducible across runs and machines.
+ */
+
+/**
+ * Default seed used when none is provided
+ */
+export const DEFAULT_SEED = 20240601;
+
+/**
+ * SeededRandom class wrapping a mulberry32 generator
+ *
+ * Provides helpers for the value shapes fixtures need:
+ * - Integers and money amounts in a range
+ * - Picking from a list
+ * - Weighted booleans
+ * - Hex strings (transaction IDs, keys)
+ */
+export class SeededRandom {
+  private state: number;
+
+  /**
+   * Creates a new SeededRandom instance
+   * @param seed - Seed value (any 32-bit integer)
+   */
+  constructor(readonly seed: number = DEFAULT_SEED) {
+    this.state = seed >>> 0;
+  }
+
+  /**
+   * Returns the next float in [0, 1)
+   */
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /**
+   * Returns an integer in [min, max] (inclusive)
+   */
+  int(min: number, max: number): number {
+    return min + Math.floor(this.next() * (max - min + 1));
+  }
+
+  /**
+   * Returns a money amount in [min, max] rounded to cents
+   */
+  money(min: number, max: number): number {
+    return this.int(Math.round(min * 100), Math.round(max * 100)) / 100;
+  }
+
+  /**
+   * Returns true with the given probability
+   */
+  bool(probability = 0.5): boolean {
+    return this.next() < probability;
+  }
+
+  /**
+   * Picks a value from a non-empty list
+   */
+  pick<T>(values: readonly T[]): T {
+    if (values.length === 0) {
+      throw new Error('[SeededRandom] Cannot pick from an empty list');
+    }
+    return values[Math.floor(this.next() * values.length)];
+  }
+
+  /**
+   * Returns a string of random characters from an alphabet
+   */
+  string(length: number, alphabet: string): string {
+    let result = '';
+    for (let i = 0; i < length; i++) {
+      result += alphabet[Math.floor(this.next() * alphabet.length)];
+    }
+    return result;
+  }
+
+  /**
+   * Returns a lowercase hex string
+   */
+  hex(length: number): string {
+    return this.string(length, '0123456789abcdef');
+  }
+}
+
+/**
+ * Creates a new SeededRandom instance
+ * @param seed - Seed value
+ * @returns New SeededRandom instance
+ */
+export function createSeededRandom(seed: number = DEFAULT_SEED): SeededRandom {
+  return new SeededRandom(seed);
+}
@@ -0,0 +1,291 @@
+/**
+ * Service Readiness
+ *
+ * Fail-fast gate run by global setup. Before anything is seeded it polls the
+ * backend health endpoint (including every health component), the frontend
+ * root page and MongoDB until all of them answer; after seeding it compares
+ * the seeded document counts with the fixtures. When a precondition isn't met
+ * the run is aborted with a summary of what is wrong and the last response
+ * each service gave - instead of hundreds of confusing UI failures.
+ */
+
+import { Document } from 'mongodb';
+import { COLLECTIONS, DataSeeder } from './DataSeeder';
+import { getAllIsolatedUsers } from './defaultFixtures';
+import { PAYMENT_METHOD_CONFIG_TYPES } from './paymentConfigProfiles';
+import { getFixtureCoupons } from './profiles';
+import { E2ETestFixtures } from './types';
+import { ApiHelper } from '../helpers/ApiHelper';
+import { env } from '../helpers/env';
+
+/**
+ * Services the suite depends on
+ */
+export type ServiceName = 'backend' | 'frontend' | 'mongodb';
+
+/**
+ * Result of one readiness check
+ */
+export interface ServiceStatus {
+  service: ServiceName;
+  /** What was checked - URL, or MongoDB URI without credentials */
+  target: string;
+  ready: boolean;
+  /** HTTP status (0 for network errors); undefined for MongoDB */
+  status?: number;
+  /** Why the service isn't ready */
+  problem?: string;
+  /** Last response body, truncated */
+  lastBody?: string;
+}
+
+/**
+ * waitForReadiness options
+ */
+export interface ReadinessOptions {
+  /** How long to wait for every service (default: E2E_API_TIMEOUT) */
+  timeoutMs?: number;
+  /** Delay between polls (default: 2s) */
+  intervalMs?: number;
+  /** Check MongoDB too (default: true) - read-only runs need no database */
+  database?: boolean;
+}
+
+/**
+ * Expected and actual number of seeded documents in one collection
+ */
+export interface SeededCount {
+  collection: string;
+  expected: number;
+  actual: number;
+}
+
+const DEFAULT_INTERVAL_MS = 2000;
+const MAX_BODY_LENGTH = 500;
+
+/**
+ * Health component states that don't make the backend unusable
+ */
+const HEALTHY_COMPONENT_STATES = ['UP', 'UNKNOWN'];
+
+function truncate(text: string | undefined): string | undefined {
+  if (!text) {
+    return undefined;
+  }
+  return text.length > MAX_BODY_LENGTH ? `${text.slice(0, MAX_BODY_LENGTH)}... (${text.length} chars)` : text;
+}
+
+/**
+ * Hides credentials in a MongoDB URI
+ */
+function redactUri(uri: string): string {
+  return uri.replace(/\/\/[^/@]+@/, '//***@');
+}
+
+// ============================================================================
+// Service checks
+// ============================================================================
+
+/**
+ * Checks /management/health and every component it reports
+ */
+async function checkBackend(api: ApiHelper): Promise<ServiceStatus> {
+  const response = await api.getBackendHealth();
+  const downComponents = Object.entries(response.data?.components ?? {})
+    .filter(([, component]) => !HEALTHY_COMPONENT_STATES.includes(component.status))
+    .map(([name, component]) => `${name} ${component.status}`);
+
+  const ready = response.success && response.data?.status === 'UP' && downComponents.length === 0;
+  let problem: string | undefined;
+  if (!ready) {
+    problem =
+      downComponents.length > 0
+        ? `components not UP: ${downComponents.join(', ')}`
+        : response.error ?? `health status ${response.data?.status ?? 'missing'}`;
+  }
+
+  return {
+    service: 'backend',
+    target: `${api.getConfig().backendUrl}/management/health`,
+    ready,
+    status: response.status,
+    problem,
+    lastBody: truncate(response.errorBody ?? (response.data ? JSON.stringify(response.data) : undefined)),
+  };
+}
+
+/**
+ * Checks that the frontend root page renders
+ */
+async function checkFrontend(api: ApiHelper): Promise<ServiceStatus> {
+  const response = await api.getFrontendRoot();
+
+  return {
+    service: 'frontend',
+    target: api.getConfig().frontendUrl,
+    ready: response.success,
+    status: response.status,
+    problem: response.success ? undefined : response.error,
+    lastBody: truncate(response.errorBody),
+  };
+}
+
+/**
+ * Checks that MongoDB answers a ping
+ */
+async function checkMongo(seeder: DataSeeder): Promise<ServiceStatus> {
+  const target = `${redactUri(env.mongoUri)} (${seeder.getDatabaseName()})`;
+
+  try {
+    await seeder.ping();
+    return { service: 'mongodb', target, ready: true };
+  } catch (error) {
+    // Drop the failed client so the next poll reconnects
+    await seeder.disconnect().catch(() => {});
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return { service: 'mongodb', target, ready: false, problem: message };
+  }
+}
+
+/**
+ * Formats service statuses as a diagnostic summary
+ */
+export function formatServiceStatuses(statuses: ServiceStatus[]): string {
+  return statuses
+    .map((status) => {
+      const lines = [
+        `  ${status.ready ? '✓' : '✗'} ${status.service}: ${status.target}` +
+          (status.status !== undefined ? ` -> ${status.status || 'no response'}` : ''),
+      ];
+      if (status.problem) {
+        lines.push(`      ${status.problem}`);
+      }
+      if (!status.ready && status.lastBody) {
+        lines.push(`      last response: ${status.lastBody}`);
+      }
+      return lines.join('\n');
+    })
+    .join('\n');
+}
+
+/**
+ * Polls the backend, frontend and MongoDB until all are ready
+ * @param api - Client for the backend and frontend
+ * @param seeder - Seeder for the database global setup seeds
+ * @param options - Timeout, poll interval and whether to check MongoDB
+ * @returns The final statuses
+ * @throws Error with a diagnostic summary if a service isn't ready before the timeout
+ */
+export async function waitForReadiness(
+  api: ApiHelper,
+  seeder: DataSeeder,
+  options: ReadinessOptions = {}
+): Promise<ServiceStatus[]> {
+  const timeoutMs = options.timeoutMs ?? env.timeouts.api;
+  const intervalMs = options.intervalMs ?? DEFAULT_INTERVAL_MS;
+  const deadline = Date.now() + timeoutMs;
+
+  for (;;) {
+    const statuses = [await checkBackend(api), await checkFrontend(api)];
+    if (options.database ?? true) {
+      statuses.push(await checkMongo(seeder));
+    }
+
+    if (statuses.every((status) => status.ready)) {
+      console.log(`[Readiness] All services ready:\n${formatServiceStatuses(statuses)}`);
+      return statuses;
+    }
+
+    if (Date.now() + intervalMs > deadline) {
+      throw new Error(
+        `[Readiness] Services not ready after ${timeoutMs}ms - aborting the run:\n${formatServiceStatuses(statuses)}`
+      );
+    }
+
+    const waitingFor = statuses.filter((status) => !status.ready).map((status) => status.service);
+    console.log(`[Readiness] Waiting for ${waitingFor.join(', ')}...`);
+    await new Promise((resolve) => setTimeout(resolve, intervalMs));
+  }
+}
+
+// ============================================================================
+// Seeded data
+// ============================================================================
+
+/**
+ * Counts the seeded documents of each collection global setup fills
+ * @param seeder - Connected seeder
+ * @param fixtures - Fixtures that were seeded
+ */
+export async function countSeededDocuments(seeder: DataSeeder, fixtures: E2ETestFixtures): Promise<SeededCount[]> {
+  const userEmails = new Set([
+    fixtures.users.admin.email,
+    fixtures.users.customer.email,
+    ...getAllIsolatedUsers().map((user) => user.email),
+    ...[fixtures.users.pendingActivation, fixtures.users.pendingReset, fixtures.users.expiredReset]
+      .filter((user) => user !== undefined)
+      .map((user) => user.email),
+    ...(fixtures.bulkUsers ?? []).map((user) => user.email),
+  ]);
+
+  const checks: Array<{ collection: string; filter: Document; expected: number }> = [
+    { collection: COLLECTIONS.USERS, filter: { email: { $in: [...userEmails] } }, expected: userEmails.size },
+    {
+      collection: COLLECTIONS.PRODUCTS,
+      filter: { slug: { $in: fixtures.products.map((product) => product.slug) } },
+      expected: fixtures.products.length,
+    },
+  ];
+
+  const couponCodes = getFixtureCoupons(fixtures).map((coupon) => coupon.code);
+  checks.push({ collection: COLLECTIONS.COUPONS, filter: { code: { $in: couponCodes } }, expected: couponCodes.length });
+  checks.push({
+    collection: COLLECTIONS.PAYMENT_METHOD_CONFIGURATIONS,
+    filter: { paymentMethodType: { $in: PAYMENT_METHOD_CONFIG_TYPES } },
+    expected: PAYMENT_METHOD_CONFIG_TYPES.length,
+  });
+
+  const byId: Array<[string, Array<{ id: string }> | undefined]> = [
+    [COLLECTIONS.ORDERS, fixtures.orders],
+    [COLLECTIONS.PAYMENTS, fixtures.bitcoinPayments],
+    [COLLECTIONS.ACCOUNT_CREDITS, fixtures.credits],
+    [COLLECTIONS.COA_SUBMISSIONS, fixtures.coaSubmissions],
+  ];
+  for (const [collection, entities = []] of byId) {
+    checks.push({ collection, filter: { _id: { $in: entities.map((entity) => entity.id) } }, expected: entities.length });
+  }
+
+  const counts: SeededCount[] = [];
+  for (const check of checks) {
+    counts.push({
+      collection: check.collection,
+      expected: check.expected,
+      actual: await seeder.countDocuments(check.collection, check.filter),
+    });
+  }
+  return counts;
+}
+
+/**
+ * Checks that every fixture entity made it into the database
+ * Seed methods skip entities whose owner is missing (e.g. a failed registration)
+ * @param seeder - Connected seeder
+ * @param fixtures - Fixtures that were seeded
+ * @throws Error listing each collection whose count doesn't match
+ */
+export async function assertSeededCounts(seeder: DataSeeder, fixtures: E2ETestFixtures): Promise<SeededCount[]> {
+  const counts = await countSeededDocuments(seeder, fixtures);
+  const summary = counts
+    .map(
+      (count) =>
+        `  ${count.actual === count.expected ? '✓' : '✗'} ${count.collection}: ${count.actual} of ${count.expected} seeded`
+    )
+    .join('\n');
+
+  if (counts.some((count) => count.actual !== count.expected)) {
+    throw new Error(`[Readiness] Seeded data does not match the fixtures - aborting the run:\n${summary}`);
+  }
+
+  console.log(`[Readiness] Seeded data matches the fixtures:\n${summary}`);
+  return counts;
+}
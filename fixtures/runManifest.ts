@@ -0,0 +1,372 @@
+/**
+ * Run Manifest
+ *
+ * Users registered through the API get new IDs, so the IDs in the fixture
+ * definitions don't match the database. Global setup resolves the real IDs
+ * once and writes them, keyed by fixture key, to a JSON manifest under
+ * test-results/ (cleaned by Playwright before every run):
+ * - users, isolated users and bulk users: database ID, one-time keys and the
+ *   expiry of the cached login session
+ * - products: database ID and batch numbers (including generated default batches)
+ * - orders: database ID, order number, owner and allocated batch numbers
+ * - coupons: database ID and code
+ *
+ * Fixtures and specs read IDs from the manifest instead of querying MongoDB:
+ * ```typescript
+ * test('shows the owner', async ({ runManifest }) => {
+ *   const order = getManifestOrder(runManifest, 'e2e-order-024');
+ * });
+ * ```
+ *
+ * Only seeding runs write a manifest - read-only runs have none.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { Document } from 'mongodb';
+import { COLLECTIONS, DataSeeder } from './DataSeeder';
+import { IsolatedUserKey, getStorageStateExpiry } from './authSessions';
+import { isolatedTestUsers } from './defaultFixtures';
+import { getRunId } from './runTag';
+import { E2ETestFixtures, TestUser } from './types';
+
+/**
+ * Where global setup writes the manifest
+ */
+export const RUN_MANIFEST_PATH = path.join(__dirname, '..', 'test-results', 'run-manifest.json');
+
+/**
+ * Manifest format version - bumped when the shape changes
+ */
+export const RUN_MANIFEST_VERSION = 1;
+
+/**
+ * A fixture user as stored in the database
+ */
+export interface ManifestUser {
+  /** ID in the fixture definition */
+  fixtureId: string;
+  /** ID in the database */
+  id: string;
+  email: string;
+  activationKey?: string;
+  resetKey?: string;
+  /** When the reset key was issued (ISO) - the backend rejects keys older than a day */
+  resetKeyIssuedAt?: string;
+  /** When the session cached by global setup expires (ISO), for isolated users */
+  sessionExpiresAt?: string;
+}
+
+/**
+ * A fixture product as stored in the database
+ */
+export interface ManifestProduct {
+  fixtureId: string;
+  id: string;
+  /** Batch numbers, earliest expiry first */
+  batchNumbers: string[];
+}
+
+/**
+ * A fixture order as stored in the database
+ */
+export interface ManifestOrder {
+  id: string;
+  orderNumber: string;
+  /** Database ID of the owner */
+  userId: string;
+  /** Batch numbers allocated to the order's items */
+  batchNumbers: string[];
+}
+
+/**
+ * A fixture coupon as stored in the database
+ */
+export interface ManifestCoupon {
+  id: string;
+  code: string;
+}
+
+/**
+ * Resolved users, by fixture key
+ */
+export interface ManifestUsers {
+  /** Keyed like E2ETestFixtures.users (admin, customer, pendingActivation, ...) */
+  users: Record<string, ManifestUser>;
+  isolatedUsers: Partial<Record<IsolatedUserKey, ManifestUser>>;
+  /** Keyed by fixture ID */
+  bulkUsers: Record<string, ManifestUser>;
+}
+
+/**
+ * Runtime IDs of everything global setup seeded
+ */
+export interface RunManifest extends ManifestUsers {
+  version: number;
+  /** When the manifest was written (ISO) */
+  createdAt: string;
+  /** Run the data is tagged with (see ./runTag) */
+  runId?: string;
+  fixtureProfile: string;
+  /** Database global setup seeded (worker/project copies share its IDs) */
+  databaseName: string;
+  /** Keyed by product slug */
+  products: Record<string, ManifestProduct>;
+  /** Keyed by fixture order ID */
+  orders: Record<string, ManifestOrder>;
+  /** Keyed like E2ETestFixtures.coupons (percentage, fixed, ...) */
+  coupons: Record<string, ManifestCoupon>;
+}
+
+// ============================================================================
+// Building
+// ============================================================================
+
+function toIsoString(value: unknown): string | undefined {
+  return value instanceof Date ? value.toISOString() : undefined;
+}
+
+/**
+ * Looks up fixture users by email
+ * Users missing from the database are left out
+ */
+async function findUsers<K extends string>(
+  seeder: DataSeeder,
+  entries: Array<[K, TestUser]>
+): Promise<Partial<Record<K, ManifestUser>>> {
+  const documents = await seeder.findDocuments(COLLECTIONS.USERS, {
+    email: { $in: entries.map(([, user]) => user.email) },
+  });
+  const byEmail = new Map(documents.map((document) => [document.email as string, document]));
+
+  const users: Partial<Record<K, ManifestUser>> = {};
+  for (const [key, user] of entries) {
+    const document = byEmail.get(user.email);
+    if (!document) {
+      console.log(`[RunManifest] User ${user.email} (${key}) is not in the database - left out`);
+      continue;
+    }
+    users[key] = {
+      fixtureId: user.id,
+      id: String(document._id),
+      email: user.email,
+      activationKey: document.activationKey ?? undefined,
+      resetKey: document.resetKey ?? undefined,
+      resetKeyIssuedAt: toIsoString(document.resetDate),
+    };
+  }
+  return users;
+}
+
+/**
+ * Resolves the database IDs of every fixture user
+ * @param seeder - Seeder connected to the seeded database
+ * @param fixtures - Fixtures that were seeded
+ */
+export async function resolveManifestUsers(seeder: DataSeeder, fixtures: E2ETestFixtures): Promise<ManifestUsers> {
+  const fixtureUsers = Object.entries(fixtures.users).filter(
+    (entry): entry is [string, TestUser] => entry[1] !== undefined
+  );
+
+  return {
+    users: (await findUsers(seeder, fixtureUsers)) as Record<string, ManifestUser>,
+    isolatedUsers: await findUsers(seeder, Object.entries(isolatedTestUsers) as Array<[IsolatedUserKey, TestUser]>),
+    bulkUsers: (await findUsers(
+      seeder,
+      (fixtures.bulkUsers ?? []).map((user): [string, TestUser] => [user.id, user])
+    )) as Record<string, ManifestUser>,
+  };
+}
+
+/**
+ * Maps fixture user IDs to database user IDs, for users whose ID changed
+ * @param users - Resolved users
+ */
+export function getUserIdChanges(users: ManifestUsers): Map<string, string> {
+  const all = [...Object.values(users.users), ...Object.values(users.isolatedUsers), ...Object.values(users.bulkUsers)];
+  return new Map(
+    all
+      .filter((user): user is ManifestUser => user !== undefined && user.id !== user.fixtureId)
+      .map((user) => [user.fixtureId, user.id])
+  );
+}
+
+/**
+ * Builds the manifest from the seeded database
+ * Call after the cached sessions are created so their expiry is included
+ * @param seeder - Seeder connected to the seeded database
+ * @param fixtures - Fixtures that were seeded
+ * @param fixtureProfile - Name of the fixture profile
+ */
+export async function buildRunManifest(
+  seeder: DataSeeder,
+  fixtures: E2ETestFixtures,
+  fixtureProfile: string
+): Promise<RunManifest> {
+  const users = await resolveManifestUsers(seeder, fixtures);
+  for (const [key, user] of Object.entries(users.isolatedUsers) as Array<[IsolatedUserKey, ManifestUser]>) {
+    user.sessionExpiresAt = getStorageStateExpiry(key)?.toISOString();
+  }
+
+  const productDocuments = await seeder.findDocuments(COLLECTIONS.PRODUCTS, {
+    slug: { $in: fixtures.products.map((product) => product.slug) },
+  });
+  const batchDocuments = await seeder.findDocuments(
+    COLLECTIONS.INVENTORY_BATCHES,
+    { productId: { $in: productDocuments.map((document) => document._id) } },
+    { expiryDate: 1 }
+  );
+  const productsBySlug = new Map(productDocuments.map((document) => [document.slug as string, document]));
+  const batchNumbersByProduct = new Map<string, string[]>();
+  for (const batch of batchDocuments) {
+    const productId = String(batch.productId);
+    batchNumbersByProduct.set(productId, [...(batchNumbersByProduct.get(productId) ?? []), batch.batchNumber]);
+  }
+
+  const products: Record<string, ManifestProduct> = {};
+  for (const product of fixtures.products) {
+    const document = productsBySlug.get(product.slug);
+    if (document) {
+      products[product.slug] = {
+        fixtureId: product.id,
+        id: String(document._id),
+        batchNumbers: batchNumbersByProduct.get(String(document._id)) ?? [],
+      };
+    }
+  }
+
+  const orderDocuments = await seeder.findDocuments(COLLECTIONS.ORDERS, {
+    _id: { $in: fixtures.orders.map((order) => order.id) } as Document,
+  });
+  const orders: Record<string, ManifestOrder> = {};
+  for (const document of orderDocuments) {
+    orders[String(document._id)] = {
+      id: String(document._id),
+      orderNumber: document.orderNumber,
+      userId: document.userId,
+      batchNumbers: ((document.items ?? []) as Document[])
+        .map((item) => item.batchNumber as string | undefined)
+        .filter((batchNumber): batchNumber is string => !!batchNumber),
+    };
+  }
+
+  const couponEntries = Object.entries(fixtures.coupons).filter(([, coupon]) => coupon !== undefined);
+  const couponDocuments = await seeder.findDocuments(COLLECTIONS.COUPONS, {
+    code: { $in: couponEntries.map(([, coupon]) => coupon!.code) },
+  });
+  const coupons: Record<string, ManifestCoupon> = {};
+  for (const [key, coupon] of couponEntries) {
+    const document = couponDocuments.find((candidate) => candidate.code === coupon!.code);
+    if (document) {
+      coupons[key] = { id: String(document._id), code: coupon!.code };
+    }
+  }
+
+  return {
+    version: RUN_MANIFEST_VERSION,
+    createdAt: new Date().toISOString(),
+    runId: getRunId(),
+    fixtureProfile,
+    databaseName: seeder.getDatabaseName(),
+    ...users,
+    products,
+    orders,
+    coupons,
+  };
+}
+
+// ============================================================================
+// Reading and writing
+// ============================================================================
+
+/**
+ * Writes the manifest to RUN_MANIFEST_PATH
+ */
+export function writeRunManifest(manifest: RunManifest): void {
+  fs.mkdirSync(path.dirname(RUN_MANIFEST_PATH), { recursive: true });
+  fs.writeFileSync(RUN_MANIFEST_PATH, JSON.stringify(manifest, null, 2));
+  console.log(`[RunManifest] Wrote ${RUN_MANIFEST_PATH}`);
+}
+
+let cachedManifest: RunManifest | undefined;
+
+/**
+ * Reads the manifest written by global setup (once per process)
+ * @returns The manifest, or undefined if this run wrote none (read-only runs)
+ * @throws Error if the manifest can't be parsed or has another version
+ */
+export function readRunManifest(): RunManifest | undefined {
+  if (cachedManifest || !fs.existsSync(RUN_MANIFEST_PATH)) {
+    return cachedManifest;
+  }
+
+  const manifest = JSON.parse(fs.readFileSync(RUN_MANIFEST_PATH, 'utf8')) as RunManifest;
+  if (manifest.version !== RUN_MANIFEST_VERSION) {
+    throw new Error(
+      `[RunManifest] ${RUN_MANIFEST_PATH} has version ${manifest.version}, expected ${RUN_MANIFEST_VERSION}`
+    );
+  }
+  cachedManifest = manifest;
+  return manifest;
+}
+
+/**
+ * Reads the manifest written by global setup
+ * @throws Error if there is none - it is only written by runs that seed the database
+ */
+export function requireRunManifest(): RunManifest {
+  const manifest = readRunManifest();
+  if (!manifest) {
+    throw new Error(`[RunManifest] No run manifest at ${RUN_MANIFEST_PATH} - global setup writes it after seeding`);
+  }
+  return manifest;
+}
+
+/**
+ * Gets an isolated user's database record
+ * @throws Error if the user isn't in the manifest
+ */
+export function getManifestIsolatedUser(manifest: RunManifest, key: IsolatedUserKey): ManifestUser {
+  const user = manifest.isolatedUsers[key];
+  if (!user) {
+    throw new Error(`[RunManifest] Isolated user ${key} is not in the run manifest`);
+  }
+  return user;
+}
+
+/**
+ * Gets an order's database record
+ * @param fixtureOrderId - Order ID in the fixtures (e.g. 'e2e-order-024')
+ * @throws Error if the order isn't in the manifest
+ */
+export function getManifestOrder(manifest: RunManifest, fixtureOrderId: string): ManifestOrder {
+  const order = manifest.orders[fixtureOrderId];
+  if (!order) {
+    throw new Error(`[RunManifest] Order ${fixtureOrderId} is not in the run manifest`);
+  }
+  return order;
+}
+
+/**
+ * Gets a product's database record
+ * @param slug - Product slug
+ * @throws Error if the product isn't in the manifest
+ */
+export function getManifestProduct(manifest: RunManifest, slug: string): ManifestProduct {
+  const product = manifest.products[slug];
+  if (!product) {
+    throw new Error(`[RunManifest] Product ${slug} is not in the run manifest`);
+  }
+  return product;
+}
+
+/**
+ * Gets the orders a user owns
+ * @param userId - Database user ID
+ * @returns The user's orders, ordered by order number
+ */
+export function getManifestOrdersForUser(manifest: RunManifest, userId: string): ManifestOrder[] {
+  return Object.values(manifest.orders)
+    .filter((order) => order.userId === userId)
+    .sort((a, b) => a.orderNumber.localeCompare(b.orderNumber));
+}
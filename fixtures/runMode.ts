@@ -0,0 +1,181 @@
+/**
+ * Run Mode
+ *
+ * Keeps the suite from seeding or mutating environments it doesn't own.
+ * Selected with E2E_RUN_MODE:
+ * - mutating: global setup resets and seeds the database; every spec runs
+ * - read-only: nothing is reset or seeded; only specs tagged @read-only run
+ *
+ * Default: mutating when the frontend, backend and MongoDB all run locally,
+ * read-only as soon as any of them points elsewhere. Mutating a non-local
+ * target needs both:
+ * - E2E_MUTATION_ALLOWLIST: comma-separated hosts that may be mutated - every
+ *   non-local frontend/backend/MongoDB host must be listed
+ * - E2E_CONFIRM_MUTATION: the name of the database that will be reset
+ *   (MONGODB_DATABASE), typed out as confirmation
+ *
+ * Specs tag their top-level describe with READ_ONLY_TAG or MUTATING_TAG.
+ * Untagged specs are treated as mutating.
+ */
+
+import { EnvConfig, EnvSource, env } from '../helpers/env';
+
+/**
+ * Run mode name
+ */
+export type RunMode = 'read-only' | 'mutating';
+
+/**
+ * Environment variable used to select the run mode
+ */
+export const RUN_MODE_ENV = 'E2E_RUN_MODE';
+
+/**
+ * Environment variable listing the non-local hosts that may be mutated
+ */
+export const MUTATION_ALLOWLIST_ENV = 'E2E_MUTATION_ALLOWLIST';
+
+/**
+ * Environment variable confirming the database that will be reset
+ */
+export const CONFIRM_MUTATION_ENV = 'E2E_CONFIRM_MUTATION';
+
+/**
+ * Tag for specs that only read - the only specs that run in read-only mode
+ */
+export const READ_ONLY_TAG = '@read-only';
+
+/**
+ * Tag for specs that change data through the app or the database
+ */
+export const MUTATING_TAG = '@mutating';
+
+const RUN_MODES: RunMode[] = ['read-only', 'mutating'];
+
+const LOCAL_HOSTS = ['localhost', '127.0.0.1', '::1', '0.0.0.0'];
+
+/**
+ * The resolved run mode and why it was chosen
+ */
+export interface RunModeDecision {
+  mode: RunMode;
+  /** Human-readable reason, for logs and refusal messages */
+  reason: string;
+  /** Frontend/backend/MongoDB hosts that are not local */
+  nonLocalHosts: string[];
+}
+
+/**
+ * Checks whether a host name refers to this machine
+ */
+export function isLocalHost(host: string): boolean {
+  const name = host.toLowerCase().replace(/^\[|\]$/g, '');
+  return LOCAL_HOSTS.includes(name) || name.endsWith('.localhost') || name.startsWith('127.');
+}
+
+/**
+ * Extracts the host names from a MongoDB URI
+ * Handles credentials and replica-set host lists, which URL can't parse
+ */
+function getMongoHosts(uri: string): string[] {
+  const authority = uri.replace(/^mongodb(\+srv)?:\/\//, '').split(/[/?]/)[0];
+  const hosts = authority.slice(authority.lastIndexOf('@') + 1);
+
+  return hosts
+    .split(',')
+    .map((host) => (host.startsWith('[') ? host.slice(0, host.indexOf(']') + 1) : host.split(':')[0]))
+    .filter(Boolean);
+}
+
+/**
+ * Lists the hosts the run talks to
+ */
+function getTargetHosts(config: EnvConfig): string[] {
+  const hosts = [
+    new URL(config.frontendUrl).hostname,
+    new URL(config.backendUrl).hostname,
+    ...getMongoHosts(config.mongoUri),
+  ];
+  return [...new Set(hosts)];
+}
+
+/**
+ * Resolves the run mode
+ * @param config - Resolved environment configuration (default: env)
+ * @param source - Environment variables (default: process.env)
+ * @returns The run mode, read-only for non-local targets unless mutation is allowed and confirmed
+ * @throws Error if the mode name is unknown, or mutating mode is requested for a
+ *   non-local target without the allow-list and confirmation
+ */
+export function resolveRunMode(config: EnvConfig = env, source: EnvSource = process.env): RunModeDecision {
+  const value = source[RUN_MODE_ENV]?.trim().toLowerCase();
+  if (value && !RUN_MODES.includes(value as RunMode)) {
+    throw new Error(`[RunMode] Unknown run mode "${value}" (expected one of: ${RUN_MODES.join(', ')})`);
+  }
+
+  const nonLocalHosts = getTargetHosts(config).filter((host) => !isLocalHost(host));
+
+  if (value === 'read-only') {
+    return { mode: 'read-only', reason: `${RUN_MODE_ENV}=read-only`, nonLocalHosts };
+  }
+
+  if (nonLocalHosts.length === 0) {
+    return { mode: 'mutating', reason: 'every target is local', nonLocalHosts };
+  }
+
+  if (value !== 'mutating') {
+    return {
+      mode: 'read-only',
+      reason: `non-local target ${nonLocalHosts.join(', ')} (set ${RUN_MODE_ENV}=mutating to change it)`,
+      nonLocalHosts,
+    };
+  }
+
+  const allowList = (source[MUTATION_ALLOWLIST_ENV] || '')
+    .split(',')
+    .map((host) => host.trim().toLowerCase())
+    .filter(Boolean);
+  const problems: string[] = [];
+
+  const notAllowed = nonLocalHosts.filter((host) => !allowList.includes(host.toLowerCase()));
+  if (notAllowed.length > 0) {
+    problems.push(`${MUTATION_ALLOWLIST_ENV} must list ${notAllowed.join(', ')}`);
+  }
+  if (source[CONFIRM_MUTATION_ENV]?.trim() !== config.mongoDatabase) {
+    problems.push(`${CONFIRM_MUTATION_ENV} must be set to the database name "${config.mongoDatabase}"`);
+  }
+
+  if (problems.length > 0) {
+    throw new Error(
+      `[RunMode] Refusing to run in mutating mode against non-local target ${nonLocalHosts.join(', ')}: ${problems.join('; ')}`
+    );
+  }
+
+  return {
+    mode: 'mutating',
+    reason: `mutation of ${nonLocalHosts.join(', ')} allowed and confirmed for ${config.mongoDatabase}`,
+    nonLocalHosts,
+  };
+}
+
+let currentRunMode: RunModeDecision | undefined;
+
+/**
+ * Gets the run mode for this process (resolved once)
+ */
+export function getRunMode(): RunModeDecision {
+  currentRunMode ??= resolveRunMode();
+  return currentRunMode;
+}
+
+/**
+ * Throws unless the run may change data
+ * @param operation - What is about to happen, e.g. "reset the database"
+ * @throws Error in read-only mode
+ */
+export function assertMutationAllowed(operation: string): void {
+  const runMode = getRunMode();
+  if (runMode.mode === 'read-only') {
+    throw new Error(`[RunMode] Refusing to ${operation} in read-only mode (${runMode.reason})`);
+  }
+}
@@ -0,0 +1,320 @@
+/**
+ * Run Tagging
+ *
+ * Marks the data a test run creates so teardown can delete exactly that
+ * run's data (CLEANUP_AFTER_TESTS=run) and leave everything else - e.g. a
+ * colleague's run against the same database - alone:
+ * - Global setup starts the run: a run ID (E2E_RUN_ID, generated unless set)
+ *   and start time, passed to the workers through the environment
+ * - DataSeeder writes the run ID to every document it seeds (RUN_ID_FIELD)
+ * - ApiHelper records the entities it creates (registered users, orders) in
+ *   the run ledger under test-results/, since the backend writes those
+ * - Global teardown deletes tagged and recorded documents, then reports what
+ *   was created since the run started but is still there (e.g. orders placed
+ *   through the UI) and how much data other runs own
+ *
+ * Global setup still resets the database before seeding, so it registers
+ * each run and refuses to reset while another run that hasn't finished owns
+ * tagged data (see findActiveRuns). Runs that never reached teardown count
+ * as finished after ACTIVE_RUN_WINDOW_MS; E2E_FORCE_RESET=true resets anyway.
+ *
+ * Targeted cleanup covers the main database; worker/project copies are only
+ * dropped by CLEANUP_AFTER_TESTS=all.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { randomBytes } from 'crypto';
+import type { Document } from 'mongodb';
+import type { DataSeeder } from './DataSeeder';
+
+/**
+ * Environment variable holding the run ID
+ */
+export const RUN_ID_ENV = 'E2E_RUN_ID';
+
+/**
+ * Environment variable holding the run start time (ISO)
+ */
+export const RUN_STARTED_AT_ENV = 'E2E_RUN_STARTED_AT';
+
+/**
+ * Document field holding the ID of the run that seeded it
+ */
+export const RUN_ID_FIELD = 'e2eRunId';
+
+/**
+ * Directory of the per-run ledgers of entities created through the API
+ * Lives under test-results/ so Playwright cleans it before every run
+ */
+export const RUN_LEDGER_DIR = path.join(__dirname, '..', 'test-results', '.run-ledger');
+
+/**
+ * How long an unfinished run counts as active - older ones are assumed to have crashed
+ */
+export const ACTIVE_RUN_WINDOW_MS = 6 * 60 * 60 * 1000;
+
+/**
+ * Documents listed per collection in the leftover report
+ */
+const LEFTOVER_SAMPLE_SIZE = 5;
+
+/**
+ * The current run
+ */
+export interface RunContext {
+  id: string;
+  startedAt: Date;
+}
+
+/**
+ * An entity created through the API, identified by a filter on its collection
+ */
+export interface CreatedEntity {
+  collection: string;
+  filter: Record<string, string>;
+}
+
+/**
+ * Documents of one collection in the cleanup report
+ */
+export interface CollectionCount {
+  collection: string;
+  count: number;
+  /** A few IDs, for leftovers */
+  sampleIds?: string[];
+}
+
+/**
+ * Result of a targeted cleanup
+ */
+export interface RunCleanupReport {
+  runId: string;
+  /** Tagged or recorded documents deleted, by collection */
+  deleted: CollectionCount[];
+  /** Untagged documents created since the run started - possibly by another run */
+  leftBehind: CollectionCount[];
+  /** Documents tagged by other runs, kept */
+  otherRuns: CollectionCount[];
+}
+
+/**
+ * Another run still using the database
+ */
+export interface ActiveRun extends RunContext {
+  /** Documents it tagged, by collection */
+  documents: CollectionCount[];
+}
+
+// ============================================================================
+// Run context
+// ============================================================================
+
+/**
+ * Creates a run ID, e.g. 20261019T101500-3f9a1c
+ */
+function createRunId(startedAt: Date): string {
+  const timestamp = startedAt.toISOString().replace(/[-:]/g, '').replace(/\.\d+Z$/, '');
+  return `${timestamp}-${randomBytes(3).toString('hex')}`;
+}
+
+/**
+ * Starts the run in global setup
+ * Keeps E2E_RUN_ID when set (e.g. to a CI job ID); workers inherit both variables
+ * @returns The run context
+ */
+export function startRun(): RunContext {
+  const startedAt = new Date();
+  process.env[RUN_ID_ENV] ||= createRunId(startedAt);
+  process.env[RUN_STARTED_AT_ENV] = startedAt.toISOString();
+  return { id: process.env[RUN_ID_ENV]!, startedAt };
+}
+
+/**
+ * Gets the current run ID
+ * @returns The run ID, or undefined outside a test run (e.g. the seeder CLI)
+ */
+export function getRunId(): string | undefined {
+  return process.env[RUN_ID_ENV] || undefined;
+}
+
+/**
+ * Gets the current run
+ * @returns The run context, or undefined if global setup didn't start a run
+ */
+export function getRunContext(): RunContext | undefined {
+  const id = getRunId();
+  const startedAt = process.env[RUN_STARTED_AT_ENV];
+  return id && startedAt ? { id, startedAt: new Date(startedAt) } : undefined;
+}
+
+// ============================================================================
+// Ledger
+// ============================================================================
+
+function getLedgerPath(runId: string): string {
+  return path.join(RUN_LEDGER_DIR, `${runId}.jsonl`);
+}
+
+/**
+ * Records an entity created through the API for the current run
+ * Does nothing outside a test run. Appends are atomic, so workers can share the file.
+ */
+export function recordCreatedEntity(entity: CreatedEntity): void {
+  const runId = getRunId();
+  if (!runId) {
+    return;
+  }
+
+  fs.mkdirSync(RUN_LEDGER_DIR, { recursive: true });
+  fs.appendFileSync(getLedgerPath(runId), `${JSON.stringify(entity)}\n`);
+}
+
+/**
+ * Reads the entities recorded for a run
+ */
+export function readCreatedEntities(runId: string): CreatedEntity[] {
+  const ledgerPath = getLedgerPath(runId);
+  if (!fs.existsSync(ledgerPath)) {
+    return [];
+  }
+
+  return fs
+    .readFileSync(ledgerPath, 'utf8')
+    .split('\n')
+    .filter(Boolean)
+    .map((line) => JSON.parse(line) as CreatedEntity);
+}
+
+// ============================================================================
+// Other runs
+// ============================================================================
+
+/**
+ * Finds other runs that haven't finished and still own tagged data
+ * A database reset would delete that data from under them.
+ * @param seeder - Seeder connected to the main database
+ * @param run - The current run
+ * @returns The active runs, oldest first
+ */
+export async function findActiveRuns(seeder: DataSeeder, run: RunContext): Promise<ActiveRun[]> {
+  const unfinished = await seeder.listUnfinishedRuns(new Date(run.startedAt.getTime() - ACTIVE_RUN_WINDOW_MS));
+  const others = unfinished.filter((other) => other.id !== run.id);
+  if (others.length === 0) {
+    return [];
+  }
+
+  const collections = await seeder.listApplicationCollections();
+  const activeRuns: ActiveRun[] = [];
+  for (const other of others) {
+    const documents: CollectionCount[] = [];
+    for (const collection of collections) {
+      const count = await seeder.countDocuments(collection, { [RUN_ID_FIELD]: other.id });
+      if (count > 0) {
+        documents.push({ collection, count });
+      }
+    }
+    if (documents.length > 0) {
+      activeRuns.push({ ...other, documents });
+    }
+  }
+  return activeRuns;
+}
+
+/**
+ * Formats active runs for the setup log
+ */
+export function formatActiveRuns(runs: ActiveRun[]): string {
+  return runs
+    .map((other) => {
+      const documents = other.documents.map((entry) => `${entry.collection}: ${entry.count}`).join(', ');
+      return `  - Run ${other.id} (started ${other.startedAt.toISOString()}): ${documents}`;
+    })
+    .join('\n');
+}
+
+// ============================================================================
+// Cleanup
+// ============================================================================
+
+function addCount(counts: Map<string, number>, collection: string, count: number): void {
+  if (count > 0) {
+    counts.set(collection, (counts.get(collection) ?? 0) + count);
+  }
+}
+
+/**
+ * Deletes the documents a run seeded or created through the API
+ * @param seeder - Seeder connected to the main database
+ * @param run - The run to clean up
+ * @returns What was deleted, left behind and kept for other runs
+ */
+export async function cleanupRun(seeder: DataSeeder, run: RunContext): Promise<RunCleanupReport> {
+  const deleted = new Map<string, number>();
+
+  // Recorded entities first - a registered user's document carries no tag until activation
+  for (const entity of readCreatedEntities(run.id)) {
+    addCount(deleted, entity.collection, await seeder.deleteDocuments(entity.collection, entity.filter));
+  }
+
+  const collections = await seeder.listApplicationCollections();
+  const leftBehind: CollectionCount[] = [];
+  const otherRuns: CollectionCount[] = [];
+
+  for (const collection of collections) {
+    addCount(deleted, collection, await seeder.deleteDocuments(collection, { [RUN_ID_FIELD]: run.id }));
+
+    const createdSince: Document = {
+      [RUN_ID_FIELD]: { $exists: false },
+      $or: [{ createdDate: { $gte: run.startedAt } }, { createdAt: { $gte: run.startedAt } }],
+    };
+    const leftCount = await seeder.countDocuments(collection, createdSince);
+    if (leftCount > 0) {
+      const samples = await seeder.sampleDocuments(collection, createdSince, LEFTOVER_SAMPLE_SIZE);
+      leftBehind.push({ collection, count: leftCount, sampleIds: samples.map((document) => String(document._id)) });
+    }
+
+    const otherCount = await seeder.countDocuments(collection, { [RUN_ID_FIELD]: { $exists: true, $ne: run.id } });
+    if (otherCount > 0) {
+      otherRuns.push({ collection, count: otherCount });
+    }
+  }
+
+  return {
+    runId: run.id,
+    deleted: [...deleted].map(([collection, count]) => ({ collection, count })),
+    leftBehind,
+    otherRuns,
+  };
+}
+
+/**
+ * Formats a cleanup report for the teardown log
+ */
+export function formatCleanupReport(report: RunCleanupReport): string {
+  const lines = [`Run ${report.runId}:`];
+
+  lines.push(`  Deleted: ${report.deleted.length === 0 ? 'nothing' : ''}`.trimEnd());
+  for (const entry of report.deleted) {
+    lines.push(`    - ${entry.collection}: ${entry.count}`);
+  }
+
+  if (report.leftBehind.length > 0) {
+    lines.push('  Left behind (created since the run started, not tagged - e.g. through the UI or by another run):');
+    for (const entry of report.leftBehind) {
+      const more = entry.count > (entry.sampleIds?.length ?? 0) ? ', ...' : '';
+      lines.push(`    - ${entry.collection}: ${entry.count} (${entry.sampleIds?.join(', ')}${more})`);
+    }
+  } else {
+    lines.push('  Left behind: nothing');
+  }
+
+  if (report.otherRuns.length > 0) {
+    lines.push('  Kept for other runs:');
+    for (const entry of report.otherRuns) {
+      lines.push(`    - ${entry.collection}: ${entry.count}`);
+    }
+  }
+
+  return lines.join('\n');
+}
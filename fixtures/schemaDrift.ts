@@ -0,0 +1,308 @@
+/**
+ * Schema Drift Detection
+ *
+ * Compares the documents DataSeeder writes with documents the backend itself
+ * created during a run (users registered over the API, orders placed through
+ * checkout, Bitcoin invoices, coupons created by an admin). When the backend
+ * model changes - a renamed field, a new required field, Decimal128 turning
+ * into a string - the seeded data silently stops matching what the app
+ * expects. This module reports those differences as a readable diff.
+ *
+ * Enabled with E2E_VERIFY_SCHEMA=true; global teardown runs the check after
+ * the specs have produced backend-created documents and fails the run on drift.
+ */
+
+import { Document } from 'mongodb';
+import { COLLECTIONS, DataSeeder } from './DataSeeder';
+import { RUN_ID_FIELD } from './runTag';
+
+/**
+ * Environment variable that enables schema verification
+ */
+export const VERIFY_SCHEMA_ENV = 'E2E_VERIFY_SCHEMA';
+
+/**
+ * Marker DataSeeder writes to createdBy - everything else was created by the backend
+ */
+const SEEDER_AUDIT_USER = 'e2e-seeder';
+
+/**
+ * Field path -> set of observed value types (e.g. 'items[].unitPrice' -> {'decimal128'})
+ */
+export type DocumentShape = Map<string, Set<string>>;
+
+/**
+ * A collection to verify and how to tell the two sources apart
+ */
+export interface SchemaTarget {
+  /** Collection name */
+  collection: string;
+  /** Extra filter applied to both samples (e.g. only CryptoPayment documents) */
+  filter?: Document;
+  /** Field paths to skip - use for fields that legitimately differ */
+  ignoreFields?: string[];
+}
+
+/**
+ * A single difference between seeder and backend documents
+ */
+export interface SchemaDifference {
+  path: string;
+  kind: 'missing-in-seeder' | 'unknown-to-backend' | 'type-mismatch';
+  seederTypes: string[];
+  backendTypes: string[];
+}
+
+/**
+ * Result of verifying one collection
+ */
+export interface SchemaDriftResult {
+  collection: string;
+  seederSamples: number;
+  backendSamples: number;
+  /** Set when a side had no documents to compare */
+  skippedReason?: string;
+  differences: SchemaDifference[];
+}
+
+/**
+ * Collections checked by default
+ * Audit fields are ignored because the seeder fills them with its own marker,
+ * and the run tag because only the seeder writes it (see ./runTag)
+ */
+export const DEFAULT_SCHEMA_TARGETS: SchemaTarget[] = [
+  {
+    collection: COLLECTIONS.USERS,
+    // User is not polymorphic, so the seeder doesn't write a type hint
+    ignoreFields: ['lastModifiedBy', 'createdBy', '_class', RUN_ID_FIELD],
+  },
+  {
+    collection: COLLECTIONS.ORDERS,
+    ignoreFields: ['lastModifiedBy', 'createdBy', 'lastModifiedReason', RUN_ID_FIELD],
+  },
+  {
+    collection: COLLECTIONS.PAYMENTS,
+    filter: { _class: /CryptoPayment$/ },
+    ignoreFields: ['lastModifiedBy', 'createdBy', RUN_ID_FIELD],
+  },
+  {
+    // The coupon rule fields are unconfirmed - compared once a coupon is created through
+    // the backend during the run; until then the report lists coupons as skipped
+    collection: COLLECTIONS.COUPONS,
+    ignoreFields: ['lastModifiedBy', 'createdBy', RUN_ID_FIELD],
+  },
+];
+
+/**
+ * Names the type of a BSON value
+ */
+function typeOf(value: unknown): string {
+  if (value === null || value === undefined) {
+    return 'null';
+  }
+  if (value instanceof Date) {
+    return 'date';
+  }
+  if (Array.isArray(value)) {
+    return 'array';
+  }
+  if (typeof value === 'object') {
+    const bsonType = (value as { _bsontype?: string })._bsontype;
+    return bsonType ? bsonType.toLowerCase() : 'object';
+  }
+  return typeof value;
+}
+
+/**
+ * Records the type of every field path in a value
+ */
+function collectShape(value: unknown, path: string, shape: DocumentShape): void {
+  const type = typeOf(value);
+  if (path) {
+    if (!shape.has(path)) {
+      shape.set(path, new Set());
+    }
+    shape.get(path)!.add(type);
+  }
+
+  if (type === 'array') {
+    for (const element of value as unknown[]) {
+      collectShape(element, `${path}[]`, shape);
+    }
+  } else if (type === 'object') {
+    for (const [key, child] of Object.entries(value as Record<string, unknown>)) {
+      collectShape(child, path ? `${path}.${key}` : key, shape);
+    }
+  }
+}
+
+/**
+ * Builds the combined shape of a set of documents
+ * @param documents - Documents to inspect
+ * @returns Field paths and the value types seen at each
+ */
+export function extractShape(documents: Document[]): DocumentShape {
+  const shape: DocumentShape = new Map();
+  for (const document of documents) {
+    collectShape(document, '', shape);
+  }
+  return shape;
+}
+
+/**
+ * Compares seeder and backend shapes
+ * - Backend fields the seeder never writes are reported as missing
+ * - Seeder fields the backend never writes are reported unless the seeder only
+ *   writes null there (Spring Data omits null fields)
+ * - Fields present on both sides must share a non-null type
+ * @param seeder - Shape of seeder-written documents
+ * @param backend - Shape of backend-created documents
+ * @param ignoreFields - Field paths (and their children) to skip
+ * @returns Differences sorted by path
+ */
+export function compareShapes(
+  seeder: DocumentShape,
+  backend: DocumentShape,
+  ignoreFields: string[] = []
+): SchemaDifference[] {
+  const ignored = (path: string) =>
+    ignoreFields.some((field) => path === field || path.startsWith(`${field}.`) || path.startsWith(`${field}[]`));
+  const nonNull = (types: Set<string> | undefined) => [...(types ?? [])].filter((type) => type !== 'null').sort();
+  const differences: SchemaDifference[] = [];
+  const paths = new Set([...seeder.keys(), ...backend.keys()]);
+
+  for (const path of [...paths].sort()) {
+    if (ignored(path)) {
+      continue;
+    }
+
+    const seederTypes = nonNull(seeder.get(path));
+    const backendTypes = nonNull(backend.get(path));
+    const difference = { path, seederTypes, backendTypes };
+
+    if (!seeder.has(path)) {
+      differences.push({ ...difference, kind: 'missing-in-seeder' });
+    } else if (!backend.has(path)) {
+      if (seederTypes.length > 0) {
+        differences.push({ ...difference, kind: 'unknown-to-backend' });
+      }
+    } else if (
+      seederTypes.length > 0 &&
+      backendTypes.length > 0 &&
+      !seederTypes.some((type) => backendTypes.includes(type))
+    ) {
+      differences.push({ ...difference, kind: 'type-mismatch' });
+    }
+  }
+
+  // Children of a missing/unknown object are noise - keep only the top-most path
+  return differences.filter(
+    (difference) =>
+      difference.kind === 'type-mismatch' ||
+      !differences.some(
+        (other) =>
+          other !== difference &&
+          other.kind === difference.kind &&
+          (difference.path.startsWith(`${other.path}.`) || difference.path.startsWith(`${other.path}[]`))
+      )
+  );
+}
+
+/**
+ * Samples seeder-written and backend-created documents and compares them
+ * @param seeder - Connected DataSeeder
+ * @param targets - Collections to verify
+ * @param sampleSize - Documents to sample per side
+ * @returns One result per collection
+ */
+export async function detectSchemaDrift(
+  seeder: DataSeeder,
+  targets: SchemaTarget[] = DEFAULT_SCHEMA_TARGETS,
+  sampleSize = 20
+): Promise<SchemaDriftResult[]> {
+  const results: SchemaDriftResult[] = [];
+
+  for (const target of targets) {
+    const filter = target.filter ?? {};
+    const seederDocuments = await seeder.sampleDocuments(
+      target.collection,
+      { ...filter, createdBy: SEEDER_AUDIT_USER },
+      sampleSize
+    );
+    const backendDocuments = await seeder.sampleDocuments(
+      target.collection,
+      { ...filter, createdBy: { $ne: SEEDER_AUDIT_USER } },
+      sampleSize
+    );
+
+    const result: SchemaDriftResult = {
+      collection: target.collection,
+      seederSamples: seederDocuments.length,
+      backendSamples: backendDocuments.length,
+      differences: [],
+    };
+
+    if (seederDocuments.length === 0 || backendDocuments.length === 0) {
+      result.skippedReason =
+        seederDocuments.length === 0 ? 'no seeder-written documents' : 'no backend-created documents in this run';
+    } else {
+      result.differences = compareShapes(
+        extractShape(seederDocuments),
+        extractShape(backendDocuments),
+        target.ignoreFields
+      );
+    }
+
+    results.push(result);
+  }
+
+  return results;
+}
+
+/**
+ * Checks whether any verified collection drifted
+ */
+export function hasSchemaDrift(results: SchemaDriftResult[]): boolean {
+  return results.some((result) => result.differences.length > 0);
+}
+
+/**
+ * Formats drift results as a diff-style report
+ * `-` lines are fields the seeder is missing, `+` lines are fields only the
+ * seeder writes, `~` lines are type mismatches (seeder -> backend)
+ */
+export function formatSchemaDriftReport(results: SchemaDriftResult[]): string {
+  const lines: string[] = [];
+
+  for (const result of results) {
+    const header = `${result.collection} (${result.seederSamples} seeder / ${result.backendSamples} backend documents)`;
+
+    if (result.skippedReason) {
+      lines.push(`  ${header}: skipped - ${result.skippedReason}`);
+      continue;
+    }
+    if (result.differences.length === 0) {
+      lines.push(`  ${header}: OK`);
+      continue;
+    }
+
+    lines.push(`  ${header}: ${result.differences.length} difference(s)`);
+    for (const difference of result.differences) {
+      switch (difference.kind) {
+        case 'missing-in-seeder':
+          lines.push(`    - ${difference.path}: ${difference.backendTypes.join('|') || 'null'} (backend only)`);
+          break;
+        case 'unknown-to-backend':
+          lines.push(`    + ${difference.path}: ${difference.seederTypes.join('|')} (seeder only)`);
+          break;
+        case 'type-mismatch':
+          lines.push(
+            `    ~ ${difference.path}: ${difference.seederTypes.join('|')} -> ${difference.backendTypes.join('|')}`
+          );
+          break;
+      }
+    }
+  }
+
+  return ['[SchemaDrift] Seeder vs backend document shapes:', ...lines].join('\n');
+}
@@ -81,14 +81,71 @@ export interface ImageMetadata {
   uploadedBy: string;
 }
 
+/**
+ * Represents an inventory batch for E2E testing
+ * Matches the InventoryBatch entity in the backend - the backend sums the
+ * availableQuantity of active batches for a product's inventory
+ */
+export interface TestInventoryBatch {
+  /** Batch number (ZB + digits - the admin dashboard parses this format) */
+  batchNumber: string;
+  /** Slug of the product the batch belongs to (product ids are resolved at seed time) */
+  productSlug: string;
+  quantity: number;
+  /** Remaining quantity (default: quantity) */
+  availableQuantity?: number;
+  expiryDate: Date;
+  /** Default: 30 days ago */
+  manufactureDate?: Date;
+  /** Default: seed time */
+  receivedDate?: Date;
+  /** Default: the COA purity, or 99.5 */
+  purity?: number;
+  /** Default: true */
+  active?: boolean;
+  supplier?: string;
+  /** Certificate of analysis seeded with the batch and linked by coaId */
+  coa?: TestBatchCoa;
+}
+
+/**
+ * Certificate of analysis for an inventory batch
+ */
+export interface TestBatchCoa {
+  id: string;
+  laboratory: string;
+  testDate: Date;
+  purity: number;
+  reportUrl?: string;
+}
+
 /**
  * Represents a test coupon for E2E testing
+ * Matches the Coupon entity in the backend
  */
 export interface TestCoupon {
   code: string;
   discountType: 'PERCENTAGE' | 'FIXED';
   discountValue: number;
   minOrderAmount?: number;
+  /** Whether the coupon is enabled (default: true) */
+  active?: boolean;
+  /** Start of the validity window (default: seeding time) */
+  validFrom?: Date;
+  /** End of the validity window (default: 30 days after seeding) */
+  validUntil?: Date;
+  /** Total redemptions allowed across all users (default: 100) */
+  usageLimit?: number;
+  /** Redemptions already made (default: 0) - equal to usageLimit for an exhausted coupon */
+  usageCount?: number;
+  /** Redemptions allowed per user (default: unlimited) */
+  perUserLimit?: number;
+  /** Redemptions already made per user, keyed by email - resolved to user IDs when seeding */
+  userUsageCounts?: Record<string, number>;
+  /** Categories the coupon applies to (default: all) */
+  applicableCategories?: ProductCategory[];
+  /** Slugs of the products the coupon applies to (default: all) - resolved to product IDs when seeding */
+  applicableProductSlugs?: string[];
 }
 
 /**
@@ -182,6 +239,26 @@ export interface TestOrder {
   notes?: string;
 }
 
+/**
+ * Represents a saved address-book entry for E2E testing
+ * Matches backend Address.java as stored in the user's address book
+ */
+export interface TestSavedAddress extends TestOrderAddress {
+  addressType: 'SHIPPING' | 'BILLING';
+  /** Default address of its type - the first address of each type when none is flagged */
+  isDefault?: boolean;
+  additionalInfo?: string;
+}
+
+/**
+ * Address book of one user
+ */
+export interface TestAddressBook {
+  /** Owner - resolved to the user ID at seed time (isolated users get new IDs on registration) */
+  userEmail: string;
+  addresses: TestSavedAddress[];
+}
+
 /**
  * Represents a shipping address for checkout testing
  */
@@ -265,6 +342,81 @@ export interface TestBitcoinPayment {
   complianceVerifiedAt?: Date;
 }
 
+/**
+ * Payment progress fields of a Bitcoin payment - what changes as it is paid, confirmed or refunded
+ * Used to update an existing payment (see DataSeeder.updateBitcoinPayment)
+ */
+export type BitcoinPaymentState = Pick<
+  TestBitcoinPayment,
+  'status' | 'receivedSats' | 'confirmedSats' | 'txids' | 'confirmationCount' | 'underpaid' | 'overpaid' | 'expiresAt' | 'paymentDate'
+> & {
+  /** Refunded USD amount */
+  refundedAmount?: number;
+};
+
+/**
+ * Credit type enumeration matching backend CreditType.java
+ */
+export type CreditType = 'COA_SUBMISSION' | 'MANUAL_ADJUSTMENT' | 'PROMOTION' | 'REFUND';
+
+/**
+ * Credit status enumeration matching backend CreditStatus.java
+ */
+export type CreditStatus = 'ACTIVE' | 'USED' | 'EXPIRED';
+
+/**
+ * Represents a store-credit ledger entry for E2E testing
+ * Matches the AccountCredit entity in the backend
+ */
+export interface TestCredit {
+  id: string;
+  /** Owner - resolved to the user ID at seed time (isolated users get new IDs on registration) */
+  userEmail: string;
+  type: CreditType;
+  status: CreditStatus;
+  amount: number;
+  description: string;
+  /** What the credit was issued for, e.g. a COA submission ID or an order number */
+  sourceReference?: string;
+  createdDate: Date;
+  /** No expiry when unset */
+  expirationDate?: Date;
+  /** When a USED credit was redeemed */
+  usedDate?: Date;
+}
+
+/**
+ * COA submission status enumeration matching backend CoaSubmissionStatus.java
+ */
+export type CoaSubmissionStatus = 'PENDING_REVIEW' | 'APPROVED' | 'REJECTED' | 'REQUIRES_MODIFICATION';
+
+/**
+ * Represents a customer COA submission for E2E testing
+ * Matches the CoaSubmission entity in the backend
+ */
+export interface TestCoaSubmission {
+  id: string;
+  /** Submitter - resolved to the user ID at seed time (isolated users get new IDs on registration) */
+  userEmail: string;
+  orderNumber: string;
+  productId: string;
+  productName: string;
+  batchNumber: string;
+  status: CoaSubmissionStatus;
+  testingProvider: string;
+  laboratory: string;
+  testDate: Date;
+  /** Name of the uploaded COA file */
+  fileName: string;
+  submissionDate: Date;
+  /** Set once an admin has reviewed the submission */
+  reviewedDate?: Date;
+  /** Credit issued for an APPROVED submission */
+  creditAmount?: number;
+  /** Why a submission was REJECTED or needs modification */
+  rejectionReason?: string;
+}
+
 /**
  * Complete E2E test fixtures structure
  */
@@ -273,42 +425,47 @@ export interface E2ETestFixtures {
     customer: TestUser;
     admin: TestUser;
     unverified: TestUser;
+    // Tests that consume an activation/reset key should use allocateUser() instead
     /** User with activation key for activation testing */
     pendingActivation?: TestUser;
-    /** Second user with activation key for login-after-activation testing */
-    pendingActivation2?: TestUser;
-    /** Third user with activation key for Firefox browser activation testing */
-    pendingActivation3?: TestUser;
-    /** Fourth user with activation key for Firefox browser login-after-activation testing */
-    pendingActivation4?: TestUser;
-    /** Fifth user with activation key for mobile-chrome browser activation testing */
-    pendingActivation5?: TestUser;
-    /** Sixth user with activation key for mobile-chrome browser login-after-activation testing */
-    pendingActivation6?: TestUser;
     /** User with valid reset key for password reset testing */
     pendingReset?: TestUser;
-    /** Second user with valid reset key for login-after-reset testing */
-    pendingReset2?: TestUser;
-    /** Third user with valid reset key for Firefox browser reset testing */
-    pendingReset3?: TestUser;
-    /** Fourth user with valid reset key for Firefox browser login-after-reset testing */
-    pendingReset4?: TestUser;
-    /** Fifth user with valid reset key for mobile-chrome browser reset testing */
-    pendingReset5?: TestUser;
-    /** Sixth user with valid reset key for mobile-chrome browser login-after-reset testing */
-    pendingReset6?: TestUser;
     /** User with expired reset key for expired token testing */
     expiredReset?: TestUser;
   };
+  /** Bulk users seeded directly in MongoDB for volume testing (large profile) */
+  bulkUsers?: TestUser[];
   products: TestProduct[];
+  /** Explicit batches - products without any get a single one-year batch for their inventory */
+  inventoryBatches?: TestInventoryBatch[];
   coupons: {
     percentage: TestCoupon;
     fixed: TestCoupon;
     expired: TestCoupon;
+    /** Active coupon whose validUntil has passed - checks the date, not just the active flag */
+    lapsed?: TestCoupon;
+    /** Coupon whose validity window starts in the future */
+    notYetValid?: TestCoupon;
+    /** Coupon with every redemption used up */
+    exhausted?: TestCoupon;
+    /** Coupon already redeemed up to its per-user limit by one user */
+    perUserLimited?: TestCoupon;
+    /** Coupon restricted to a product category */
+    categoryScoped?: TestCoupon;
+    /** Coupon restricted to specific products */
+    productScoped?: TestCoupon;
+    /** Coupons without a named role, keyed by code (e.g. exported from a live database) */
+    [code: string]: TestCoupon | undefined;
   };
   orders: TestOrder[];
+  /** Store-credit ledger entries for the account credits tests */
+  credits?: TestCredit[];
+  /** COA submissions in every review state for the COA review lifecycle tests */
+  coaSubmissions?: TestCoaSubmission[];
   /** Bitcoin payments for admin dashboard testing */
   bitcoinPayments?: TestBitcoinPayment[];
+  /** Saved address books, replacing whatever the users saved before */
+  addressBooks?: TestAddressBook[];
   shippingAddresses?: {
     valid: TestShippingAddress;
     invalid: TestShippingAddress;
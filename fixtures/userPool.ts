@@ -0,0 +1,168 @@
+/**
+ * User Pool
+ *
+ * Allocates single-use test users on demand. Account flows consume one-time
+ * keys (activation, password reset), so every test that exercises them needs
+ * its own user. Instead of numbering users per browser project in the fixture
+ * file, tests ask the pool for a user in the state they need:
+ *
+ * ```typescript
+ * test('resets password', async ({ allocateUser }) => {
+ *   const user = await allocateUser({ state: 'pendingReset' });
+ *   await resetPasswordPage.gotoWithKey(user.resetKey!);
+ * });
+ * ```
+ *
+ * Users are written straight to the worker's database with fresh keys, named
+ * after the project, worker and test that allocated them, and removed again
+ * when the test finishes.
+ */
+
+import { randomBytes } from 'crypto';
+import { DataSeeder } from './DataSeeder';
+import { FACTORY_USER_PASSWORD } from './factories';
+import { TestUser } from './types';
+
+/**
+ * Account state of an allocated user
+ * - active: activated, no pending keys
+ * - pendingActivation: not activated, valid activation key
+ * - pendingReset: activated, reset key requested now (valid for 24 hours)
+ * - expiredReset: activated, reset key requested 25 hours ago (past the 24 hour window)
+ */
+export type PoolUserState = 'active' | 'pendingActivation' | 'pendingReset' | 'expiredReset';
+
+/**
+ * Options for allocateUser()
+ */
+export interface AllocateUserOptions {
+  state: PoolUserState;
+  /** Authorities (default: ROLE_USER) */
+  authorities?: string[];
+  /** First name (default: Pool) */
+  firstName?: string;
+}
+
+/**
+ * Identifies who allocated a user - keeps ids and emails unique across projects and workers
+ */
+export interface UserPoolOwner {
+  projectName: string;
+  parallelIndex: number;
+  /** Playwright testInfo.testId */
+  testId: string;
+}
+
+/**
+ * Email domain used by pool users
+ */
+const POOL_EMAIL_DOMAIN = 'test.zenithbioscience.com';
+
+/**
+ * Reset keys older than this are rejected by the backend
+ */
+const RESET_KEY_VALIDITY_MS = 24 * 60 * 60 * 1000;
+
+function slug(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+}
+
+/**
+ * Builds a pool user without saving it
+ * @param options - Requested state and overrides
+ * @param owner - Project/worker/test allocating the user
+ * @param sequence - Position of the user within the test
+ * @returns A user with fresh keys for its state
+ */
+export function buildPoolUser(options: AllocateUserOptions, owner: UserPoolOwner, sequence: number): TestUser {
+  const name = `${slug(owner.projectName)}-w${owner.parallelIndex}-${slug(owner.testId)}-${sequence}`;
+  const key = () => `e2e-pool-${randomBytes(12).toString('hex')}`;
+
+  const user: TestUser = {
+    id: `e2e-pool-${name}`,
+    email: `pool-${name}@${POOL_EMAIL_DOMAIN}`,
+    password: FACTORY_USER_PASSWORD,
+    firstName: options.firstName ?? 'Pool',
+    lastName: options.state.charAt(0).toUpperCase() + options.state.slice(1),
+    authorities: options.authorities ?? ['ROLE_USER'],
+    activated: options.state !== 'pendingActivation',
+  };
+
+  switch (options.state) {
+    case 'pendingActivation':
+      user.activationKey = key();
+      break;
+    case 'pendingReset':
+      user.resetKey = key();
+      user.resetDate = new Date();
+      break;
+    case 'expiredReset':
+      user.resetKey = key();
+      user.resetDate = new Date(Date.now() - RESET_KEY_VALIDITY_MS - 60 * 60 * 1000);
+      break;
+  }
+
+  return user;
+}
+
+/**
+ * Allocates users for a single test and removes them afterwards
+ */
+export class UserPool {
+  private allocated: TestUser[] = [];
+
+  /**
+   * @param seeder - DataSeeder for the worker's database
+   * @param owner - Project/worker/test the users belong to
+   */
+  constructor(
+    private readonly seeder: DataSeeder,
+    private readonly owner: UserPoolOwner
+  ) {}
+
+  /**
+   * Creates a user in the requested state
+   * @param options - Requested state and overrides
+   * @returns The saved user, including its activation/reset key
+   * @throws Error if the user cannot be saved
+   */
+  async allocate(options: AllocateUserOptions): Promise<TestUser> {
+    const user = buildPoolUser(options, this.owner, this.allocated.length + 1);
+
+    try {
+      await this.seeder.connect();
+      await this.seeder.seedSpecialTestUsers([user]);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      throw new Error(`[UserPool] Failed to allocate ${options.state} user: ${message}`);
+    }
+
+    this.allocated.push(user);
+    return { ...user };
+  }
+
+  /**
+   * Users allocated so far
+   */
+  getAllocated(): TestUser[] {
+    return this.allocated.map((user) => ({ ...user }));
+  }
+
+  /**
+   * Deletes every allocated user
+   * Best-effort: a failure leaves single-use users behind, which the next reset removes
+   */
+  async release(): Promise<void> {
+    if (this.allocated.length === 0) {
+      return;
+    }
+
+    try {
+      await this.seeder.deleteUsers(this.allocated.map((user) => user.id));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      console.warn(`[UserPool] Failed to release ${this.allocated.length} users: ${message}`);
+    }
+    this.allocated = [];
+  }
+}
@@ -0,0 +1,475 @@
+/**
+ * WebSocket Interception Harness
+ *
+ * Sits between the page and the backend on every WebSocket the page opens
+ * (Playwright's page.routeWebSocket), so specs can verify real-time payment
+ * updates without the backend producing them:
+ * - Records every frame the page sends and receives, parsed as STOMP when
+ *   it is STOMP (SockJS-wrapped frames are unwrapped)
+ * - Tracks SUBSCRIBE/UNSUBSCRIBE frames, so tests can assert on topics
+ * - Injects MESSAGE frames on a subscribed topic, e.g. payment status changes
+ * - Forces disconnects and holds reconnects back to simulate an outage
+ *
+ * Tests use the webSockets fixture (see ./workerFixtures), which attaches
+ * before the page navigates:
+ * ```typescript
+ * const subscription = await webSockets.waitForSubscription(PAYMENT_TOPIC_PATTERN);
+ * await webSockets.injectPaymentStatus({ status: 'PROCESSING', confirmations: 0 });
+ * await webSockets.disconnect({ blockReconnects: true });
+ * ```
+ *
+ * Frames still flow to and from the real backend; injected frames are added
+ * on top.
+ */
+
+import type { Page, WebSocketRoute } from '@playwright/test';
+import { BitcoinPaymentStatus } from './types';
+
+/**
+ * Topics the frontend subscribes to for payment updates
+ */
+export const PAYMENT_TOPIC_PATTERN = /payment|bitcoin/i;
+
+/**
+ * Default wait for subscriptions and connections
+ */
+const DEFAULT_WAIT_TIMEOUT = 15000;
+
+/**
+ * How often waits re-check the recorded state
+ */
+const POLL_INTERVAL = 100;
+
+/**
+ * A parsed STOMP frame
+ */
+export interface StompFrame {
+  command: string;
+  headers: Record<string, string>;
+  body: string;
+}
+
+/**
+ * A frame that passed through the harness
+ */
+export interface RecordedFrame {
+  /** Connection the frame belongs to (order of opening, from 0) */
+  connectionId: number;
+  /** sent: page to server, received: server to page, injected: harness to page */
+  direction: 'sent' | 'received' | 'injected';
+  data: string;
+  /** The STOMP frames in the message, if it is STOMP */
+  stomp: StompFrame[];
+  timestamp: number;
+}
+
+/**
+ * A topic subscription made by the page
+ */
+export interface WebSocketSubscription {
+  connectionId: number;
+  /** STOMP subscription id */
+  id: string;
+  destination: string;
+  /** False once unsubscribed or the connection closed */
+  active: boolean;
+}
+
+/**
+ * A WebSocket the page opened
+ */
+export interface WebSocketConnection {
+  id: number;
+  url: string;
+  /** Whether the connection goes through SockJS (frames wrapped in a[...] from the server, [...] from the client) */
+  sockJs: boolean;
+  open: boolean;
+  /** Close code, once closed */
+  closeCode?: number;
+}
+
+/**
+ * Payment status change as the backend publishes it
+ */
+export interface PaymentStatusMessage {
+  orderId?: string;
+  status: BitcoinPaymentStatus;
+  confirmations?: number;
+  requiredConfirmations?: number;
+  receivedSats?: number;
+  expectedSats?: number;
+  txids?: string[];
+  underpaid?: boolean;
+  overpaid?: boolean;
+}
+
+/**
+ * Options for WebSocketHarness.attach
+ */
+export interface WebSocketHarnessOptions {
+  /** WebSockets to intercept (default: all but Next.js dev server sockets) */
+  url?: string | RegExp | ((url: URL) => boolean);
+}
+
+/**
+ * Options for a forced disconnect
+ */
+export interface DisconnectOptions {
+  /** Close code reported to the page (default: 1011) */
+  code?: number;
+  reason?: string;
+  /** Refuse new connections until allowReconnects() (default: false) */
+  blockReconnects?: boolean;
+}
+
+interface ActiveConnection {
+  info: WebSocketConnection;
+  page: WebSocketRoute;
+  server?: WebSocketRoute;
+}
+
+// ============================================================================
+// STOMP frames
+// ============================================================================
+
+/**
+ * Parses the STOMP frames in a message
+ * @returns The frames, or an empty list if the message isn't STOMP
+ */
+export function parseStompFrames(data: string): StompFrame[] {
+  return data
+    .split('\0')
+    .map((frame) => frame.replace(/^[\r\n]+/, ''))
+    .filter(Boolean)
+    .map((frame) => {
+      const separator = frame.search(/\r?\n\r?\n/);
+      const head = separator === -1 ? frame : frame.slice(0, separator);
+      const body = separator === -1 ? '' : frame.slice(separator).replace(/^\r?\n\r?\n/, '');
+      const [command, ...headerLines] = head.split(/\r?\n/);
+      const headers: Record<string, string> = {};
+      for (const line of headerLines) {
+        const colon = line.indexOf(':');
+        if (colon > 0 && !(line.slice(0, colon) in headers)) {
+          headers[line.slice(0, colon)] = line.slice(colon + 1);
+        }
+      }
+      return { command, headers, body };
+    })
+    .filter((frame) => /^[A-Z]+$/.test(frame.command));
+}
+
+/**
+ * Serializes a STOMP frame
+ */
+export function serializeStompFrame(frame: StompFrame): string {
+  const headers = Object.entries(frame.headers).map(([name, value]) => `${name}:${value}`);
+  return `${[frame.command, ...headers].join('\n')}\n\n${frame.body}\0`;
+}
+
+/**
+ * Unwraps SockJS message frames; other messages are returned as-is
+ * The server sends a["..."], the client a bare JSON array ["..."]
+ */
+function unwrapSockJs(data: string): { messages: string[]; sockJs: boolean } {
+  const array = data.startsWith('a[') ? data.slice(1) : data.startsWith('[') ? data : null;
+  if (array === null) {
+    return { messages: [data], sockJs: false };
+  }
+  try {
+    const messages: unknown = JSON.parse(array);
+    if (Array.isArray(messages) && messages.every((message) => typeof message === 'string')) {
+      return { messages, sockJs: true };
+    }
+  } catch {
+    // Not SockJS framing - fall through
+  }
+  return { messages: [data], sockJs: false };
+}
+
+function toText(message: string | Buffer): string {
+  return typeof message === 'string' ? message : message.toString('utf8');
+}
+
+// ============================================================================
+// Harness
+// ============================================================================
+
+/**
+ * Records, injects and interrupts the page's WebSocket traffic
+ */
+export class WebSocketHarness {
+  private readonly recorded: RecordedFrame[] = [];
+  private readonly connections: ActiveConnection[] = [];
+  private readonly subscriptionList: WebSocketSubscription[] = [];
+  private reconnectsBlocked = false;
+  private injectedCount = 0;
+
+  private constructor() {}
+
+  /**
+   * Starts intercepting the page's WebSockets - call before the page opens them
+   * @param page - Page to intercept
+   * @param options - Which sockets to intercept
+   */
+  static async attach(page: Page, options: WebSocketHarnessOptions = {}): Promise<WebSocketHarness> {
+    const harness = new WebSocketHarness();
+    const url = options.url ?? ((candidate: URL) => !candidate.pathname.startsWith('/_next/'));
+    await page.routeWebSocket(url, (route) => harness.handleConnection(route));
+    return harness;
+  }
+
+  /**
+   * Every frame recorded so far, oldest first
+   */
+  get frames(): RecordedFrame[] {
+    return [...this.recorded];
+  }
+
+  /**
+   * Every subscription the page made, including ended ones
+   */
+  get subscriptions(): WebSocketSubscription[] {
+    return this.subscriptionList.map((subscription) => ({ ...subscription }));
+  }
+
+  /**
+   * Every connection the page opened, including closed ones
+   */
+  get connectionLog(): WebSocketConnection[] {
+    return this.connections.map((connection) => ({ ...connection.info }));
+  }
+
+  /**
+   * Number of connections currently open
+   */
+  get openConnectionCount(): number {
+    return this.connections.filter((connection) => connection.info.open).length;
+  }
+
+  /**
+   * Active subscriptions whose destination matches
+   */
+  findSubscriptions(destination: string | RegExp): WebSocketSubscription[] {
+    return this.subscriptions.filter(
+      (subscription) => subscription.active && this.matches(subscription.destination, destination)
+    );
+  }
+
+  /**
+   * Waits until the page subscribes to a matching destination
+   * @param destination - Exact destination or pattern
+   * @param timeout - Milliseconds to wait
+   * @returns The subscription
+   * @throws Error listing the subscriptions seen if none matches in time
+   */
+  async waitForSubscription(
+    destination: string | RegExp,
+    timeout: number = DEFAULT_WAIT_TIMEOUT
+  ): Promise<WebSocketSubscription> {
+    await this.waitFor(() => this.findSubscriptions(destination).length > 0, timeout, () => {
+      const seen = this.subscriptionList.map((subscription) => subscription.destination).join(', ') || 'none';
+      return `[WebSocketHarness] No subscription to ${destination} within ${timeout}ms (seen: ${seen})`;
+    });
+    return this.findSubscriptions(destination)[0];
+  }
+
+  /**
+   * Waits until the page has opened a number of connections in total and one is open
+   * Use it to wait for a reconnect: waitForConnections(connectionLog.length + 1)
+   * @param count - Total connections, including closed ones
+   * @param timeout - Milliseconds to wait
+   */
+  async waitForConnections(count: number, timeout: number = DEFAULT_WAIT_TIMEOUT): Promise<void> {
+    await this.waitFor(
+      () => this.connections.filter((connection) => connection.info.open).length > 0 && this.connections.length >= count,
+      timeout,
+      () => `[WebSocketHarness] Expected ${count} connections within ${timeout}ms, saw ${this.connections.length}`
+    );
+  }
+
+  /**
+   * Sends a STOMP MESSAGE to every connection subscribed to a destination
+   * @param destination - Exact destination or pattern
+   * @param body - Message body; objects are sent as JSON
+   * @returns Number of subscriptions the message was delivered to
+   * @throws Error if nothing is subscribed to the destination
+   */
+  inject(destination: string | RegExp, body: unknown): number {
+    const subscriptions = this.findSubscriptions(destination);
+    if (subscriptions.length === 0) {
+      throw new Error(`[WebSocketHarness] Failed to inject message: nothing is subscribed to ${destination}`);
+    }
+
+    const text = typeof body === 'string' ? body : JSON.stringify(body);
+    for (const subscription of subscriptions) {
+      const frame = serializeStompFrame({
+        command: 'MESSAGE',
+        headers: {
+          destination: subscription.destination,
+          subscription: subscription.id,
+          'message-id': `e2e-injected-${++this.injectedCount}`,
+          'content-type': typeof body === 'string' ? 'text/plain' : 'application/json',
+          'content-length': String(Buffer.byteLength(text)),
+        },
+        body: text,
+      });
+      this.sendToPage(subscription.connectionId, frame);
+    }
+    return subscriptions.length;
+  }
+
+  /**
+   * Sends a payment status change on the payment topic
+   * @param message - Status change
+   * @param destination - Topic (default: PAYMENT_TOPIC_PATTERN)
+   * @returns Number of subscriptions the message was delivered to
+   */
+  injectPaymentStatus(message: PaymentStatusMessage, destination: string | RegExp = PAYMENT_TOPIC_PATTERN): number {
+    return this.inject(destination, { ...message, timestamp: new Date().toISOString() });
+  }
+
+  /**
+   * Sends a raw message to every open connection, bypassing STOMP framing
+   * Used to check how the page copes with malformed frames
+   */
+  injectRaw(data: string): void {
+    for (const connection of this.connections.filter((candidate) => candidate.info.open)) {
+      this.sendToPage(connection.info.id, data);
+    }
+  }
+
+  /**
+   * Closes every open connection, on both the page and server side
+   * @param options - Close code and whether to refuse reconnects
+   */
+  async disconnect(options: DisconnectOptions = {}): Promise<void> {
+    this.reconnectsBlocked = options.blockReconnects ?? false;
+
+    const open = this.connections.filter((connection) => connection.info.open);
+    for (const connection of open) {
+      connection.info.open = false;
+      connection.info.closeCode = options.code ?? 1011;
+      this.endSubscriptions(connection.info.id);
+      await connection.server?.close().catch(() => {});
+      await connection.page.close({ code: options.code ?? 1011, reason: options.reason ?? 'E2E forced disconnect' });
+    }
+  }
+
+  /**
+   * Lets the page connect again after disconnect({ blockReconnects: true })
+   */
+  allowReconnects(): void {
+    this.reconnectsBlocked = false;
+  }
+
+  // ============================================
+  // Connection Handling
+  // ============================================
+
+  private handleConnection(route: WebSocketRoute): void {
+    const info: WebSocketConnection = {
+      id: this.connections.length,
+      url: route.url(),
+      sockJs: /\/websocket(\?|$)/.test(route.url()),
+      open: !this.reconnectsBlocked,
+    };
+    const connection: ActiveConnection = { info, page: route };
+    this.connections.push(connection);
+
+    // Simulated outage - refuse the connection
+    if (this.reconnectsBlocked) {
+      info.closeCode = 1013;
+      void route.close({ code: 1013, reason: 'E2E reconnects blocked' });
+      return;
+    }
+
+    const server = route.connectToServer();
+    connection.server = server;
+
+    route.onMessage((message) => {
+      this.record(info, 'sent', toText(message));
+      server.send(message);
+    });
+    server.onMessage((message) => {
+      this.record(info, 'received', toText(message));
+      if (info.open) {
+        route.send(message);
+      }
+    });
+    route.onClose((code, reason) => {
+      this.markClosed(info, code);
+      void server.close({ code, reason }).catch(() => {});
+    });
+    server.onClose((code, reason) => {
+      if (info.open) {
+        this.markClosed(info, code);
+        void route.close({ code, reason }).catch(() => {});
+      }
+    });
+  }
+
+  private sendToPage(connectionId: number, data: string): void {
+    const connection = this.connections[connectionId];
+    if (!connection?.info.open) {
+      return;
+    }
+    const message = connection.info.sockJs ? `a${JSON.stringify([data])}` : data;
+    this.record(connection.info, 'injected', message);
+    connection.page.send(message);
+  }
+
+  private record(info: WebSocketConnection, direction: RecordedFrame['direction'], data: string): void {
+    const { messages, sockJs } = unwrapSockJs(data);
+    info.sockJs ||= sockJs;
+    const stomp = messages.flatMap((message) => parseStompFrames(message));
+    this.recorded.push({ connectionId: info.id, direction, data, stomp, timestamp: Date.now() });
+
+    if (direction !== 'sent') {
+      return;
+    }
+    for (const frame of stomp) {
+      if (frame.command === 'SUBSCRIBE' && frame.headers.destination) {
+        this.subscriptionList.push({
+          connectionId: info.id,
+          id: frame.headers.id ?? '',
+          destination: frame.headers.destination,
+          active: true,
+        });
+      } else if (frame.command === 'UNSUBSCRIBE') {
+        for (const subscription of this.subscriptionList) {
+          if (subscription.connectionId === info.id && subscription.id === frame.headers.id) {
+            subscription.active = false;
+          }
+        }
+      }
+    }
+  }
+
+  private markClosed(info: WebSocketConnection, code: number | undefined): void {
+    info.open = false;
+    info.closeCode ??= code;
+    this.endSubscriptions(info.id);
+  }
+
+  private endSubscriptions(connectionId: number): void {
+    for (const subscription of this.subscriptionList) {
+      if (subscription.connectionId === connectionId) {
+        subscription.active = false;
+      }
+    }
+  }
+
+  private matches(value: string, pattern: string | RegExp): boolean {
+    return typeof pattern === 'string' ? value === pattern : pattern.test(value);
+  }
+
+  private async waitFor(condition: () => boolean, timeout: number, describe: () => string): Promise<void> {
+    const deadline = Date.now() + timeout;
+    while (!condition()) {
+      if (Date.now() >= deadline) {
+        throw new Error(describe());
+      }
+      await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL));
+    }
+  }
+}
@@ -0,0 +1,363 @@
+/**
+ * Worker Isolation Fixtures
+ *
+ * Extends Playwright's `test` with a worker-scoped `isolationTarget` that
+ * routes every test in the worker to its own database (see ./isolation).
+ * In `worker` mode the fixture clones the database seeded by global setup
+ * into the worker's database before its first test; `project` databases are
+ * cloned once by global setup.
+ *
+ * The browser's baseURL and extraHTTPHeaders are pointed at the worker's
+ * frontend/tenant automatically, so specs need no changes. API clients should
+ * be created from `isolationTarget` (the auth fixtures already do this).
+ *
+ * Spec files that modify shared data can opt in to a clean database:
+ * ```typescript
+ * test.use({ restoreSnapshot: CLEAN_SNAPSHOT });
+ * ```
+ * The worker's database is restored from the snapshot taken by global setup
+ * before the first test of the file runs in that worker. Use it in serial
+ * files - a parallel file restores once per worker it is spread across. Unless
+ * each worker has its own database (E2E_DB_ISOLATION=worker), the restore only
+ * runs when there is a single worker.
+ *
+ * Tests that consume one-time keys allocate their own user (see ./userPool):
+ * ```typescript
+ * const user = await allocateUser({ state: 'pendingActivation' });
+ * ```
+ *
+ * Tests that change a seeded entity lease it first (see ./leases):
+ * ```typescript
+ * const order = await leases.order((o) => o.status === 'AWAITING_PAYMENT');
+ * ```
+ *
+ * Specs are tagged @read-only or @mutating (see ./runMode); read-only runs
+ * skip everything not tagged @read-only.
+ *
+ * Runtime database IDs (registered users get new ones) come from the run
+ * manifest written by global setup (see ./runManifest):
+ * ```typescript
+ * const order = getManifestOrder(runManifest, 'e2e-order-024');
+ * ```
+ *
+ * Tests that pay Bitcoin invoices drive the chain stand-in the backend polls
+ * (see ./bitcoinChain); they skip when it isn't running:
+ * ```typescript
+ * const tx = await bitcoinChain.broadcast(address, sats);
+ * await bitcoinChain.mine(2);
+ * ```
+ *
+ * Or drive the payment document directly and reload (see ./bitcoinPaymentSimulator):
+ * ```typescript
+ * await simulateBitcoinPayment(orderId, 'underpaid');
+ * ```
+ *
+ * Tests of real-time updates intercept the page's WebSockets
+ * (see ./webSocketHarness) to assert on subscriptions and inject messages:
+ * ```typescript
+ * await webSockets.waitForSubscription(PAYMENT_TOPIC_PATTERN);
+ * webSockets.injectPaymentStatus({ status: 'PROCESSING', confirmations: 0 });
+ * ```
+ *
+ * Tests that need different payment methods apply a configuration profile
+ * (see ./paymentConfigProfiles); the default is restored after the test. They
+ * skip unless the worker has the database to itself:
+ * ```typescript
+ * await paymentConfig.apply('cashAppOnly');
+ * ```
+ */
+
+import { test as base } from '@playwright/test';
+import { CLEAN_SNAPSHOT, DataSeeder } from './DataSeeder';
+import { BitcoinChain } from './bitcoinChain';
+import { BitcoinPaymentEvent, BitcoinPaymentScenario, BitcoinPaymentSimulator } from './bitcoinPaymentSimulator';
+import { defaultFixtures } from './defaultFixtures';
+import { IsolationTarget, isDatabaseShared, resolveIsolationTarget } from './isolation';
+import { FixtureLeases, LeaseManager } from './leases';
+import { PaymentConfigProfile, PaymentConfigProfileName, applyPaymentConfigProfile } from './paymentConfigProfiles';
+import { READ_ONLY_TAG, getRunMode } from './runMode';
+import { RunManifest, requireRunManifest } from './runManifest';
+import { AllocateUserOptions, UserPool } from './userPool';
+import { BitcoinPaymentState, TestUser } from './types';
+import { WebSocketHarness } from './webSocketHarness';
+import { ApiHelper, DEFAULT_CONFIG, createApiHelper } from '../helpers/ApiHelper';
+
+/**
+ * Options configured with test.use()
+ */
+export interface SnapshotOptions {
+  /** Snapshot to restore before the first test of the spec file; undefined to skip */
+  restoreSnapshot: string | undefined;
+}
+
+/**
+ * Test-scoped fixtures
+ */
+export interface TestScopedFixtures {
+  /** Skips tests not tagged @read-only in read-only runs (auto) */
+  runModeGuard: void;
+  /** Restores restoreSnapshot once per spec file (auto) */
+  snapshotRestore: void;
+  /** Creates a single-use user in the worker's database; removed after the test */
+  allocateUser: (options: AllocateUserOptions) => Promise<TestUser>;
+  /** Leases seeded users/orders/payments exclusively across workers; released after the test */
+  leases: FixtureLeases;
+  /** Applies payment configuration profiles; the default profile is restored after the test */
+  paymentConfig: PaymentConfigControl;
+  /** Client for the Bitcoin chain stand-in; skips the test when it isn't running */
+  bitcoinChain: BitcoinChain;
+  /** Updates an order's Bitcoin payment in the worker's database; pages see it after a reload */
+  simulateBitcoinPayment: (
+    orderId: string,
+    event: BitcoinPaymentEvent | BitcoinPaymentScenario
+  ) => Promise<BitcoinPaymentState>;
+  /** Records and injects the page's WebSocket traffic; attached before the page navigates */
+  webSockets: WebSocketHarness;
+}
+
+/**
+ * Switches the payment method configurations of the worker's database
+ */
+export interface PaymentConfigControl {
+  /**
+   * Seeds a profile and refreshes the backend's payment configuration cache
+   * Skips the test unless the database belongs to this worker alone - every
+   * checkout on the database would see the profile, not only this test's
+   */
+  apply: (profile: PaymentConfigProfileName | PaymentConfigProfile) => Promise<void>;
+}
+
+/**
+ * Worker-scoped fixtures
+ */
+export interface WorkerFixtures {
+  /** Database, backend and headers for this worker */
+  isolationTarget: IsolationTarget;
+  /** Seeder connected to the worker's database, plus the last file it restored for */
+  workerSeeder: { seeder: DataSeeder; lastRestoredFile?: string };
+  /** Runtime IDs written by global setup; throws in runs that didn't seed */
+  runManifest: RunManifest;
+}
+
+/**
+ * Creates an API client for the worker's backend, logged in as admin
+ * @returns The client, or null if login failed
+ */
+async function loginAdmin(target: IsolationTarget, purpose: string): Promise<ApiHelper | null> {
+  const api = createApiHelper({
+    backendUrl: target.backendUrl,
+    frontendUrl: target.frontendUrl,
+    extraHeaders: target.headers,
+  });
+  const admin = defaultFixtures.users.admin;
+
+  const login = await api.login(admin.email, admin.password);
+  if (!login.success) {
+    console.warn(`[WorkerFixtures] Could not ${purpose} - admin login failed: ${login.error}`);
+    return null;
+  }
+  return api;
+}
+
+/**
+ * Clears backend caches after a restore so the app doesn't serve stale products/users
+ * Best-effort: a failure only means the next requests may see cached data
+ */
+async function clearBackendCaches(target: IsolationTarget): Promise<void> {
+  const api = await loginAdmin(target, 'clear backend caches');
+  if (!api) {
+    return;
+  }
+
+  await Promise.all([
+    api.clearAppCache('products'),
+    api.clearAppCache('users'),
+    api.refreshPaymentConfiguration(),
+  ]);
+  api.logout();
+}
+
+export const test = base.extend<SnapshotOptions & TestScopedFixtures, WorkerFixtures>({
+  isolationTarget: [
+    async ({}, use, workerInfo) => {
+      const seeder = new DataSeeder();
+      const projectName = workerInfo.project.name;
+
+      const target = resolveIsolationTarget(
+        {
+          parallelIndex: workerInfo.parallelIndex,
+          projectName,
+          projectIndex: workerInfo.config.projects.findIndex((project) => project.name === projectName),
+        },
+        {
+          databaseName: seeder.getDatabaseName(),
+          backendUrl: DEFAULT_CONFIG.backendUrl,
+          frontendUrl: workerInfo.project.use.baseURL ?? DEFAULT_CONFIG.frontendUrl,
+        }
+      );
+
+      if (target.mode === 'worker') {
+        try {
+          await seeder.connect();
+          await seeder.cloneDatabase(target.databaseName);
+        } finally {
+          await seeder.disconnect();
+        }
+      }
+
+      if (target.mode !== 'shared') {
+        console.log(`[WorkerFixtures] Worker ${workerInfo.parallelIndex} using database ${target.databaseName} via ${target.backendUrl}`);
+      }
+
+      await use(target);
+    },
+    { scope: 'worker', auto: true },
+  ],
+
+  workerSeeder: [
+    async ({ isolationTarget }, use) => {
+      const seeder = new DataSeeder({ databaseName: isolationTarget.databaseName });
+      const state: WorkerFixtures['workerSeeder'] = { seeder };
+      await use(state);
+      await seeder.disconnect();
+    },
+    { scope: 'worker' },
+  ],
+
+  runManifest: [
+    async ({}, use) => {
+      await use(requireRunManifest());
+    },
+    { scope: 'worker' },
+  ],
+
+  restoreSnapshot: [undefined, { option: true }],
+
+  runModeGuard: [
+    async ({}, use, testInfo) => {
+      // The config already filters by tag - this catches runs that override --grep
+      const runMode = getRunMode();
+      if (runMode.mode === 'read-only' && !testInfo.tags.includes(READ_ONLY_TAG)) {
+        testInfo.skip(true, `Read-only run (${runMode.reason}) - spec is not tagged ${READ_ONLY_TAG}`);
+      }
+      await use();
+    },
+    { auto: true },
+  ],
+
+  snapshotRestore: [
+    async ({ runModeGuard, restoreSnapshot, workerSeeder, isolationTarget }, use, testInfo) => {
+      // Depends on runModeGuard so tests skipped by a read-only run never restore
+      if (restoreSnapshot && workerSeeder.lastRestoredFile !== testInfo.file) {
+        workerSeeder.lastRestoredFile = testInfo.file;
+
+        // A shared database is restored under every other worker's feet - only do it when running alone
+        if (isDatabaseShared(isolationTarget, testInfo.config.workers)) {
+          console.warn(
+            `[WorkerFixtures] Skipping restore of "${restoreSnapshot}" for ${testInfo.titlePath[0]} - ` +
+              'the database is shared by parallel workers (set E2E_DB_ISOLATION=worker or run with --workers=1)'
+          );
+          await use();
+          return;
+        }
+
+        await workerSeeder.seeder.connect();
+        await workerSeeder.seeder.restore(restoreSnapshot);
+        await clearBackendCaches(isolationTarget);
+        // Consumed entities are back in their seeded state
+        await new LeaseManager({ holder: testInfo.testId, scope: isolationTarget.databaseName }).resetConsumed();
+      }
+      await use();
+    },
+    { auto: true },
+  ],
+
+  allocateUser: async ({ workerSeeder }, use, testInfo) => {
+    const pool = new UserPool(workerSeeder.seeder, {
+      projectName: testInfo.project.name,
+      parallelIndex: testInfo.parallelIndex,
+      testId: testInfo.testId,
+    });
+    await use((options) => pool.allocate(options));
+    await pool.release();
+  },
+
+  leases: async ({ isolationTarget }, use, testInfo) => {
+    const leases = new FixtureLeases(
+      new LeaseManager({
+        holder: `${testInfo.project.name}:${testInfo.testId}#${testInfo.retry}`,
+        scope: isolationTarget.databaseName,
+      })
+    );
+    await use(leases);
+    await leases.releaseAll();
+  },
+
+  paymentConfig: async ({ workerSeeder, isolationTarget }, use, testInfo) => {
+    let api = null as ApiHelper | null;
+
+    await use({
+      apply: async (profile) => {
+        if (!api) {
+          // Every checkout in the database sees the configuration - only change a shared one when running alone
+          if (isDatabaseShared(isolationTarget, testInfo.config.workers)) {
+            testInfo.skip(
+              true,
+              'Payment configuration profiles change checkout for every parallel worker on a shared database ' +
+                '(set E2E_DB_ISOLATION=worker or run with --workers=1)'
+            );
+          }
+
+          api = await loginAdmin(isolationTarget, 'apply a payment configuration profile');
+          if (!api) {
+            throw new Error('[WorkerFixtures] Failed to apply payment configuration profile: admin login failed');
+          }
+          await workerSeeder.seeder.connect();
+        }
+
+        await applyPaymentConfigProfile(workerSeeder.seeder, api, profile);
+      },
+    });
+
+    // Put the seeded configuration back for the worker's next test
+    if (api) {
+      await applyPaymentConfigProfile(workerSeeder.seeder, api, 'default');
+      api.logout();
+    }
+  },
+
+  bitcoinChain: async ({}, use, testInfo) => {
+    const chain = new BitcoinChain();
+    if (!(await chain.isAvailable())) {
+      testInfo.skip(true, 'Bitcoin chain stand-in is not running (see BTC_CHAIN_URL) - invoices cannot be paid');
+    }
+    await use(chain);
+  },
+
+  simulateBitcoinPayment: async ({ workerSeeder }, use) => {
+    let simulator = null as BitcoinPaymentSimulator | null;
+
+    await use(async (orderId, event) => {
+      if (!simulator) {
+        await workerSeeder.seeder.connect();
+        simulator = new BitcoinPaymentSimulator(workerSeeder.seeder);
+      }
+      return simulator.simulate(orderId, event);
+    });
+  },
+
+  webSockets: async ({ page }, use) => {
+    await use(await WebSocketHarness.attach(page));
+  },
+
+  baseURL: async ({ baseURL, isolationTarget }, use) => {
+    await use(isolationTarget.mode === 'shared' ? baseURL : isolationTarget.frontendUrl);
+  },
+
+  extraHTTPHeaders: async ({ extraHTTPHeaders, isolationTarget }, use) => {
+    await use({ ...extraHTTPHeaders, ...isolationTarget.headers });
+  },
+});
+
+export { expect } from '@playwright/test';
+export { CLEAN_SNAPSHOT };
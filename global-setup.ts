@@ -1,297 +1,256 @@
-import { FullConfig } from '@playwright/test';
-import { DataSeeder } from './fixtures/DataSeeder';
-import { defaultFixtures, getAllIsolatedUsers } from './fixtures/defaultFixtures';
+import { FullConfig, chromium } from '@playwright/test';
+import { CLEAN_SNAPSHOT, DataSeeder } from './fixtures/DataSeeder';
+import { startBitcoinChain } from './fixtures/bitcoinChain';
+import { getAllIsolatedUsers } from './fixtures/defaultFixtures';
+import { getFixtureCoupons, getProfileFixtures, resolveFixtureProfile } from './fixtures/profiles';
+import { getIsolatedDatabaseName, resolveDatabaseIsolation } from './fixtures/isolation';
+import { refreshPaymentConfigCache } from './fixtures/paymentConfigProfiles';
+import { assertSeededCounts, waitForReadiness } from './fixtures/readiness';
+import {
+  RUN_MANIFEST_PATH,
+  buildRunManifest,
+  getUserIdChanges,
+  resolveManifestUsers,
+  writeRunManifest,
+} from './fixtures/runManifest';
+import { READ_ONLY_TAG, getRunMode } from './fixtures/runMode';
+import { findActiveRuns, formatActiveRuns, startRun } from './fixtures/runTag';
 import { TestUser } from './fixtures/types';
+import { createAuthSessions } from './fixtures/authSessions';
+import { ApiHelper, RegisterRequest } from './helpers/ApiHelper';
+import { env } from './helpers/env';
 
 /**
  * Global setup for Playwright tests
  *
  * This function runs once before all tests.
- * - Resets the database to a clean state
- * - Creates test users via API and activates them
- * - Seeds products and coupons
+ * - Resolves the run mode - a read-only run (E2E_RUN_MODE) only waits for the services
+ * - Waits for the backend (and its health components), frontend and MongoDB - aborts the run if one isn't ready
+ * - Resets the database to a clean state - refused while another run is using it (E2E_FORCE_RESET overrides)
+ * - Creates test users via API concurrently (paced by the RequestScheduler) and activates them
+ * - Seeds products and coupons from the selected fixture profile (E2E_FIXTURE_PROFILE)
+ * - Verifies the seeded document counts match the fixtures - aborts the run if they don't
  * - Clears backend cache to ensure fresh data
+ * - Snapshots the seeded state so spec files can restore it (restoreSnapshot)
+ * - Clones the seeded database per project when E2E_DB_ISOLATION=project
+ * - Caches login sessions (storageState) for isolated test users
+ * - Writes the run manifest of runtime IDs (test-results/run-manifest.json)
  *
  * Requirements covered:
  * - 1.2: Test data seeding
  * - 9.4: Database reset to known state
  */
 
-const BACKEND_URL = process.env.BACKEND_URL || 'http://localhost:8080';
-
-interface RegisterRequest {
-  firstName: string;
-  lastName: string;
-  email: string;
-  password: string;
-  timezone: string;
-  termsAccepted: boolean;
-}
-
-interface LoginResponse {
-  token: string;
-}
-
 /**
- * Warmup the backend to avoid threat detection blocking first request
- * The ThreatDetectionFilter blocks the first request from a new source
+ * Login as a user and get JWT token
+ * On success the token is stored on the client for subsequent admin calls
  */
-async function warmupBackend(): Promise<void> {
-  try {
-    // Make a simple health check request to warm up the connection
-    await fetch(`${BACKEND_URL}/management/health`, {
-      method: 'GET',
-      headers: {
-        'Accept': 'application/json',
-        'Origin': 'http://localhost:3000',
-      },
-    });
-    console.log('[Setup] Backend warmup complete');
-    // Small delay after warmup
-    await new Promise(resolve => setTimeout(resolve, 500));
-  } catch (error) {
-    console.warn('[Setup] Backend warmup failed (may be expected):', error);
+async function loginUser(api: ApiHelper, email: string, password: string): Promise<string | null> {
+  const response = await api.login(email, password);
+
+  if (response.success && response.data?.accessToken) {
+    console.log(`[Setup] Logged in as: ${email}`);
+    return response.data.accessToken;
   }
+
+  console.warn(`[Setup] Failed to login ${email}: ${response.status} - ${response.errorBody ?? response.error}`);
+  return null;
 }
 
 /**
- * Login as a user and get JWT token
+ * Clear backend application cache (requires admin login on the client)
+ * Clears both product and user caches concurrently
  */
-async function loginUser(email: string, password: string): Promise<string | null> {
-  try {
-    const response = await fetch(`${BACKEND_URL}/api/auth/login`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Accept': 'application/json',
-        'Origin': 'http://localhost:3000',
-      },
-      body: JSON.stringify({ email, password, rememberMe: false }),
-    });
+async function clearBackendCache(api: ApiHelper): Promise<boolean> {
+  const [productResponse, userResponse] = await Promise.all([
+    api.clearAppCache('products'),
+    // Clear user cache - CRITICAL for order history tests
+    // Users are registered via API and get new UUIDs, but the cache may have stale data
+    api.clearAppCache('users'),
+  ]);
 
-    if (response.ok) {
-      const data = await response.json() as LoginResponse;
-      console.log(`[Setup] Logged in as: ${email}`);
-      return data.token;
-    } else {
-      const errorText = await response.text();
-      console.warn(`[Setup] Failed to login ${email}: ${response.status} - ${errorText}`);
-      return null;
-    }
-  } catch (error) {
-    console.warn(`[Setup] Error logging in ${email}:`, error);
-    return null;
+  if (productResponse.success) {
+    console.log('[Setup] Backend product cache cleared');
+  } else {
+    console.warn(`[Setup] Failed to clear product cache: ${productResponse.status} - ${productResponse.errorBody ?? productResponse.error}`);
+  }
+
+  if (userResponse.success) {
+    console.log('[Setup] Backend user cache cleared');
+  } else {
+    console.warn(`[Setup] Failed to clear user cache: ${userResponse.status} - ${userResponse.errorBody ?? userResponse.error}`);
   }
+
+  return productResponse.success;
 }
 
 /**
- * Clear backend application cache (requires admin token)
- * Clears both product and user caches
+ * Retries of a registration that failed without a response (connection reset, timeout)
  */
-async function clearBackendCache(adminToken: string, retryCount = 0): Promise<boolean> {
-  try {
-    // Clear product cache
-    const productResponse = await fetch(`${BACKEND_URL}/api/admin/cache/app/products/clear`, {
-      method: 'POST',
-      headers: {
-        'Accept': 'application/json',
-        'Authorization': `Bearer ${adminToken}`,
-        'Origin': 'http://localhost:3000',
-      },
-    });
+const REGISTER_NETWORK_RETRIES = 2;
 
-    if (productResponse.ok) {
-      console.log('[Setup] Backend product cache cleared');
-    } else {
-      const errorText = await productResponse.text();
-      // Retry on threat detection
-      if (productResponse.status === 403 && errorText.includes('threat') && retryCount < 3) {
-        console.log('[Setup] Threat detection blocked cache clear, retrying after delay...');
-        await new Promise(resolve => setTimeout(resolve, 1500));
-        return clearBackendCache(adminToken, retryCount + 1);
-      }
-      console.warn(`[Setup] Failed to clear product cache: ${productResponse.status} - ${errorText}`);
-    }
+/**
+ * Register a user via the backend API
+ * Threat detection blocks and rate limits are retried by the client's RequestScheduler;
+ * network errors are retried here - a repeat that finds the user already registered succeeds
+ */
+async function registerUser(api: ApiHelper, user: TestUser, defaultLastName: string): Promise<boolean> {
+  const userData: RegisterRequest = {
+    firstName: user.firstName,
+    lastName: user.lastName || defaultLastName,
+    email: user.email,
+    password: user.password,
+    timezone: 'America/Denver',
+    termsAccepted: true,
+  };
+  let response = await api.register(userData);
+  for (let retry = 1; response.status === 0 && retry <= REGISTER_NETWORK_RETRIES; retry++) {
+    console.warn(`[Setup] Network error registering ${userData.email} (${response.error}), retry ${retry}/${REGISTER_NETWORK_RETRIES}...`);
+    await new Promise((resolve) => setTimeout(resolve, 1000));
+    response = await api.register(userData);
+  }
 
-    // Clear user cache - CRITICAL for order history tests
-    // Users are registered via API and get new UUIDs, but the cache may have stale data
-    const userResponse = await fetch(`${BACKEND_URL}/api/admin/cache/app/users/clear`, {
-      method: 'POST',
-      headers: {
-        'Accept': 'application/json',
-        'Authorization': `Bearer ${adminToken}`,
-        'Origin': 'http://localhost:3000',
-      },
-    });
+  if (response.success) {
+    console.log(`[Setup] Registered user: ${userData.email}`);
+    return true;
+  }
 
-    if (userResponse.ok) {
-      console.log('[Setup] Backend user cache cleared');
-    } else {
-      const errorText = await userResponse.text();
-      console.warn(`[Setup] Failed to clear user cache: ${userResponse.status} - ${errorText}`);
-    }
+  const errorText = response.errorBody ?? '';
 
-    return productResponse.ok;
-  } catch (error) {
-    console.warn('[Setup] Error clearing cache:', error);
-    return false;
+  // Check for common "already exists" scenarios
+  if (response.status === 400 && (errorText.includes('already') || errorText.includes('exists') || errorText.includes('duplicate'))) {
+    console.log(`[Setup] User already exists: ${userData.email}`);
+    return true;
   }
+
+  console.warn(`[Setup] Failed to register ${userData.email}: ${response.status} - ${errorText || response.error}`);
+  return false;
 }
 
 /**
- * Refresh payment configuration cache (requires admin token)
- * This is CRITICAL after seeding payment method configurations
+ * Log isolated users in through the UI and save their storageState
+ * Session caching is an optimisation - failures fall back to UI login in the fixture
  */
-async function refreshPaymentConfigCache(adminToken: string, retryCount = 0): Promise<boolean> {
+async function cacheAuthSessions(baseURL: string): Promise<number> {
   try {
-    const response = await fetch(`${BACKEND_URL}/api/admin/payment-configuration/refresh`, {
-      method: 'POST',
-      headers: {
-        'Accept': 'application/json',
-        'Authorization': `Bearer ${adminToken}`,
-        'Origin': 'http://localhost:3000',
-      },
-    });
-
-    if (response.ok) {
-      console.log('[Setup] Payment configuration cache refreshed');
-      return true;
-    } else {
-      const errorText = await response.text();
-      // Retry on threat detection
-      if (response.status === 403 && errorText.includes('threat') && retryCount < 3) {
-        console.log('[Setup] Threat detection blocked payment config refresh, retrying after delay...');
-        await new Promise(resolve => setTimeout(resolve, 1500));
-        return refreshPaymentConfigCache(adminToken, retryCount + 1);
-      }
-      console.warn(`[Setup] Failed to refresh payment config cache: ${response.status} - ${errorText}`);
-      return false;
+    const browser = await chromium.launch();
+    try {
+      return await createAuthSessions(browser, baseURL);
+    } finally {
+      await browser.close();
     }
   } catch (error) {
-    console.warn('[Setup] Error refreshing payment config cache:', error);
-    return false;
+    console.warn('[Setup] Could not cache login sessions:', error);
+    return 0;
   }
 }
 
 /**
- * Register a user via the backend API with retry logic
+ * Start the Bitcoin chain stand-in when BTC_CHAIN_URL points at this machine
+ * Non-fatal: specs that pay invoices skip when the stand-in isn't reachable
+ * @returns Whether the stand-in was started
  */
-async function registerUser(userData: RegisterRequest, retryCount = 0): Promise<boolean> {
-  try {
-    const response = await fetch(`${BACKEND_URL}/api/auth/register`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Accept': 'application/json',
-        'Origin': 'http://localhost:3000',
-      },
-      body: JSON.stringify(userData),
-    });
+async function startLocalBitcoinChain(): Promise<boolean> {
+  const url = new URL(env.bitcoinChainUrl);
+  if (!['localhost', '127.0.0.1'].includes(url.hostname)) {
+    console.log(`ℹ️ Using the Bitcoin chain stand-in at ${env.bitcoinChainUrl}`);
+    return false;
+  }
 
-    if (response.ok) {
-      console.log(`[Setup] Registered user: ${userData.email}`);
-      return true;
-    } else {
-      const errorText = await response.text();
-      
-      // Check for common "already exists" scenarios
-      if (response.status === 400 && (errorText.includes('already') || errorText.includes('exists') || errorText.includes('duplicate'))) {
-        console.log(`[Setup] User already exists: ${userData.email}`);
-        return true;
-      }
-      
-      // If blocked by threat detection and we haven't retried yet, wait and retry
-      if (response.status === 403 && errorText.includes('threat') && retryCount < 2) {
-        console.log(`[Setup] Threat detection blocked ${userData.email}, retrying after delay...`);
-        await new Promise(resolve => setTimeout(resolve, 1000));
-        return registerUser(userData, retryCount + 1);
-      }
-      
-      console.warn(`[Setup] Failed to register ${userData.email}: ${response.status} - ${errorText}`);
-      return false;
-    }
+  try {
+    console.log('⛓️ Starting Bitcoin chain stand-in...');
+    const server = await startBitcoinChain(Number(url.port || 80));
+    console.log(`   - Listening on port ${server.port}`);
+    return true;
   } catch (error) {
-    console.warn(`[Setup] Error registering ${userData.email}:`, error);
-    // Retry on network errors
-    if (retryCount < 2) {
-      await new Promise(resolve => setTimeout(resolve, 1000));
-      return registerUser(userData, retryCount + 1);
-    }
+    console.warn('⚠️ Bitcoin chain stand-in not started - payment simulation specs will skip:', error);
     return false;
   }
 }
 
 async function globalSetup(config: FullConfig): Promise<void> {
   console.log('🚀 Running global setup...');
-  console.log(`Base URL: ${config.projects[0]?.use?.baseURL || 'not set'}`);
-  console.log(`Backend URL: ${BACKEND_URL}`);
+  const baseURL = config.projects[0]?.use?.baseURL || env.frontendUrl;
+  console.log(`Base URL: ${baseURL}`);
+  console.log(`Backend URL: ${env.backendUrl}`);
+
+  // Unknown profile names throw here so a typo doesn't silently seed default data
+  const profile = resolveFixtureProfile();
+  const fixtures = getProfileFixtures(profile);
+  const isolation = resolveDatabaseIsolation();
+  console.log(`Fixture profile: ${profile}`);
+  console.log(`Database isolation: ${isolation}`);
+
+  // Non-local targets are read-only unless mutation is allowed and confirmed - misconfiguration throws here
+  const runMode = getRunMode();
+  console.log(`Run mode: ${runMode.mode} (${runMode.reason})`);
+
+  // Tags everything seeded or created through the API from here on - teardown deletes by it
+  const run = startRun();
+  console.log(`Run ID: ${run.id}`);
 
   const seeder = new DataSeeder();
+  const api = new ApiHelper({ backendUrl: env.backendUrl });
+
+  if (runMode.mode === 'read-only') {
+    // The database isn't touched in read-only runs, so only the app has to be up
+    console.log('🩺 Checking service readiness...');
+    await waitForReadiness(api, seeder, { database: false });
+    console.log(`🔒 Read-only run - skipping database reset and seeding, only ${READ_ONLY_TAG} specs run`);
+    console.log('✅ Global setup complete');
+    return;
+  }
 
   try {
+    // Fail fast with diagnostics instead of seeding against a service that is down
+    console.log('🩺 Checking service readiness...');
+    await waitForReadiness(api, seeder);
+
+    // The backend polls the chain stand-in for Bitcoin payments - a remote URL means it runs elsewhere
+    const bitcoinChainStarted = await startLocalBitcoinChain();
+
     // Connect to MongoDB
     console.log('📦 Connecting to MongoDB...');
     await seeder.connect();
 
+    // The reset drops every collection - refuse while another run still owns data in them
+    console.log('🤝 Checking for other runs using the database...');
+    const activeRuns = await findActiveRuns(seeder, run);
+    if (activeRuns.length > 0) {
+      const details = formatActiveRuns(activeRuns);
+      if (!env.flags.forceReset) {
+        throw new Error(
+          `[Setup] Refusing to reset ${seeder.getDatabaseName()} - other runs are still using it:\n${details}\n` +
+            'Wait for them to finish, point MONGODB_DATABASE at another database, or set E2E_FORCE_RESET=true if they are gone.'
+        );
+      }
+      console.warn(`⚠️ E2E_FORCE_RESET=true - resetting despite other runs using the database:\n${details}`);
+    }
+    await seeder.registerRun(run);
+
     // Reset database to clean state
     console.log('🗑️ Resetting database...');
     await seeder.resetDatabase();
 
-    // Warmup backend to avoid threat detection blocking first registration
-    console.log('🔥 Warming up backend...');
-    await warmupBackend();
-
-    // Register test users via API
-    console.log('👤 Creating test users via API...');
-    
-    const adminData: RegisterRequest = {
-      firstName: defaultFixtures.users.admin.firstName,
-      lastName: defaultFixtures.users.admin.lastName || 'Admin',
-      email: defaultFixtures.users.admin.email,
-      password: defaultFixtures.users.admin.password,
-      timezone: 'America/Denver',
-      termsAccepted: true,
-    };
-    await registerUser(adminData);
-
-    // Small delay between registrations
-    await new Promise(resolve => setTimeout(resolve, 500));
-
-    const customerData: RegisterRequest = {
-      firstName: defaultFixtures.users.customer.firstName,
-      lastName: defaultFixtures.users.customer.lastName || 'Customer',
-      email: defaultFixtures.users.customer.email,
-      password: defaultFixtures.users.customer.password,
-      timezone: 'America/Denver',
-      termsAccepted: true,
-    };
-    await registerUser(customerData);
-
-    // Register isolated test users (for parallel test execution)
-    console.log('👤 Creating isolated test users for parallel execution...');
+    // Register test users via API - the scheduler limits how many registrations run at once
+    // The readiness check above was the first backend request, so threat detection has already seen this client
+    console.log('👤 Creating test users via API (including isolated users for parallel execution)...');
     const isolatedUsers = getAllIsolatedUsers();
-    for (const user of isolatedUsers) {
-      await new Promise(resolve => setTimeout(resolve, 300)); // Small delay between registrations
-      const userData: RegisterRequest = {
-        firstName: user.firstName,
-        lastName: user.lastName || 'User',
-        email: user.email,
-        password: user.password,
-        timezone: 'America/Denver',
-        termsAccepted: true,
-      };
-      await registerUser(userData);
-    }
+    await Promise.all([
+      registerUser(api, fixtures.users.admin, 'Admin'),
+      registerUser(api, fixtures.users.customer, 'Customer'),
+      ...isolatedUsers.map((user) => registerUser(api, user, 'User')),
+    ]);
 
     // Activate users and set admin role directly in MongoDB
     console.log('✅ Activating users and setting roles...');
     const usersToActivate = [
       {
-        email: defaultFixtures.users.customer.email,
+        email: fixtures.users.customer.email,
         authorities: ['ROLE_USER'],
       },
       {
-        email: defaultFixtures.users.admin.email,
+        email: fixtures.users.admin.email,
         authorities: ['ROLE_USER', 'ROLE_ADMIN'],
       },
       // Activate all isolated test users
@@ -307,69 +266,19 @@ async function globalSetup(config: FullConfig): Promise<void> {
     console.log('🔑 Seeding special test users for activation/reset testing...');
     const specialTestUsers: TestUser[] = [];
     
-    // User pending activation - has a known activation key (chromium)
-    if (defaultFixtures.users.pendingActivation) {
-      specialTestUsers.push(defaultFixtures.users.pendingActivation);
-    }
-    
-    // Second user pending activation - for login-after-activation test (chromium)
-    if (defaultFixtures.users.pendingActivation2) {
-      specialTestUsers.push(defaultFixtures.users.pendingActivation2);
-    }
-    
-    // Third user pending activation - for Firefox browser activation test
-    if (defaultFixtures.users.pendingActivation3) {
-      specialTestUsers.push(defaultFixtures.users.pendingActivation3);
-    }
-    
-    // Fourth user pending activation - for Firefox browser login-after-activation test
-    if (defaultFixtures.users.pendingActivation4) {
-      specialTestUsers.push(defaultFixtures.users.pendingActivation4);
-    }
-    
-    // Fifth user pending activation - for mobile-chrome browser activation test
-    if (defaultFixtures.users.pendingActivation5) {
-      specialTestUsers.push(defaultFixtures.users.pendingActivation5);
-    }
-    
-    // Sixth user pending activation - for mobile-chrome browser login-after-activation test
-    if (defaultFixtures.users.pendingActivation6) {
-      specialTestUsers.push(defaultFixtures.users.pendingActivation6);
-    }
-    
-    // User with valid reset key for password reset testing (chromium)
-    if (defaultFixtures.users.pendingReset) {
-      specialTestUsers.push(defaultFixtures.users.pendingReset);
+    // User pending activation - has a known activation key
+    if (fixtures.users.pendingActivation) {
+      specialTestUsers.push(fixtures.users.pendingActivation);
     }
     
-    // Second user with valid reset key - for login-after-reset test (chromium)
-    if (defaultFixtures.users.pendingReset2) {
-      specialTestUsers.push(defaultFixtures.users.pendingReset2);
-    }
-    
-    // Third user with valid reset key - for Firefox browser reset test
-    if (defaultFixtures.users.pendingReset3) {
-      specialTestUsers.push(defaultFixtures.users.pendingReset3);
-    }
-    
-    // Fourth user with valid reset key - for Firefox browser login-after-reset test
-    if (defaultFixtures.users.pendingReset4) {
-      specialTestUsers.push(defaultFixtures.users.pendingReset4);
-    }
-    
-    // Fifth user with valid reset key - for mobile-chrome browser reset test
-    if (defaultFixtures.users.pendingReset5) {
-      specialTestUsers.push(defaultFixtures.users.pendingReset5);
-    }
-    
-    // Sixth user with valid reset key - for mobile-chrome browser login-after-reset test
-    if (defaultFixtures.users.pendingReset6) {
-      specialTestUsers.push(defaultFixtures.users.pendingReset6);
+    // User with valid reset key for password reset testing
+    if (fixtures.users.pendingReset) {
+      specialTestUsers.push(fixtures.users.pendingReset);
     }
     
     // User with expired reset key for expired token testing
-    if (defaultFixtures.users.expiredReset) {
-      specialTestUsers.push(defaultFixtures.users.expiredReset);
+    if (fixtures.users.expiredReset) {
+      specialTestUsers.push(fixtures.users.expiredReset);
     }
     
     if (specialTestUsers.length > 0) {
@@ -377,19 +286,23 @@ async function globalSetup(config: FullConfig): Promise<void> {
       console.log(`   - Seeded ${specialTestUsers.length} special test users with activation/reset keys`);
     }
 
+    // Bulk users (large profile) are seeded directly - registering hundreds via API is too slow
+    if (fixtures.bulkUsers && fixtures.bulkUsers.length > 0) {
+      console.log(`👥 Seeding ${fixtures.bulkUsers.length} bulk users...`);
+      await seeder.seedUsers(fixtures.bulkUsers);
+    }
+
     // Seed test products and coupons
     console.log('🌱 Seeding products and coupons...');
-    await seeder.seedProducts(defaultFixtures.products);
+    await seeder.seedProducts(fixtures.products);
+    // Remove generated products left behind by a previous run with a different profile
+    await seeder.pruneSeededProducts(fixtures.products);
     
     // CRITICAL: Seed inventory batches - the backend calculates inventory from batches
     console.log('📦 Seeding inventory batches...');
-    await seeder.seedInventoryBatches(defaultFixtures.products);
+    await seeder.seedInventoryBatches(fixtures.products, fixtures.inventoryBatches);
 
-    const coupons = [
-      defaultFixtures.coupons.percentage,
-      defaultFixtures.coupons.fixed,
-      defaultFixtures.coupons.expired,
-    ];
+    const coupons = getFixtureCoupons(fixtures);
     await seeder.seedCoupons(coupons);
 
     // CRITICAL: Seed payment method configurations for checkout tests
@@ -398,76 +311,118 @@ async function globalSetup(config: FullConfig): Promise<void> {
 
     // Seed test orders for admin order management tests
     console.log('📋 Seeding test orders...');
-    await seeder.seedOrders(defaultFixtures.orders);
+    await seeder.seedOrders(fixtures.orders);
 
     // Seed Bitcoin payments for admin Bitcoin dashboard tests
     console.log('₿ Seeding Bitcoin payments...');
-    if (defaultFixtures.bitcoinPayments && defaultFixtures.bitcoinPayments.length > 0) {
-      await seeder.seedBitcoinPayments(defaultFixtures.bitcoinPayments);
+    if (fixtures.bitcoinPayments && fixtures.bitcoinPayments.length > 0) {
+      await seeder.seedBitcoinPayments(fixtures.bitcoinPayments);
+    }
+
+    // Seed store credits for the account credits tests (owners are resolved by email)
+    console.log('💰 Seeding store credits...');
+    await seeder.seedCredits(fixtures.credits ?? []);
+
+    // Seed COA submissions in every review state for the COA review lifecycle tests
+    console.log('🧪 Seeding COA submissions...');
+    await seeder.seedCoaSubmissions(fixtures.coaSubmissions ?? []);
+
+    // Seed saved address books for the checkout prefill tests
+    console.log('🏠 Seeding address books...');
+    for (const book of fixtures.addressBooks ?? []) {
+      await seeder.seedAddresses(book.userEmail, book.addresses);
     }
 
     // CRITICAL: Update order userIds to match actual database user IDs
-    // Users registered via API get new UUIDs, not the fixture IDs
+    // Users registered via API get new UUIDs, not the fixture IDs - the run manifest maps one to the other
     console.log('🔗 Updating order user IDs to match actual database IDs...');
-    const emailToFixtureId = new Map<string, string>();
-    // Map customer user
-    emailToFixtureId.set(defaultFixtures.users.customer.email, defaultFixtures.users.customer.id);
-    // Map accountOrders isolated user (used for order-history tests)
-    const accountOrdersUser = isolatedUsers.find(u => u.email === 'account-orders@test.zenithbioscience.com');
-    if (accountOrdersUser) {
-      emailToFixtureId.set(accountOrdersUser.email, accountOrdersUser.id);
-    }
-    // Map accountCoa isolated user (used for coa-submission tests)
-    const accountCoaUser = isolatedUsers.find(u => u.email === 'account-coa@test.zenithbioscience.com');
-    if (accountCoaUser) {
-      emailToFixtureId.set(accountCoaUser.email, accountCoaUser.id);
-    }
-    await seeder.updateOrderUserIds(emailToFixtureId);
-    
-    // Verify the update worked by checking orders for accountOrders user
-    const accountOrdersUserId = await seeder.getUserIdByEmail('account-orders@test.zenithbioscience.com');
-    if (accountOrdersUserId) {
-      const orderCount = await seeder.countOrdersByUserId(accountOrdersUserId);
-      console.log(`[Verification] Orders for accountOrders user (${accountOrdersUserId}): ${orderCount}`);
-    }
-    
-    // Verify the update worked by checking orders for accountCoa user
-    const accountCoaUserId = await seeder.getUserIdByEmail('account-coa@test.zenithbioscience.com');
-    if (accountCoaUserId) {
-      const coaOrderCount = await seeder.countOrdersByUserId(accountCoaUserId);
-      console.log(`[Verification] Orders for accountCoa user (${accountCoaUserId}): ${coaOrderCount}`);
+    const manifestUsers = await resolveManifestUsers(seeder, fixtures);
+    await seeder.updateOrderUserIds(getUserIdChanges(manifestUsers));
+
+    // Verify the update worked for the users the order history and COA tests log in as
+    for (const key of ['accountOrders', 'accountCoa'] as const) {
+      const user = manifestUsers.isolatedUsers[key];
+      if (user) {
+        const orderCount = await seeder.countOrdersByUserId(user.id);
+        console.log(`[Verification] Orders for ${key} user (${user.id}): ${orderCount}`);
+      }
     }
 
+    // Seed methods skip entities they can't resolve (e.g. an unregistered owner) - abort instead of testing partial data
+    console.log('🔎 Verifying seeded data...');
+    await assertSeededCounts(seeder, fixtures);
+
     // CRITICAL: Clear backend cache after seeding data
     // The backend caches products, and if products were fetched before batches were seeded,
     // the cached version will have inventory: 0
     console.log('🧹 Clearing backend cache...');
     const adminToken = await loginUser(
-      defaultFixtures.users.admin.email,
-      defaultFixtures.users.admin.password
+      api,
+      fixtures.users.admin.email,
+      fixtures.users.admin.password
     );
     if (adminToken) {
-      await clearBackendCache(adminToken);
+      await clearBackendCache(api);
       // CRITICAL: Refresh payment configuration cache after seeding payment methods
-      await refreshPaymentConfigCache(adminToken);
+      await refreshPaymentConfigCache(api);
     } else {
       console.warn('⚠️ Could not clear backend cache - admin login failed');
     }
 
+    // Snapshot the freshly seeded state - taken before cloning so every copy includes it
+    console.log('📸 Creating clean snapshot...');
+    await seeder.snapshot(CLEAN_SNAPSHOT);
+
+    // Give each project its own copy of the seeded data
+    // Worker databases are cloned lazily by the isolationTarget worker fixture
+    if (isolation === 'project') {
+      console.log('🧬 Cloning database per project...');
+      for (const project of config.projects) {
+        const databaseName = getIsolatedDatabaseName(seeder.getDatabaseName(), isolation, {
+          parallelIndex: 0,
+          projectName: project.name,
+        });
+        await seeder.cloneDatabase(databaseName);
+      }
+    }
+
+    // Cache UI login sessions so the auth fixture can skip the login flow
+    console.log('🔐 Caching login sessions for isolated users...');
+    const sessionCount = await cacheAuthSessions(baseURL);
+
+    // Record the runtime IDs (and session expiries) for fixtures and specs
+    console.log('🗺️ Writing run manifest...');
+    writeRunManifest(await buildRunManifest(seeder, fixtures, profile));
+
     console.log('✅ Global setup complete');
-    console.log(`   - Users: customer (${defaultFixtures.users.customer.email}), admin (${defaultFixtures.users.admin.email})`);
+    console.log(`   - Run ID: ${run.id}`);
+    console.log(`   - Fixture profile: ${profile}`);
+    console.log(`   - Database isolation: ${isolation}`);
+    console.log(`   - Users: customer (${fixtures.users.customer.email}), admin (${fixtures.users.admin.email})`);
     console.log(`   - Isolated users: ${isolatedUsers.length} users for parallel test execution`);
+    console.log(`   - Bulk users: ${fixtures.bulkUsers?.length || 0} users`);
     console.log(`   - Special test users: pendingActivation, pendingReset, expiredReset`);
-    console.log(`   - Products: ${defaultFixtures.products.length} test products`);
-    console.log(`   - Inventory batches: ${defaultFixtures.products.filter(p => p.inventory > 0).length} batches created`);
-    console.log(`   - Coupons: TEST10, SAVE20, EXPIRED`);
-    console.log(`   - Orders: ${defaultFixtures.orders.length} test orders`);
-    console.log(`   - Bitcoin payments: ${defaultFixtures.bitcoinPayments?.length || 0} test payments`);
+    console.log(`   - Products: ${fixtures.products.length} test products`);
+    console.log(`   - Inventory batches: ${fixtures.products.filter(p => p.inventory > 0).length} batches created`);
+    console.log(`   - Coupons: ${coupons.map(c => c.code).join(', ')}`);
+    console.log(`   - Orders: ${fixtures.orders.length} test orders`);
+    console.log(`   - Bitcoin payments: ${fixtures.bitcoinPayments?.length || 0} test payments`);
+    console.log(`   - Bitcoin chain stand-in: ${bitcoinChainStarted ? env.bitcoinChainUrl : 'not started by this run'}`);
+    console.log(`   - Credits: ${fixtures.credits?.length || 0} ledger entries`);
+    console.log(`   - COA submissions: ${fixtures.coaSubmissions?.length || 0} submissions`);
+    console.log(`   - Address books: ${fixtures.addressBooks?.length || 0} users`);
     console.log(`   - Payment methods: CashApp, Solana Pay, Bitcoin (Zelle, ACH disabled - not implemented)`);
+    console.log(`   - Services: backend, frontend and MongoDB ready`);
+    console.log(`   - Seeded data: verified against fixtures`);
     console.log(`   - Backend cache: cleared`);
+    const requestStats = api.getConfig().scheduler.getStats();
+    console.log(`   - API requests: ${requestStats.requests} (${requestStats.throttled} throttled, ${requestStats.retries} retried)`);
+    console.log(`   - Cached sessions: ${sessionCount}/${isolatedUsers.length} isolated users`);
+    console.log(`   - Run manifest: ${RUN_MANIFEST_PATH}`);
   } catch (error) {
+    // Abort the run - tests against missing services or partial data only produce misleading failures
     console.error('❌ Global setup failed:', error);
-    console.warn('⚠️ Tests will run but may fail due to missing test data');
+    throw error;
   } finally {
     await seeder.disconnect();
   }
@@ -1,12 +1,26 @@
 import { FullConfig } from '@playwright/test';
 import { DataSeeder } from './fixtures/DataSeeder';
+import { stopBitcoinChain } from './fixtures/bitcoinChain';
+import { getRunMode } from './fixtures/runMode';
+import { RunContext, cleanupRun, formatCleanupReport, getRunContext } from './fixtures/runTag';
+import { env } from './helpers/env';
+import {
+  VERIFY_SCHEMA_ENV,
+  detectSchemaDrift,
+  formatSchemaDriftReport,
+  hasSchemaDrift,
+} from './fixtures/schemaDrift';
 
 /**
  * Global teardown for Playwright tests
  *
  * This function runs once after all tests.
- * - Cleans up test data from database
- * - Releases resources
+ * - Verifies seeded documents still match backend documents (E2E_VERIFY_SCHEMA=true)
+ * - Cleans up test data from database (CLEANUP_AFTER_TESTS):
+ *   - run: deletes only this run's tagged/recorded data and reports leftovers
+ *   - all: resets the database and drops isolated copies
+ * - Marks the run finished, so the next run's setup may reset the database
+ * - Releases resources (the Bitcoin chain stand-in)
  *
  * Requirements covered:
  * - 1.3: Test environment cleanup
@@ -14,27 +28,122 @@ import { DataSeeder } from './fixtures/DataSeeder';
 async function globalTeardown(config: FullConfig): Promise<void> {
   console.log('🧹 Running global teardown...');
 
+  // Schema verification must run before cleanup - it needs the documents the backend created during the run
+  const driftReport = process.env[VERIFY_SCHEMA_ENV] === 'true' ? await verifySchema() : null;
+
+  const readOnly = getRunMode().mode === 'read-only';
+
   // Only clean up if CLEANUP_AFTER_TESTS is set (default: keep data for debugging)
-  const shouldCleanup = process.env.CLEANUP_AFTER_TESTS === 'true';
-
-  if (shouldCleanup) {
-    const seeder = new DataSeeder();
-
-    try {
-      await seeder.connect();
-      console.log('🗑️ Cleaning up test data...');
-      await seeder.resetDatabase();
-      console.log('✅ Test data cleaned up');
-    } catch (error) {
-      console.warn('⚠️ Cleanup failed (non-fatal):', error);
-    } finally {
-      await seeder.disconnect();
-    }
+  if (env.cleanup !== 'none' && readOnly) {
+    console.log('🔒 Skipping cleanup - read-only run');
+  } else if (env.cleanup === 'run') {
+    await cleanupRunData();
+  } else if (env.cleanup === 'all') {
+    await cleanupAllData();
   } else {
-    console.log('ℹ️ Skipping cleanup (set CLEANUP_AFTER_TESTS=true to enable)');
+    console.log('ℹ️ Skipping cleanup (set CLEANUP_AFTER_TESTS=run to delete this run\'s data, or all to reset the database)');
+  }
+
+  // Read-only runs never registered with the database
+  const run = getRunContext();
+  if (run && !readOnly) {
+    await finishRun(run);
+  }
+
+  // Started by global setup in this process
+  await stopBitcoinChain();
+
+  if (driftReport) {
+    throw new Error(`Schema drift detected between seeded fixtures and backend documents\n${driftReport}`);
   }
 
   console.log('✅ Global teardown complete');
 }
 
+/**
+ * Delete the data this run seeded or created through the API
+ * Data from other runs sharing the database is kept
+ */
+async function cleanupRunData(): Promise<void> {
+  const run = getRunContext();
+  if (!run) {
+    console.warn('⚠️ Skipping cleanup - global setup did not start a run');
+    return;
+  }
+
+  const seeder = new DataSeeder();
+
+  try {
+    await seeder.connect();
+    console.log(`🗑️ Cleaning up data of run ${run.id}...`);
+    const report = await cleanupRun(seeder, run);
+    console.log(formatCleanupReport(report));
+    console.log('✅ Run data cleaned up');
+  } catch (error) {
+    console.warn('⚠️ Cleanup failed (non-fatal):', error);
+  } finally {
+    await seeder.disconnect();
+  }
+}
+
+/**
+ * Mark the run finished in the database's run registry
+ * Non-fatal: an unfinished run stops blocking resets once it is old enough
+ */
+async function finishRun(run: RunContext): Promise<void> {
+  const seeder = new DataSeeder();
+
+  try {
+    await seeder.connect();
+    await seeder.finishRun(run.id);
+    console.log(`🏁 Run ${run.id} finished`);
+  } catch (error) {
+    console.warn('⚠️ Could not mark the run finished (non-fatal):', error);
+  } finally {
+    await seeder.disconnect();
+  }
+}
+
+/**
+ * Reset the whole database, including other runs' data
+ */
+async function cleanupAllData(): Promise<void> {
+  const seeder = new DataSeeder();
+
+  try {
+    await seeder.connect();
+    console.log('🗑️ Cleaning up test data...');
+    await seeder.resetDatabase();
+    // Drop per-worker/per-project copies created by database isolation
+    await seeder.dropIsolatedDatabases();
+    console.log('✅ Test data cleaned up');
+  } catch (error) {
+    console.warn('⚠️ Cleanup failed (non-fatal):', error);
+  } finally {
+    await seeder.disconnect();
+  }
+}
+
+/**
+ * Compare seeder-written documents with backend-created ones
+ * @returns The report when drift was found, otherwise null
+ */
+async function verifySchema(): Promise<string | null> {
+  const seeder = new DataSeeder();
+
+  try {
+    await seeder.connect();
+    console.log('🔍 Verifying fixture schema against backend documents...');
+    const results = await detectSchemaDrift(seeder);
+    const report = formatSchemaDriftReport(results);
+    console.log(report);
+    return hasSchemaDrift(results) ? report : null;
+  } catch (error) {
+    console.warn('⚠️ Schema verification failed to run:', error);
+    return null;
+  } finally {
+    await seeder.disconnect();
+  }
+}
+
 export default globalTeardown;
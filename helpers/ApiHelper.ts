@@ -1,13 +1,19 @@
 /**
  * API Helper for E2E Integration Tests
  *
- * Provides methods for interacting with backend and frontend services,
- * including health checks, API interactions, and request logging.
+ * Typed client for the backend REST API used by specs and global setup.
+ * Provides health checks, authentication against the real login contract
+ * (POST /api/auth/login -> accessToken), cart, registration and admin
+ * cache endpoints, plus request logging. Requests are paced by a
+ * RequestScheduler, which retries throttled responses.
  *
  * Requirements: 1.6, 10.4
  */
 
+import { recordCreatedEntity } from '../fixtures/runTag';
 import { TestOrderItem, TestOrder, TestProduct, TestUser } from '../fixtures/types';
+import { env } from './env';
+import { RequestScheduler, sharedRequestScheduler } from './RequestScheduler';
 
 /**
  * Configuration for API Helper
@@ -17,16 +23,22 @@ export interface ApiHelperConfig {
   frontendUrl: string;
   defaultTimeout: number;
   healthCheckInterval: number;
+  /** Headers sent with every request (e.g. tenant routing for isolated databases) */
+  extraHeaders: Record<string, string>;
+  /** Paces requests and retries throttled ones - shared by every client in the process by default */
+  scheduler: RequestScheduler;
 }
 
 /**
  * Default configuration values
  */
 export const DEFAULT_CONFIG: ApiHelperConfig = {
-  backendUrl: process.env.BACKEND_URL || 'http://localhost:8080',
-  frontendUrl: process.env.FRONTEND_URL || 'http://localhost:3000',
-  defaultTimeout: 60000, // 60 seconds
+  backendUrl: env.backendUrl,
+  frontendUrl: env.frontendUrl,
+  defaultTimeout: env.timeouts.api,
   healthCheckInterval: 1000, // 1 second
+  extraHeaders: {},
+  scheduler: sharedRequestScheduler,
 };
 
 /**
@@ -51,14 +63,64 @@ export interface HealthCheckResponse {
   components?: Record<string, { status: string }>;
 }
 
+/**
+ * Login request structure
+ * Matches backend LoginRequest (POST /api/auth/login)
+ */
+export interface LoginRequest {
+  email: string;
+  password: string;
+  rememberMe?: boolean;
+}
+
 /**
  * Login response structure
+ * Matches backend AuthResponse returned by POST /api/auth/login
  */
 export interface LoginResponse {
-  id_token: string;
-  expires_in?: number;
+  accessToken: string;
+  refreshToken?: string;
+  tokenType?: string;
+  /** Token lifetime in seconds */
+  expiresIn?: number;
+}
+
+/**
+ * Registration request structure
+ * Matches backend RegisterRequest (POST /api/auth/register)
+ */
+export interface RegisterRequest {
+  firstName: string;
+  lastName: string;
+  email: string;
+  password: string;
+  timezone: string;
+  termsAccepted: boolean;
+}
+
+/**
+ * Cart item structure returned by GET /api/cart
+ */
+export interface CartItemResponse {
+  productId: string;
+  quantity: number;
+  productName?: string;
+  unitPrice?: number;
+}
+
+/**
+ * Cart structure returned by GET /api/cart
+ */
+export interface CartResponse {
+  items: CartItemResponse[];
+  subtotal?: number;
 }
 
+/**
+ * Application cache names accepted by POST /api/admin/cache/app/{name}/clear
+ */
+export type AppCacheName = 'products' | 'users';
+
 /**
  * Order creation request structure
  */
@@ -83,6 +145,10 @@ export interface ApiResponse<T> {
   data?: T;
   error?: string;
   status: number;
+  /** Raw response body for failed requests (e.g. ThreatDetectionFilter messages) */
+  errorBody?: string;
+  /** Retry-After header of throttled responses, in milliseconds */
+  retryAfterMs?: number;
 }
 
 /**
@@ -90,7 +156,8 @@ export interface ApiResponse<T> {
  *
  * Provides methods for:
  * - Health checks for backend and frontend services
- * - API interactions (orders, products, authentication)
+ * - API interactions (auth, registration, cart, orders, products)
+ * - Admin maintenance endpoints (cache clear, payment config refresh)
  * - Request logging for debugging and test reports
  */
 export class ApiHelper {
@@ -113,10 +180,8 @@ export class ApiHelper {
    * @returns Promise<HealthCheckResponse> Health status of the backend
    */
   async checkBackendHealth(): Promise<HealthCheckResponse> {
-    const url = `${this.config.backendUrl}/management/health`;
-
     try {
-      const response = await this.makeRequest<HealthCheckResponse>('GET', url);
+      const response = await this.getBackendHealth();
 
       if (response.success && response.data) {
         return response.data;
@@ -128,6 +193,17 @@ export class ApiHelper {
     }
   }
 
+  /**
+   * Fetch backend health including the raw response
+   * GET /management/health - answers 503 with component details when DOWN
+   *
+   * @returns Promise<ApiResponse<HealthCheckResponse>> Health status, components and error body
+   */
+  async getBackendHealth(): Promise<ApiResponse<HealthCheckResponse>> {
+    const url = `${this.config.backendUrl}/management/health`;
+    return this.makeRequest<HealthCheckResponse>('GET', url);
+  }
+
   /**
    * Check frontend health status
    * GET / on port 3000
@@ -135,16 +211,24 @@ export class ApiHelper {
    * @returns Promise<boolean> True if frontend is responding
    */
   async checkFrontendHealth(): Promise<boolean> {
-    const url = this.config.frontendUrl;
-
     try {
-      const response = await this.makeRequest<string>('GET', url);
+      const response = await this.getFrontendRoot();
       return response.success && response.status === 200;
     } catch {
       return false;
     }
   }
 
+  /**
+   * Fetch the frontend root page including the raw response
+   * GET /
+   *
+   * @returns Promise<ApiResponse<string>> Status and error body
+   */
+  async getFrontendRoot(): Promise<ApiResponse<string>> {
+    return this.makeRequest<string>('GET', this.config.frontendUrl);
+  }
+
   /**
    * Wait for all services to become healthy
    * Polls health endpoints until all services respond or timeout is reached
@@ -190,13 +274,18 @@ export class ApiHelper {
   /**
    * Create a new order
    * POST /api/orders
+   * Created orders are recorded for the run's cleanup
    *
    * @param orderData Order creation data
    * @returns Promise<ApiResponse<TestOrder>> Created order or error
    */
   async createOrder(orderData: CreateOrderRequest): Promise<ApiResponse<TestOrder>> {
     const url = `${this.config.backendUrl}/api/orders`;
-    return this.makeRequest<TestOrder>('POST', url, orderData);
+    const response = await this.makeRequest<TestOrder>('POST', url, orderData);
+    if (response.success && response.data?.id) {
+      recordCreatedEntity({ collection: 'orders', filter: { _id: response.data.id } });
+    }
+    return response;
   }
 
   /**
@@ -241,25 +330,31 @@ export class ApiHelper {
     return this.makeRequest<TestProduct>('GET', url);
   }
 
+  // ============================================
+  // Authentication Methods
+  // ============================================
+
   /**
    * Authenticate user and store token
-   * POST /api/authenticate
+   * POST /api/auth/login
    *
    * @param email User email
    * @param password User password
+   * @param rememberMe Request a long-lived token (default: false)
    * @returns Promise<ApiResponse<LoginResponse>> Login response with token or error
    */
-  async login(email: string, password: string): Promise<ApiResponse<LoginResponse>> {
-    const url = `${this.config.backendUrl}/api/authenticate`;
-    const response = await this.makeRequest<LoginResponse>('POST', url, {
-      username: email,
-      password: password,
-      rememberMe: false,
-    });
+  async login(
+    email: string,
+    password: string,
+    rememberMe: boolean = false
+  ): Promise<ApiResponse<LoginResponse>> {
+    const url = `${this.config.backendUrl}/api/auth/login`;
+    const request: LoginRequest = { email, password, rememberMe };
+    const response = await this.makeRequest<LoginResponse>('POST', url, request);
 
     // Store token if login successful
-    if (response.success && response.data?.id_token) {
-      this.authToken = response.data.id_token;
+    if (response.success && response.data?.accessToken) {
+      this.authToken = response.data.accessToken;
     }
 
     return response;
@@ -273,6 +368,23 @@ export class ApiHelper {
     console.log('[ApiHelper] Logged out, token cleared');
   }
 
+  /**
+   * Register a new user account
+   * POST /api/auth/register
+   * Registered users are recorded for the run's cleanup
+   *
+   * @param userData Registration data
+   * @returns Promise<ApiResponse<unknown>> Registration result or error
+   */
+  async register(userData: RegisterRequest): Promise<ApiResponse<unknown>> {
+    const url = `${this.config.backendUrl}/api/auth/register`;
+    const response = await this.makeRequest<unknown>('POST', url, userData);
+    if (response.success) {
+      recordCreatedEntity({ collection: 'users', filter: { email: userData.email } });
+    }
+    return response;
+  }
+
   /**
    * Get current user account info
    * GET /api/account
@@ -284,6 +396,92 @@ export class ApiHelper {
     return this.makeRequest<TestUser>('GET', url);
   }
 
+  // ============================================
+  // Cart Methods (require authentication)
+  // ============================================
+
+  /**
+   * Get the authenticated user's cart
+   * GET /api/cart
+   *
+   * @returns Promise<ApiResponse<CartResponse>> Cart contents or error
+   */
+  async getCart(): Promise<ApiResponse<CartResponse>> {
+    const url = `${this.config.backendUrl}/api/cart`;
+    return this.makeRequest<CartResponse>('GET', url);
+  }
+
+  /**
+   * Get the number of items in the authenticated user's cart
+   * GET /api/cart/count
+   *
+   * @returns Promise<ApiResponse<number>> Item count or error
+   */
+  async getCartCount(): Promise<ApiResponse<number>> {
+    const url = `${this.config.backendUrl}/api/cart/count`;
+    return this.makeRequest<number>('GET', url);
+  }
+
+  /**
+   * Remove all items from the authenticated user's cart
+   * DELETE /api/cart
+   *
+   * @returns Promise<ApiResponse<void>> Empty response or error
+   */
+  async clearCart(): Promise<ApiResponse<void>> {
+    const url = `${this.config.backendUrl}/api/cart`;
+    return this.makeRequest<void>('DELETE', url);
+  }
+
+  /**
+   * Clear the cart and verify it is empty, retrying once if items remain
+   * Browser projects share test users, so a concurrent cart sync can
+   * re-populate the cart between the delete and the next request.
+   *
+   * @returns Promise<boolean> True if the cart is empty afterwards
+   */
+  async ensureEmptyCart(): Promise<boolean> {
+    const cleared = await this.clearCart();
+    if (!cleared.success) {
+      return false;
+    }
+
+    const count = await this.getCartCount();
+    if (count.success && (count.data ?? 0) > 0) {
+      const retry = await this.clearCart();
+      return retry.success;
+    }
+
+    return count.success;
+  }
+
+  // ============================================
+  // Admin Methods (require admin authentication)
+  // ============================================
+
+  /**
+   * Clear a backend application cache
+   * POST /api/admin/cache/app/{cacheName}/clear
+   *
+   * @param cacheName Cache to clear (e.g. 'products', 'users')
+   * @returns Promise<ApiResponse<unknown>> Empty response or error
+   */
+  async clearAppCache(cacheName: AppCacheName): Promise<ApiResponse<unknown>> {
+    const url = `${this.config.backendUrl}/api/admin/cache/app/${cacheName}/clear`;
+    return this.makeRequest<unknown>('POST', url);
+  }
+
+  /**
+   * Reload payment method configurations from the database
+   * POST /api/admin/payment-configuration/refresh
+   *
+   * @returns Promise<ApiResponse<unknown>> Empty response or error
+   */
+  async refreshPaymentConfiguration(): Promise<ApiResponse<unknown>> {
+    const url = `${this.config.backendUrl}/api/admin/payment-configuration/refresh`;
+    return this.makeRequest<unknown>('POST', url);
+  }
+
   // ============================================
   // Request Logging Methods
   // ============================================
@@ -340,7 +538,8 @@ export class ApiHelper {
   // ============================================
 
   /**
-   * Make an HTTP request with logging
+   * Make an HTTP request through the scheduler
+   * Throttled responses are retried; everything else is returned as is
    *
    * @param method HTTP method
    * @param url Request URL
@@ -351,6 +550,22 @@ export class ApiHelper {
     method: string,
     url: string,
     body?: unknown
+  ): Promise<ApiResponse<T>> {
+    return this.config.scheduler.run(() => this.sendRequest<T>(method, url, body), `${method} ${url}`);
+  }
+
+  /**
+   * Send a single HTTP request with logging
+   *
+   * @param method HTTP method
+   * @param url Request URL
+   * @param body Optional request body
+   * @returns Promise<ApiResponse<T>> Response wrapper
+   */
+  private async sendRequest<T>(
+    method: string,
+    url: string,
+    body?: unknown
   ): Promise<ApiResponse<T>> {
     const startTime = Date.now();
     const logEntry: RequestLogEntry = {
@@ -366,6 +581,9 @@ export class ApiHelper {
       const headers: Record<string, string> = {
         'Content-Type': 'application/json',
         Accept: 'application/json',
+        // The backend CORS/threat filters expect requests to originate from the frontend
+        Origin: this.config.frontendUrl,
+        ...this.config.extraHeaders,
       };
 
       // Add auth token if available
@@ -394,10 +612,11 @@ export class ApiHelper {
       // Parse response
       let data: T | undefined;
       const contentType = response.headers.get('content-type');
+      const text = await response.text().catch(() => '');
 
-      if (contentType?.includes('application/json')) {
+      if (text && contentType?.includes('application/json')) {
         try {
-          data = (await response.json()) as T;
+          data = JSON.parse(text) as T;
           logEntry.responseBody = data;
         } catch {
           // Response body is not valid JSON
@@ -416,6 +635,8 @@ export class ApiHelper {
           error: `HTTP ${response.status}: ${response.statusText}`,
           status: response.status,
           data,
+          errorBody: text,
+          retryAfterMs: this.parseRetryAfter(response.headers.get('retry-after')),
         };
       }
     } catch (error) {
@@ -457,6 +678,24 @@ export class ApiHelper {
     }
   }
 
+  /**
+   * Parse a Retry-After header (seconds or HTTP date)
+   *
+   * @param value Header value
+   * @returns number | undefined Milliseconds to wait, undefined if absent or invalid
+   */
+  private parseRetryAfter(value: string | null): number | undefined {
+    if (!value) {
+      return undefined;
+    }
+    const seconds = Number(value);
+    if (Number.isFinite(seconds)) {
+      return Math.max(0, seconds * 1000);
+    }
+    const date = Date.parse(value);
+    return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+  }
+
   /**
    * Sleep for specified milliseconds
    *
@@ -496,6 +735,24 @@ export class ApiHelper {
   isAuthenticated(): boolean {
     return this.authToken !== null;
   }
+
+  /**
+   * Get the stored authentication token
+   *
+   * @returns string | null Bearer token or null if not logged in
+   */
+  getAuthToken(): string | null {
+    return this.authToken;
+  }
+
+  /**
+   * Use an existing token (e.g. one obtained in global setup) for subsequent requests
+   *
+   * @param token Bearer token
+   */
+  setAuthToken(token: string): void {
+    this.authToken = token;
+  }
 }
 
 /**
@@ -508,6 +765,8 @@ export function createApiHelper(config?: Partial<ApiHelperConfig>): ApiHelper {
   return new ApiHelper(config);
 }
 
+export { isThreatBlocked } from './RequestScheduler';
+
 /**
  * Default export for convenience
  */
@@ -0,0 +1,238 @@
+/**
+ * Request Scheduler for E2E Integration Tests
+ *
+ * Paces the API traffic of one process so the backend's rate limiting
+ * doesn't fail setup or tests. Every ApiHelper request runs through a
+ * scheduler (by default the process-wide sharedRequestScheduler):
+ * - Concurrency limit: at most E2E_API_CONCURRENCY requests in flight
+ * - Adaptive backoff: a throttled response (ThreatDetectionFilter 403 or
+ *   429) pauses every request, halves the concurrency limit and is retried
+ *   after an exponential delay (or the server's Retry-After); the limit
+ *   grows back one step at a time while requests succeed
+ * - Retry budget: at most E2E_API_RETRY_BUDGET retries per process, so a
+ *   backend that keeps throttling fails the run instead of stalling it
+ *
+ * Callers can fire requests concurrently (Promise.all) and let the
+ * scheduler decide how many actually run at once.
+ *
+ * Requirements: 1.2, 10.4
+ */
+
+import type { ApiResponse } from './ApiHelper';
+import { env } from './env';
+
+/**
+ * Configuration for RequestScheduler
+ */
+export interface RequestSchedulerConfig {
+  /** Upper bound for concurrent requests */
+  maxConcurrency: number;
+  /** Delay before the first retry of a throttled request */
+  baseBackoffMs: number;
+  /** Upper bound for retry delays */
+  maxBackoffMs: number;
+  /** Attempts per request, including the first */
+  maxAttempts: number;
+  /** Retries allowed across all requests */
+  retryBudget: number;
+}
+
+/**
+ * Default configuration values
+ */
+export const DEFAULT_SCHEDULER_CONFIG: RequestSchedulerConfig = {
+  maxConcurrency: env.requests.concurrency,
+  baseBackoffMs: 1000,
+  maxBackoffMs: 15000,
+  maxAttempts: 4,
+  retryBudget: env.requests.retryBudget,
+};
+
+/**
+ * Counters for logs and setup summaries
+ */
+export interface RequestSchedulerStats {
+  /** Requests completed */
+  requests: number;
+  /** Throttled responses received */
+  throttled: number;
+  /** Retries used from the budget */
+  retries: number;
+  /** Current concurrency limit */
+  concurrency: number;
+}
+
+/**
+ * Check whether a failed response was blocked by the backend ThreatDetectionFilter
+ */
+export function isThreatBlocked(response: ApiResponse<unknown>): boolean {
+  return response.status === 403 && (response.errorBody ?? '').includes('threat');
+}
+
+/**
+ * Check whether a response asks the client to slow down
+ */
+export function isThrottled(response: ApiResponse<unknown>): boolean {
+  return response.status === 429 || isThreatBlocked(response);
+}
+
+/**
+ * Runs API requests with a concurrency limit, adaptive backoff and a retry budget
+ */
+export class RequestScheduler {
+  private config: RequestSchedulerConfig;
+  private concurrency: number;
+  private active = 0;
+  private waiters: Array<() => void> = [];
+  private pausedUntil = 0;
+  private throttleStreak = 0;
+  private successStreak = 0;
+  private stats = { requests: 0, throttled: 0, retries: 0 };
+
+  constructor(config: Partial<RequestSchedulerConfig> = {}) {
+    this.config = { ...DEFAULT_SCHEDULER_CONFIG, ...config };
+    this.concurrency = this.config.maxConcurrency;
+  }
+
+  /**
+   * Run a request, retrying it while it is throttled
+   *
+   * @param request Sends the request - called once per attempt
+   * @param label Describes the request in retry logs (e.g. "POST /api/auth/register")
+   * @returns The first response that isn't throttled, or the last throttled one
+   *   once the attempts or the retry budget run out
+   */
+  async run<T>(request: () => Promise<ApiResponse<T>>, label = 'request'): Promise<ApiResponse<T>> {
+    for (let attempt = 1; ; attempt++) {
+      await this.acquire();
+      let response: ApiResponse<T>;
+      try {
+        response = await request();
+      } finally {
+        this.release();
+      }
+
+      if (!isThrottled(response)) {
+        this.recordSuccess();
+        this.stats.requests++;
+        return response;
+      }
+
+      const delay = this.recordThrottle(response);
+
+      if (attempt >= this.config.maxAttempts || this.stats.retries >= this.config.retryBudget) {
+        const reason = attempt >= this.config.maxAttempts ? `${attempt} attempts` : 'retry budget exhausted';
+        console.warn(`[RequestScheduler] ${label} still throttled (${response.status}) - giving up (${reason})`);
+        this.stats.requests++;
+        return response;
+      }
+
+      this.stats.retries++;
+      console.log(
+        `[RequestScheduler] ${label} throttled (${response.status}), retry ${attempt}/${this.config.maxAttempts - 1} ` +
+          `in ${delay}ms (concurrency ${this.concurrency})`
+      );
+    }
+  }
+
+  /**
+   * Get the scheduler counters
+   *
+   * @returns RequestSchedulerStats Snapshot of the counters
+   */
+  getStats(): RequestSchedulerStats {
+    return { ...this.stats, concurrency: this.concurrency };
+  }
+
+  // ============================================
+  // Slots and Backoff
+  // ============================================
+
+  /**
+   * Wait for the pause to end and a free slot
+   */
+  private async acquire(): Promise<void> {
+    for (;;) {
+      const pause = this.pausedUntil - Date.now();
+      if (pause > 0) {
+        await this.sleep(pause);
+        continue;
+      }
+      if (this.active < this.concurrency) {
+        this.active++;
+        return;
+      }
+      await new Promise<void>((resolve) => this.waiters.push(resolve));
+    }
+  }
+
+  /**
+   * Free a slot and let every waiter compete for it
+   */
+  private release(): void {
+    this.active--;
+    this.wakeWaiters();
+  }
+
+  private wakeWaiters(): void {
+    for (const wake of this.waiters.splice(0)) {
+      wake();
+    }
+  }
+
+  /**
+   * Grow the concurrency limit by one after a full window of successes
+   */
+  private recordSuccess(): void {
+    this.throttleStreak = 0;
+    this.successStreak++;
+
+    if (this.concurrency < this.config.maxConcurrency && this.successStreak >= this.concurrency) {
+      this.concurrency++;
+      this.successStreak = 0;
+      this.wakeWaiters();
+    }
+  }
+
+  /**
+   * Halve the concurrency limit and pause all requests
+   *
+   * @returns number Milliseconds until requests resume
+   */
+  private recordThrottle(response: ApiResponse<unknown>): number {
+    this.stats.throttled++;
+    this.throttleStreak++;
+    this.successStreak = 0;
+    this.concurrency = Math.max(1, Math.floor(this.concurrency / 2));
+
+    const backoff = Math.min(this.config.maxBackoffMs, this.config.baseBackoffMs * 2 ** (this.throttleStreak - 1));
+    const delay = response.retryAfterMs !== undefined ? Math.min(this.config.maxBackoffMs, response.retryAfterMs) : backoff;
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + delay);
+
+    return this.pausedUntil - Date.now();
+  }
+
+  /**
+   * Sleep for specified milliseconds
+   *
+   * @param ms Milliseconds to sleep
+   */
+  private sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+  }
+}
+
+/**
+ * Scheduler shared by every ApiHelper in this process
+ */
+export const sharedRequestScheduler = new RequestScheduler();
+
+/**
+ * Create a RequestScheduler instance
+ *
+ * @param config Optional configuration overrides
+ * @returns RequestScheduler Configured instance
+ */
+export function createRequestScheduler(config?: Partial<RequestSchedulerConfig>): RequestScheduler {
+  return new RequestScheduler(config);
+}
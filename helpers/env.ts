@@ -0,0 +1,239 @@
+/**
+ * Environment Configuration
+ *
+ * Resolves where the suite runs and how long it waits, from environment
+ * variables (a .env file is loaded first). Every module that needs a URL,
+ * timeout or flag reads it from `env` instead of process.env.
+ *
+ * URLs - an explicit URL wins, otherwise localhost on the given port, so the
+ * suite runs against docker-compose.e2e.yml on non-default ports:
+ * - FRONTEND_URL or FRONTEND_PORT (default: http://localhost:3000)
+ * - BACKEND_URL or BACKEND_PORT (default: http://localhost:8080)
+ * - MONGODB_URI or MONGO_PORT (default: mongodb://localhost:27017)
+ * - MONGODB_DATABASE (default: zenith_e2e)
+ * - BTC_CHAIN_URL or BTC_CHAIN_PORT (default: http://localhost:3030) - the
+ *   Bitcoin chain stand-in (see fixtures/bitcoinChain); global setup starts it
+ *   when the URL points at localhost
+ *
+ * Timeouts in milliseconds:
+ * - E2E_TEST_TIMEOUT (default: 60000), E2E_EXPECT_TIMEOUT (default: 10000)
+ * - E2E_API_TIMEOUT (default: 60000) - backend/frontend health checks
+ *
+ * API request scheduling (see ./RequestScheduler):
+ * - E2E_API_CONCURRENCY (default: 4) - requests in flight at once per process
+ * - E2E_API_RETRY_BUDGET (default: 30) - throttled requests retried per process (0 disables retries)
+ *
+ * Flags:
+ * - CI: CI mode (any non-empty value)
+ * - CLEANUP_AFTER_TESTS: what global teardown deletes (default: none)
+ *   - run: only this run's documents (see fixtures/runTag), leaving other runs' data alone
+ *   - true/all: reset the whole database and drop the isolated copies
+ * - E2E_FORCE_RESET: reset the database in global setup even while another
+ *   run is using it (default: false, see fixtures/runTag)
+ * - E2E_WORKERS: worker count (default: 1 in CI, Playwright's choice locally)
+ *
+ * Invalid values throw when the module loads, listing every problem.
+ */
+
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+/**
+ * What global teardown deletes
+ */
+export type CleanupMode = 'none' | 'run' | 'all';
+
+/**
+ * Resolved environment configuration
+ */
+export interface EnvConfig {
+  /** Frontend URL without trailing slash */
+  frontendUrl: string;
+  /** Backend API URL without trailing slash */
+  backendUrl: string;
+  /** MongoDB connection URI */
+  mongoUri: string;
+  /** Database seeded by global setup */
+  mongoDatabase: string;
+  /** Bitcoin chain stand-in URL without trailing slash */
+  bitcoinChainUrl: string;
+  timeouts: {
+    /** Playwright test timeout */
+    test: number;
+    /** Playwright expect timeout */
+    expect: number;
+    /** ApiHelper default timeout */
+    api: number;
+  };
+  requests: {
+    /** Maximum concurrent API requests per process */
+    concurrency: number;
+    /** Retries of throttled requests allowed per process */
+    retryBudget: number;
+  };
+  flags: {
+    ci: boolean;
+    /** Reset the database even when another run is using it */
+    forceReset: boolean;
+  };
+  /** What global teardown deletes */
+  cleanup: CleanupMode;
+  /** Worker count; undefined lets Playwright decide */
+  workers?: number;
+}
+
+/**
+ * Environment variables to resolve from
+ */
+export type EnvSource = Record<string, string | undefined>;
+
+/**
+ * Reads variables from an EnvSource and collects validation errors
+ */
+class EnvReader {
+  readonly errors: string[] = [];
+
+  constructor(private readonly source: EnvSource) {}
+
+  private raw(name: string): string | undefined {
+    const value = this.source[name]?.trim();
+    return value ? value : undefined;
+  }
+
+  /**
+   * Reads a whole number, positive unless min says otherwise
+   */
+  integer<T extends number | undefined>(name: string, fallback: T, max = Number.MAX_SAFE_INTEGER, min = 1): number | T {
+    const value = this.raw(name);
+    if (value === undefined) {
+      return fallback;
+    }
+
+    const parsed = Number(value);
+    if (!Number.isInteger(parsed) || parsed < min || parsed > max) {
+      const range =
+        max !== Number.MAX_SAFE_INTEGER
+          ? `a whole number between ${min} and ${max}`
+          : min === 1
+            ? 'a positive whole number'
+            : `a whole number of at least ${min}`;
+      this.errors.push(`${name}="${value}" must be ${range}`);
+      return fallback;
+    }
+    return parsed;
+  }
+
+  /**
+   * Reads one of a fixed set of values (case-insensitive)
+   */
+  choice(name: string, values: string[], fallback: string): string {
+    const value = this.raw(name)?.toLowerCase();
+    if (value === undefined) {
+      return fallback;
+    }
+
+    if (!values.includes(value)) {
+      this.errors.push(`${name}="${value}" must be one of: ${values.join(', ')}`);
+      return fallback;
+    }
+    return value;
+  }
+
+  /**
+   * Reads a URL, or builds a localhost URL from a port variable
+   */
+  url(name: string, portName: string, protocols: string[], defaultPort: number): string {
+    const value = this.raw(name);
+    if (value === undefined) {
+      const port = this.integer(portName, defaultPort, 65535);
+      return `${protocols[0]}//localhost:${port}`;
+    }
+
+    const protocol = protocols.find((candidate) => value.startsWith(`${candidate}//`));
+    if (!protocol) {
+      this.errors.push(`${name}="${value}" must start with ${protocols.map((candidate) => `${candidate}//`).join(' or ')}`);
+      return value;
+    }
+
+    // MongoDB URIs may list several hosts, which URL can't parse
+    if (protocol.startsWith('http')) {
+      try {
+        new URL(value);
+      } catch {
+        this.errors.push(`${name}="${value}" is not a valid URL`);
+      }
+    }
+    return value.replace(/\/+$/, '');
+  }
+
+  /**
+   * Reads a plain string
+   */
+  string(name: string, fallback: string): string {
+    return this.raw(name) ?? fallback;
+  }
+
+  /**
+   * Reads a value where only presence matters
+   */
+  present(name: string): boolean {
+    return this.raw(name) !== undefined;
+  }
+}
+
+/**
+ * CLEANUP_AFTER_TESTS values - true/false are kept from when cleanup was all or nothing
+ */
+const CLEANUP_VALUES: Record<string, CleanupMode> = {
+  false: 'none',
+  none: 'none',
+  run: 'run',
+  true: 'all',
+  all: 'all',
+};
+
+/**
+ * Resolves and validates the environment configuration
+ * @param source - Environment variables (default: process.env)
+ * @throws Error listing every invalid variable
+ */
+export function resolveEnvConfig(source: EnvSource = process.env): EnvConfig {
+  const reader = new EnvReader(source);
+  const ci = reader.present('CI');
+
+  const config: EnvConfig = {
+    frontendUrl: reader.url('FRONTEND_URL', 'FRONTEND_PORT', ['http:', 'https:'], 3000),
+    backendUrl: reader.url('BACKEND_URL', 'BACKEND_PORT', ['http:', 'https:'], 8080),
+    mongoUri: reader.url('MONGODB_URI', 'MONGO_PORT', ['mongodb:', 'mongodb+srv:'], 27017),
+    mongoDatabase: reader.string('MONGODB_DATABASE', 'zenith_e2e'),
+    bitcoinChainUrl: reader.url('BTC_CHAIN_URL', 'BTC_CHAIN_PORT', ['http:', 'https:'], 3030),
+    timeouts: {
+      test: reader.integer('E2E_TEST_TIMEOUT', 60000),
+      expect: reader.integer('E2E_EXPECT_TIMEOUT', 10000),
+      api: reader.integer('E2E_API_TIMEOUT', 60000),
+    },
+    requests: {
+      concurrency: reader.integer('E2E_API_CONCURRENCY', 4, 64),
+      // 0 disables retries
+      retryBudget: reader.integer('E2E_API_RETRY_BUDGET', 30, Number.MAX_SAFE_INTEGER, 0),
+    },
+    flags: {
+      ci,
+      forceReset: reader.choice('E2E_FORCE_RESET', ['true', 'false'], 'false') === 'true',
+    },
+    cleanup: CLEANUP_VALUES[reader.choice('CLEANUP_AFTER_TESTS', Object.keys(CLEANUP_VALUES), 'false')],
+    workers: reader.integer('E2E_WORKERS', ci ? 1 : undefined),
+  };
+
+  if (reader.errors.length > 0) {
+    throw new Error(`[Env] Invalid environment configuration:\n${reader.errors.map((error) => `  - ${error}`).join('\n')}`);
+  }
+
+  return config;
+}
+
+/**
+ * Configuration for this process
+ */
+export const env: EnvConfig = resolveEnvConfig();
@@ -9,11 +9,29 @@ export type {
   ApiHelperConfig,
   RequestLogEntry as ApiRequestLogEntry,
   HealthCheckResponse,
+  LoginRequest,
   LoginResponse,
+  RegisterRequest,
+  CartItemResponse,
+  CartResponse,
+  AppCacheName,
   CreateOrderRequest,
   ApiResponse,
 } from './ApiHelper';
 
+export {
+  RequestScheduler,
+  createRequestScheduler,
+  sharedRequestScheduler,
+  DEFAULT_SCHEDULER_CONFIG,
+  isThreatBlocked,
+  isThrottled,
+} from './RequestScheduler';
+export type { RequestSchedulerConfig, RequestSchedulerStats } from './RequestScheduler';
+
+export { env, resolveEnvConfig } from './env';
+export type { CleanupMode, EnvConfig, EnvSource } from './env';
+
 export { RequestLogger, createRequestLogger } from './RequestLogger';
 export type {
   LoggedRequest,
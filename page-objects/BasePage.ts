@@ -11,21 +11,20 @@ import { Page, Locator, expect } from '@playwright/test';
  * - 7.5: Test ID selector helper
  */
 export abstract class BasePage {
-  protected readonly baseUrl: string = 'http://localhost:3000';
-
   constructor(public readonly page: Page) {}
 
   /**
    * Abstract property that must be implemented by subclasses
-   * Defines the URL path for the page (relative to baseUrl)
+   * Defines the URL path for the page (relative to the test's baseURL)
    */
   abstract readonly path: string;
 
   /**
-   * Get the full URL for this page
+   * Get the URL for this page
+   * Relative, so Playwright resolves it against the worker's baseURL
    */
   get url(): string {
-    return `${this.baseUrl}${this.path}`;
+    return this.path;
   }
 
   /**
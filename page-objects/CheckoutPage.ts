@@ -20,7 +20,7 @@ export interface ShippingAddressData {
 /**
  * Payment method types
  */
-export type PaymentMethodType = 'solana-pay' | 'cashapp' | 'zelle' | 'ach' | 'credit-card';
+export type PaymentMethodType = 'solana-pay' | 'cashapp' | 'zelle' | 'ach' | 'bitcoin' | 'credit-card';
 
 /**
  * CheckoutPage Page Object
@@ -159,6 +159,7 @@ export class CheckoutPage extends BasePage {
       'cashapp': 'CashApp',
       'zelle': 'Zelle',
       'ach': 'ACH',
+      'bitcoin': 'Bitcoin',
       'credit-card': 'Credit Card'
     };
     return this.page.getByRole('radio', { name: new RegExp(labels[type], 'i') });
@@ -300,6 +301,30 @@ export class CheckoutPage extends BasePage {
     }
   }
 
+  /**
+   * Read the current values of the shipping address form
+   * Used to check what the form was prefilled with
+   * @returns The form values, in the shape fillShippingAddress takes
+   */
+  async getShippingAddressValues(): Promise<ShippingAddressData> {
+    await this.checkoutForm.waitFor({ state: 'visible', timeout: 10000 });
+
+    const value = async (input: Locator) => (await input.inputValue().catch(() => '')).trim();
+
+    return {
+      firstName: await value(this.firstNameInput),
+      lastName: await value(this.lastNameInput),
+      email: await value(this.emailInput),
+      address1: await value(this.address1Input),
+      address2: await value(this.address2Input),
+      city: await value(this.cityInput),
+      state: await value(this.stateInput),
+      zip: await value(this.zipInput),
+      country: ((await this.countrySelect.textContent().catch(() => '')) || '').trim(),
+      phoneNumber: await value(this.phoneInput),
+    };
+  }
+
   /**
    * Check the research acknowledgment checkbox
    */
@@ -443,9 +468,13 @@ export class CheckoutPage extends BasePage {
 
   /**
    * Check if a payment method is available
+   * Disabled payment methods are either not rendered or rendered disabled
    */
   async isPaymentMethodAvailable(type: PaymentMethodType): Promise<boolean> {
     const option = this.getPaymentMethodOption(type);
+    if (!(await option.isVisible())) {
+      return false;
+    }
     return await option.isEnabled();
   }
 
@@ -55,7 +55,7 @@ export class ProductDetailPage extends BasePage {
    * Navigate to a specific product detail page by slug
    */
   async gotoProduct(slug: string): Promise<void> {
-    await this.navigateTo(`${this.baseUrl}/shop/${slug}`);
+    await this.navigateTo(`/shop/${slug}`);
     await this.waitForProductLoad();
   }
 
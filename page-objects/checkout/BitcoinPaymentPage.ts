@@ -257,6 +257,11 @@ export class BitcoinPaymentPage extends BasePage {
     return this.page.getByText(/invoice id:/i);
   }
 
+  /** Connection status indicator shown while live updates are disconnected */
+  get connectionStatusIndicator(): Locator {
+    return this.page.getByText(/reconnecting|disconnected|connection lost|offline|live updates (are )?(paused|unavailable)/i);
+  }
+
   // ==================== Error Handling Locators ====================
 
   /** Try again button */
@@ -279,6 +284,11 @@ export class BitcoinPaymentPage extends BasePage {
     return this.page.getByText(/timeout|expired/i);
   }
 
+  /** Refund message */
+  get refundedMessage(): Locator {
+    return this.page.getByText(/refund/i);
+  }
+
   // ==================== Payment Method Selection Methods ====================
 
   /**
@@ -371,6 +381,14 @@ export class BitcoinPaymentPage extends BasePage {
     return match ? parseInt(match[1], 10) : 0;
   }
 
+  /**
+   * Get the invoice's Bitcoin address
+   */
+  async getBtcAddress(): Promise<string> {
+    const text = await this.btcAddressDisplay.first().textContent();
+    return text?.trim() || '';
+  }
+
   /**
    * Get the exchange rate
    */
@@ -1,8 +1,7 @@
 import { defineConfig, devices } from '@playwright/test';
-import dotenv from 'dotenv';
-
-// Load environment variables from .env file
-dotenv.config();
+// Loads .env and validates URLs, timeouts and flags (see helpers/env.ts)
+import { env } from './helpers/env';
+import { READ_ONLY_TAG, getRunMode } from './fixtures/runMode';
 
 /**
  * Playwright configuration for Zenith Bioscience E2E tests
@@ -20,15 +19,20 @@ export default defineConfig({
   // Run tests in files in parallel
   fullyParallel: true,
 
+  // Read-only runs (non-local targets by default, see fixtures/runMode.ts) only run specs tagged @read-only
+  grep: getRunMode().mode === 'read-only' ? new RegExp(READ_ONLY_TAG) : undefined,
+
   // Fail the build on CI if you accidentally left test.only in the source code
-  forbidOnly: !!process.env.CI,
+  forbidOnly: env.flags.ci,
 
   // Retry configuration: 2 retries in CI, 2 locally for flaky tests
   // This helps handle timing issues, especially on Firefox and mobile viewports
-  retries: process.env.CI ? 1 : 2,
+  retries: env.flags.ci ? 1 : 2,
 
   // Worker configuration: 1 worker in CI for stability, undefined (auto) locally
-  workers: process.env.CI ? 1 : undefined,
+  // With E2E_DB_ISOLATION=worker|project each worker gets its own database
+  // (see fixtures/isolation.ts), so E2E_WORKERS can safely raise the CI worker count
+  workers: env.workers,
 
   // Global setup and teardown
   globalSetup: './global-setup.ts',
@@ -36,7 +40,7 @@ export default defineConfig({
 
   // Reporter configuration
   // In CI, also output JUnit XML for test result reporting
-  reporter: process.env.CI
+  reporter: env.flags.ci
     ? [
         ['list'],
         ['html', { outputFolder: 'reports/html' }],
@@ -52,7 +56,7 @@ export default defineConfig({
   // Shared settings for all projects
   use: {
     // Base URL for navigation
-    baseURL: process.env.FRONTEND_URL || 'http://localhost:3000',
+    baseURL: env.frontendUrl,
 
     // Capture screenshot only on failure
     screenshot: 'only-on-failure',
@@ -65,9 +69,9 @@ export default defineConfig({
   },
 
   // Timeout configuration
-  timeout: 60000, // Test timeout: 60 seconds
+  timeout: env.timeouts.test, // Test timeout: 60 seconds unless E2E_TEST_TIMEOUT is set
   expect: {
-    timeout: 10000, // Expect timeout: 10 seconds
+    timeout: env.timeouts.expect, // Expect timeout: 10 seconds unless E2E_EXPECT_TIMEOUT is set
   },
 
   // Browser projects configuration
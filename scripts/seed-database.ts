@@ -3,10 +3,11 @@
  * 
  * Seeds the E2E test database with test data.
  * Run with: npx ts-node scripts/seed-database.ts
+ * Select a fixture profile with E2E_FIXTURE_PROFILE=default|empty|large
  */
 
 import { DataSeeder } from '../fixtures/DataSeeder';
-import { defaultFixtures } from '../fixtures/defaultFixtures';
+import { getProfileFixtures } from '../fixtures/profiles';
 
 async function main() {
   const seeder = new DataSeeder();
@@ -16,7 +17,7 @@ async function main() {
     await seeder.connect();
     
     console.log('Seeding test data...');
-    await seeder.seedAll(defaultFixtures);
+    await seeder.seedAll(getProfileFixtures());
     
     console.log('✅ Database seeded successfully!');
   } catch (error) {
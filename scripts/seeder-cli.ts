@@ -0,0 +1,209 @@
+/**
+ * Seeder Command-Line Tool
+ *
+ * Seeds, resets and inspects the E2E test database without running the suite.
+ * Run with: npx ts-node scripts/seeder-cli.ts <command> [options]
+ *
+ * Commands:
+ *   seed [--profile <name>] [--reset]       Seed a fixture profile (default: E2E_FIXTURE_PROFILE)
+ *   reset [--only <names>]                  Drop all collections, or only the listed ones
+ *   inspect <collection> [--email <email>] [--id <id>] [--limit <n>]
+ *                                           Print documents from a collection
+ *   diff [--profile <name>]                 Compare the database with a fixture profile
+ *   export [--out <file>] [--name <name>]   Write the database contents as a fixture module
+ *                                           (default: fixtures/profiles/exported.ts)
+ *
+ * Collection names accept the COLLECTIONS keys in any case (orders, payments,
+ * inventory_batches) as well as raw MongoDB collection names.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { COLLECTIONS, DataSeeder } from '../fixtures/DataSeeder';
+import { diffFixtures, formatFixtureDiff, readLiveData, renderFixtureModule, toFixtures } from '../fixtures/liveData';
+import { getProfileFixtures, resolveFixtureProfile } from '../fixtures/profiles';
+
+const USAGE = `Usage: seeder-cli <command> [options]
+
+Commands:
+  seed [--profile <name>] [--reset]
+  reset [--only <collection,...>]
+  inspect <collection> [--email <email>] [--id <id>] [--limit <n>]
+  diff [--profile <name>]
+  export [--out <file>] [--name <exportName>]`;
+
+/**
+ * Parsed command line: positional arguments and --flag values
+ */
+interface ParsedArgs {
+  command?: string;
+  positional: string[];
+  options: Record<string, string | true>;
+}
+
+function parseArgs(argv: string[]): ParsedArgs {
+  const [command, ...rest] = argv;
+  const parsed: ParsedArgs = { command, positional: [], options: {} };
+
+  for (let i = 0; i < rest.length; i++) {
+    const arg = rest[i];
+    if (arg.startsWith('--')) {
+      const [name, inline] = arg.slice(2).split('=', 2);
+      const next = rest[i + 1];
+      if (inline !== undefined) {
+        parsed.options[name] = inline;
+      } else if (next !== undefined && !next.startsWith('--')) {
+        parsed.options[name] = next;
+        i++;
+      } else {
+        parsed.options[name] = true;
+      }
+    } else {
+      parsed.positional.push(arg);
+    }
+  }
+
+  return parsed;
+}
+
+function stringOption(args: ParsedArgs, name: string): string | undefined {
+  const value = args.options[name];
+  if (value === true) {
+    throw new Error(`Option --${name} needs a value`);
+  }
+  return value;
+}
+
+/**
+ * Maps a friendly collection name (orders, inventory_batches) to its MongoDB name
+ */
+function resolveCollectionName(name: string): string {
+  const key = name.trim().toUpperCase().replace(/-/g, '_') as keyof typeof COLLECTIONS;
+  const known = Object.values(COLLECTIONS) as string[];
+
+  if (COLLECTIONS[key]) {
+    return COLLECTIONS[key];
+  }
+  if (known.includes(name.trim())) {
+    return name.trim();
+  }
+  throw new Error(`Unknown collection "${name}" (expected one of: ${Object.keys(COLLECTIONS).map((k) => k.toLowerCase()).join(', ')})`);
+}
+
+// ============================================================================
+// Commands
+// ============================================================================
+
+async function seed(seeder: DataSeeder, args: ParsedArgs): Promise<void> {
+  const fixtures = getProfileFixtures(resolveFixtureProfile(stringOption(args, 'profile')));
+
+  if (args.options.reset) {
+    await seeder.resetDatabase();
+  }
+  await seeder.seedAll(fixtures);
+  console.log('✅ Database seeded successfully!');
+}
+
+async function reset(seeder: DataSeeder, args: ParsedArgs): Promise<void> {
+  const only = stringOption(args, 'only');
+
+  if (!only) {
+    await seeder.resetDatabase();
+    return;
+  }
+
+  for (const name of only.split(',').filter(Boolean)) {
+    await seeder.resetCollection(resolveCollectionName(name));
+  }
+}
+
+async function inspect(seeder: DataSeeder, args: ParsedArgs): Promise<void> {
+  const [collectionArg] = args.positional;
+  if (!collectionArg) {
+    throw new Error('inspect needs a collection name');
+  }
+
+  const collection = resolveCollectionName(collectionArg);
+  const email = stringOption(args, 'email');
+  const id = stringOption(args, 'id');
+  const limit = Number(stringOption(args, 'limit') ?? 20);
+
+  const filter: Record<string, unknown> = {};
+  if (email) {
+    // Orders store the address as customerEmail
+    filter[collection === COLLECTIONS.ORDERS ? 'customerEmail' : 'email'] = email.toLowerCase();
+  }
+  if (id) {
+    filter._id = id;
+  }
+
+  const documents = await seeder.sampleDocuments(collection, filter, limit);
+  console.log(JSON.stringify(documents, null, 2));
+  console.error(`${documents.length} document(s) from ${collection}`);
+}
+
+async function diff(seeder: DataSeeder, args: ParsedArgs): Promise<boolean> {
+  const fixtures = getProfileFixtures(resolveFixtureProfile(stringOption(args, 'profile')));
+  const sections = diffFixtures(fixtures, await readLiveData(seeder));
+
+  console.log(formatFixtureDiff(sections));
+  return sections.every((section) => section.missing.length + section.extra.length + section.changed.length === 0);
+}
+
+async function exportFixtures(seeder: DataSeeder, args: ParsedArgs): Promise<void> {
+  const exportName = stringOption(args, 'name') ?? 'exportedFixtures';
+  const source = renderFixtureModule(toFixtures(await readLiveData(seeder)), exportName);
+  const file = path.resolve(stringOption(args, 'out') ?? 'fixtures/profiles/exported.ts');
+
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, source);
+  console.log(`✅ Exported fixtures to ${file}`);
+}
+
+// ============================================================================
+// Entry point
+// ============================================================================
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+
+  if (!args.command || args.command === 'help' || args.options.help) {
+    console.log(USAGE);
+    return;
+  }
+
+  const seeder = new DataSeeder();
+
+  try {
+    await seeder.connect();
+
+    switch (args.command) {
+      case 'seed':
+        await seed(seeder, args);
+        break;
+      case 'reset':
+        await reset(seeder, args);
+        break;
+      case 'inspect':
+        await inspect(seeder, args);
+        break;
+      case 'diff':
+        if (!(await diff(seeder, args))) {
+          process.exitCode = 1;
+        }
+        break;
+      case 'export':
+        await exportFixtures(seeder, args);
+        break;
+      default:
+        throw new Error(`Unknown command "${args.command}"\n\n${USAGE}`);
+    }
+  } catch (error) {
+    console.error('❌', error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  } finally {
+    await seeder.disconnect();
+  }
+}
+
+main();
@@ -8,8 +8,10 @@
 #   BACKEND_URL=http://localhost:8080 FRONTEND_URL=http://localhost:3000 TIMEOUT=120 ./wait-for-services.sh
 #
 # Environment Variables:
-#   BACKEND_URL  - Backend API URL (default: http://localhost:8080)
-#   FRONTEND_URL - Frontend URL (default: http://localhost:3000)
+#   BACKEND_URL  - Backend API URL (default: http://localhost:$BACKEND_PORT)
+#   FRONTEND_URL - Frontend URL (default: http://localhost:$FRONTEND_PORT)
+#   BACKEND_PORT - Backend port published by docker-compose.e2e.yml (default: 8080)
+#   FRONTEND_PORT - Frontend port published by docker-compose.e2e.yml (default: 3000)
 #   TIMEOUT      - Maximum wait time in seconds (default: 120)
 #
 # Exit Codes:
@@ -21,8 +23,8 @@
 set -e
 
 # Configuration with defaults
-BACKEND_URL="${BACKEND_URL:-http://localhost:8080}"
-FRONTEND_URL="${FRONTEND_URL:-http://localhost:3000}"
+BACKEND_URL="${BACKEND_URL:-http://localhost:${BACKEND_PORT:-8080}}"
+FRONTEND_URL="${FRONTEND_URL:-http://localhost:${FRONTEND_PORT:-3000}}"
 TIMEOUT="${TIMEOUT:-120}"
 POLL_INTERVAL="${POLL_INTERVAL:-2}"
 
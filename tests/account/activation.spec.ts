@@ -1,10 +1,6 @@
-import { test, expect } from '@playwright/test';
+import { test, expect } from '../../fixtures/workerFixtures';
 import { ActivationPage } from '../../page-objects/account/ActivationPage';
 import { LoginPage } from '../../page-objects/LoginPage';
-import { 
-  getBrowserActivationKeyAndUser,
-  getBrowserLoginAfterActivationKeyAndUser,
-} from '../../fixtures/defaultFixtures';
 
 /**
  * Account Activation E2E Tests
@@ -17,10 +13,10 @@ import {
  * - 15.3: Expired token error - Appropriate error message for expired tokens
  * - 15.4: Login after activation - User can log in after successful activation
  *
- * Uses seeded test users with known activation keys from fixtures.
- * Each browser gets its own activation key to avoid conflicts in parallel execution.
+ * Tests that activate an account allocate their own pending user from the user pool,
+ * so activation keys are never shared between tests, workers or browser projects.
  */
-test.describe('Account Activation', () => {
+test.describe('Account Activation', { tag: '@mutating' }, () => {
   let activationPage: ActivationPage;
   let loginPage: LoginPage;
 
@@ -34,13 +30,12 @@ test.describe('Account Activation', () => {
    *
    * Test that navigating to the activation page with a valid token
    * successfully activates the account.
-   * Uses browser-specific activation keys to avoid conflicts.
+   * Uses a single-use user allocated for this test.
    */
-  test('should activate account successfully with valid token', async ({ page, browserName }) => {
-    // Get browser-specific activation key and user
-    const { activationKey } = getBrowserActivationKeyAndUser(browserName);
-    
-    await activationPage.activateAccount(activationKey);
+  test('should activate account successfully with valid token', async ({ page, allocateUser }) => {
+    const user = await allocateUser({ state: 'pendingActivation' });
+
+    await activationPage.activateAccount(user.activationKey!);
     await activationPage.waitForActivationComplete();
 
     // Verify activation was successful
@@ -118,14 +113,13 @@ test.describe('Account Activation', () => {
    * Requirement 15.4: Login after activation
    *
    * Test that after successful activation, the user can log in with their credentials.
-   * Uses browser-specific activation keys to avoid conflicts.
+   * Uses a single-use user allocated for this test.
    */
-  test('should allow login after successful activation', async ({ page, browserName }) => {
-    // Get browser-specific activation key and user for login-after-activation test
-    const { activationKey, user } = getBrowserLoginAfterActivationKeyAndUser(browserName);
+  test('should allow login after successful activation', async ({ page, allocateUser }) => {
+    const user = await allocateUser({ state: 'pendingActivation' });
 
-    // Step 1: Activate the account using the browser-specific activation key
-    await activationPage.activateAccount(activationKey);
+    // Step 1: Activate the account using the allocated user's activation key
+    await activationPage.activateAccount(user.activationKey!);
     await activationPage.waitForActivationComplete();
 
     // Verify activation was successful
@@ -1,4 +1,4 @@
-import { test, expect } from '@playwright/test';
+import { test, expect } from '../../fixtures/workerFixtures';
 import { LoginPage } from '../../page-objects/LoginPage';
 import { AddressBookPage, AddressData } from '../../page-objects/account/AddressBookPage';
 import { getAccountUser } from '../../fixtures/defaultFixtures';
@@ -19,7 +19,7 @@ import { getAccountUser } from '../../fixtures/defaultFixtures';
  * - Validation errors shown for invalid address data
  * - Cancel button closes the address dialog
  */
-test.describe('Address Management', () => {
+test.describe('Address Management', { tag: '@mutating' }, () => {
   let loginPage: LoginPage;
   let addressBookPage: AddressBookPage;
   const testUser = getAccountUser('accountAddresses');
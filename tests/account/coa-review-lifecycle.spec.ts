@@ -0,0 +1,227 @@
+import * as fs from 'fs';
+import { test, expect } from '../../fixtures/workerFixtures';
+import { LoginPage } from '../../page-objects/LoginPage';
+import { CoaSubmissionEntry, CoaSubmissionPage } from '../../page-objects/account/CoaSubmissionPage';
+import { getAccountUser, getUserCoaSubmissions } from '../../fixtures/defaultFixtures';
+import { CoaSubmissionStatus, TestCoaSubmission } from '../../fixtures/types';
+
+/**
+ * COA Review Lifecycle E2E Tests
+ *
+ * Tests the My Submissions tab against COA submissions seeded in every review
+ * state (see createTestCoaSubmissions): pending, approved with credit, rejected
+ * with a reason and returned for modification.
+ *
+ * Requirements covered:
+ * - Submission history lists every submission across pages
+ * - Approved submissions show the credit earned
+ * - Rejected submissions show the rejection reason
+ * - Status filter narrows the list to one review state
+ * - Submission details dialog shows the submitted data
+ * - Rejected submissions can be resubmitted and go back to review
+ *
+ * Resubmission changes a submission's state, so the resubmit test leases the
+ * submission (see fixtures/leases) and the other tests only assert what
+ * resubmissions cannot change.
+ */
+
+/**
+ * Filter option text per status - matched as a substring of the option name
+ */
+const STATUS_FILTER_LABELS: Record<CoaSubmissionStatus, string> = {
+  PENDING_REVIEW: 'Pending',
+  APPROVED: 'Approved',
+  REJECTED: 'Rejected',
+  REQUIRES_MODIFICATION: 'Modification',
+};
+
+/**
+ * Statuses a resubmission moves submissions out of
+ */
+const RESUBMITTABLE_STATUSES: CoaSubmissionStatus[] = ['REJECTED', 'REQUIRES_MODIFICATION'];
+
+/**
+ * Smallest file the upload accepts as a PDF
+ */
+const MINIMAL_PDF = '%PDF-1.4\n1 0 obj << /Type /Catalog >> endobj\ntrailer << /Root 1 0 R >>\n%%EOF\n';
+
+function formatAmount(amount: number): string {
+  return amount.toLocaleString('en-US', { style: 'currency', currency: 'USD' });
+}
+
+test.describe('COA Review Lifecycle', { tag: '@mutating' }, () => {
+  let coaSubmissionPage: CoaSubmissionPage;
+  const testUser = getAccountUser('accountCoaReview');
+  const submissions = getUserCoaSubmissions(testUser.email);
+
+  function withStatus(status: CoaSubmissionStatus): TestCoaSubmission[] {
+    return submissions.filter((submission) => submission.status === status);
+  }
+
+  /**
+   * Reads the submission history from every page
+   */
+  async function getAllSubmissions(): Promise<CoaSubmissionEntry[]> {
+    const entries = await coaSubmissionPage.getSubmissionHistory();
+    if (!(await coaSubmissionPage.pagination.isVisible().catch(() => false))) {
+      return entries;
+    }
+
+    const pageCount = await coaSubmissionPage.pagination.locator('button').filter({ hasText: /^\d+$/ }).count();
+    for (let pageNumber = 2; pageNumber <= pageCount; pageNumber++) {
+      await coaSubmissionPage.goToPage(pageNumber);
+      await coaSubmissionPage.waitForSubmissionsLoad();
+      entries.push(...(await coaSubmissionPage.getSubmissionHistory()));
+    }
+    await coaSubmissionPage.goToPage(1);
+
+    return entries;
+  }
+
+  test.beforeEach(async ({ page }) => {
+    const loginPage = new LoginPage(page);
+    coaSubmissionPage = new CoaSubmissionPage(page);
+
+    // Login first - COA page requires authentication
+    await loginPage.goto();
+    await loginPage.waitForForm();
+    await loginPage.login(testUser.email, testUser.password);
+    await loginPage.waitForLoginComplete();
+
+    // Mark onboarding as seen to prevent dialog from blocking tests
+    await coaSubmissionPage.markOnboardingAsSeen();
+
+    await coaSubmissionPage.goto();
+    await coaSubmissionPage.waitForPageReady();
+    await coaSubmissionPage.selectTab('submissions');
+    await coaSubmissionPage.waitForSubmissionsLoad();
+  });
+
+  test.describe('Submission History', () => {
+    test('should list every seeded submission across pages', async () => {
+      expect(submissions.length, 'COA submissions must exist in fixtures').toBeGreaterThan(0);
+
+      const entries = await getAllSubmissions();
+
+      // Compare batch numbers - they identify a submission whatever its current state
+      const listedBatches = new Set(entries.map((entry) => entry.batchNumber));
+      expect([...listedBatches].sort()).toEqual(submissions.map((submission) => submission.batchNumber).sort());
+    });
+
+    test('should split the history over more than one page', async () => {
+      await expect(coaSubmissionPage.pagination).toBeVisible();
+
+      const firstPage = await coaSubmissionPage.getSubmissionHistory();
+      expect(firstPage.length).toBeLessThan(submissions.length);
+
+      await coaSubmissionPage.goToPage(2);
+      await coaSubmissionPage.waitForSubmissionsLoad();
+      const secondPage = await coaSubmissionPage.getSubmissionHistory();
+
+      expect(secondPage.length).toBeGreaterThan(0);
+      const firstPageBatches = firstPage.map((entry) => entry.batchNumber);
+      for (const entry of secondPage) {
+        expect(firstPageBatches, `${entry.batchNumber} should only be on page 2`).not.toContain(entry.batchNumber);
+      }
+    });
+
+    test('should show the credit earned for approved submissions', async () => {
+      const entries = await getAllSubmissions();
+
+      for (const submission of withStatus('APPROVED')) {
+        const entry = entries.find((candidate) => candidate.batchNumber === submission.batchNumber);
+        expect(entry, `${submission.batchNumber} should be listed`).toBeTruthy();
+        expect(entry!.status).toBe('APPROVED');
+        expect(entry!.creditAmount).toBe(formatAmount(submission.creditAmount!));
+      }
+    });
+
+    test('should show the rejection reason for rejected submissions', async () => {
+      const entries = await getAllSubmissions();
+
+      // Rejected submissions that were resubmitted are back in review - check the rest
+      for (const entry of entries.filter((candidate) => candidate.status === 'REJECTED')) {
+        const submission = submissions.find((candidate) => candidate.batchNumber === entry.batchNumber);
+        expect(submission, `${entry.batchNumber} should be a seeded submission`).toBeTruthy();
+        expect(entry.rejectionReason).toContain(submission!.rejectionReason!);
+      }
+    });
+  });
+
+  test.describe('Status Filter', () => {
+    for (const status of Object.keys(STATUS_FILTER_LABELS) as CoaSubmissionStatus[]) {
+      test(`should list only ${status} submissions when filtering by that status`, async () => {
+        await coaSubmissionPage.filterByStatus(STATUS_FILTER_LABELS[status]);
+        await coaSubmissionPage.waitForSubmissionsLoad();
+
+        const entries = await getAllSubmissions();
+        for (const entry of entries) {
+          expect(entry.status, `${entry.batchNumber} should match the filter`).toBe(status);
+        }
+
+        const listedBatches = entries.map((entry) => entry.batchNumber);
+        const seededBatches = withStatus(status).map((submission) => submission.batchNumber);
+        if (RESUBMITTABLE_STATUSES.includes(status)) {
+          // Resubmissions only ever move submissions out of this state
+          for (const batchNumber of listedBatches) {
+            expect(seededBatches).toContain(batchNumber);
+          }
+        } else {
+          // Resubmissions only ever move submissions into pending review
+          for (const batchNumber of seededBatches) {
+            expect(listedBatches).toContain(batchNumber);
+          }
+        }
+      });
+    }
+  });
+
+  test.describe('Submission Details', () => {
+    test('should show the submitted data in the details dialog', async () => {
+      const approved = withStatus('APPROVED')[0];
+
+      await coaSubmissionPage.filterByStatus(STATUS_FILTER_LABELS.APPROVED);
+      await coaSubmissionPage.waitForSubmissionsLoad();
+      const entries = await coaSubmissionPage.getSubmissionHistory();
+      const index = entries.findIndex((entry) => entry.batchNumber === approved.batchNumber);
+      expect(index, `${approved.batchNumber} should be listed`).toBeGreaterThanOrEqual(0);
+
+      await coaSubmissionPage.viewSubmissionDetails(index);
+
+      await expect(coaSubmissionPage.detailsDialog).toContainText(approved.batchNumber);
+      await expect(coaSubmissionPage.detailsDialog).toContainText(approved.laboratory);
+      await expect(coaSubmissionPage.detailsDialog).toContainText(approved.productName);
+
+      await coaSubmissionPage.closeDetailsDialog();
+    });
+  });
+
+  test.describe('Resubmission', () => {
+    test('should send a rejected submission back to review when resubmitted', async ({ leases }, testInfo) => {
+      // Resubmitting consumes the rejection - lease one no other test or project is using
+      const rejected = await leases.coaSubmission((submission) => submission.status === 'REJECTED');
+
+      await coaSubmissionPage.filterByStatus(STATUS_FILTER_LABELS.REJECTED);
+      await coaSubmissionPage.waitForSubmissionsLoad();
+      const entries = await coaSubmissionPage.getSubmissionHistory();
+      const index = entries.findIndex((entry) => entry.batchNumber === rejected.batchNumber);
+      expect(index, `${rejected.batchNumber} (REJECTED) must be listed`).toBeGreaterThanOrEqual(0);
+
+      const coaFile = testInfo.outputPath(`resubmitted-${rejected.fileName}`);
+      fs.writeFileSync(coaFile, MINIMAL_PDF);
+
+      await coaSubmissionPage.resubmit(`submission-${index}`, {
+        coaFile,
+        laboratory: 'E2E Accredited Labs',
+      });
+      await leases.consume(rejected);
+
+      await coaSubmissionPage.filterByStatus('');
+      await coaSubmissionPage.waitForSubmissionsLoad();
+      const resubmitted = (await getAllSubmissions()).find((entry) => entry.batchNumber === rejected.batchNumber);
+
+      expect(resubmitted, `${rejected.batchNumber} should still be listed`).toBeTruthy();
+      expect(resubmitted!.status).toBe('PENDING_REVIEW');
+    });
+  });
+});
@@ -1,4 +1,4 @@
-import { test, expect } from '@playwright/test';
+import { test, expect } from '../../fixtures/workerFixtures';
 import { LoginPage } from '../../page-objects/LoginPage';
 import { CoaSubmissionPage } from '../../page-objects/account/CoaSubmissionPage';
 import { getAccountUser } from '../../fixtures/defaultFixtures';
@@ -14,7 +14,7 @@ import { getAccountUser } from '../../fixtures/defaultFixtures';
  * - Form field interactions
  * - Submission history display
  */
-test.describe('COA Submission Page', () => {
+test.describe('COA Submission Page', { tag: '@mutating' }, () => {
   let loginPage: LoginPage;
   let coaSubmissionPage: CoaSubmissionPage;
   const testUser = getAccountUser('accountCoa');
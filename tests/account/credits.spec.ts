@@ -1,7 +1,15 @@
-import { test, expect } from '@playwright/test';
+import { test, expect } from '../../fixtures/workerFixtures';
 import { LoginPage } from '../../page-objects/LoginPage';
 import { CreditsPage } from '../../page-objects/account/CreditsPage';
-import { getAccountUser } from '../../fixtures/defaultFixtures';
+import { getAccountUser, getCreditSummary, getUserCredits } from '../../fixtures/defaultFixtures';
+import { CreditStatus, CreditType, TestCredit } from '../../fixtures/types';
+
+/**
+ * Formats an amount the way the credits dashboard does (e.g. "$1,234.50")
+ */
+function formatAmount(amount: number): string {
+  return amount.toLocaleString('en-US', { style: 'currency', currency: 'USD' });
+}
 
 /**
  * Account Credits E2E Tests
@@ -13,8 +21,13 @@ import { getAccountUser } from '../../fixtures/defaultFixtures';
  * - Credits page loads and displays correctly
  * - Credit balance and history are visible
  * - Filter and pagination functionality
+ * - Balances and filter results match the seeded ledger exactly
+ *
+ * The accountCredits user's ledger is seeded by DataSeeder.seedCredits from
+ * defaultFixtures.credits: active, used, expired and expiring-soon entries from
+ * COA rewards, an admin adjustment and a refund.
  */
-test.describe('Account Credits Page', () => {
+test.describe('Account Credits Page', { tag: '@read-only' }, () => {
   let loginPage: LoginPage;
   let creditsPage: CreditsPage;
 
@@ -239,4 +252,70 @@ test.describe('Account Credits Page', () => {
     const hasError = await creditsPage.hasError();
     expect(hasError).toBeFalsy();
   });
+
+  test.describe('Seeded Ledger', () => {
+    const ledger = getUserCredits(getAccountUser('accountCredits').email);
+    const summary = getCreditSummary(ledger);
+
+    /**
+     * Applies a filter and verifies exactly the matching ledger entries are listed
+     */
+    async function expectFilteredEntries(expected: TestCredit[]): Promise<void> {
+      expect(await creditsPage.getFilteredCount()).toBe(expected.length);
+
+      const descriptions = (await creditsPage.getCreditHistory()).map((entry) => entry.description);
+      for (const credit of expected) {
+        expect(descriptions, `${credit.id} should be listed`).toContain(credit.description);
+      }
+    }
+
+    test('should have a ledger seeded for the credits user', async () => {
+      expect(ledger.length, 'Credits must exist in fixtures').toBeGreaterThan(0);
+      await creditsPage.assertCreditCount(ledger.length);
+    });
+
+    test('should show the balance of active credits', async () => {
+      await creditsPage.assertBalance(formatAmount(summary.balance));
+    });
+
+    test('should show total earned and total used credits', async () => {
+      expect(await creditsPage.getTotalEarned()).toBe(formatAmount(summary.totalEarned));
+      expect(await creditsPage.getTotalUsed()).toBe(formatAmount(summary.totalUsed));
+    });
+
+    test('should show the amount expiring within 30 days and warn about it', async () => {
+      expect(summary.expiringSoon, 'Fixtures must include an expiring-soon credit').toBeGreaterThan(0);
+
+      expect(await creditsPage.getExpiringAmount()).toBe(formatAmount(summary.expiringSoon));
+      expect(await creditsPage.hasExpirationWarning()).toBeTruthy();
+    });
+
+    for (const type of ['COA_SUBMISSION', 'MANUAL_ADJUSTMENT', 'REFUND'] as CreditType[]) {
+      test(`should list only ${type} credits when filtering by that type`, async () => {
+        await creditsPage.filterHistory({ type });
+        await expectFilteredEntries(ledger.filter((credit) => credit.type === type));
+      });
+    }
+
+    for (const status of ['ACTIVE', 'USED', 'EXPIRED'] as CreditStatus[]) {
+      test(`should list only ${status} credits when filtering by that status`, async () => {
+        await creditsPage.filterHistory({ status });
+        await expectFilteredEntries(ledger.filter((credit) => credit.status === status));
+      });
+    }
+
+    test('should list only credits issued in the last 30 days when filtering by date range', async () => {
+      const since = Date.now() - 30 * 24 * 60 * 60 * 1000;
+
+      await creditsPage.filterHistory({ dateRange: '30_DAYS' });
+      await expectFilteredEntries(ledger.filter((credit) => credit.createdDate.getTime() >= since));
+    });
+
+    test('should combine type and status filters', async () => {
+      await creditsPage.filterHistory({ type: 'COA_SUBMISSION', status: 'ACTIVE' });
+      await expectFilteredEntries(
+        ledger.filter((credit) => credit.type === 'COA_SUBMISSION' && credit.status === 'ACTIVE')
+      );
+    });
+  });
 });
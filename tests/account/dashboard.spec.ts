@@ -1,4 +1,4 @@
-import { test, expect } from '@playwright/test';
+import { test, expect } from '../../fixtures/workerFixtures';
 import { LoginPage } from '../../page-objects/LoginPage';
 import { AccountDashboardPage } from '../../page-objects/account/AccountDashboardPage';
 import { getAccountUser } from '../../fixtures/defaultFixtures';
@@ -14,7 +14,7 @@ import { getAccountUser } from '../../fixtures/defaultFixtures';
  * - Quick actions navigation works correctly
  * - Account information section displays user details
  */
-test.describe('Account Dashboard', () => {
+test.describe('Account Dashboard', { tag: '@read-only' }, () => {
   let loginPage: LoginPage;
   let dashboardPage: AccountDashboardPage;
   const testUser = getAccountUser('accountDashboard');
@@ -1,4 +1,4 @@
-import { test, expect } from '@playwright/test';
+import { test, expect } from '../../fixtures/workerFixtures';
 import { ForgotPasswordPage } from '../../page-objects/account/ForgotPasswordPage';
 import { LoginPage } from '../../page-objects/LoginPage';
 import { getTestUser } from '../../fixtures/defaultFixtures';
@@ -15,7 +15,7 @@ import { getTestUser } from '../../fixtures/defaultFixtures';
  * - 15.9: Email validation on forgot password form
  * - 15.10: Success/error feedback for password reset requests
  */
-test.describe('Forgot Password', () => {
+test.describe('Forgot Password', { tag: '@mutating' }, () => {
   let forgotPasswordPage: ForgotPasswordPage;
   let loginPage: LoginPage;
 
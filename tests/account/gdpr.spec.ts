@@ -1,4 +1,4 @@
-import { test, expect } from '@playwright/test';
+import { test, expect } from '../../fixtures/workerFixtures';
 import { LoginPage } from '../../page-objects/LoginPage';
 import { GdprPage } from '../../page-objects/account/GdprPage';
 import { getAccountUser } from '../../fixtures/defaultFixtures';
@@ -17,7 +17,7 @@ import { getAccountUser } from '../../fixtures/defaultFixtures';
  * Note: These tests do NOT actually perform account deletion as it would invalidate the test user.
  * Only dialog interactions are tested.
  */
-test.describe('GDPR Data Management', () => {
+test.describe('GDPR Data Management', { tag: '@mutating' }, () => {
   let loginPage: LoginPage;
   let gdprPage: GdprPage;
   const testUser = getAccountUser('accountGdpr');
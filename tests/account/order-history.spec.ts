@@ -1,4 +1,4 @@
-import { test, expect } from '@playwright/test';
+import { test, expect } from '../../fixtures/workerFixtures';
 import { LoginPage } from '../../page-objects/LoginPage';
 import { OrderHistoryPage } from '../../page-objects/OrderHistoryPage';
 import { getAccountUser } from '../../fixtures/defaultFixtures';
@@ -14,7 +14,7 @@ import { getAccountUser } from '../../fixtures/defaultFixtures';
  * - Order detail navigation
  * - Status tab filtering
  */
-test.describe('Order History Page', () => {
+test.describe('Order History Page', { tag: '@read-only' }, () => {
   let loginPage: LoginPage;
   let orderHistoryPage: OrderHistoryPage;
   const testUser = getAccountUser('accountOrders');
@@ -1,4 +1,4 @@
-import { test, expect } from '@playwright/test';
+import { test, expect } from '../../fixtures/workerFixtures';
 import { LoginPage } from '../../page-objects/LoginPage';
 import { PasswordChangePage } from '../../page-objects/account/PasswordChangePage';
 import { getAccountUser, isolatedTestUsers } from '../../fixtures/defaultFixtures';
@@ -19,7 +19,7 @@ import { getAccountUser, isolatedTestUsers } from '../../fixtures/defaultFixture
  * Note: Uses isolated user 'accountPassword' to avoid race conditions
  * during parallel test execution.
  */
-test.describe('Password Change Page', () => {
+test.describe('Password Change Page', { tag: '@mutating' }, () => {
   let loginPage: LoginPage;
   let passwordChangePage: PasswordChangePage;
   const testUser = getAccountUser('accountPassword');
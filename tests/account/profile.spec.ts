@@ -1,4 +1,4 @@
-import { test, expect } from '@playwright/test';
+import { test, expect } from '../../fixtures/workerFixtures';
 import { LoginPage } from '../../page-objects/LoginPage';
 import { ProfilePage } from '../../page-objects/account/ProfilePage';
 import { getAccountUser } from '../../fixtures/defaultFixtures';
@@ -16,7 +16,7 @@ import { getAccountUser } from '../../fixtures/defaultFixtures';
  * - Validation errors shown for empty required fields
  * - Success message shown after saving changes
  */
-test.describe('Profile Page', () => {
+test.describe('Profile Page', { tag: '@mutating' }, () => {
   let loginPage: LoginPage;
   let profilePage: ProfilePage;
   const testUser = getAccountUser('accountProfile');
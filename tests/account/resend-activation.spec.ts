@@ -1,4 +1,4 @@
-import { test, expect } from '@playwright/test';
+import { test, expect } from '../../fixtures/workerFixtures';
 import { ResendActivationPage } from '../../page-objects/account/ResendActivationPage';
 import { LoginPage } from '../../page-objects/LoginPage';
 import { getTestUser } from '../../fixtures/defaultFixtures';
@@ -19,7 +19,7 @@ import { getTestUser } from '../../fixtures/defaultFixtures';
  * the resend form behavior. The backend may return success even for
  * non-existent emails (security best practice to prevent email enumeration).
  */
-test.describe('Resend Activation Email', () => {
+test.describe('Resend Activation Email', { tag: '@mutating' }, () => {
   let resendActivationPage: ResendActivationPage;
   let loginPage: LoginPage;
 
@@ -1,11 +1,7 @@
-import { test, expect } from '@playwright/test';
+import { test, expect } from '../../fixtures/workerFixtures';
 import { ResetPasswordPage } from '../../page-objects/account/ResetPasswordPage';
 import { LoginPage } from '../../page-objects/LoginPage';
-import {
-  getExpiredResetKey,
-  getBrowserResetKeyAndUser,
-  getBrowserLoginAfterResetKeyAndUser,
-} from '../../fixtures/defaultFixtures';
+import { getExpiredResetKey } from '../../fixtures/defaultFixtures';
 
 /**
  * Reset Password E2E Tests
@@ -19,13 +15,13 @@ import {
  * - 15.14: Successful password reset flow
  * - 15.15: Password validation (mismatch, weak password)
  *
- * Uses seeded test users with known reset keys from fixtures.
+ * Tests that submit the form allocate their own pending-reset user from the user pool.
  * 
  * NOTE: Reset keys are single-use. Tests that actually submit the form to reset
  * a password will consume the key. Tests that only check UI behavior (form display,
  * validation messages, button states) use a "mock" key that won't be consumed.
  */
-test.describe('Reset Password', () => {
+test.describe('Reset Password', { tag: '@mutating' }, () => {
   let resetPasswordPage: ResetPasswordPage;
   let loginPage: LoginPage;
 
@@ -147,17 +143,13 @@ test.describe('Reset Password', () => {
    * Test 4: Successful reset
    * Requirement 15.14: Submit valid matching passwords, verify success message
    *
-   * Uses browser-specific reset keys to avoid conflicts in parallel execution.
-   * Each browser (chromium, firefox, mobile-chrome) gets its own reset key.
-   * NOTE: This test consumes the reset key - it can only succeed once per test run per browser.
+   * Uses a single-use user allocated for this test - the reset key is consumed.
    */
-  test('should successfully reset password with valid token and matching passwords', async ({ page }) => {
-    // Get browser-specific reset key and user using project name (not browserName which is the engine)
-    const projectName = test.info().project.name;
-    const { resetKey, user } = getBrowserResetKeyAndUser(projectName);
+  test('should successfully reset password with valid token and matching passwords', async ({ page, allocateUser }) => {
+    const user = await allocateUser({ state: 'pendingReset' });
 
-    // Navigate with the valid reset key from fixtures
-    await resetPasswordPage.gotoWithKey(resetKey);
+    // Navigate with the allocated user's reset key
+    await resetPasswordPage.gotoWithKey(user.resetKey!);
 
     // Handle age verification if present
     await resetPasswordPage.handleAgeVerification();
@@ -335,17 +327,13 @@ test.describe('Reset Password', () => {
    * Test 7: Login after reset
    * Requirement 15.14: After successful reset, verify user can log in with new password
    *
-   * Uses browser-specific reset keys to avoid conflicts in parallel execution.
-   * Each browser (chromium, firefox, mobile-chrome) gets its own reset key.
-   * NOTE: This test consumes the reset key - it can only succeed once per test run per browser.
+   * Uses a single-use user allocated for this test - the reset key is consumed.
    */
-  test('should allow login with new password after successful reset', async ({ page }) => {
-    // Get browser-specific reset key and user for login-after-reset test using project name
-    const projectName = test.info().project.name;
-    const { resetKey, user } = getBrowserLoginAfterResetKeyAndUser(projectName);
+  test('should allow login with new password after successful reset', async ({ page, allocateUser }) => {
+    const user = await allocateUser({ state: 'pendingReset' });
 
-    // Navigate with the valid reset key from fixtures
-    await resetPasswordPage.gotoWithKey(resetKey);
+    // Navigate with the allocated user's reset key
+    await resetPasswordPage.gotoWithKey(user.resetKey!);
 
     // Handle age verification if present
     await resetPasswordPage.handleAgeVerification();
@@ -1,4 +1,4 @@
-import { test, expect } from '@playwright/test';
+import { test, expect } from '../../fixtures/workerFixtures';
 import { BitcoinPaymentsPage } from '../../page-objects/admin/BitcoinPaymentsPage';
 import { LoginPage } from '../../page-objects/LoginPage';
 import { defaultFixtures } from '../../fixtures/defaultFixtures';
@@ -18,7 +18,7 @@ import { defaultFixtures } from '../../fixtures/defaultFixtures';
  * @tag Feature: e2e-integration-testing
  */
 
-test.describe('Bitcoin Admin Dashboard', () => {
+test.describe('Bitcoin Admin Dashboard', { tag: '@mutating' }, () => {
   let bitcoinPaymentsPage: BitcoinPaymentsPage;
   let loginPage: LoginPage;
 
@@ -1,4 +1,4 @@
-import { test, expect } from '@playwright/test';
+import { test, expect } from '../../fixtures/workerFixtures';
 import { LoginPage } from '../../page-objects/LoginPage';
 import { defaultFixtures } from '../../fixtures/defaultFixtures';
 
@@ -18,13 +18,13 @@ import { defaultFixtures } from '../../fixtures/defaultFixtures';
  * as the analytics API may not always return data in test environments.
  */
 
-test.describe('Admin Dashboard Access Control', () => {
+test.describe('Admin Dashboard Access Control', { tag: '@read-only' }, () => {
   test.describe('Unauthenticated Access', () => {
     test('should not allow unauthenticated user to interact with admin dashboard', async ({
       page,
     }) => {
       // Try to access admin dashboard without authentication
-      await page.goto('http://localhost:3000/admin');
+      await page.goto('/admin');
       await page.waitForLoadState('networkidle');
 
       // Wait for the page to settle and any redirects to complete
@@ -83,7 +83,7 @@ test.describe('Admin Dashboard Access Control', () => {
       page,
     }) => {
       // Try to access admin dashboard as regular user
-      await page.goto('http://localhost:3000/admin');
+      await page.goto('/admin');
       await page.waitForLoadState('networkidle');
 
       // Wait for AdminGuard to check auth and potentially redirect
@@ -143,7 +143,7 @@ test.describe('Admin Dashboard Access Control', () => {
       await loginPage.waitForLoginComplete();
 
       // Navigate to admin dashboard
-      await page.goto('http://localhost:3000/admin');
+      await page.goto('/admin');
       await page.waitForLoadState('networkidle');
     });
 
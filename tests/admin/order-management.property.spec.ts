@@ -1,4 +1,4 @@
-import { test, expect } from '@playwright/test';
+import { test, expect, CLEAN_SNAPSHOT } from '../../fixtures/workerFixtures';
 import { LoginPage } from '../../page-objects/LoginPage';
 import { AdminOrdersPage } from '../../page-objects/admin';
 import { defaultFixtures } from '../../fixtures/defaultFixtures';
@@ -25,7 +25,7 @@ import { defaultFixtures } from '../../fixtures/defaultFixtures';
  * - Test "Order status update is immediately visible": Order 0017 (CONFIRMED)
  * - Test "Multiple valid status transitions": Order 0018 (PENDING)
  * - Test "Order status persists after page reload": Order 0006 (PROCESSING with batch)
- * - Test "Order status persists after navigating away": Order 0019 (AWAITING_PAYMENT)
+ * - Test "Order status persists after navigating away": leases an AWAITING_PAYMENT order (see fixtures/leases)
  * - Test "Order details remain intact": Order 0020 (PENDING)
  * - Test "Order count remains the same": Order 0021 (CONFIRMED)
  * - Test "Valid status transitions succeed": Order 0022 (PENDING)
@@ -34,9 +34,11 @@ import { defaultFixtures } from '../../fixtures/defaultFixtures';
  * Requirements covered:
  * - 6.3: Admin order management
  */
-test.describe('Property: Admin Order Management Persistence', () => {
+test.describe('Property: Admin Order Management Persistence', { tag: '@mutating' }, () => {
   // Run tests serially to avoid race conditions when modifying shared order state
   test.describe.configure({ mode: 'serial' });
+  // Start from freshly seeded orders - earlier files may have changed their statuses
+  test.use({ restoreSnapshot: CLEAN_SNAPSHOT });
 
   const adminUser = defaultFixtures.users.admin;
   let loginPage: LoginPage;
@@ -143,16 +145,16 @@ test.describe('Property: Admin Order Management Persistence', () => {
       expect(reloadedOrder?.status.toUpperCase()).toBe('SHIPPED');
     });
 
-    test('Order status persists after navigating away and back', async ({ page }) => {
-      // DEDICATED ORDER: 0019 (AWAITING_PAYMENT) - only this test uses this order
-      // Find order 0019 which is in AWAITING_PAYMENT status
-      const awaitingOrder = await adminOrdersPage.findOrder('0019');
+    test('Order status persists after navigating away and back', async ({ page, leases }) => {
+      // Cancelling consumes the order - lease one no other test or project is using
+      const leasedOrder = await leases.order((order) => order.status === 'AWAITING_PAYMENT');
+      const awaitingOrder = await adminOrdersPage.findOrder(leasedOrder.orderNumber.slice(-4));
       
       // This order MUST exist - fail the test if not found (not skip!)
-      expect(awaitingOrder, 'Order 0019 (AWAITING_PAYMENT) must exist in fixtures').not.toBeNull();
+      expect(awaitingOrder, `Order ${leasedOrder.orderNumber} (AWAITING_PAYMENT) must exist in fixtures`).not.toBeNull();
       const status = awaitingOrder?.status.toUpperCase();
       expect(status === 'AWAITING_PAYMENT' || status === 'AWAITING PAYMENT', 
-        `Order 0019 should be AWAITING_PAYMENT but was ${status}`).toBe(true);
+        `Order ${leasedOrder.orderNumber} should be AWAITING_PAYMENT but was ${status}`).toBe(true);
 
       // Update the order status to CANCELLED
       await adminOrdersPage.viewOrder(awaitingOrder!.orderNumber);
@@ -163,7 +165,7 @@ test.describe('Property: Admin Order Management Persistence', () => {
       await adminOrdersPage.assertSuccessMessageDisplayed();
 
       // Navigate away to admin dashboard
-      await page.goto('http://localhost:3000/admin');
+      await page.goto('/admin');
       await page.waitForLoadState('domcontentloaded');
 
       // Navigate back to orders
@@ -174,6 +176,7 @@ test.describe('Property: Admin Order Management Persistence', () => {
       const returnedOrder = await adminOrdersPage.findOrder(awaitingOrder!.orderNumber);
       expect(returnedOrder).not.toBeNull();
       expect(returnedOrder?.status.toUpperCase()).toBe('CANCELLED');
+      await leases.consume(leasedOrder);
     });
   });
 
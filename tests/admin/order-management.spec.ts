@@ -1,7 +1,8 @@
-import { test, expect } from '@playwright/test';
+import { test, expect, CLEAN_SNAPSHOT } from '../../fixtures/workerFixtures';
 import { LoginPage } from '../../page-objects/LoginPage';
 import { AdminOrdersPage } from '../../page-objects/admin';
 import { defaultFixtures } from '../../fixtures/defaultFixtures';
+import { getManifestIsolatedUser, getManifestOrdersForUser } from '../../fixtures/runManifest';
 
 /**
  * Admin Order Management E2E Tests
@@ -12,21 +13,24 @@ import { defaultFixtures } from '../../fixtures/defaultFixtures';
  * - Test "CONFIRMED to PROCESSING": Order 0003 (CONFIRMED)
  * - Test "success message after status update": Order 0001 (PENDING)
  * - Test "persist updated status": Order 0005 (PROCESSING with batch)
- * - Test "cancelling an order": Order 0009 (AWAITING_PAYMENT)
+ * - Test "cancelling an order": leases an AWAITING_PAYMENT order (see fixtures/leases)
  *
  * Requirements covered:
  * - Admin can view orders list
  * - Orders list displays order information (order number, date, status, total)
  * - Admin can view order details dialog
  * - Order details shows shipping address and items
+ * - Order details shows the customer's database ID (from the run manifest)
  * - Admin can update order status
  * - Status update shows success message
  * - Updated status persists in the list
  * - Admin can switch between All Orders and Manual Payments tabs
  */
-test.describe('Admin Order Management', () => {
+test.describe('Admin Order Management', { tag: '@mutating' }, () => {
   // Run tests serially to avoid race conditions when modifying shared order state
   test.describe.configure({ mode: 'serial' });
+  // Start from freshly seeded orders - earlier files may have changed their statuses
+  test.use({ restoreSnapshot: CLEAN_SNAPSHOT });
 
   let loginPage: LoginPage;
   let adminOrdersPage: AdminOrdersPage;
@@ -148,6 +152,20 @@ test.describe('Admin Order Management', () => {
       expect(orderDetails.status).toBeTruthy();
     });
 
+    test("should show the customer's database ID in order details", async ({ runManifest }) => {
+      // Registration gave the accountOrders user a new ID - global setup re-pointed its orders to it
+      const owner = getManifestIsolatedUser(runManifest, 'accountOrders');
+      const [ownedOrder] = getManifestOrdersForUser(runManifest, owner.id);
+      expect(ownedOrder, `${owner.email} must own seeded orders`).toBeTruthy();
+
+      const listedOrder = await adminOrdersPage.findOrder(ownedOrder.orderNumber.slice(-4));
+      expect(listedOrder, `Order ${ownedOrder.orderNumber} must be listed`).not.toBeNull();
+      await adminOrdersPage.viewOrder(listedOrder!.orderNumber);
+
+      const orderDetails = await adminOrdersPage.getOrderDetails();
+      expect(orderDetails.userId).toBe(owner.id);
+    });
+
     test('should display shipping address in order details', async () => {
       // Get orders from the list - they MUST exist in fixtures
       const orders = await adminOrdersPage.getOrders();
@@ -275,16 +293,16 @@ test.describe('Admin Order Management', () => {
       await adminOrdersPage.assertOrderStatus(processingOrder!.orderNumber, 'SHIPPED');
     });
 
-    test('should allow cancelling an order', async () => {
-      // DEDICATED ORDER: 0009 (AWAITING_PAYMENT) - only this test uses this order
-      // Find order 0009 which is in AWAITING_PAYMENT status
-      const awaitingPaymentOrder = await adminOrdersPage.findOrder('0009');
+    test('should allow cancelling an order', async ({ leases }) => {
+      // Cancelling consumes the order - lease one no other test or project is using
+      const leasedOrder = await leases.order((order) => order.status === 'AWAITING_PAYMENT');
+      const awaitingPaymentOrder = await adminOrdersPage.findOrder(leasedOrder.orderNumber.slice(-4));
       
       // This order MUST exist - fail the test if not found (not skip!)
-      expect(awaitingPaymentOrder, 'Order 0009 (AWAITING_PAYMENT) must exist in fixtures').not.toBeNull();
+      expect(awaitingPaymentOrder, `Order ${leasedOrder.orderNumber} (AWAITING_PAYMENT) must exist in fixtures`).not.toBeNull();
       const status = awaitingPaymentOrder?.status.toUpperCase();
       expect(status === 'AWAITING_PAYMENT' || status === 'AWAITING PAYMENT',
-        `Order 0009 should be AWAITING_PAYMENT but was ${status}`).toBe(true);
+        `Order ${leasedOrder.orderNumber} should be AWAITING_PAYMENT but was ${status}`).toBe(true);
 
       // View the awaiting payment order
       await adminOrdersPage.viewOrder(awaitingPaymentOrder!.orderNumber);
@@ -298,6 +316,7 @@ test.describe('Admin Order Management', () => {
 
       // Verify status in list
       await adminOrdersPage.assertOrderStatus(awaitingPaymentOrder!.orderNumber, 'CANCELLED');
+      await leases.consume(leasedOrder);
     });
   });
 
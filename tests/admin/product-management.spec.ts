@@ -1,4 +1,4 @@
-import { test, expect } from '@playwright/test';
+import { test, expect } from '../../fixtures/workerFixtures';
 import { AdminProductsPage, ProductFormData } from '../../page-objects/admin';
 import { LoginPage } from '../../page-objects/LoginPage';
 import { defaultFixtures } from '../../fixtures/defaultFixtures';
@@ -15,7 +15,7 @@ import { defaultFixtures } from '../../fixtures/defaultFixtures';
  * - Admin can delete products
  * - Product form validation
  */
-test.describe('Admin Product Management', () => {
+test.describe('Admin Product Management', { tag: '@mutating' }, () => {
   let adminProductsPage: AdminProductsPage;
   let loginPage: LoginPage;
   const admin = defaultFixtures.users.admin;
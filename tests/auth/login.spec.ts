@@ -1,4 +1,4 @@
-import { test, expect } from '@playwright/test';
+import { test, expect } from '../../fixtures/workerFixtures';
 import { LoginPage } from '../../page-objects/LoginPage';
 import { getTestUser, getIsolatedUser } from '../../fixtures/defaultFixtures';
 
@@ -13,7 +13,7 @@ import { getTestUser, getIsolatedUser } from '../../fixtures/defaultFixtures';
  * - 2.3: Session termination on logout
  * - 2.4: Error messages for invalid credentials
  */
-test.describe('Login Page', () => {
+test.describe('Login Page', { tag: '@mutating' }, () => {
   let loginPage: LoginPage;
 
   test.beforeEach(async ({ page }) => {
@@ -1,4 +1,4 @@
-import { test, expect } from '@playwright/test';
+import { test, expect } from '../../fixtures/workerFixtures';
 import { LoginPage } from '../../page-objects/LoginPage';
 import { getIsolatedUser } from '../../fixtures/defaultFixtures';
 
@@ -10,7 +10,7 @@ import { getIsolatedUser } from '../../fixtures/defaultFixtures';
  * Requirements covered:
  * - 2.3: Session termination on logout
  */
-test.describe('Logout Functionality', () => {
+test.describe('Logout Functionality', { tag: '@read-only' }, () => {
   let loginPage: LoginPage;
 
   test.beforeEach(async ({ page }) => {
@@ -1,4 +1,4 @@
-import { test, expect } from '@playwright/test';
+import { test, expect } from '../../fixtures/workerFixtures';
 import { RegisterPage } from '../../page-objects/RegisterPage';
 
 /**
@@ -7,7 +7,7 @@ import { RegisterPage } from '../../page-objects/RegisterPage';
  * Tests for registration page functionality including form validation
  * and successful registration flow.
  */
-test.describe('Registration Page', () => {
+test.describe('Registration Page', { tag: '@mutating' }, () => {
   let registerPage: RegisterPage;
 
   test.beforeEach(async ({ page }) => {
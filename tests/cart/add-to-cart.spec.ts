@@ -1,4 +1,4 @@
-import { test, expect } from '@playwright/test';
+import { test, expect } from '../../fixtures/workerFixtures';
 import { ProductDetailPage } from '../../page-objects/ProductDetailPage';
 import { CartPage } from '../../page-objects/CartPage';
 import { Header } from '../../page-objects/components/Header';
@@ -15,7 +15,7 @@ import {
  * Requirements covered:
  * - 4.1: Add to cart functionality
  */
-test.describe('Add to Cart', () => {
+test.describe('Add to Cart', { tag: '@mutating' }, () => {
   let productDetailPage: ProductDetailPage;
   let cartPage: CartPage;
   let header: Header;
@@ -1,4 +1,4 @@
-import { test, expect } from '@playwright/test';
+import { test, expect } from '../../fixtures/workerFixtures';
 import { LoginPage } from '../../page-objects/LoginPage';
 import { ShopPage } from '../../page-objects/ShopPage';
 import { ProductDetailPage } from '../../page-objects/ProductDetailPage';
@@ -18,7 +18,7 @@ import {
  * - 4.3: Cart persistence for logged-in users
  * - 4.6: Empty cart state
  */
-test.describe('Cart Management', () => {
+test.describe('Cart Management', { tag: '@mutating' }, () => {
   let loginPage: LoginPage;
   let productDetailPage: ProductDetailPage;
   let cartPage: CartPage;
@@ -112,7 +112,7 @@ test.describe('Cart Management', () => {
   test('should display empty cart state', async ({ page }) => {
     // Requirements: 4.6
     // Clear any existing cart items by clearing localStorage
-    await page.goto('http://localhost:3000');
+    await page.goto('/');
     await page.evaluate(() => {
       localStorage.removeItem('zenithCartItems');
     });
@@ -198,7 +198,7 @@ test.describe('Cart Management', () => {
   test('should navigate to shop when clicking continue shopping', async ({ page }) => {
     // Requirements: 4.6
     // Clear cart first
-    await page.goto('http://localhost:3000');
+    await page.goto('/');
     await page.evaluate(() => {
       localStorage.removeItem('zenithCartItems');
     });
@@ -1,4 +1,4 @@
-import { test, expect } from '@playwright/test';
+import { test, expect } from '../../fixtures/workerFixtures';
 import { ProductDetailPage } from '../../page-objects/ProductDetailPage';
 import { CartPage } from '../../page-objects/CartPage';
 import { Header } from '../../page-objects/components/Header';
@@ -16,7 +16,7 @@ import { getTestProduct, getInStockProduct } from '../../fixtures/defaultFixture
  * - Cart total equals sum of item totals
  * - Removing all items results in empty cart
  */
-test.describe('Cart Operations Consistency (Property Tests)', () => {
+test.describe('Cart Operations Consistency (Property Tests)', { tag: '@mutating' }, () => {
   let productDetailPage: ProductDetailPage;
   let cartPage: CartPage;
   let header: Header;
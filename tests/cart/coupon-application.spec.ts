@@ -1,4 +1,4 @@
-import { test, expect } from '@playwright/test';
+import { test, expect } from '../../fixtures/workerFixtures';
 import { ProductDetailPage } from '../../page-objects/ProductDetailPage';
 import { CartPage } from '../../page-objects/CartPage';
 import {
@@ -16,7 +16,7 @@ import {
  * - 4.4: Coupon application
  * - 4.5: Coupon validation (invalid/expired coupons, minimum order requirements)
  */
-test.describe('Coupon Application', () => {
+test.describe('Coupon Application', { tag: '@mutating' }, () => {
   let productDetailPage: ProductDetailPage;
   let cartPage: CartPage;
 
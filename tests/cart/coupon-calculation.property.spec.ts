@@ -1,4 +1,4 @@
-import { test, expect } from '@playwright/test';
+import { test, expect } from '../../fixtures/workerFixtures';
 import { ProductDetailPage } from '../../page-objects/ProductDetailPage';
 import { CartPage } from '../../page-objects/CartPage';
 import { getTestProduct, getTestCoupon } from '../../fixtures/defaultFixtures';
@@ -15,7 +15,7 @@ import { getTestProduct, getTestCoupon } from '../../fixtures/defaultFixtures';
  * - Discount never exceeds subtotal (total >= 0)
  * - Removing coupon restores original total
  */
-test.describe('Coupon Discount Calculation (Property Tests)', () => {
+test.describe('Coupon Discount Calculation (Property Tests)', { tag: '@mutating' }, () => {
   let productDetailPage: ProductDetailPage;
   let cartPage: CartPage;
 
@@ -1,13 +1,11 @@
-import { test, expect } from '@playwright/test';
+import { test, expect } from '../../fixtures/authFixtures';
 import { CheckoutPage, ShippingAddressData } from '../../page-objects/CheckoutPage';
 import { ProductDetailPage } from '../../page-objects/ProductDetailPage';
 import { CartPage } from '../../page-objects/CartPage';
-import { LoginPage } from '../../page-objects/LoginPage';
 import {
   getValidShippingAddress,
   getInvalidShippingAddress,
   getInStockProduct,
-  getCheckoutUser,
 } from '../../fixtures/defaultFixtures';
 
 /**
@@ -18,68 +16,24 @@ import {
  * Requirements covered:
  * - 5.2: Address validation
  */
-test.describe('Address Validation', () => {
+test.describe('Address Validation', { tag: '@mutating' }, () => {
   // Run tests serially to avoid cart/user race conditions
   test.describe.configure({ mode: 'serial' });
+  test.use({ isolatedUserKey: 'addressValidation' });
 
   let checkoutPage: CheckoutPage;
   let productDetailPage: ProductDetailPage;
   let cartPage: CartPage;
-  let loginPage: LoginPage;
 
   /**
    * Helper function to setup cart with product and navigate to checkout
-   * Clears backend cart to ensure test isolation
+   * The auth fixture has already logged in and emptied the cart
    */
   async function setupCartAndNavigateToCheckout(
-    page: import('@playwright/test').Page,
-    request: import('@playwright/test').APIRequestContext
+    page: import('@playwright/test').Page
   ): Promise<void> {
-    const customer = getCheckoutUser('addressValidation');
     const product = getInStockProduct();
 
-    // Clear localStorage BEFORE login
-    await page.goto('http://localhost:3000');
-    await page.evaluate(() => {
-      localStorage.removeItem('zenithCartItems');
-    });
-
-    // Login
-    await loginPage.goto();
-    await loginPage.waitForForm();
-    await loginPage.login(customer.email, customer.password);
-    await loginPage.waitForLoginComplete();
-
-    // Clear the backend cart AFTER login
-    const loginResponse = await request.post('http://localhost:8080/api/auth/login', {
-      data: {
-        email: customer.email,
-        password: customer.password,
-      },
-    });
-
-    if (loginResponse.ok()) {
-      const loginData = await loginResponse.json();
-      const token = loginData.accessToken;
-
-      // Clear the backend cart
-      await request.delete('http://localhost:8080/api/cart', {
-        headers: {
-          Authorization: `Bearer ${token}`,
-        },
-      });
-    }
-
-    // Clear localStorage again after login
-    await page.evaluate(() => {
-      localStorage.removeItem('zenithCartItems');
-    });
-
-    // Refresh to ensure clean state
-    await page.reload();
-    await page.waitForLoadState('domcontentloaded');
-    await page.waitForTimeout(500);
-
     // Add an item to cart before testing checkout
     await productDetailPage.gotoProduct(product.slug);
     await productDetailPage.productName.waitFor({ state: 'visible', timeout: 10000 });
@@ -95,19 +49,12 @@ test.describe('Address Validation', () => {
     checkoutPage = new CheckoutPage(page);
     productDetailPage = new ProductDetailPage(page);
     cartPage = new CartPage(page);
-    loginPage = new LoginPage(page);
-
-    // Clear any existing cart items
-    await page.goto('http://localhost:3000');
-    await page.evaluate(() => {
-      localStorage.removeItem('zenithCartItems');
-    });
   });
 
   test.describe('Valid Address Submission', () => {
-    test('should allow proceeding to payment step with valid address', async ({ page, request }) => {
+    test('should allow proceeding to payment step with valid address', async ({ page }) => {
       // Requirements: 5.2
-      await setupCartAndNavigateToCheckout(page, request);
+      await setupCartAndNavigateToCheckout(page);
       const validAddress = getValidShippingAddress();
 
       // Fill in valid shipping address
@@ -158,12 +105,12 @@ test.describe('Address Validation', () => {
       }
     });
 
-    test('should show error when EasyPost cannot verify address', async ({ page, request }) => {
+    test('should show error when EasyPost cannot verify address', async ({ page }) => {
       // Requirements: 5.2
       // NOTE: In E2E test environment, address verification is bypassed (test-mode: true in application-e2e.yml)
       // The EasyPostService auto-approves all addresses when testMode=true to allow E2E tests to use any address
       // This test verifies the behavior in test mode - addresses proceed to payment without verification errors
-      await setupCartAndNavigateToCheckout(page, request);
+      await setupCartAndNavigateToCheckout(page);
       
       // Use a fake address - in test mode this will be auto-approved
       const fakeAddress: ShippingAddressData = {
@@ -217,9 +164,9 @@ test.describe('Address Validation', () => {
   });
 
   test.describe('Required Field Validation', () => {
-    test('should show validation errors for empty required fields', async ({ page, request }) => {
+    test('should show validation errors for empty required fields', async ({ page }) => {
       // Requirements: 5.2
-      await setupCartAndNavigateToCheckout(page, request);
+      await setupCartAndNavigateToCheckout(page);
       // Try to submit with empty form (just acknowledge research use)
       await checkoutPage.acknowledgeResearchUse();
 
@@ -240,9 +187,9 @@ test.describe('Address Validation', () => {
       expect(hasFirstNameError || await checkoutPage.continueToPaymentButton.isDisabled()).toBeTruthy();
     });
 
-    test('should show validation error for missing first name', async ({ page, request }) => {
+    test('should show validation error for missing first name', async ({ page }) => {
       // Requirements: 5.2
-      await setupCartAndNavigateToCheckout(page, request);
+      await setupCartAndNavigateToCheckout(page);
       const validAddress = getValidShippingAddress();
 
       // Ensure we're entering a new address (not using saved address)
@@ -270,9 +217,9 @@ test.describe('Address Validation', () => {
       expect(isDisabled).toBeTruthy();
     });
 
-    test('should show validation error for missing last name', async ({ page, request }) => {
+    test('should show validation error for missing last name', async ({ page }) => {
       // Requirements: 5.2
-      await setupCartAndNavigateToCheckout(page, request);
+      await setupCartAndNavigateToCheckout(page);
       const validAddress = getValidShippingAddress();
 
       // Ensure we're entering a new address (not using saved address)
@@ -299,9 +246,9 @@ test.describe('Address Validation', () => {
       expect(isDisabled).toBeTruthy();
     });
 
-    test('should show validation error for missing address', async ({ page, request }) => {
+    test('should show validation error for missing address', async ({ page }) => {
       // Requirements: 5.2
-      await setupCartAndNavigateToCheckout(page, request);
+      await setupCartAndNavigateToCheckout(page);
       const validAddress = getValidShippingAddress();
 
       // Fill all fields except address1
@@ -318,9 +265,9 @@ test.describe('Address Validation', () => {
       await expect(checkoutPage.continueToPaymentButton).toBeDisabled();
     });
 
-    test('should show validation error for missing city', async ({ page, request }) => {
+    test('should show validation error for missing city', async ({ page }) => {
       // Requirements: 5.2
-      await setupCartAndNavigateToCheckout(page, request);
+      await setupCartAndNavigateToCheckout(page);
       const validAddress = getValidShippingAddress();
 
       // Fill all fields except city
@@ -337,9 +284,9 @@ test.describe('Address Validation', () => {
       await expect(checkoutPage.continueToPaymentButton).toBeDisabled();
     });
 
-    test('should show validation error for missing state', async ({ page, request }) => {
+    test('should show validation error for missing state', async ({ page }) => {
       // Requirements: 5.2
-      await setupCartAndNavigateToCheckout(page, request);
+      await setupCartAndNavigateToCheckout(page);
       const validAddress = getValidShippingAddress();
 
       // Fill all fields except state
@@ -356,9 +303,9 @@ test.describe('Address Validation', () => {
       await expect(checkoutPage.continueToPaymentButton).toBeDisabled();
     });
 
-    test('should show validation error for missing phone number', async ({ page, request }) => {
+    test('should show validation error for missing phone number', async ({ page }) => {
       // Requirements: 5.2
-      await setupCartAndNavigateToCheckout(page, request);
+      await setupCartAndNavigateToCheckout(page);
       const validAddress = getValidShippingAddress();
 
       // Fill all fields except phone
@@ -377,9 +324,9 @@ test.describe('Address Validation', () => {
   });
 
   test.describe('Email Validation', () => {
-    test('should show validation error for invalid email format', async ({ page, request }) => {
+    test('should show validation error for invalid email format', async ({ page }) => {
       // Requirements: 5.2
-      await setupCartAndNavigateToCheckout(page, request);
+      await setupCartAndNavigateToCheckout(page);
       const validAddress = getValidShippingAddress();
 
       // Fill all fields with invalid email
@@ -406,9 +353,9 @@ test.describe('Address Validation', () => {
       expect(emailErrorVisible || await checkoutPage.continueToPaymentButton.isDisabled()).toBeTruthy();
     });
 
-    test('should show validation error for email without domain', async ({ page, request }) => {
+    test('should show validation error for email without domain', async ({ page }) => {
       // Requirements: 5.2
-      await setupCartAndNavigateToCheckout(page, request);
+      await setupCartAndNavigateToCheckout(page);
       const validAddress = getValidShippingAddress();
 
       // Fill form with email missing domain
@@ -422,9 +369,9 @@ test.describe('Address Validation', () => {
       await expect(checkoutPage.continueToPaymentButton).toBeDisabled();
     });
 
-    test('should show validation error for email without @ symbol', async ({ page, request }) => {
+    test('should show validation error for email without @ symbol', async ({ page }) => {
       // Requirements: 5.2
-      await setupCartAndNavigateToCheckout(page, request);
+      await setupCartAndNavigateToCheckout(page);
       const validAddress = getValidShippingAddress();
 
       // Fill form with email missing @ symbol
@@ -440,9 +387,9 @@ test.describe('Address Validation', () => {
   });
 
   test.describe('ZIP Code Validation', () => {
-    test('should show validation error for invalid ZIP code format', async ({ page, request }) => {
+    test('should show validation error for invalid ZIP code format', async ({ page }) => {
       // Requirements: 5.2
-      await setupCartAndNavigateToCheckout(page, request);
+      await setupCartAndNavigateToCheckout(page);
       const validAddress = getValidShippingAddress();
 
       // Fill all fields with invalid ZIP
@@ -469,9 +416,9 @@ test.describe('Address Validation', () => {
       expect(zipErrorVisible || await checkoutPage.continueToPaymentButton.isDisabled()).toBeTruthy();
     });
 
-    test('should accept valid 5-digit ZIP code', async ({ page, request }) => {
+    test('should accept valid 5-digit ZIP code', async ({ page }) => {
       // Requirements: 5.2
-      await setupCartAndNavigateToCheckout(page, request);
+      await setupCartAndNavigateToCheckout(page);
       const validAddress = getValidShippingAddress();
 
       // Fill form with valid 5-digit ZIP
@@ -485,9 +432,9 @@ test.describe('Address Validation', () => {
       await expect(checkoutPage.continueToPaymentButton).toBeEnabled();
     });
 
-    test('should accept valid ZIP+4 format', async ({ page, request }) => {
+    test('should accept valid ZIP+4 format', async ({ page }) => {
       // Requirements: 5.2
-      await setupCartAndNavigateToCheckout(page, request);
+      await setupCartAndNavigateToCheckout(page);
       const validAddress = getValidShippingAddress();
 
       // Fill form with valid ZIP+4 format
@@ -501,9 +448,9 @@ test.describe('Address Validation', () => {
       await expect(checkoutPage.continueToPaymentButton).toBeEnabled();
     });
 
-    test('should show validation error for ZIP code with letters', async ({ page, request }) => {
+    test('should show validation error for ZIP code with letters', async ({ page }) => {
       // Requirements: 5.2
-      await setupCartAndNavigateToCheckout(page, request);
+      await setupCartAndNavigateToCheckout(page);
       const validAddress = getValidShippingAddress();
 
       // Fill form with ZIP containing letters
@@ -519,9 +466,9 @@ test.describe('Address Validation', () => {
   });
 
   test.describe('Research Acknowledgment', () => {
-    test('should prevent proceeding without research acknowledgment', async ({ page, request }) => {
+    test('should prevent proceeding without research acknowledgment', async ({ page }) => {
       // Requirements: 5.2
-      await setupCartAndNavigateToCheckout(page, request);
+      await setupCartAndNavigateToCheckout(page);
       const validAddress = getValidShippingAddress();
 
       // Fill in valid shipping address
@@ -537,9 +484,9 @@ test.describe('Address Validation', () => {
       await expect(checkoutPage.researchAcknowledgmentCheckbox).not.toBeChecked();
     });
 
-    test('should enable continue button after acknowledging research use', async ({ page, request }) => {
+    test('should enable continue button after acknowledging research use', async ({ page }) => {
       // Requirements: 5.2
-      await setupCartAndNavigateToCheckout(page, request);
+      await setupCartAndNavigateToCheckout(page);
       const validAddress = getValidShippingAddress();
 
       // Fill in valid shipping address
@@ -555,9 +502,9 @@ test.describe('Address Validation', () => {
       await expect(checkoutPage.continueToPaymentButton).toBeEnabled();
     });
 
-    test('should disable continue button when unchecking research acknowledgment', async ({ page, request }) => {
+    test('should disable continue button when unchecking research acknowledgment', async ({ page }) => {
       // Requirements: 5.2
-      await setupCartAndNavigateToCheckout(page, request);
+      await setupCartAndNavigateToCheckout(page);
       const validAddress = getValidShippingAddress();
 
       // Fill in valid shipping address and acknowledge
@@ -576,9 +523,9 @@ test.describe('Address Validation', () => {
   });
 
   test.describe('Form Data Persistence', () => {
-    test('should preserve form data when navigating back from payment step', async ({ page, request }) => {
+    test('should preserve form data when navigating back from payment step', async ({ page }) => {
       // Requirements: 5.2
-      await setupCartAndNavigateToCheckout(page, request);
+      await setupCartAndNavigateToCheckout(page);
       const validAddress = getValidShippingAddress();
 
       // Fill in valid shipping address
@@ -636,9 +583,9 @@ test.describe('Address Validation', () => {
   });
 
   test.describe('Partial Form Submission', () => {
-    test('should show appropriate errors for partial form submission', async ({ page, request }) => {
+    test('should show appropriate errors for partial form submission', async ({ page }) => {
       // Requirements: 5.2
-      await setupCartAndNavigateToCheckout(page, request);
+      await setupCartAndNavigateToCheckout(page);
       // Fill only some fields
       await checkoutPage.firstNameInput.fill('John');
       await checkoutPage.lastNameInput.fill('Doe');
@@ -651,9 +598,9 @@ test.describe('Address Validation', () => {
       expect(isDisabled).toBeTruthy();
     });
 
-    test('should allow submission after completing all required fields', async ({ page, request }) => {
+    test('should allow submission after completing all required fields', async ({ page }) => {
       // Requirements: 5.2
-      await setupCartAndNavigateToCheckout(page, request);
+      await setupCartAndNavigateToCheckout(page);
       // Start with partial data
       await checkoutPage.firstNameInput.fill('John');
       await checkoutPage.lastNameInput.fill('Doe');
@@ -674,9 +621,9 @@ test.describe('Address Validation', () => {
       await expect(checkoutPage.continueToPaymentButton).toBeEnabled();
     });
 
-    test('should clear validation error when field is corrected', async ({ page, request }) => {
+    test('should clear validation error when field is corrected', async ({ page }) => {
       // Requirements: 5.2
-      await setupCartAndNavigateToCheckout(page, request);
+      await setupCartAndNavigateToCheckout(page);
       const validAddress = getValidShippingAddress();
 
       // Fill form with invalid email first
@@ -699,9 +646,9 @@ test.describe('Address Validation', () => {
   });
 
   test.describe('Address Line 2 (Optional)', () => {
-    test('should allow submission without address line 2', async ({ page, request }) => {
+    test('should allow submission without address line 2', async ({ page }) => {
       // Requirements: 5.2
-      await setupCartAndNavigateToCheckout(page, request);
+      await setupCartAndNavigateToCheckout(page);
       const validAddress = getValidShippingAddress();
 
       // Fill form without address2
@@ -720,9 +667,9 @@ test.describe('Address Validation', () => {
       await expect(checkoutPage.continueToPaymentButton).toBeEnabled();
     });
 
-    test('should accept address line 2 when provided', async ({ page, request }) => {
+    test('should accept address line 2 when provided', async ({ page }) => {
       // Requirements: 5.2
-      await setupCartAndNavigateToCheckout(page, request);
+      await setupCartAndNavigateToCheckout(page);
       const validAddress = getValidShippingAddress();
 
       // Fill form with address2
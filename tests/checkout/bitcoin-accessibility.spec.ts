@@ -1,11 +1,9 @@
-import { test, expect } from '@playwright/test';
+import { test, expect } from '../../fixtures/authFixtures';
 import { BitcoinPaymentPage } from '../../page-objects/checkout/BitcoinPaymentPage';
 import { CheckoutPage, ShippingAddressData } from '../../page-objects/CheckoutPage';
 import { CartPage } from '../../page-objects/CartPage';
 import { ProductDetailPage } from '../../page-objects/ProductDetailPage';
-import { LoginPage } from '../../page-objects/LoginPage';
 import {
-  getBitcoinUser,
   getInStockProduct,
   getValidShippingAddress,
 } from '../../fixtures/defaultFixtures';
@@ -23,106 +21,32 @@ import {
  *
  * @tag Feature: e2e-integration-testing
  */
-test.describe('Bitcoin Accessibility', () => {
+test.describe('Bitcoin Accessibility', { tag: '@mutating' }, () => {
   // Run tests serially within this describe block to avoid cart/user race conditions
   test.describe.configure({ mode: 'serial' });
+  test.use({ isolatedUserKey: 'bitcoinAccessibility' });
 
   let bitcoinPage: BitcoinPaymentPage;
   let checkoutPage: CheckoutPage;
   let cartPage: CartPage;
   let productDetailPage: ProductDetailPage;
-  let loginPage: LoginPage;
 
   test.beforeEach(async ({ page }) => {
     bitcoinPage = new BitcoinPaymentPage(page);
     checkoutPage = new CheckoutPage(page);
     cartPage = new CartPage(page);
     productDetailPage = new ProductDetailPage(page);
-    loginPage = new LoginPage(page);
-
-    // Clear any existing cart items from localStorage
-    await page.goto('http://localhost:3000');
-    await page.evaluate(() => {
-      localStorage.removeItem('zenithCartItems');
-    });
   });
 
   /**
-   * Helper function to login and add product to cart
-   * Clears any existing cart items first to ensure test isolation
+   * Helper function to add product to cart
+   * The auth fixture has already logged in and emptied the cart
    */
   async function setupCartWithProduct(
-    page: import('@playwright/test').Page,
-    request: import('@playwright/test').APIRequestContext
+    page: import('@playwright/test').Page
   ): Promise<void> {
-    const customer = getBitcoinUser('bitcoinAccessibility');
     const product = getInStockProduct();
 
-    // Clear localStorage BEFORE login to prevent cart sync from restoring old items
-    await page.goto('http://localhost:3000');
-    await page.evaluate(() => {
-      localStorage.removeItem('zenithCartItems');
-    });
-
-    // Login
-    await loginPage.goto();
-    await loginPage.waitForForm();
-    await loginPage.login(customer.email, customer.password);
-    await loginPage.waitForLoginComplete();
-
-    // Clear the backend cart AFTER login to ensure we start fresh
-    // This is necessary because different browser projects share the same test user
-    const loginResponse = await request.post('http://localhost:8080/api/auth/login', {
-      data: {
-        email: customer.email,
-        password: customer.password,
-      },
-    });
-
-    if (loginResponse.ok()) {
-      const loginData = await loginResponse.json();
-      const token = loginData.accessToken;
-
-      // Clear the backend cart and verify it's empty
-      const clearResponse = await request.delete('http://localhost:8080/api/cart', {
-        headers: {
-          Authorization: `Bearer ${token}`,
-        },
-      });
-
-      // Verify cart is cleared by checking item count
-      if (clearResponse.ok()) {
-        const countResponse = await request.get('http://localhost:8080/api/cart/count', {
-          headers: {
-            Authorization: `Bearer ${token}`,
-          },
-        });
-        if (countResponse.ok()) {
-          const count = await countResponse.json();
-          if (count > 0) {
-            // Cart not cleared, try again
-            await request.delete('http://localhost:8080/api/cart', {
-              headers: {
-                Authorization: `Bearer ${token}`,
-              },
-            });
-          }
-        }
-      }
-    }
-
-    // Clear localStorage again after login (in case cart sync restored items)
-    await page.evaluate(() => {
-      localStorage.removeItem('zenithCartItems');
-    });
-
-    // Refresh the page to ensure clean state and trigger fresh cart load
-    await page.reload();
-    await page.waitForLoadState('domcontentloaded');
-
-    // Wait for page to be ready (body visible)
-    await page.locator('body').waitFor({ state: 'visible', timeout: 5000 });
-
     // Add a product to cart
     await productDetailPage.gotoProduct(product.slug);
     await productDetailPage.productName.waitFor({ state: 'visible', timeout: 10000 });
@@ -162,10 +86,9 @@ test.describe('Bitcoin Accessibility', () => {
    * Helper to navigate to Bitcoin payment and generate invoice (stays on checkout page)
    */
   async function setupBitcoinPayment(
-    page: import('@playwright/test').Page,
-    request: import('@playwright/test').APIRequestContext
+    page: import('@playwright/test').Page
   ): Promise<boolean> {
-    await setupCartWithProduct(page, request);
+    await setupCartWithProduct(page);
     const shippingAddress = getValidShippingAddress();
 
     // Navigate to cart and proceed to checkout
@@ -205,10 +128,9 @@ test.describe('Bitcoin Accessibility', () => {
    * This is needed for tests that check BitcoinTransactionMonitor elements
    */
   async function setupBitcoinPaymentOnSuccessPage(
-    page: import('@playwright/test').Page,
-    request: import('@playwright/test').APIRequestContext
+    page: import('@playwright/test').Page
   ): Promise<boolean> {
-    await setupCartWithProduct(page, request);
+    await setupCartWithProduct(page);
     const shippingAddress = getValidShippingAddress();
 
     // Navigate to cart and proceed to checkout
@@ -275,8 +197,8 @@ test.describe('Bitcoin Accessibility', () => {
    * Validates: Requirement 19.32
    * Note: This test checks the checkout page (BitcoinPaySelector)
    */
-  test('should have proper ARIA labels on Bitcoin payment selector', async ({ page, request }) => {
-    await setupCartWithProduct(page, request);
+  test('should have proper ARIA labels on Bitcoin payment selector', async ({ page }) => {
+    await setupCartWithProduct(page);
     const shippingAddress = getValidShippingAddress();
 
     // Navigate to cart and proceed to checkout
@@ -317,8 +239,8 @@ test.describe('Bitcoin Accessibility', () => {
    * Validates: Requirement 19.32
    * Note: QR code is on the success page (BitcoinPayQR)
    */
-  test('should have proper ARIA labels on QR code region', async ({ page, request }) => {
-    const bitcoinAvailable = await setupBitcoinPaymentOnSuccessPage(page, request);
+  test('should have proper ARIA labels on QR code region', async ({ page }) => {
+    const bitcoinAvailable = await setupBitcoinPaymentOnSuccessPage(page);
 
     if (!bitcoinAvailable) {
       throw new Error('Bitcoin payment setup failed - check backend Bitcoin configuration');
@@ -339,8 +261,8 @@ test.describe('Bitcoin Accessibility', () => {
    * Validates: Requirement 19.32
    * Note: QR code is on the success page (BitcoinPayQR)
    */
-  test('should have accessible label on QR code SVG', async ({ page, request }) => {
-    const bitcoinAvailable = await setupBitcoinPaymentOnSuccessPage(page, request);
+  test('should have accessible label on QR code SVG', async ({ page }) => {
+    const bitcoinAvailable = await setupBitcoinPaymentOnSuccessPage(page);
 
     if (!bitcoinAvailable) {
       throw new Error('Bitcoin payment setup failed - check backend Bitcoin configuration');
@@ -357,8 +279,8 @@ test.describe('Bitcoin Accessibility', () => {
    * Validates: Requirement 19.32
    * Note: Copy buttons are on the success page (BitcoinPayQR)
    */
-  test('should have accessible labels on copy buttons', async ({ page, request }) => {
-    const bitcoinAvailable = await setupBitcoinPaymentOnSuccessPage(page, request);
+  test('should have accessible labels on copy buttons', async ({ page }) => {
+    const bitcoinAvailable = await setupBitcoinPaymentOnSuccessPage(page);
 
     if (!bitcoinAvailable) {
       throw new Error('Bitcoin payment setup failed - check backend Bitcoin configuration');
@@ -378,8 +300,8 @@ test.describe('Bitcoin Accessibility', () => {
    * Validates: Requirement 19.32
    * Note: Refresh button is on the success page (BitcoinPayQR)
    */
-  test('should have accessible label on refresh button', async ({ page, request }) => {
-    const bitcoinAvailable = await setupBitcoinPaymentOnSuccessPage(page, request);
+  test('should have accessible label on refresh button', async ({ page }) => {
+    const bitcoinAvailable = await setupBitcoinPaymentOnSuccessPage(page);
 
     if (!bitcoinAvailable) {
       throw new Error('Bitcoin payment setup failed - check backend Bitcoin configuration');
@@ -395,8 +317,8 @@ test.describe('Bitcoin Accessibility', () => {
    * Validates: Requirement 19.32
    * Note: Transaction stepper is on the success page (BitcoinTransactionMonitor)
    */
-  test('should have accessible label on transaction stepper', async ({ page, request }) => {
-    const bitcoinAvailable = await setupBitcoinPaymentOnSuccessPage(page, request);
+  test('should have accessible label on transaction stepper', async ({ page }) => {
+    const bitcoinAvailable = await setupBitcoinPaymentOnSuccessPage(page);
 
     if (!bitcoinAvailable) {
       throw new Error('Bitcoin payment setup failed - check backend Bitcoin configuration');
@@ -412,8 +334,8 @@ test.describe('Bitcoin Accessibility', () => {
    * Validates: Requirement 19.32
    * Note: Progress bar is on the success page (BitcoinTransactionMonitor)
    */
-  test('should have accessible label on progress bar', async ({ page, request }) => {
-    const bitcoinAvailable = await setupBitcoinPaymentOnSuccessPage(page, request);
+  test('should have accessible label on progress bar', async ({ page }) => {
+    const bitcoinAvailable = await setupBitcoinPaymentOnSuccessPage(page);
 
     if (!bitcoinAvailable) {
       throw new Error('Bitcoin payment setup failed - check backend Bitcoin configuration');
@@ -429,8 +351,8 @@ test.describe('Bitcoin Accessibility', () => {
    * Validates: Requirement 19.33
    * Note: Progress region is on the success page (BitcoinTransactionMonitor)
    */
-  test('should have aria-live region for status announcements', async ({ page, request }) => {
-    const bitcoinAvailable = await setupBitcoinPaymentOnSuccessPage(page, request);
+  test('should have aria-live region for status announcements', async ({ page }) => {
+    const bitcoinAvailable = await setupBitcoinPaymentOnSuccessPage(page);
 
     if (!bitcoinAvailable) {
       throw new Error('Bitcoin payment setup failed - check backend Bitcoin configuration');
@@ -446,8 +368,8 @@ test.describe('Bitcoin Accessibility', () => {
    * Validates: Requirement 19.33
    * Note: Discount alert is on the checkout page (BitcoinPaySelector)
    */
-  test('should have aria-live on discount alert', async ({ page, request }) => {
-    await setupCartWithProduct(page, request);
+  test('should have aria-live on discount alert', async ({ page }) => {
+    await setupCartWithProduct(page);
     const shippingAddress = getValidShippingAddress();
 
     // Navigate to cart and proceed to checkout
@@ -488,8 +410,8 @@ test.describe('Bitcoin Accessibility', () => {
    * Validates: Requirement 19.33
    * Note: Timer is on the success page (BitcoinPayQR)
    */
-  test('should have role="timer" on expiration countdown', async ({ page, request }) => {
-    const bitcoinAvailable = await setupBitcoinPaymentOnSuccessPage(page, request);
+  test('should have role="timer" on expiration countdown', async ({ page }) => {
+    const bitcoinAvailable = await setupBitcoinPaymentOnSuccessPage(page);
 
     if (!bitcoinAvailable) {
       throw new Error('Bitcoin payment setup failed - check backend Bitcoin configuration');
@@ -509,8 +431,8 @@ test.describe('Bitcoin Accessibility', () => {
    * Validates: Requirement 19.31 (keyboard navigation)
    * Note: Help toggle is on the checkout page (BitcoinPaySelector)
    */
-  test('should have aria-expanded on help toggle button', async ({ page, request }) => {
-    await setupCartWithProduct(page, request);
+  test('should have aria-expanded on help toggle button', async ({ page }) => {
+    await setupCartWithProduct(page);
     const shippingAddress = getValidShippingAddress();
 
     // Navigate to cart and proceed to checkout
@@ -556,8 +478,8 @@ test.describe('Bitcoin Accessibility', () => {
    * Validates: Requirement 19.31
    * Note: Interactive elements (copy buttons, refresh) are on the success page
    */
-  test('should support keyboard navigation through interactive elements', async ({ page, request }) => {
-    const bitcoinAvailable = await setupBitcoinPaymentOnSuccessPage(page, request);
+  test('should support keyboard navigation through interactive elements', async ({ page }) => {
+    const bitcoinAvailable = await setupBitcoinPaymentOnSuccessPage(page);
 
     if (!bitcoinAvailable) {
       throw new Error('Bitcoin payment setup failed - check backend Bitcoin configuration');
@@ -595,8 +517,8 @@ test.describe('Bitcoin Accessibility', () => {
    * Validates: Requirement 19.31
    * Note: Help toggle is on the checkout page (BitcoinPaySelector)
    */
-  test('should activate buttons with Enter key', async ({ page, request }) => {
-    await setupCartWithProduct(page, request);
+  test('should activate buttons with Enter key', async ({ page }) => {
+    await setupCartWithProduct(page);
     const shippingAddress = getValidShippingAddress();
 
     // Navigate to cart and proceed to checkout
@@ -640,8 +562,8 @@ test.describe('Bitcoin Accessibility', () => {
    * Validates: Requirement 19.31
    * Note: Copy buttons are on the success page (BitcoinPayQR)
    */
-  test('should show visible focus indicators', async ({ page, request }) => {
-    const bitcoinAvailable = await setupBitcoinPaymentOnSuccessPage(page, request);
+  test('should show visible focus indicators', async ({ page }) => {
+    const bitcoinAvailable = await setupBitcoinPaymentOnSuccessPage(page);
 
     if (!bitcoinAvailable) {
       throw new Error('Bitcoin payment setup failed - check backend Bitcoin configuration');
@@ -670,8 +592,8 @@ test.describe('Bitcoin Accessibility', () => {
    * Validates: Requirement 19.34
    * Note: QR code is on the success page (BitcoinPayQR)
    */
-  test('should adjust QR code size for different viewports', async ({ page, request }) => {
-    const bitcoinAvailable = await setupBitcoinPaymentOnSuccessPage(page, request);
+  test('should adjust QR code size for different viewports', async ({ page }) => {
+    const bitcoinAvailable = await setupBitcoinPaymentOnSuccessPage(page);
 
     if (!bitcoinAvailable) {
       throw new Error('Bitcoin payment setup failed - check backend Bitcoin configuration');
@@ -696,8 +618,8 @@ test.describe('Bitcoin Accessibility', () => {
    * Validates: Requirement 19.32
    * Note: Discount chip is on the checkout page (BitcoinPaySelector)
    */
-  test('should have accessible label on discount chip', async ({ page, request }) => {
-    await setupCartWithProduct(page, request);
+  test('should have accessible label on discount chip', async ({ page }) => {
+    await setupCartWithProduct(page);
     const shippingAddress = getValidShippingAddress();
 
     // Navigate to cart and proceed to checkout
@@ -732,8 +654,8 @@ test.describe('Bitcoin Accessibility', () => {
    * Test 17: Loading state has accessible announcement
    * Validates: Requirement 19.33
    */
-  test('should have accessible loading state', async ({ page, request }) => {
-    await setupCartWithProduct(page, request);
+  test('should have accessible loading state', async ({ page }) => {
+    await setupCartWithProduct(page);
     const shippingAddress = getValidShippingAddress();
 
     // Navigate to cart and proceed to checkout
@@ -778,8 +700,8 @@ test.describe('Bitcoin Accessibility', () => {
    * Validates: Requirement 19.32
    * Note: Confirmation display is on the success page (BitcoinTransactionMonitor)
    */
-  test('should have accessible confirmation count display', async ({ page, request }) => {
-    const bitcoinAvailable = await setupBitcoinPaymentOnSuccessPage(page, request);
+  test('should have accessible confirmation count display', async ({ page }) => {
+    const bitcoinAvailable = await setupBitcoinPaymentOnSuccessPage(page);
 
     if (!bitcoinAvailable) {
       throw new Error('Bitcoin payment setup failed - check backend Bitcoin configuration');
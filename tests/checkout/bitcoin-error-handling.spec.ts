@@ -1,11 +1,9 @@
-import { test, expect } from '@playwright/test';
+import { test, expect } from '../../fixtures/authFixtures';
 import { BitcoinPaymentPage } from '../../page-objects/checkout/BitcoinPaymentPage';
 import { CheckoutPage, ShippingAddressData } from '../../page-objects/CheckoutPage';
 import { CartPage } from '../../page-objects/CartPage';
 import { ProductDetailPage } from '../../page-objects/ProductDetailPage';
-import { LoginPage } from '../../page-objects/LoginPage';
 import {
-  getBitcoinUser,
   getInStockProduct,
   getValidShippingAddress,
 } from '../../fixtures/defaultFixtures';
@@ -27,64 +25,27 @@ import {
  *
  * @tag Feature: e2e-integration-testing
  */
-test.describe('Bitcoin Error Handling', () => {
+test.describe('Bitcoin Error Handling', { tag: '@mutating' }, () => {
   test.describe.configure({ mode: 'serial' });
+  test.use({ isolatedUserKey: 'bitcoinErrorHandling' });
 
   let bitcoinPage: BitcoinPaymentPage;
   let checkoutPage: CheckoutPage;
   let cartPage: CartPage;
   let productDetailPage: ProductDetailPage;
-  let loginPage: LoginPage;
 
   test.beforeEach(async ({ page }) => {
     bitcoinPage = new BitcoinPaymentPage(page);
     checkoutPage = new CheckoutPage(page);
     cartPage = new CartPage(page);
     productDetailPage = new ProductDetailPage(page);
-    loginPage = new LoginPage(page);
-
-    await page.goto('http://localhost:3000');
-    await page.evaluate(() => {
-      localStorage.removeItem('zenithCartItems');
-    });
   });
 
   async function setupCartWithProduct(
-    page: import('@playwright/test').Page,
-    request: import('@playwright/test').APIRequestContext
+    page: import('@playwright/test').Page
   ): Promise<void> {
-    const customer = getBitcoinUser('bitcoinErrorHandling');
     const product = getInStockProduct();
 
-    await page.goto('http://localhost:3000');
-    await page.evaluate(() => {
-      localStorage.removeItem('zenithCartItems');
-    });
-
-    await loginPage.goto();
-    await loginPage.waitForForm();
-    await loginPage.login(customer.email, customer.password);
-    await loginPage.waitForLoginComplete();
-
-    const loginResponse = await request.post('http://localhost:8080/api/auth/login', {
-      data: { email: customer.email, password: customer.password },
-    });
-
-    if (loginResponse.ok()) {
-      const loginData = await loginResponse.json();
-      const token = loginData.accessToken;
-      await request.delete('http://localhost:8080/api/cart', {
-        headers: { Authorization: `Bearer ${token}` },
-      });
-    }
-
-    await page.evaluate(() => {
-      localStorage.removeItem('zenithCartItems');
-    });
-    await page.reload();
-    await page.waitForLoadState('domcontentloaded');
-    await page.waitForTimeout(500);
-
     await productDetailPage.gotoProduct(product.slug);
     await productDetailPage.productName.waitFor({ state: 'visible', timeout: 10000 });
     await productDetailPage.addToCart();
@@ -116,10 +77,9 @@ test.describe('Bitcoin Error Handling', () => {
   }
 
   async function navigateToBitcoinPayment(
-    page: import('@playwright/test').Page,
-    request: import('@playwright/test').APIRequestContext
+    page: import('@playwright/test').Page
   ): Promise<boolean> {
-    await setupCartWithProduct(page, request);
+    await setupCartWithProduct(page);
     const shippingAddress = getValidShippingAddress();
 
     await cartPage.goto();
@@ -139,10 +99,9 @@ test.describe('Bitcoin Error Handling', () => {
    * This is needed for tests that check BitcoinPayQR elements (QR code, error handling)
    */
   async function setupBitcoinPaymentOnSuccessPage(
-    page: import('@playwright/test').Page,
-    request: import('@playwright/test').APIRequestContext
+    page: import('@playwright/test').Page
   ): Promise<boolean> {
-    await setupCartWithProduct(page, request);
+    await setupCartWithProduct(page);
     const shippingAddress = getValidShippingAddress();
 
     // Navigate to cart and proceed to checkout
@@ -201,8 +160,8 @@ test.describe('Bitcoin Error Handling', () => {
     }
   }
 
-  test('should have error alert component configured for user-friendly messages', async ({ page, request }) => {
-    const bitcoinAvailable = await setupBitcoinPaymentOnSuccessPage(page, request);
+  test('should have error alert component configured for user-friendly messages', async ({ page }) => {
+    const bitcoinAvailable = await setupBitcoinPaymentOnSuccessPage(page);
     if (!bitcoinAvailable) {
       throw new Error('Bitcoin payment setup failed - check backend Bitcoin configuration');
     }
@@ -226,8 +185,8 @@ test.describe('Bitcoin Error Handling', () => {
     }
   });
 
-  test('should display retry button when invoice generation fails', async ({ page, request }) => {
-    const bitcoinAvailable = await setupBitcoinPaymentOnSuccessPage(page, request);
+  test('should display retry button when invoice generation fails', async ({ page }) => {
+    const bitcoinAvailable = await setupBitcoinPaymentOnSuccessPage(page);
     if (!bitcoinAvailable) {
       throw new Error('Bitcoin payment setup failed - check backend Bitcoin configuration');
     }
@@ -247,8 +206,8 @@ test.describe('Bitcoin Error Handling', () => {
     }
   });
 
-  test('should attempt to regenerate invoice when retry is clicked', async ({ page, request }) => {
-    const bitcoinAvailable = await setupBitcoinPaymentOnSuccessPage(page, request);
+  test('should attempt to regenerate invoice when retry is clicked', async ({ page }) => {
+    const bitcoinAvailable = await setupBitcoinPaymentOnSuccessPage(page);
     if (!bitcoinAvailable) {
       throw new Error('Bitcoin payment setup failed - check backend Bitcoin configuration');
     }
@@ -272,8 +231,8 @@ test.describe('Bitcoin Error Handling', () => {
     }
   });
 
-  test('should generate new invoice when refresh button is clicked', async ({ page, request }) => {
-    const bitcoinAvailable = await setupBitcoinPaymentOnSuccessPage(page, request);
+  test('should generate new invoice when refresh button is clicked', async ({ page }) => {
+    const bitcoinAvailable = await setupBitcoinPaymentOnSuccessPage(page);
     if (!bitcoinAvailable) {
       throw new Error('Bitcoin payment setup failed - check backend Bitcoin configuration');
     }
@@ -297,8 +256,8 @@ test.describe('Bitcoin Error Handling', () => {
     expect(parseTime(newTime)).toBeGreaterThanOrEqual(parseTime(initialTime) - 5);
   });
 
-  test('should have underpayment warning component ready', async ({ page, request }) => {
-    const bitcoinAvailable = await setupBitcoinPaymentOnSuccessPage(page, request);
+  test('should have underpayment warning component ready', async ({ page }) => {
+    const bitcoinAvailable = await setupBitcoinPaymentOnSuccessPage(page);
     if (!bitcoinAvailable) {
       throw new Error('Bitcoin payment setup failed - check backend Bitcoin configuration');
     }
@@ -313,8 +272,8 @@ test.describe('Bitcoin Error Handling', () => {
     expect(isUnderpaymentDisplayed).toBe(false);
   });
 
-  test('should have timeout handling components ready', async ({ page, request }) => {
-    const bitcoinAvailable = await setupBitcoinPaymentOnSuccessPage(page, request);
+  test('should have timeout handling components ready', async ({ page }) => {
+    const bitcoinAvailable = await setupBitcoinPaymentOnSuccessPage(page);
     if (!bitcoinAvailable) {
       throw new Error('Bitcoin payment setup failed - check backend Bitcoin configuration');
     }
@@ -329,8 +288,8 @@ test.describe('Bitcoin Error Handling', () => {
     await expect(bitcoinPage.refreshInvoiceButton).toBeVisible();
   });
 
-  test('should have accessible error alerts', async ({ page, request }) => {
-    const bitcoinAvailable = await setupBitcoinPaymentOnSuccessPage(page, request);
+  test('should have accessible error alerts', async ({ page }) => {
+    const bitcoinAvailable = await setupBitcoinPaymentOnSuccessPage(page);
     if (!bitcoinAvailable) {
       throw new Error('Bitcoin payment setup failed - check backend Bitcoin configuration');
     }
@@ -349,8 +308,8 @@ test.describe('Bitcoin Error Handling', () => {
     }
   });
 
-  test('should handle network errors gracefully', async ({ page, request, context }) => {
-    const bitcoinAvailable = await setupBitcoinPaymentOnSuccessPage(page, request);
+  test('should handle network errors gracefully', async ({ page, context }) => {
+    const bitcoinAvailable = await setupBitcoinPaymentOnSuccessPage(page);
     if (!bitcoinAvailable) {
       throw new Error('Bitcoin payment setup failed - check backend Bitcoin configuration');
     }
@@ -369,8 +328,8 @@ test.describe('Bitcoin Error Handling', () => {
     // The important thing is that the refresh button is available for recovery
   });
 
-  test('should allow multiple retry attempts', async ({ page, request }) => {
-    const bitcoinAvailable = await setupBitcoinPaymentOnSuccessPage(page, request);
+  test('should allow multiple retry attempts', async ({ page }) => {
+    const bitcoinAvailable = await setupBitcoinPaymentOnSuccessPage(page);
     if (!bitcoinAvailable) {
       throw new Error('Bitcoin payment setup failed - check backend Bitcoin configuration');
     }
@@ -390,8 +349,8 @@ test.describe('Bitcoin Error Handling', () => {
     }
   });
 
-  test('should allow navigation away from error state', async ({ page, request }) => {
-    const bitcoinAvailable = await setupBitcoinPaymentOnSuccessPage(page, request);
+  test('should allow navigation away from error state', async ({ page }) => {
+    const bitcoinAvailable = await setupBitcoinPaymentOnSuccessPage(page);
     if (!bitcoinAvailable) {
       throw new Error('Bitcoin payment setup failed - check backend Bitcoin configuration');
     }
@@ -409,8 +368,8 @@ test.describe('Bitcoin Error Handling', () => {
     }
   });
 
-  test('should have overpayment info component ready', async ({ page, request }) => {
-    const bitcoinAvailable = await setupBitcoinPaymentOnSuccessPage(page, request);
+  test('should have overpayment info component ready', async ({ page }) => {
+    const bitcoinAvailable = await setupBitcoinPaymentOnSuccessPage(page);
     if (!bitcoinAvailable) {
       throw new Error('Bitcoin payment setup failed - check backend Bitcoin configuration');
     }
@@ -425,8 +384,8 @@ test.describe('Bitcoin Error Handling', () => {
     expect(isOverpaymentDisplayed).toBe(false);
   });
 
-  test('should show loading state during retry attempt', async ({ page, request }) => {
-    const bitcoinAvailable = await setupBitcoinPaymentOnSuccessPage(page, request);
+  test('should show loading state during retry attempt', async ({ page }) => {
+    const bitcoinAvailable = await setupBitcoinPaymentOnSuccessPage(page);
     if (!bitcoinAvailable) {
       throw new Error('Bitcoin payment setup failed - check backend Bitcoin configuration');
     }
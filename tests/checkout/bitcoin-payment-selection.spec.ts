@@ -1,11 +1,9 @@
-import { test, expect } from '@playwright/test';
+import { test, expect } from '../../fixtures/authFixtures';
 import { BitcoinPaymentPage } from '../../page-objects/checkout/BitcoinPaymentPage';
 import { CheckoutPage, ShippingAddressData } from '../../page-objects/CheckoutPage';
 import { CartPage } from '../../page-objects/CartPage';
 import { ProductDetailPage } from '../../page-objects/ProductDetailPage';
-import { LoginPage } from '../../page-objects/LoginPage';
 import {
-  getBitcoinUser,
   getInStockProduct,
   getValidShippingAddress,
 } from '../../fixtures/defaultFixtures';
@@ -27,84 +25,32 @@ import {
  * @tag Feature: e2e-integration-testing
  * @tag Property 16: Bitcoin Payment Selection Updates Order Total
  */
-test.describe('Bitcoin Payment Selection', () => {
+test.describe('Bitcoin Payment Selection', { tag: '@mutating' }, () => {
   // Run tests serially within this describe block to avoid cart/user race conditions
   test.describe.configure({ mode: 'serial' });
+  test.use({ isolatedUserKey: 'bitcoinPaymentSelection' });
 
   let bitcoinPage: BitcoinPaymentPage;
   let checkoutPage: CheckoutPage;
   let cartPage: CartPage;
   let productDetailPage: ProductDetailPage;
-  let loginPage: LoginPage;
 
   test.beforeEach(async ({ page }) => {
     bitcoinPage = new BitcoinPaymentPage(page);
     checkoutPage = new CheckoutPage(page);
     cartPage = new CartPage(page);
     productDetailPage = new ProductDetailPage(page);
-    loginPage = new LoginPage(page);
-
-    // Clear any existing cart items from localStorage
-    await page.goto('http://localhost:3000');
-    await page.evaluate(() => {
-      localStorage.removeItem('zenithCartItems');
-    });
   });
 
   /**
-   * Helper function to login and add product to cart
-   * Clears any existing cart items first to ensure test isolation
+   * Helper function to add product to cart
+   * The auth fixture has already logged in and emptied the cart
    */
   async function setupCartWithProduct(
-    page: import('@playwright/test').Page,
-    request: import('@playwright/test').APIRequestContext
+    page: import('@playwright/test').Page
   ): Promise<void> {
-    const customer = getBitcoinUser('bitcoinPaymentSelection');
     const product = getInStockProduct();
 
-    // Clear localStorage BEFORE login to prevent cart sync from restoring old items
-    await page.goto('http://localhost:3000');
-    await page.evaluate(() => {
-      localStorage.removeItem('zenithCartItems');
-    });
-
-    // Login
-    await loginPage.goto();
-    await loginPage.waitForForm();
-    await loginPage.login(customer.email, customer.password);
-    await loginPage.waitForLoginComplete();
-
-    // Clear the backend cart AFTER login to ensure we start fresh
-    const loginResponse = await request.post('http://localhost:8080/api/auth/login', {
-      data: {
-        email: customer.email,
-        password: customer.password,
-      },
-    });
-
-    if (loginResponse.ok()) {
-      const loginData = await loginResponse.json();
-      const token = loginData.accessToken;
-
-      // Clear the backend cart
-      await request.delete('http://localhost:8080/api/cart', {
-        headers: {
-          Authorization: `Bearer ${token}`,
-        },
-      });
-    }
-
-    // Clear localStorage again after login (in case cart sync restored items)
-    await page.evaluate(() => {
-      localStorage.removeItem('zenithCartItems');
-    });
-
-    // Refresh the page to ensure clean state
-    await page.reload();
-    await page.waitForLoadState('domcontentloaded');
-    // Wait for cart sync to complete - use network idle instead of fixed timeout
-    await page.waitForLoadState('networkidle', { timeout: 5000 }).catch(() => {});
-
     // Add a product to cart using direct navigation
     await productDetailPage.gotoProduct(product.slug);
     await productDetailPage.productName.waitFor({ state: 'visible', timeout: 10000 });
@@ -161,8 +107,8 @@ test.describe('Bitcoin Payment Selection', () => {
    * Test 1: Bitcoin option displayed in payment methods
    * Validates: Requirement 19.1
    */
-  test('should display Bitcoin as a payment option in checkout', async ({ page, request }) => {
-    await setupCartWithProduct(page, request);
+  test('should display Bitcoin as a payment option in checkout', async ({ page }) => {
+    await setupCartWithProduct(page);
     const shippingAddress = getValidShippingAddress();
 
     // Navigate to cart and proceed to checkout
@@ -192,8 +138,8 @@ test.describe('Bitcoin Payment Selection', () => {
    * Test 2: Bitcoin icon and description displayed correctly
    * Validates: Requirement 19.1
    */
-  test('should display Bitcoin icon and description', async ({ page, request }) => {
-    await setupCartWithProduct(page, request);
+  test('should display Bitcoin icon and description', async ({ page }) => {
+    await setupCartWithProduct(page);
     const shippingAddress = getValidShippingAddress();
 
     await cartPage.goto();
@@ -221,8 +167,8 @@ test.describe('Bitcoin Payment Selection', () => {
    * Test 3: Crypto discount percentage displayed when Bitcoin selected
    * Validates: Requirement 19.2
    */
-  test('should display crypto discount percentage when Bitcoin is selected', async ({ page, request }) => {
-    await setupCartWithProduct(page, request);
+  test('should display crypto discount percentage when Bitcoin is selected', async ({ page }) => {
+    await setupCartWithProduct(page);
     const shippingAddress = getValidShippingAddress();
 
     await cartPage.goto();
@@ -257,8 +203,8 @@ test.describe('Bitcoin Payment Selection', () => {
    * Test 4: Order total recalculated with crypto discount when Bitcoin selected
    * Validates: Requirement 19.2, Property 16
    */
-  test('should recalculate order total with crypto discount when Bitcoin is selected', async ({ page, request }) => {
-    await setupCartWithProduct(page, request);
+  test('should recalculate order total with crypto discount when Bitcoin is selected', async ({ page }) => {
+    await setupCartWithProduct(page);
     const shippingAddress = getValidShippingAddress();
 
     await cartPage.goto();
@@ -331,8 +277,8 @@ test.describe('Bitcoin Payment Selection', () => {
    * Test 5: Processing time information displayed
    * Validates: Requirement 19.3
    */
-  test('should display processing time information', async ({ page, request }) => {
-    await setupCartWithProduct(page, request);
+  test('should display processing time information', async ({ page }) => {
+    await setupCartWithProduct(page);
     const shippingAddress = getValidShippingAddress();
 
     await cartPage.goto();
@@ -367,8 +313,8 @@ test.describe('Bitcoin Payment Selection', () => {
    * Test 6: Security indicator displayed
    * Validates: Requirement 19.1
    */
-  test('should display security indicator', async ({ page, request }) => {
-    await setupCartWithProduct(page, request);
+  test('should display security indicator', async ({ page }) => {
+    await setupCartWithProduct(page);
     const shippingAddress = getValidShippingAddress();
 
     await cartPage.goto();
@@ -402,8 +348,8 @@ test.describe('Bitcoin Payment Selection', () => {
    * Test 7: Help section can be toggled
    * Validates: Requirement 19.1 (user guidance)
    */
-  test('should toggle help section when help button is clicked', async ({ page, request }) => {
-    await setupCartWithProduct(page, request);
+  test('should toggle help section when help button is clicked', async ({ page }) => {
+    await setupCartWithProduct(page);
     const shippingAddress = getValidShippingAddress();
 
     await cartPage.goto();
@@ -451,8 +397,8 @@ test.describe('Bitcoin Payment Selection', () => {
    * Test 8: Bitcoin option not displayed when disabled in backend
    * Validates: Requirement 19.4
    */
-  test('should handle Bitcoin payment method not being available', async ({ page, request }) => {
-    await setupCartWithProduct(page, request);
+  test('should handle Bitcoin payment method not being available', async ({ page }) => {
+    await setupCartWithProduct(page);
     const shippingAddress = getValidShippingAddress();
 
     await cartPage.goto();
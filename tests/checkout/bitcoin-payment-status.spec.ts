@@ -1,11 +1,17 @@
-import { test, expect } from '@playwright/test';
+import { test, expect } from '../../fixtures/authFixtures';
 import { BitcoinPaymentPage } from '../../page-objects/checkout/BitcoinPaymentPage';
+import {
+  BitcoinPaymentEvent,
+  BitcoinPaymentScenario,
+  DEFAULT_CONFIRMATIONS_REQUIRED,
+} from '../../fixtures/bitcoinPaymentSimulator';
+import { BACKEND_NOT_POLLING_REASON } from '../../fixtures/bitcoinChain';
+import { BitcoinPaymentState } from '../../fixtures/types';
+import { TestScopedFixtures } from '../../fixtures/workerFixtures';
 import { CheckoutPage, ShippingAddressData } from '../../page-objects/CheckoutPage';
 import { CartPage } from '../../page-objects/CartPage';
 import { ProductDetailPage } from '../../page-objects/ProductDetailPage';
-import { LoginPage } from '../../page-objects/LoginPage';
 import {
-  getBitcoinUser,
   getInStockProduct,
   getValidShippingAddress,
 } from '../../fixtures/defaultFixtures';
@@ -24,71 +30,39 @@ import {
  * - 19.20: Block explorer link provided
  * - 19.21: "Payment complete" state with success indicator
  *
+ * Payments are made on the local chain stand-in the backend polls
+ * (fixtures/bitcoinChain); those tests skip when it isn't running or the
+ * backend never queries it for the invoice address.
+ * Status progression, under-/overpayment, timeouts and refunds are also simulated by
+ * writing the payment directly (fixtures/bitcoinPaymentSimulator) and reloading.
+ *
  * Note: These tests run serially within each browser project to avoid race conditions
  * with shared user accounts and cart state. Cross-browser parallelization is still enabled.
  *
  * @tag Feature: e2e-integration-testing
  * @tag Property 18: Bitcoin Payment Status Progression
  */
-test.describe('Bitcoin Payment Status Monitoring', () => {
+test.describe('Bitcoin Payment Status Monitoring', { tag: '@mutating' }, () => {
   test.describe.configure({ mode: 'serial' });
+  test.use({ isolatedUserKey: 'bitcoinPaymentStatus' });
 
   let bitcoinPage: BitcoinPaymentPage;
   let checkoutPage: CheckoutPage;
   let cartPage: CartPage;
   let productDetailPage: ProductDetailPage;
-  let loginPage: LoginPage;
 
   test.beforeEach(async ({ page }) => {
     bitcoinPage = new BitcoinPaymentPage(page);
     checkoutPage = new CheckoutPage(page);
     cartPage = new CartPage(page);
     productDetailPage = new ProductDetailPage(page);
-    loginPage = new LoginPage(page);
-
-    await page.goto('http://localhost:3000');
-    await page.evaluate(() => {
-      localStorage.removeItem('zenithCartItems');
-    });
   });
 
   async function setupCartWithProduct(
-    page: import('@playwright/test').Page,
-    request: import('@playwright/test').APIRequestContext
+    page: import('@playwright/test').Page
   ): Promise<void> {
-    const customer = getBitcoinUser('bitcoinPaymentStatus');
     const product = getInStockProduct();
 
-    await page.goto('http://localhost:3000');
-    await page.evaluate(() => {
-      localStorage.removeItem('zenithCartItems');
-    });
-
-    await loginPage.goto();
-    await loginPage.waitForForm();
-    await loginPage.login(customer.email, customer.password);
-    await loginPage.waitForLoginComplete();
-
-    const loginResponse = await request.post('http://localhost:8080/api/auth/login', {
-      data: { email: customer.email, password: customer.password },
-    });
-
-    if (loginResponse.ok()) {
-      const loginData = await loginResponse.json();
-      const token = loginData.accessToken;
-      await request.delete('http://localhost:8080/api/cart', {
-        headers: { Authorization: `Bearer ${token}` },
-      });
-    }
-
-    await page.evaluate(() => {
-      localStorage.removeItem('zenithCartItems');
-    });
-    await page.reload();
-    await page.waitForLoadState('domcontentloaded');
-    // Wait for cart sync to complete
-    await page.waitForLoadState('networkidle', { timeout: 5000 }).catch(() => {});
-
     await productDetailPage.gotoProduct(product.slug);
     await productDetailPage.productName.waitFor({ state: 'visible', timeout: 10000 });
     await productDetailPage.addToCart();
@@ -135,10 +109,9 @@ test.describe('Bitcoin Payment Status Monitoring', () => {
   }
 
   async function setupBitcoinPayment(
-    page: import('@playwright/test').Page,
-    request: import('@playwright/test').APIRequestContext
+    page: import('@playwright/test').Page
   ): Promise<boolean> {
-    await setupCartWithProduct(page, request);
+    await setupCartWithProduct(page);
     const shippingAddress = getValidShippingAddress();
 
     await cartPage.goto();
@@ -189,8 +162,28 @@ test.describe('Bitcoin Payment Status Monitoring', () => {
     }
   }
 
-  test('should display step-by-step progress indicator', async ({ page, request }) => {
-    const setupSuccess = await setupBitcoinPayment(page, request);
+  /**
+   * Applies a payment event to the order on the success page
+   * Reloads the page - the simulator only updates the database
+   */
+  async function applyPaymentEvent(
+    page: import('@playwright/test').Page,
+    simulateBitcoinPayment: TestScopedFixtures['simulateBitcoinPayment'],
+    event: BitcoinPaymentEvent | BitcoinPaymentScenario
+  ): Promise<BitcoinPaymentState> {
+    const orderId = new URL(page.url()).searchParams.get('orderId');
+    if (!orderId) {
+      throw new Error(`No orderId in the success page URL: ${page.url()}`);
+    }
+
+    const state = await simulateBitcoinPayment(orderId, event);
+    await page.reload();
+    await bitcoinPage.transactionStepper.waitFor({ state: 'visible', timeout: 30000 });
+    return state;
+  }
+
+  test('should display step-by-step progress indicator', async ({ page }) => {
+    const setupSuccess = await setupBitcoinPayment(page);
     if (!setupSuccess) {
       throw new Error('Bitcoin payment setup failed - check backend Bitcoin configuration');
     }
@@ -202,8 +195,8 @@ test.describe('Bitcoin Payment Status Monitoring', () => {
     await expect(bitcoinPage.paymentCompleteStep).toBeVisible();
   });
 
-  test('should show "Waiting for payment" as initial state', async ({ page, request }) => {
-    const setupSuccess = await setupBitcoinPayment(page, request);
+  test('should show "Waiting for payment" as initial state', async ({ page }) => {
+    const setupSuccess = await setupBitcoinPayment(page);
     if (!setupSuccess) {
       throw new Error('Bitcoin payment setup failed - check backend Bitcoin configuration');
     }
@@ -215,8 +208,8 @@ test.describe('Bitcoin Payment Status Monitoring', () => {
     expect(status.toLowerCase()).toContain('waiting');
   });
 
-  test('should display progress bar', async ({ page, request }) => {
-    const setupSuccess = await setupBitcoinPayment(page, request);
+  test('should display progress bar', async ({ page }) => {
+    const setupSuccess = await setupBitcoinPayment(page);
     if (!setupSuccess) {
       throw new Error('Bitcoin payment setup failed - check backend Bitcoin configuration');
     }
@@ -226,8 +219,8 @@ test.describe('Bitcoin Payment Status Monitoring', () => {
     expect(ariaLabel).toContain('Bitcoin payment progress');
   });
 
-  test('should display time remaining for payment', async ({ page, request }) => {
-    const setupSuccess = await setupBitcoinPayment(page, request);
+  test('should display time remaining for payment', async ({ page }) => {
+    const setupSuccess = await setupBitcoinPayment(page);
     if (!setupSuccess) {
       throw new Error('Bitcoin payment setup failed - check backend Bitcoin configuration');
     }
@@ -237,8 +230,8 @@ test.describe('Bitcoin Payment Status Monitoring', () => {
     expect(timeText).toMatch(/\d+:\d+.*remaining/i);
   });
 
-  test('should display invoice ID for reference', async ({ page, request }) => {
-    const setupSuccess = await setupBitcoinPayment(page, request);
+  test('should display invoice ID for reference', async ({ page }) => {
+    const setupSuccess = await setupBitcoinPayment(page);
     if (!setupSuccess) {
       throw new Error('Bitcoin payment setup failed - check backend Bitcoin configuration');
     }
@@ -248,8 +241,8 @@ test.describe('Bitcoin Payment Status Monitoring', () => {
     expect(invoiceText).toMatch(/invoice id:/i);
   });
 
-  test('should display correct step labels in stepper', async ({ page, request }) => {
-    const setupSuccess = await setupBitcoinPayment(page, request);
+  test('should display correct step labels in stepper', async ({ page }) => {
+    const setupSuccess = await setupBitcoinPayment(page);
     if (!setupSuccess) {
       throw new Error('Bitcoin payment setup failed - check backend Bitcoin configuration');
     }
@@ -267,8 +260,8 @@ test.describe('Bitcoin Payment Status Monitoring', () => {
     expect(step4Text?.toLowerCase()).toContain('complete');
   });
 
-  test('should have accessible stepper with aria-label', async ({ page, request }) => {
-    const setupSuccess = await setupBitcoinPayment(page, request);
+  test('should have accessible stepper with aria-label', async ({ page }) => {
+    const setupSuccess = await setupBitcoinPayment(page);
     if (!setupSuccess) {
       throw new Error('Bitcoin payment setup failed - check backend Bitcoin configuration');
     }
@@ -277,8 +270,8 @@ test.describe('Bitcoin Payment Status Monitoring', () => {
     expect(ariaLabel).toBe('Bitcoin payment progress steps');
   });
 
-  test('should have live region for status updates', async ({ page, request }) => {
-    const setupSuccess = await setupBitcoinPayment(page, request);
+  test('should have live region for status updates', async ({ page }) => {
+    const setupSuccess = await setupBitcoinPayment(page);
     if (!setupSuccess) {
       throw new Error('Bitcoin payment setup failed - check backend Bitcoin configuration');
     }
@@ -287,8 +280,8 @@ test.describe('Bitcoin Payment Status Monitoring', () => {
     expect(ariaLive).toBe('polite');
   });
 
-  test('should have underpayment warning component available', async ({ page, request }) => {
-    const setupSuccess = await setupBitcoinPayment(page, request);
+  test('should have underpayment warning component available', async ({ page }) => {
+    const setupSuccess = await setupBitcoinPayment(page);
     if (!setupSuccess) {
       throw new Error('Bitcoin payment setup failed - check backend Bitcoin configuration');
     }
@@ -297,8 +290,8 @@ test.describe('Bitcoin Payment Status Monitoring', () => {
     expect(isUnderpaymentDisplayed).toBe(false);
   });
 
-  test('should have overpayment info component available', async ({ page, request }) => {
-    const setupSuccess = await setupBitcoinPayment(page, request);
+  test('should have overpayment info component available', async ({ page }) => {
+    const setupSuccess = await setupBitcoinPayment(page);
     if (!setupSuccess) {
       throw new Error('Bitcoin payment setup failed - check backend Bitcoin configuration');
     }
@@ -307,8 +300,8 @@ test.describe('Bitcoin Payment Status Monitoring', () => {
     expect(isOverpaymentDisplayed).toBe(false);
   });
 
-  test('should display appropriate status message for current state', async ({ page, request }) => {
-    const setupSuccess = await setupBitcoinPayment(page, request);
+  test('should display appropriate status message for current state', async ({ page }) => {
+    const setupSuccess = await setupBitcoinPayment(page);
     if (!setupSuccess) {
       throw new Error('Bitcoin payment setup failed - check backend Bitcoin configuration');
     }
@@ -320,8 +313,8 @@ test.describe('Bitcoin Payment Status Monitoring', () => {
     await expect(statusElement).toBeVisible();
   });
 
-  test('should show progress percentage based on current step', async ({ page, request }) => {
-    const setupSuccess = await setupBitcoinPayment(page, request);
+  test('should show progress percentage based on current step', async ({ page }) => {
+    const setupSuccess = await setupBitcoinPayment(page);
     if (!setupSuccess) {
       throw new Error('Bitcoin payment setup failed - check backend Bitcoin configuration');
     }
@@ -335,8 +328,8 @@ test.describe('Bitcoin Payment Status Monitoring', () => {
     expect(progressValue).toBeLessThanOrEqual(100);
   });
 
-  test('should display stepper in vertical orientation', async ({ page, request }) => {
-    const setupSuccess = await setupBitcoinPayment(page, request);
+  test('should display stepper in vertical orientation', async ({ page }) => {
+    const setupSuccess = await setupBitcoinPayment(page);
     if (!setupSuccess) {
       throw new Error('Bitcoin payment setup failed - check backend Bitcoin configuration');
     }
@@ -344,4 +337,130 @@ test.describe('Bitcoin Payment Status Monitoring', () => {
     const stepperClasses = await bitcoinPage.transactionStepper.getAttribute('class');
     expect(stepperClasses).toContain('MuiStepper-vertical');
   });
+
+  test('should progress to payment complete as the payment confirms on chain', async ({ page, bitcoinChain }) => {
+    test.setTimeout(180000);
+    const startedAt = new Date();
+
+    const setupSuccess = await setupBitcoinPayment(page);
+    if (!setupSuccess) {
+      throw new Error('Bitcoin payment setup failed - check backend Bitcoin configuration');
+    }
+
+    const address = await bitcoinPage.getBtcAddress();
+    const expectedSats = await bitcoinPage.getSatoshiAmount();
+    expect(address).not.toBe('');
+    expect(expectedSats).toBeGreaterThan(0);
+    test.skip(!(await bitcoinChain.isPolled(address, startedAt)), BACKEND_NOT_POLLING_REASON);
+
+    // Broadcast the exact amount - the backend sees it unconfirmed
+    const transaction = await bitcoinChain.broadcast(address, expectedSats);
+    await bitcoinChain.waitForPoll(address);
+    await bitcoinPage.waitForPaymentDetection();
+    expect(await bitcoinPage.getTransactionIds()).toContainEqual(expect.stringContaining(transaction.txid.slice(0, 8)));
+
+    // The seeded configuration completes on the first confirmation - no confirming state in between
+    await bitcoinChain.confirm(transaction.txid, DEFAULT_CONFIRMATIONS_REQUIRED);
+    await bitcoinPage.waitForPaymentComplete();
+    await bitcoinPage.assertPaymentComplete();
+    expect(await bitcoinPage.isUnderpaymentWarningDisplayed()).toBe(false);
+  });
+
+  test('should warn about an underpayment detected on chain', async ({ page, bitcoinChain }) => {
+    test.setTimeout(180000);
+    const startedAt = new Date();
+
+    const setupSuccess = await setupBitcoinPayment(page);
+    if (!setupSuccess) {
+      throw new Error('Bitcoin payment setup failed - check backend Bitcoin configuration');
+    }
+
+    const address = await bitcoinPage.getBtcAddress();
+    const expectedSats = await bitcoinPage.getSatoshiAmount();
+    test.skip(!(await bitcoinChain.isPolled(address, startedAt)), BACKEND_NOT_POLLING_REASON);
+
+    await bitcoinChain.broadcast(address, Math.floor(expectedSats / 2));
+    await bitcoinChain.waitForPoll(address);
+    await bitcoinPage.waitForPaymentDetection();
+
+    await expect(bitcoinPage.underpaymentWarning).toBeVisible({ timeout: 60000 });
+    await expect(bitcoinPage.paymentCompleteStep.locator('.Mui-completed')).toHaveCount(0);
+  });
+
+  test('should progress from detected to complete as the payment confirms', async ({ page, simulateBitcoinPayment }) => {
+    const setupSuccess = await setupBitcoinPayment(page);
+    if (!setupSuccess) {
+      throw new Error('Bitcoin payment setup failed - check backend Bitcoin configuration');
+    }
+    expect(await bitcoinPage.getCurrentStep()).toBe(0);
+
+    const detected = await applyPaymentEvent(page, simulateBitcoinPayment, 'detected');
+    expect(detected.status).toBe('PROCESSING');
+    await bitcoinPage.waitForPaymentDetection(30000);
+    expect(await bitcoinPage.getTransactionIds()).toContainEqual(expect.stringContaining(detected.txids![0].slice(0, 8)));
+
+    const completed = await applyPaymentEvent(page, simulateBitcoinPayment, 'completed');
+    expect(completed.status).toBe('COMPLETED');
+    await bitcoinPage.waitForPaymentComplete(30000);
+    await bitcoinPage.assertPaymentComplete();
+  });
+
+  test('should warn about a simulated underpayment', async ({ page, simulateBitcoinPayment }) => {
+    const setupSuccess = await setupBitcoinPayment(page);
+    if (!setupSuccess) {
+      throw new Error('Bitcoin payment setup failed - check backend Bitcoin configuration');
+    }
+
+    const state = await applyPaymentEvent(page, simulateBitcoinPayment, 'underpaid');
+    expect(state.status).toBe('PROCESSING');
+
+    await expect(bitcoinPage.underpaymentWarning).toBeVisible({ timeout: 30000 });
+    expect(await bitcoinPage.isOverpaymentInfoDisplayed()).toBe(false);
+    await expect(bitcoinPage.paymentCompleteStep.locator('.Mui-completed')).toHaveCount(0);
+  });
+
+  test('should show overpayment info for a simulated overpayment', async ({ page, simulateBitcoinPayment }) => {
+    const setupSuccess = await setupBitcoinPayment(page);
+    if (!setupSuccess) {
+      throw new Error('Bitcoin payment setup failed - check backend Bitcoin configuration');
+    }
+
+    const state = await applyPaymentEvent(page, simulateBitcoinPayment, 'overpaid');
+    expect(state.status).toBe('COMPLETED');
+
+    await expect(bitcoinPage.overpaymentInfo).toBeVisible({ timeout: 30000 });
+    expect(await bitcoinPage.isUnderpaymentWarningDisplayed()).toBe(false);
+    await bitcoinPage.waitForPaymentComplete(30000);
+  });
+
+  test('should show a timeout when the invoice expires unpaid', async ({ page, simulateBitcoinPayment }) => {
+    const setupSuccess = await setupBitcoinPayment(page);
+    if (!setupSuccess) {
+      throw new Error('Bitcoin payment setup failed - check backend Bitcoin configuration');
+    }
+
+    const state = await applyPaymentEvent(page, simulateBitcoinPayment, 'timeout');
+    expect(state.status).toBe('TIMEOUT');
+
+    await expect(bitcoinPage.timeoutMessage.first()).toBeVisible({ timeout: 30000 });
+    await expect(bitcoinPage.paymentCompleteStep.locator('.Mui-completed')).toHaveCount(0);
+  });
+
+  test('should show a refund after a completed payment is refunded', async ({ page, simulateBitcoinPayment }) => {
+    const setupSuccess = await setupBitcoinPayment(page);
+    if (!setupSuccess) {
+      throw new Error('Bitcoin payment setup failed - check backend Bitcoin configuration');
+    }
+
+    const completed = await applyPaymentEvent(page, simulateBitcoinPayment, 'completed');
+    expect(completed.status).toBe('COMPLETED');
+    await bitcoinPage.waitForPaymentComplete(30000);
+
+    const refunded = await applyPaymentEvent(page, simulateBitcoinPayment, 'refunded');
+    expect(refunded.status).toBe('REFUNDED');
+    expect(refunded.receivedSats).toBe(completed.receivedSats);
+
+    await expect(bitcoinPage.refundedMessage.first()).toBeVisible({ timeout: 30000 });
+    expect(await bitcoinPage.isUnderpaymentWarningDisplayed()).toBe(false);
+  });
 });
@@ -1,11 +1,9 @@
-import { test, expect } from '@playwright/test';
+import { test, expect } from '../../fixtures/authFixtures';
 import { BitcoinPaymentPage } from '../../page-objects/checkout/BitcoinPaymentPage';
 import { CheckoutPage, ShippingAddressData } from '../../page-objects/CheckoutPage';
 import { CartPage } from '../../page-objects/CartPage';
 import { ProductDetailPage } from '../../page-objects/ProductDetailPage';
-import { LoginPage } from '../../page-objects/LoginPage';
 import {
-  getBitcoinUser,
   getInStockProduct,
   getValidShippingAddress,
 } from '../../fixtures/defaultFixtures';
@@ -35,70 +33,32 @@ import {
  * @tag Feature: e2e-integration-testing
  * @tag Property 17: Bitcoin Invoice Generation Round-Trip
  */
-test.describe('Bitcoin QR Code Generation', () => {
+test.describe('Bitcoin QR Code Generation', { tag: '@mutating' }, () => {
   // Run tests serially within this describe block to avoid cart/user race conditions
   test.describe.configure({ mode: 'serial' });
+  test.use({ isolatedUserKey: 'bitcoinQrGeneration' });
 
   let bitcoinPage: BitcoinPaymentPage;
   let checkoutPage: CheckoutPage;
   let cartPage: CartPage;
   let productDetailPage: ProductDetailPage;
-  let loginPage: LoginPage;
 
   test.beforeEach(async ({ page }) => {
     bitcoinPage = new BitcoinPaymentPage(page);
     checkoutPage = new CheckoutPage(page);
     cartPage = new CartPage(page);
     productDetailPage = new ProductDetailPage(page);
-    loginPage = new LoginPage(page);
-
-    // Clear any existing cart items from localStorage
-    await page.goto('http://localhost:3000');
-    await page.evaluate(() => {
-      localStorage.removeItem('zenithCartItems');
-    });
   });
 
   /**
-   * Helper function to login and add product to cart
+   * Helper function to add product to cart
+   * The auth fixture has already logged in and emptied the cart
    */
   async function setupCartWithProduct(
-    page: import('@playwright/test').Page,
-    request: import('@playwright/test').APIRequestContext
+    page: import('@playwright/test').Page
   ): Promise<void> {
-    const customer = getBitcoinUser('bitcoinQrGeneration');
     const product = getInStockProduct();
 
-    await page.goto('http://localhost:3000');
-    await page.evaluate(() => {
-      localStorage.removeItem('zenithCartItems');
-    });
-
-    await loginPage.goto();
-    await loginPage.waitForForm();
-    await loginPage.login(customer.email, customer.password);
-    await loginPage.waitForLoginComplete();
-
-    const loginResponse = await request.post('http://localhost:8080/api/auth/login', {
-      data: { email: customer.email, password: customer.password },
-    });
-
-    if (loginResponse.ok()) {
-      const loginData = await loginResponse.json();
-      const token = loginData.accessToken;
-      await request.delete('http://localhost:8080/api/cart', {
-        headers: { Authorization: `Bearer ${token}` },
-      });
-    }
-
-    await page.evaluate(() => {
-      localStorage.removeItem('zenithCartItems');
-    });
-    await page.reload();
-    await page.waitForLoadState('domcontentloaded');
-    // Wait for page to be ready
-    await page.locator('body').waitFor({ state: 'visible', timeout: 5000 });
-
     await productDetailPage.gotoProduct(product.slug);
     await productDetailPage.productName.waitFor({ state: 'visible', timeout: 10000 });
     await productDetailPage.addToCart();
@@ -130,10 +90,9 @@ test.describe('Bitcoin QR Code Generation', () => {
    * Throws an error if Bitcoin payment is not available (Bitcoin IS an implemented payment method)
    */
   async function completeBitcoinCheckout(
-    page: import('@playwright/test').Page,
-    request: import('@playwright/test').APIRequestContext
+    page: import('@playwright/test').Page
   ): Promise<string> {
-    await setupCartWithProduct(page, request);
+    await setupCartWithProduct(page);
     const shippingAddress = getValidShippingAddress();
 
     await cartPage.goto();
@@ -186,8 +145,8 @@ test.describe('Bitcoin QR Code Generation', () => {
     return orderIdMatch[1];
   }
 
-  test('should display loading indicator while invoice is generating', async ({ page, request }) => {
-    const orderId = await completeBitcoinCheckout(page, request);
+  test('should display loading indicator while invoice is generating', async ({ page }) => {
+    const orderId = await completeBitcoinCheckout(page);
 
     // Check for loading indicator or QR code on success page
     const qrRegionExists = await bitcoinPage.qrCodeRegion.isVisible().catch(() => false);
@@ -198,8 +157,8 @@ test.describe('Bitcoin QR Code Generation', () => {
     }
   });
 
-  test('should display QR code after invoice is generated', async ({ page, request }) => {
-    const orderId = await completeBitcoinCheckout(page, request);
+  test('should display QR code after invoice is generated', async ({ page }) => {
+    const orderId = await completeBitcoinCheckout(page);
 
     try {
       await bitcoinPage.waitForInvoiceGeneration(30000);
@@ -216,8 +175,8 @@ test.describe('Bitcoin QR Code Generation', () => {
     }
   });
 
-  test('should display payment amount in BTC and satoshis', async ({ page, request }) => {
-    const orderId = await completeBitcoinCheckout(page, request);
+  test('should display payment amount in BTC and satoshis', async ({ page }) => {
+    const orderId = await completeBitcoinCheckout(page);
 
     try {
       await bitcoinPage.waitForInvoiceGeneration(30000);
@@ -233,8 +192,8 @@ test.describe('Bitcoin QR Code Generation', () => {
     expect(satoshiAmount).toBeGreaterThan(0);
   });
 
-  test('should display Bitcoin address for manual copy', async ({ page, request }) => {
-    await completeBitcoinCheckout(page, request);
+  test('should display Bitcoin address for manual copy', async ({ page }) => {
+    await completeBitcoinCheckout(page);
 
     try {
       await bitcoinPage.waitForInvoiceGeneration(30000);
@@ -261,7 +220,7 @@ test.describe('Bitcoin QR Code Generation', () => {
     expect(fullAddressCount + truncatedAddressCount).toBeGreaterThan(0);
   });
 
-  test('should copy Bitcoin address to clipboard when Copy Address is clicked', async ({ page, request, context }) => {
+  test('should copy Bitcoin address to clipboard when Copy Address is clicked', async ({ page, context }) => {
     // Increase timeout for clipboard tests which involve more complex operations
     test.setTimeout(120000);
     
@@ -273,7 +232,7 @@ test.describe('Bitcoin QR Code Generation', () => {
       // Continue anyway - clipboard might work without explicit permissions
     }
 
-    const orderId = await completeBitcoinCheckout(page, request);
+    const orderId = await completeBitcoinCheckout(page);
 
     try {
       await bitcoinPage.waitForInvoiceGeneration(30000);
@@ -298,7 +257,7 @@ test.describe('Bitcoin QR Code Generation', () => {
     }
   });
 
-  test('should copy BTC amount to clipboard when Copy Amount is clicked', async ({ page, request, context }) => {
+  test('should copy BTC amount to clipboard when Copy Amount is clicked', async ({ page, context }) => {
     // Increase timeout for clipboard tests which involve more complex operations
     test.setTimeout(120000);
     
@@ -309,7 +268,7 @@ test.describe('Bitcoin QR Code Generation', () => {
       console.log('Failed to grant clipboard permissions:', e);
     }
 
-    const orderId = await completeBitcoinCheckout(page, request);
+    const orderId = await completeBitcoinCheckout(page);
 
     try {
       await bitcoinPage.waitForInvoiceGeneration(30000);
@@ -333,8 +292,8 @@ test.describe('Bitcoin QR Code Generation', () => {
     }
   });
 
-  test('should display the BTC/USD exchange rate', async ({ page, request }) => {
-    const orderId = await completeBitcoinCheckout(page, request);
+  test('should display the BTC/USD exchange rate', async ({ page }) => {
+    const orderId = await completeBitcoinCheckout(page);
 
     try {
       await bitcoinPage.waitForInvoiceGeneration(30000);
@@ -347,8 +306,8 @@ test.describe('Bitcoin QR Code Generation', () => {
     expect(rateText).toMatch(/1 BTC.*\$/i);
   });
 
-  test('should display invoice expiration countdown that actively counts down', async ({ page, request }) => {
-    const orderId = await completeBitcoinCheckout(page, request);
+  test('should display invoice expiration countdown that actively counts down', async ({ page }) => {
+    const orderId = await completeBitcoinCheckout(page);
 
     try {
       await bitcoinPage.waitForInvoiceGeneration(30000);
@@ -384,8 +343,8 @@ test.describe('Bitcoin QR Code Generation', () => {
     expect(timeDifference).toBeLessThanOrEqual(5); // But not more than 5 (accounting for test overhead)
   });
 
-  test('should generate new invoice when Refresh button is clicked', async ({ page, request }) => {
-    const orderId = await completeBitcoinCheckout(page, request);
+  test('should generate new invoice when Refresh button is clicked', async ({ page }) => {
+    const orderId = await completeBitcoinCheckout(page);
 
     try {
       await bitcoinPage.waitForInvoiceGeneration(30000);
@@ -407,8 +366,8 @@ test.describe('Bitcoin QR Code Generation', () => {
     expect(parseTime(newTime)).toBeGreaterThanOrEqual(parseTime(initialTime) - 5);
   });
 
-  test('should display QR code at appropriate size for scanning', async ({ page, request }) => {
-    const orderId = await completeBitcoinCheckout(page, request);
+  test('should display QR code at appropriate size for scanning', async ({ page }) => {
+    const orderId = await completeBitcoinCheckout(page);
 
     try {
       await bitcoinPage.waitForInvoiceGeneration(30000);
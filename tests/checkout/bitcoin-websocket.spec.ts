@@ -1,14 +1,13 @@
-import { test, expect } from '@playwright/test';
+import { test, expect } from '../../fixtures/authFixtures';
 import { BitcoinPaymentPage } from '../../page-objects/checkout/BitcoinPaymentPage';
 import { CheckoutPage, ShippingAddressData } from '../../page-objects/CheckoutPage';
 import { CartPage } from '../../page-objects/CartPage';
 import { ProductDetailPage } from '../../page-objects/ProductDetailPage';
-import { LoginPage } from '../../page-objects/LoginPage';
 import {
-  getBitcoinUser,
   getInStockProduct,
   getValidShippingAddress,
 } from '../../fixtures/defaultFixtures';
+import { PAYMENT_TOPIC_PATTERN } from '../../fixtures/webSocketHarness';
 
 /**
  * Bitcoin WebSocket Integration E2E Tests
@@ -21,111 +20,38 @@ import {
  * - 19.24: Graceful handling of WebSocket connection errors
  * - 19.25: Connection status indicator when WebSocket is disconnected
  *
- * Note: These tests verify the WebSocket infrastructure is in place.
- * Full WebSocket testing requires backend simulation of payment events.
+ * Tests 11-14 intercept the page's WebSockets (see fixtures/webSocketHarness)
+ * to check the subscription, inject payment status messages and force
+ * disconnects; the others check the UI around the connection.
  *
  * @tag Feature: e2e-integration-testing
  */
-test.describe('Bitcoin WebSocket Integration', () => {
+test.describe('Bitcoin WebSocket Integration', { tag: '@mutating' }, () => {
   // Run tests serially within this describe block to avoid cart/user race conditions
   test.describe.configure({ mode: 'serial' });
+  test.use({ isolatedUserKey: 'bitcoinWebsocket' });
 
   let bitcoinPage: BitcoinPaymentPage;
   let checkoutPage: CheckoutPage;
   let cartPage: CartPage;
   let productDetailPage: ProductDetailPage;
-  let loginPage: LoginPage;
 
   test.beforeEach(async ({ page }) => {
     bitcoinPage = new BitcoinPaymentPage(page);
     checkoutPage = new CheckoutPage(page);
     cartPage = new CartPage(page);
     productDetailPage = new ProductDetailPage(page);
-    loginPage = new LoginPage(page);
-
-    // Clear any existing cart items from localStorage
-    await page.goto('http://localhost:3000');
-    await page.evaluate(() => {
-      localStorage.removeItem('zenithCartItems');
-    });
   });
 
   /**
-   * Helper function to login and add product to cart
-   * Clears any existing cart items first to ensure test isolation
+   * Helper function to add product to cart
+   * The auth fixture has already logged in and emptied the cart
    */
   async function setupCartWithProduct(
-    page: import('@playwright/test').Page,
-    request: import('@playwright/test').APIRequestContext
+    page: import('@playwright/test').Page
   ): Promise<void> {
-    const customer = getBitcoinUser('bitcoinWebsocket');
     const product = getInStockProduct();
 
-    // Clear localStorage BEFORE login to prevent cart sync from restoring old items
-    await page.goto('http://localhost:3000');
-    await page.evaluate(() => {
-      localStorage.removeItem('zenithCartItems');
-    });
-
-    // Login
-    await loginPage.goto();
-    await loginPage.waitForForm();
-    await loginPage.login(customer.email, customer.password);
-    await loginPage.waitForLoginComplete();
-
-    // Clear the backend cart AFTER login to ensure we start fresh
-    // This is necessary because different browser projects share the same test user
-    const loginResponse = await request.post('http://localhost:8080/api/auth/login', {
-      data: {
-        email: customer.email,
-        password: customer.password,
-      },
-    });
-
-    if (loginResponse.ok()) {
-      const loginData = await loginResponse.json();
-      const token = loginData.accessToken;
-
-      // Clear the backend cart and verify it's empty
-      const clearResponse = await request.delete('http://localhost:8080/api/cart', {
-        headers: {
-          Authorization: `Bearer ${token}`,
-        },
-      });
-
-      // Verify cart is cleared by checking item count
-      if (clearResponse.ok()) {
-        const countResponse = await request.get('http://localhost:8080/api/cart/count', {
-          headers: {
-            Authorization: `Bearer ${token}`,
-          },
-        });
-        if (countResponse.ok()) {
-          const count = await countResponse.json();
-          if (count > 0) {
-            // Cart not cleared, try again
-            await request.delete('http://localhost:8080/api/cart', {
-              headers: {
-                Authorization: `Bearer ${token}`,
-              },
-            });
-          }
-        }
-      }
-    }
-
-    // Clear localStorage again after login (in case cart sync restored items)
-    await page.evaluate(() => {
-      localStorage.removeItem('zenithCartItems');
-    });
-
-    // Refresh the page to ensure clean state and trigger fresh cart load
-    await page.reload();
-    await page.waitForLoadState('domcontentloaded');
-
-    // Wait for page to be ready (body visible)
-    await page.locator('body').waitFor({ state: 'visible', timeout: 5000 });
-
     // Add a product to cart
     await productDetailPage.gotoProduct(product.slug);
     await productDetailPage.productName.waitFor({ state: 'visible', timeout: 10000 });
@@ -165,10 +91,9 @@ test.describe('Bitcoin WebSocket Integration', () => {
    * Helper to navigate to Bitcoin payment and generate invoice
    */
   async function setupBitcoinPayment(
-    page: import('@playwright/test').Page,
-    request: import('@playwright/test').APIRequestContext
+    page: import('@playwright/test').Page
   ): Promise<boolean> {
-    await setupCartWithProduct(page, request);
+    await setupCartWithProduct(page);
     const shippingAddress = getValidShippingAddress();
 
     // Navigate to cart and proceed to checkout
@@ -231,13 +156,24 @@ test.describe('Bitcoin WebSocket Integration', () => {
     }
   }
 
+  /**
+   * Reads the order ID from the success page URL
+   */
+  function getOrderId(page: import('@playwright/test').Page): string {
+    const orderId = new URL(page.url()).searchParams.get('orderId');
+    if (!orderId) {
+      throw new Error(`No orderId in the success page URL: ${page.url()}`);
+    }
+    return orderId;
+  }
+
   /**
    * Test 1: WebSocket connection is established
    * Validates: Requirement 19.22
    * Note: This test verifies the WebSocket infrastructure by checking
    * that the page is ready to receive real-time updates.
    */
-  test('should establish WebSocket connection for payment updates', async ({ page, request }) => {
+  test('should establish WebSocket connection for payment updates', async ({ page }) => {
     // Monitor WebSocket connections BEFORE setting up Bitcoin payment
     // This ensures we capture any WebSocket connections established during setup
     const wsConnections: string[] = [];
@@ -246,7 +182,7 @@ test.describe('Bitcoin WebSocket Integration', () => {
       wsConnections.push(ws.url());
     });
 
-    const setupSuccess = await setupBitcoinPayment(page, request);
+    const setupSuccess = await setupBitcoinPayment(page);
 
     if (!setupSuccess) {
       throw new Error('Bitcoin payment setup failed - check backend Bitcoin configuration');
@@ -270,8 +206,8 @@ test.describe('Bitcoin WebSocket Integration', () => {
    * Test 2: UI is ready for real-time updates
    * Validates: Requirement 19.23
    */
-  test('should have UI components ready for real-time updates', async ({ page, request }) => {
-    const setupSuccess = await setupBitcoinPayment(page, request);
+  test('should have UI components ready for real-time updates', async ({ page }) => {
+    const setupSuccess = await setupBitcoinPayment(page);
 
     if (!setupSuccess) {
       throw new Error('Bitcoin payment setup failed - check backend Bitcoin configuration');
@@ -296,8 +232,8 @@ test.describe('Bitcoin WebSocket Integration', () => {
    * Test 3: Progress region supports live updates
    * Validates: Requirement 19.23 (accessibility for real-time updates)
    */
-  test('should have aria-live region for screen reader announcements', async ({ page, request }) => {
-    const setupSuccess = await setupBitcoinPayment(page, request);
+  test('should have aria-live region for screen reader announcements', async ({ page }) => {
+    const setupSuccess = await setupBitcoinPayment(page);
 
     if (!setupSuccess) {
       throw new Error('Bitcoin payment setup failed - check backend Bitcoin configuration');
@@ -317,8 +253,8 @@ test.describe('Bitcoin WebSocket Integration', () => {
    * Test 4: Timer continues to update (simulates real-time behavior)
    * Validates: Requirement 19.23 (UI updates)
    */
-  test('should update timer in real-time', async ({ page, request }) => {
-    const setupSuccess = await setupBitcoinPayment(page, request);
+  test('should update timer in real-time', async ({ page }) => {
+    const setupSuccess = await setupBitcoinPayment(page);
 
     if (!setupSuccess) {
       throw new Error('Bitcoin payment setup failed - check backend Bitcoin configuration');
@@ -352,8 +288,8 @@ test.describe('Bitcoin WebSocket Integration', () => {
    * Validates: Requirement 19.24
    * Note: This test verifies the UI remains stable during network issues.
    */
-  test('should handle network interruption gracefully', async ({ page, request, context }) => {
-    const setupSuccess = await setupBitcoinPayment(page, request);
+  test('should handle network interruption gracefully', async ({ page, context }) => {
+    const setupSuccess = await setupBitcoinPayment(page);
 
     if (!setupSuccess) {
       throw new Error('Bitcoin payment setup failed - check backend Bitcoin configuration');
@@ -386,8 +322,8 @@ test.describe('Bitcoin WebSocket Integration', () => {
    * Test 6: Refresh button works after network recovery
    * Validates: Requirement 19.24 (recovery mechanism)
    */
-  test('should allow invoice refresh after network recovery', async ({ page, request, context }) => {
-    const setupSuccess = await setupBitcoinPayment(page, request);
+  test('should allow invoice refresh after network recovery', async ({ page, context }) => {
+    const setupSuccess = await setupBitcoinPayment(page);
 
     if (!setupSuccess) {
       throw new Error('Bitcoin payment setup failed - check backend Bitcoin configuration');
@@ -410,8 +346,8 @@ test.describe('Bitcoin WebSocket Integration', () => {
    * Test 7: Status display handles various states
    * Validates: Requirement 19.23 (UI updates for different states)
    */
-  test('should have status display ready for all payment states', async ({ page, request }) => {
-    const setupSuccess = await setupBitcoinPayment(page, request);
+  test('should have status display ready for all payment states', async ({ page }) => {
+    const setupSuccess = await setupBitcoinPayment(page);
 
     if (!setupSuccess) {
       throw new Error('Bitcoin payment setup failed - check backend Bitcoin configuration');
@@ -430,8 +366,8 @@ test.describe('Bitcoin WebSocket Integration', () => {
    * Test 8: Confirmation chip is ready to display
    * Validates: Requirement 19.23 (UI ready for confirmation updates)
    */
-  test('should be ready to display confirmation count updates', async ({ page, request }) => {
-    const setupSuccess = await setupBitcoinPayment(page, request);
+  test('should be ready to display confirmation count updates', async ({ page }) => {
+    const setupSuccess = await setupBitcoinPayment(page);
 
     if (!setupSuccess) {
       throw new Error('Bitcoin payment setup failed - check backend Bitcoin configuration');
@@ -451,8 +387,8 @@ test.describe('Bitcoin WebSocket Integration', () => {
    * Test 9: Transaction ID display area is ready
    * Validates: Requirement 19.23 (UI ready for txid updates)
    */
-  test('should be ready to display transaction IDs', async ({ page, request }) => {
-    const setupSuccess = await setupBitcoinPayment(page, request);
+  test('should be ready to display transaction IDs', async ({ page }) => {
+    const setupSuccess = await setupBitcoinPayment(page);
 
     if (!setupSuccess) {
       throw new Error('Bitcoin payment setup failed - check backend Bitcoin configuration');
@@ -471,8 +407,8 @@ test.describe('Bitcoin WebSocket Integration', () => {
    * Test 10: Page maintains state during long wait
    * Validates: Requirement 19.22, 19.23 (connection stability)
    */
-  test('should maintain state during extended wait period', async ({ page, request }) => {
-    const setupSuccess = await setupBitcoinPayment(page, request);
+  test('should maintain state during extended wait period', async ({ page }) => {
+    const setupSuccess = await setupBitcoinPayment(page);
 
     if (!setupSuccess) {
       throw new Error('Bitcoin payment setup failed - check backend Bitcoin configuration');
@@ -500,4 +436,118 @@ test.describe('Bitcoin WebSocket Integration', () => {
     await bitcoinPage.assertTransactionStepperDisplayed();
     await bitcoinPage.assertQRCodeDisplayed();
   });
+
+  /**
+   * Test 11: Page subscribes to the order's payment topic
+   * Validates: Requirement 19.22
+   */
+  test('should subscribe to payment updates for the order', async ({ page, webSockets }) => {
+    const setupSuccess = await setupBitcoinPayment(page);
+
+    if (!setupSuccess) {
+      throw new Error('Bitcoin payment setup failed - check backend Bitcoin configuration');
+    }
+
+    const subscription = await webSockets.waitForSubscription(PAYMENT_TOPIC_PATTERN);
+
+    // The topic is scoped to this order, not a broadcast of every payment
+    expect(subscription.destination).toContain(getOrderId(page));
+    expect(webSockets.openConnectionCount).toBeGreaterThan(0);
+  });
+
+  /**
+   * Test 12: UI updates as soon as a status message arrives
+   * Validates: Requirement 19.23
+   */
+  test('should update the UI immediately on a payment status message', async ({ page, webSockets }) => {
+    const setupSuccess = await setupBitcoinPayment(page);
+
+    if (!setupSuccess) {
+      throw new Error('Bitcoin payment setup failed - check backend Bitcoin configuration');
+    }
+
+    await webSockets.waitForSubscription(PAYMENT_TOPIC_PATTERN);
+    const expectedSats = await bitcoinPage.getSatoshiAmount();
+
+    const delivered = webSockets.injectPaymentStatus({
+      orderId: getOrderId(page),
+      status: 'PROCESSING',
+      confirmations: 0,
+      requiredConfirmations: 1,
+      receivedSats: expectedSats,
+      expectedSats,
+      txids: ['a'.repeat(64)],
+    });
+    expect(delivered).toBeGreaterThan(0);
+
+    // No reload and no polling interval - the message alone moves the stepper
+    await bitcoinPage.waitForPaymentDetection(5000);
+    expect(await bitcoinPage.getCurrentStep()).toBeGreaterThanOrEqual(1);
+  });
+
+  /**
+   * Test 13: Malformed messages don't break the page
+   * Validates: Requirement 19.24
+   */
+  test('should ignore malformed WebSocket messages', async ({ page, webSockets }) => {
+    const setupSuccess = await setupBitcoinPayment(page);
+
+    if (!setupSuccess) {
+      throw new Error('Bitcoin payment setup failed - check backend Bitcoin configuration');
+    }
+
+    const pageErrors: Error[] = [];
+    page.on('pageerror', (error) => pageErrors.push(error));
+
+    await webSockets.waitForSubscription(PAYMENT_TOPIC_PATTERN);
+    expect(await bitcoinPage.getCurrentStep()).toBe(0);
+
+    // A frame that isn't STOMP, then a STOMP message whose body isn't valid JSON
+    webSockets.injectRaw('not a stomp frame');
+    webSockets.inject(PAYMENT_TOPIC_PATTERN, '{"status":');
+
+    // Then a valid update - the page handles frames in order, so once this one
+    // shows, the malformed ones have been processed and the connection survived
+    const expectedSats = await bitcoinPage.getSatoshiAmount();
+    webSockets.injectPaymentStatus({
+      orderId: getOrderId(page),
+      status: 'PROCESSING',
+      confirmations: 0,
+      receivedSats: expectedSats,
+      expectedSats,
+    });
+    await bitcoinPage.waitForPaymentDetection(5000);
+
+    expect(pageErrors).toEqual([]);
+    await bitcoinPage.assertTransactionStepperDisplayed();
+    expect(await bitcoinPage.isInvoiceErrorDisplayed()).toBe(false);
+  });
+
+  /**
+   * Test 14: Connection indicator follows the WebSocket state
+   * Validates: Requirement 19.25
+   */
+  test('should show a connection indicator while disconnected and recover', async ({ page, webSockets }) => {
+    const setupSuccess = await setupBitcoinPayment(page);
+
+    if (!setupSuccess) {
+      throw new Error('Bitcoin payment setup failed - check backend Bitcoin configuration');
+    }
+
+    await webSockets.waitForSubscription(PAYMENT_TOPIC_PATTERN);
+    await expect(bitcoinPage.connectionStatusIndicator.first()).toBeHidden();
+
+    // Drop the connection and refuse reconnects - a backend outage
+    await webSockets.disconnect({ blockReconnects: true });
+    await expect(bitcoinPage.connectionStatusIndicator.first()).toBeVisible({ timeout: 15000 });
+    await bitcoinPage.assertTransactionStepperDisplayed();
+
+    // Let the page back in; it reconnects and subscribes again
+    const connectionsBefore = webSockets.connectionLog.length;
+    webSockets.allowReconnects();
+    await webSockets.waitForConnections(connectionsBefore + 1, 30000);
+    await webSockets.waitForSubscription(PAYMENT_TOPIC_PATTERN, 15000);
+
+    await expect(bitcoinPage.connectionStatusIndicator.first()).toBeHidden({ timeout: 10000 });
+  });
 });
@@ -1,11 +1,9 @@
-import { test, expect } from '@playwright/test';
-import { LoginPage } from '../../page-objects/LoginPage';
+import { test, expect } from '../../fixtures/authFixtures';
 import { ProductDetailPage } from '../../page-objects/ProductDetailPage';
 import { CartPage } from '../../page-objects/CartPage';
 import { CheckoutPage } from '../../page-objects/CheckoutPage';
 import { OrderConfirmationPage } from '../../page-objects/OrderConfirmationPage';
 import {
-  getCheckoutUser,
   getInStockProduct,
   getValidShippingAddress,
 } from '../../fixtures/defaultFixtures';
@@ -23,103 +21,30 @@ import {
  * Note: These tests run serially within each browser project to avoid race conditions
  * with shared user accounts and cart state. Cross-browser parallelization is still enabled.
  */
-test.describe('Checkout Flow', () => {
+test.describe('Checkout Flow', { tag: '@mutating' }, () => {
   // Run tests serially within this describe block to avoid cart/user race conditions
   test.describe.configure({ mode: 'serial' });
+  test.use({ isolatedUserKey: 'checkoutFlow' });
   
-  let loginPage: LoginPage;
   let productDetailPage: ProductDetailPage;
   let cartPage: CartPage;
   let checkoutPage: CheckoutPage;
   let orderConfirmationPage: OrderConfirmationPage;
 
   test.beforeEach(async ({ page }) => {
-    loginPage = new LoginPage(page);
     productDetailPage = new ProductDetailPage(page);
     cartPage = new CartPage(page);
     checkoutPage = new CheckoutPage(page);
     orderConfirmationPage = new OrderConfirmationPage(page);
-
-    // Clear any existing cart items from localStorage
-    await page.goto('http://localhost:3000');
-    await page.evaluate(() => {
-      localStorage.removeItem('zenithCartItems');
-    });
   });
 
   /**
-   * Helper function to login and add product to cart
-   * Clears any existing cart items first to ensure test isolation
+   * Helper function to add product to cart
+   * The auth fixture has already logged in and emptied the cart
    */
-  async function setupCartWithProduct(page: import('@playwright/test').Page, request: import('@playwright/test').APIRequestContext): Promise<void> {
-    const customer = getCheckoutUser('checkoutFlow');
+  async function setupCartWithProduct(page: import('@playwright/test').Page): Promise<void> {
     const product = getInStockProduct();
 
-    // Clear localStorage BEFORE login to prevent cart sync from restoring old items
-    await page.goto('http://localhost:3000');
-    await page.evaluate(() => {
-      localStorage.removeItem('zenithCartItems');
-    });
-
-    // Login
-    await loginPage.goto();
-    await loginPage.waitForForm();
-    await loginPage.login(customer.email, customer.password);
-    await loginPage.waitForLoginComplete();
-
-    // Clear the backend cart AFTER login to ensure we start fresh
-    // This is necessary because different browser projects share the same test user
-    const loginResponse = await request.post('http://localhost:8080/api/auth/login', {
-      data: {
-        email: customer.email,
-        password: customer.password,
-      },
-    });
-    
-    if (loginResponse.ok()) {
-      const loginData = await loginResponse.json();
-      const token = loginData.accessToken;
-      
-      // Clear the backend cart and verify it's empty
-      const clearResponse = await request.delete('http://localhost:8080/api/cart', {
-        headers: {
-          Authorization: `Bearer ${token}`,
-        },
-      });
-      
-      // Verify cart is cleared by checking item count
-      if (clearResponse.ok()) {
-        const countResponse = await request.get('http://localhost:8080/api/cart/count', {
-          headers: {
-            Authorization: `Bearer ${token}`,
-          },
-        });
-        if (countResponse.ok()) {
-          const count = await countResponse.json();
-          if (count > 0) {
-            // Cart not cleared, try again
-            await request.delete('http://localhost:8080/api/cart', {
-              headers: {
-                Authorization: `Bearer ${token}`,
-              },
-            });
-          }
-        }
-      }
-    }
-
-    // Clear localStorage again after login (in case cart sync restored items)
-    await page.evaluate(() => {
-      localStorage.removeItem('zenithCartItems');
-    });
-
-    // Refresh the page to ensure clean state and trigger fresh cart load
-    await page.reload();
-    await page.waitForLoadState('domcontentloaded');
-    
-    // Wait a moment for any cart sync to complete
-    await page.waitForTimeout(500);
-
     // Add a product to cart
     await productDetailPage.gotoProduct(product.slug);
     await productDetailPage.productName.waitFor({ state: 'visible', timeout: 10000 });
@@ -209,9 +134,9 @@ test.describe('Checkout Flow', () => {
   }
 
   test.describe('Complete Checkout Flow', () => {
-    test('should complete full checkout flow with CashApp payment', async ({ page, request }) => {
+    test('should complete full checkout flow with CashApp payment', async ({ page }) => {
       // Requirements: 5.1, 5.4, 5.5
-      await setupCartWithProduct(page, request);
+      await setupCartWithProduct(page);
       const shippingAddress = getValidShippingAddress();
 
       // Navigate to cart and proceed to checkout
@@ -251,9 +176,9 @@ test.describe('Checkout Flow', () => {
       await orderConfirmationPage.assertOrderNumberDisplayed();
     });
 
-    test('should display order items and totals on confirmation page', async ({ page, request }) => {
+    test('should display order items and totals on confirmation page', async ({ page }) => {
       // Requirements: 5.5
-      await setupCartWithProduct(page, request);
+      await setupCartWithProduct(page);
       const shippingAddress = getValidShippingAddress();
 
       // Navigate to checkout
@@ -290,9 +215,9 @@ test.describe('Checkout Flow', () => {
   });
 
   test.describe('Stepper Navigation', () => {
-    test('should display 3-step stepper on checkout page', async ({ page, request }) => {
+    test('should display 3-step stepper on checkout page', async ({ page }) => {
       // Requirements: 5.1
-      await setupCartWithProduct(page, request);
+      await setupCartWithProduct(page);
 
       // Navigate to checkout
       await cartPage.goto();
@@ -310,9 +235,9 @@ test.describe('Checkout Flow', () => {
       await expect(checkoutPage.getStepLabel('Review Order')).toBeVisible();
     });
 
-    test('should navigate between checkout steps', async ({ page, request }) => {
+    test('should navigate between checkout steps', async ({ page }) => {
       // Requirements: 5.1
-      await setupCartWithProduct(page, request);
+      await setupCartWithProduct(page);
       const shippingAddress = getValidShippingAddress();
 
       // Navigate to checkout
@@ -344,9 +269,9 @@ test.describe('Checkout Flow', () => {
   });
 
   test.describe('Order Summary', () => {
-    test('should display order summary with correct items', async ({ page, request }, testInfo) => {
+    test('should display order summary with correct items', async ({ page }, testInfo) => {
       // Requirements: 5.1
-      await setupCartWithProduct(page, request);
+      await setupCartWithProduct(page);
 
       // Navigate to checkout
       await cartPage.goto();
@@ -374,9 +299,9 @@ test.describe('Checkout Flow', () => {
       expect(total).toBeGreaterThan(0);
     });
 
-    test('should show correct totals in order summary', async ({ page, request }, testInfo) => {
+    test('should show correct totals in order summary', async ({ page }, testInfo) => {
       // Requirements: 5.1
-      await setupCartWithProduct(page, request);
+      await setupCartWithProduct(page);
 
       // Get cart totals before checkout
       await cartPage.goto();
@@ -405,9 +330,9 @@ test.describe('Checkout Flow', () => {
   });
 
   test.describe('Navigation', () => {
-    test('should navigate back to cart from checkout', async ({ page, request }) => {
+    test('should navigate back to cart from checkout', async ({ page }) => {
       // Requirements: 5.1
-      await setupCartWithProduct(page, request);
+      await setupCartWithProduct(page);
 
       // Navigate to checkout
       await cartPage.goto();
@@ -431,21 +356,10 @@ test.describe('Checkout Flow', () => {
 
     test('should redirect from checkout when cart is empty', async ({ page }) => {
       // Requirements: 5.1
-      const customer = getCheckoutUser('checkoutFlow');
-
-      // Login without adding items to cart
-      await loginPage.goto();
-      await loginPage.waitForForm();
-      await loginPage.login(customer.email, customer.password);
-      await loginPage.waitForLoginComplete();
-
-      // Clear cart to ensure it's empty
-      await page.evaluate(() => {
-        localStorage.removeItem('zenithCartItems');
-      });
+      // The auth fixture starts every test logged in with an empty cart
 
       // Try to navigate directly to checkout
-      await page.goto('http://localhost:3000/checkout');
+      await page.goto('/checkout');
 
       // Wait for page to load and any redirects to complete
       await page.waitForTimeout(2000);
@@ -486,9 +400,9 @@ test.describe('Checkout Flow', () => {
   });
 
   test.describe('Order Confirmation Navigation', () => {
-    test('should navigate to order history from confirmation page', async ({ page, request }) => {
+    test('should navigate to order history from confirmation page', async ({ page }) => {
       // Requirements: 5.5
-      await setupCartWithProduct(page, request);
+      await setupCartWithProduct(page);
       const shippingAddress = getValidShippingAddress();
 
       // Complete checkout
@@ -519,9 +433,9 @@ test.describe('Checkout Flow', () => {
       await expect(page).toHaveURL(/\/account\/orders/);
     });
 
-    test('should navigate to shop from confirmation page', async ({ page, request }) => {
+    test('should navigate to shop from confirmation page', async ({ page }) => {
       // Requirements: 5.5
-      await setupCartWithProduct(page, request);
+      await setupCartWithProduct(page);
       const shippingAddress = getValidShippingAddress();
 
       // Complete checkout
@@ -554,6 +468,9 @@ test.describe('Checkout Flow', () => {
   });
 
   test.describe('Authentication Guard', () => {
+    // These tests need an anonymous session
+    test.use({ isolatedUserKey: undefined });
+
     test('should redirect to login when accessing checkout without authentication', async ({
       page,
     }) => {
@@ -566,7 +483,7 @@ test.describe('Checkout Flow', () => {
       await page.waitForTimeout(1000);
 
       // Try to access checkout
-      await page.goto('http://localhost:3000/checkout');
+      await page.goto('/checkout');
 
       // Wait for redirect
       await page.waitForTimeout(2000);
@@ -0,0 +1,135 @@
+import { test, expect } from '../../fixtures/authFixtures';
+import { ProductDetailPage } from '../../page-objects/ProductDetailPage';
+import { CheckoutPage, ShippingAddressData } from '../../page-objects/CheckoutPage';
+import { AddressBookPage } from '../../page-objects/account/AddressBookPage';
+import { getAddressBook, getInStockProduct } from '../../fixtures/defaultFixtures';
+import { TestSavedAddress } from '../../fixtures/types';
+
+/**
+ * Checkout Prefill E2E Tests
+ *
+ * Tests that checkout prefills the shipping form from the user's address book
+ *
+ * Requirements covered:
+ * - 5.1: Checkout flow with shipping and payment
+ * - Saved default addresses are shown as defaults in the address book
+ * - The default shipping address prefills the checkout shipping form
+ * - Neither the default billing address nor other shipping addresses are used
+ * - Changing the default shipping address changes what checkout prefills
+ *
+ * The address book is seeded by DataSeeder.seedAddresses from
+ * defaultFixtures.addressBooks and re-seeded before every test, because the
+ * last test changes the default. Browser projects share the user, so each test
+ * leases it (see fixtures/leases) for the duration.
+ */
+test.describe('Checkout Prefill', { tag: '@mutating' }, () => {
+  test.describe.configure({ mode: 'serial' });
+  test.use({ isolatedUserKey: 'checkoutPrefill' });
+
+  let productDetailPage: ProductDetailPage;
+  let checkoutPage: CheckoutPage;
+  const book = getAddressBook('checkout-prefill@test.zenithbioscience.com');
+
+  function savedAddress(type: TestSavedAddress['addressType'], isDefault: boolean): TestSavedAddress {
+    const address = book.addresses.find(
+      (candidate) => candidate.addressType === type && !!candidate.isDefault === isDefault
+    );
+    if (!address) {
+      throw new Error(`No ${isDefault ? 'default' : 'other'} ${type} address in the checkoutPrefill address book`);
+    }
+    return address;
+  }
+
+  /**
+   * Verifies the form holds exactly the given saved address
+   * Phone numbers are compared by digits - the form may format them
+   */
+  function expectPrefilledWith(values: ShippingAddressData, address: TestSavedAddress): void {
+    expect(values.firstName).toBe(address.firstName);
+    expect(values.lastName).toBe(address.lastName);
+    expect(values.address1).toBe(address.addressLine1);
+    expect(values.address2 ?? '').toBe(address.addressLine2 ?? '');
+    expect(values.city).toBe(address.city);
+    expect(values.state).toBe(address.state);
+    expect(values.zip).toBe(address.postalCode);
+    expect(values.phoneNumber.replace(/\D/g, '')).toBe((address.phoneNumber ?? '').replace(/\D/g, ''));
+  }
+
+  /**
+   * Adds a product to the cart and opens checkout
+   * The auth fixture has already logged in and emptied the cart
+   */
+  async function gotoCheckoutWithProduct(page: import('@playwright/test').Page): Promise<void> {
+    await productDetailPage.gotoProduct(getInStockProduct().slug);
+    await productDetailPage.productName.waitFor({ state: 'visible', timeout: 10000 });
+    await productDetailPage.addToCart();
+
+    // Wait for add to cart to complete and cart sync to backend
+    await page.waitForLoadState('networkidle', { timeout: 10000 }).catch(() => {});
+
+    await checkoutPage.goto();
+    await checkoutPage.waitForPage();
+    // Saved addresses load after the form renders
+    await expect(checkoutPage.address1Input).not.toHaveValue('', { timeout: 10000 });
+  }
+
+  test.beforeEach(async ({ page, leases, workerSeeder, isolatedUser }) => {
+    productDetailPage = new ProductDetailPage(page);
+    checkoutPage = new CheckoutPage(page);
+
+    await leases.isolatedUser('checkoutPrefill');
+    await workerSeeder.seeder.connect();
+    await workerSeeder.seeder.seedAddresses(isolatedUser.email, book.addresses);
+  });
+
+  test('should show the seeded default addresses in the address book', async ({ page }) => {
+    const addressBookPage = new AddressBookPage(page);
+    await addressBookPage.goto();
+    await addressBookPage.waitForPage();
+
+    const addresses = await addressBookPage.getAddresses();
+    expect(addresses.length).toBe(book.addresses.length);
+
+    for (const type of ['SHIPPING', 'BILLING'] as const) {
+      const defaults = addresses.filter((address) => address.addressType === type && address.isDefault);
+      expect(defaults.length, `exactly one default ${type} address`).toBe(1);
+      expect(defaults[0].addressLine1).toBe(savedAddress(type, true).addressLine1);
+    }
+  });
+
+  test('should prefill the shipping form with the default shipping address', async ({ page }) => {
+    await gotoCheckoutWithProduct(page);
+
+    expectPrefilledWith(await checkoutPage.getShippingAddressValues(), savedAddress('SHIPPING', true));
+  });
+
+  test('should not prefill the shipping form from the default billing or another shipping address', async ({
+    page,
+  }) => {
+    await gotoCheckoutWithProduct(page);
+
+    const values = await checkoutPage.getShippingAddressValues();
+    for (const address of [savedAddress('BILLING', true), savedAddress('SHIPPING', false)]) {
+      expect(values.address1).not.toBe(address.addressLine1);
+      expect(values.city).not.toBe(address.city);
+    }
+  });
+
+  test('should prefill the new default after the default shipping address is changed', async ({ page }) => {
+    const newDefault = savedAddress('SHIPPING', false);
+
+    const addressBookPage = new AddressBookPage(page);
+    await addressBookPage.goto();
+    await addressBookPage.waitForPage();
+
+    const shipping = (await addressBookPage.getAddresses()).filter((address) => address.addressType === 'SHIPPING');
+    const index = shipping.findIndex((address) => address.addressLine1 === newDefault.addressLine1);
+    expect(index, `${newDefault.addressLine1} should be in the address book`).toBeGreaterThanOrEqual(0);
+
+    await addressBookPage.setDefaultShipping(index);
+
+    await gotoCheckoutWithProduct(page);
+
+    expectPrefilledWith(await checkoutPage.getShippingAddressValues(), newDefault);
+  });
+});
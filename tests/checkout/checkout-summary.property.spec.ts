@@ -1,10 +1,8 @@
-import { test, expect } from '@playwright/test';
-import { LoginPage } from '../../page-objects/LoginPage';
+import { test, expect } from '../../fixtures/authFixtures';
 import { ProductDetailPage } from '../../page-objects/ProductDetailPage';
 import { CartPage, CartItemData } from '../../page-objects/CartPage';
 import { CheckoutPage } from '../../page-objects/CheckoutPage';
 import {
-  getCheckoutUser,
   getInStockProduct,
   getValidShippingAddress,
   getTestProduct,
@@ -23,86 +21,32 @@ import {
  * - Subtotal in checkout matches cart subtotal
  * - Total calculation is consistent (subtotal + shipping + tax - discounts)
  */
-test.describe('Checkout Cart Summary Consistency (Property Tests)', () => {
+test.describe('Checkout Cart Summary Consistency (Property Tests)', { tag: '@mutating' }, () => {
   // Run tests serially to avoid cart/user race conditions
   test.describe.configure({ mode: 'serial' });
+  test.use({ isolatedUserKey: 'checkoutSummary' });
 
-  let loginPage: LoginPage;
   let productDetailPage: ProductDetailPage;
   let cartPage: CartPage;
   let checkoutPage: CheckoutPage;
 
   test.beforeEach(async ({ page }) => {
-    loginPage = new LoginPage(page);
     productDetailPage = new ProductDetailPage(page);
     cartPage = new CartPage(page);
     checkoutPage = new CheckoutPage(page);
-
-    // Clear any existing cart items
-    await page.goto('http://localhost:3000');
-    await page.evaluate(() => {
-      localStorage.removeItem('zenithCartItems');
-    });
   });
 
   /**
-   * Helper function to login and add products to cart
-   * Clears backend cart to ensure test isolation
-   * Uses isolated checkout user to avoid race conditions with parallel tests
+   * Helper function to add products to cart
+   * The auth fixture has already logged in as the isolated user and emptied the cart
    */
   async function setupCartWithProducts(
-    page: import('@playwright/test').Page,
-    request: import('@playwright/test').APIRequestContext
+    page: import('@playwright/test').Page
   ): Promise<{
     items: CartItemData[];
     subtotal: number;
     total: number;
   }> {
-    // Use isolated user for checkout-summary tests
-    const customer = getCheckoutUser('checkoutSummary');
-
-    // Clear localStorage BEFORE login
-    await page.goto('http://localhost:3000');
-    await page.evaluate(() => {
-      localStorage.removeItem('zenithCartItems');
-    });
-
-    // Login
-    await loginPage.goto();
-    await loginPage.waitForForm();
-    await loginPage.login(customer.email, customer.password);
-    await loginPage.waitForLoginComplete();
-
-    // Clear the backend cart AFTER login
-    const loginResponse = await request.post('http://localhost:8080/api/auth/login', {
-      data: {
-        email: customer.email,
-        password: customer.password,
-      },
-    });
-
-    if (loginResponse.ok()) {
-      const loginData = await loginResponse.json();
-      const token = loginData.accessToken;
-
-      // Clear the backend cart
-      await request.delete('http://localhost:8080/api/cart', {
-        headers: {
-          Authorization: `Bearer ${token}`,
-        },
-      });
-    }
-
-    // Clear localStorage again after login
-    await page.evaluate(() => {
-      localStorage.removeItem('zenithCartItems');
-    });
-
-    // Refresh to ensure clean state
-    await page.reload();
-    await page.waitForLoadState('domcontentloaded');
-    await page.waitForTimeout(500);
-
     // Add multiple products to cart
     const product1 = getTestProduct(0);
     const product2 = getTestProduct(1);
@@ -323,8 +267,8 @@ test.describe('Checkout Cart Summary Consistency (Property Tests)', () => {
    * Property: Cart items displayed in checkout order summary match cart page items
    * Invariant: checkout_items.names === cart_items.names
    */
-  test('checkout order summary displays same items as cart', async ({ page, request }, testInfo) => {
-    const { items: cartData } = await setupCartWithProducts(page, request);
+  test('checkout order summary displays same items as cart', async ({ page }, testInfo) => {
+    const { items: cartData } = await setupCartWithProducts(page);
 
     // Navigate to checkout
     await cartPage.proceedToCheckout();
@@ -358,8 +302,8 @@ test.describe('Checkout Cart Summary Consistency (Property Tests)', () => {
    * Note: This test parses text from the order summary which can be fragile.
    * If parsing fails, the test is skipped rather than failing.
    */
-  test('checkout order summary quantities match cart quantities', async ({ page, request }, testInfo) => {
-    const { items: cartData } = await setupCartWithProducts(page, request);
+  test('checkout order summary quantities match cart quantities', async ({ page }, testInfo) => {
+    const { items: cartData } = await setupCartWithProducts(page);
 
     // Navigate to checkout
     await cartPage.proceedToCheckout();
@@ -403,8 +347,8 @@ test.describe('Checkout Cart Summary Consistency (Property Tests)', () => {
    * Note: This test parses text from the order summary which can be fragile.
    * If parsing fails, the test is skipped rather than failing.
    */
-  test('checkout order summary item prices match cart item totals', async ({ page, request }, testInfo) => {
-    const { items: cartData } = await setupCartWithProducts(page, request);
+  test('checkout order summary item prices match cart item totals', async ({ page }, testInfo) => {
+    const { items: cartData } = await setupCartWithProducts(page);
 
     // Navigate to checkout
     await cartPage.proceedToCheckout();
@@ -446,8 +390,8 @@ test.describe('Checkout Cart Summary Consistency (Property Tests)', () => {
    * Property: Subtotal in checkout matches cart subtotal
    * Invariant: checkout_subtotal === cart_subtotal
    */
-  test('checkout subtotal matches cart subtotal', async ({ page, request }, testInfo) => {
-    const { subtotal: cartSubtotalValue } = await setupCartWithProducts(page, request);
+  test('checkout subtotal matches cart subtotal', async ({ page }, testInfo) => {
+    const { subtotal: cartSubtotalValue } = await setupCartWithProducts(page);
 
     // Navigate to checkout
     await cartPage.proceedToCheckout();
@@ -469,8 +413,8 @@ test.describe('Checkout Cart Summary Consistency (Property Tests)', () => {
    * 
    * Note: Tax calculation may vary based on backend state, so we allow some tolerance.
    */
-  test('checkout total calculation is consistent', async ({ page, request }, testInfo) => {
-    await setupCartWithProducts(page, request);
+  test('checkout total calculation is consistent', async ({ page }, testInfo) => {
+    await setupCartWithProducts(page);
 
     // Navigate to checkout
     await cartPage.proceedToCheckout();
@@ -510,9 +454,9 @@ test.describe('Checkout Cart Summary Consistency (Property Tests)', () => {
    * Property: Cart total is preserved through checkout navigation
    * Invariant: cart_total <= checkout_total (checkout may add shipping/tax)
    */
-  test('cart total is preserved or increased in checkout', async ({ page, request }, testInfo) => {
+  test('cart total is preserved or increased in checkout', async ({ page }, testInfo) => {
     const { total: cartTotalValue, subtotal: cartSubtotalValue } =
-      await setupCartWithProducts(page, request);
+      await setupCartWithProducts(page);
 
     // Navigate to checkout
     await cartPage.proceedToCheckout();
@@ -535,8 +479,8 @@ test.describe('Checkout Cart Summary Consistency (Property Tests)', () => {
    * Property: Order summary updates when cart changes
    * Invariant: After quantity update, checkout reflects new totals
    */
-  test('checkout summary reflects cart quantity changes', async ({ page, request }, testInfo) => {
-    await setupCartWithProducts(page, request);
+  test('checkout summary reflects cart quantity changes', async ({ page }, testInfo) => {
+    await setupCartWithProducts(page);
     const product = getTestProduct(0);
 
     // Try to update quantity in cart using the CartPage method which handles mobile/desktop
@@ -587,53 +531,9 @@ test.describe('Checkout Cart Summary Consistency (Property Tests)', () => {
    * Property: Single item cart consistency
    * Invariant: With one item, checkout item total === checkout subtotal
    */
-  test('single item cart has consistent checkout totals', async ({ page, request }, testInfo) => {
-    // Use isolated user for checkout-summary tests
-    const customer = getCheckoutUser('checkoutSummary');
+  test('single item cart has consistent checkout totals', async ({ page }, testInfo) => {
     const product = getInStockProduct();
 
-    // Clear localStorage BEFORE login
-    await page.goto('http://localhost:3000');
-    await page.evaluate(() => {
-      localStorage.removeItem('zenithCartItems');
-    });
-
-    // Login
-    await loginPage.goto();
-    await loginPage.waitForForm();
-    await loginPage.login(customer.email, customer.password);
-    await loginPage.waitForLoginComplete();
-
-    // Clear the backend cart AFTER login
-    const loginResponse = await request.post('http://localhost:8080/api/auth/login', {
-      data: {
-        email: customer.email,
-        password: customer.password,
-      },
-    });
-
-    if (loginResponse.ok()) {
-      const loginData = await loginResponse.json();
-      const token = loginData.accessToken;
-
-      // Clear the backend cart
-      await request.delete('http://localhost:8080/api/cart', {
-        headers: {
-          Authorization: `Bearer ${token}`,
-        },
-      });
-    }
-
-    // Clear localStorage again after login
-    await page.evaluate(() => {
-      localStorage.removeItem('zenithCartItems');
-    });
-
-    // Refresh to ensure clean state
-    await page.reload();
-    await page.waitForLoadState('domcontentloaded');
-    await page.waitForTimeout(500);
-
     // Add single product
     await productDetailPage.gotoProduct(product.slug);
     await productDetailPage.productName.waitFor({ state: 'visible', timeout: 10000 });
@@ -674,8 +574,8 @@ test.describe('Checkout Cart Summary Consistency (Property Tests)', () => {
    * Property: Checkout handles backend validation gracefully
    * Invariant: If backend validation fails, user sees appropriate error
    */
-  test('checkout handles validation errors gracefully', async ({ page, request }, testInfo) => {
-    await setupCartWithProducts(page, request);
+  test('checkout handles validation errors gracefully', async ({ page }, testInfo) => {
+    await setupCartWithProducts(page);
     const shippingAddress = getValidShippingAddress();
 
     // Navigate to checkout
@@ -1,11 +1,10 @@
-import { test, expect } from '@playwright/test';
-import { LoginPage } from '../../page-objects/LoginPage';
+import { test, expect } from '../../fixtures/authFixtures';
 import { ProductDetailPage } from '../../page-objects/ProductDetailPage';
 import { CartPage } from '../../page-objects/CartPage';
 import { CheckoutPage } from '../../page-objects/CheckoutPage';
 import { OrderConfirmationPage } from '../../page-objects/OrderConfirmationPage';
 import { OrderHistoryPage } from '../../page-objects/OrderHistoryPage';
-import { getCheckoutUser, getInStockProduct, getValidShippingAddress } from '../../fixtures/defaultFixtures';
+import { getInStockProduct, getValidShippingAddress } from '../../fixtures/defaultFixtures';
 
 /**
  * Property Tests: Order Creation Round-Trip
@@ -20,11 +19,11 @@ import { getCheckoutUser, getInStockProduct, getValidShippingAddress } from '../
  * - Order ID from confirmation page matches order in history
  * - Shipping address in order matches what was entered
  */
-test.describe('Order Creation Round-Trip (Property Tests)', () => {
+test.describe('Order Creation Round-Trip (Property Tests)', { tag: '@mutating' }, () => {
   // Run tests serially to avoid cart/user race conditions
   test.describe.configure({ mode: 'serial' });
+  test.use({ isolatedUserKey: 'orderCreation' });
 
-  let loginPage: LoginPage;
   let productDetailPage: ProductDetailPage;
   let cartPage: CartPage;
   let checkoutPage: CheckoutPage;
@@ -32,70 +31,13 @@ test.describe('Order Creation Round-Trip (Property Tests)', () => {
   let orderHistoryPage: OrderHistoryPage;
 
   test.beforeEach(async ({ page }) => {
-    loginPage = new LoginPage(page);
     productDetailPage = new ProductDetailPage(page);
     cartPage = new CartPage(page);
     checkoutPage = new CheckoutPage(page);
     orderConfirmationPage = new OrderConfirmationPage(page);
     orderHistoryPage = new OrderHistoryPage(page);
-
-    // Clear any existing cart items
-    await page.goto('http://localhost:3000');
-    await page.evaluate(() => {
-      localStorage.removeItem('zenithCartItems');
-    });
   });
 
-  /**
-   * Helper function to login as customer and clear cart
-   * Uses isolated checkout user to avoid race conditions with parallel tests
-   */
-  async function loginAsCustomer(page: import('@playwright/test').Page, request: import('@playwright/test').APIRequestContext): Promise<void> {
-    // Use isolated user for order-creation tests
-    const customer = getCheckoutUser('orderCreation');
-    
-    // Clear localStorage BEFORE login
-    await page.goto('http://localhost:3000');
-    await page.evaluate(() => {
-      localStorage.removeItem('zenithCartItems');
-    });
-    
-    await loginPage.goto();
-    await loginPage.waitForForm();
-    await loginPage.login(customer.email, customer.password);
-    await loginPage.waitForLoginComplete();
-    
-    // Clear the backend cart AFTER login
-    const loginResponse = await request.post('http://localhost:8080/api/auth/login', {
-      data: {
-        email: customer.email,
-        password: customer.password,
-      },
-    });
-    
-    if (loginResponse.ok()) {
-      const loginData = await loginResponse.json();
-      const token = loginData.accessToken;
-      
-      // Clear the backend cart
-      await request.delete('http://localhost:8080/api/cart', {
-        headers: {
-          Authorization: `Bearer ${token}`,
-        },
-      });
-    }
-    
-    // Clear localStorage again after login
-    await page.evaluate(() => {
-      localStorage.removeItem('zenithCartItems');
-    });
-    
-    // Refresh to ensure clean state
-    await page.reload();
-    await page.waitForLoadState('domcontentloaded');
-    await page.waitForTimeout(500);
-  }
-
   /**
    * Helper function to add product to cart and return product info
    */
@@ -274,12 +216,11 @@ test.describe('Order Creation Round-Trip (Property Tests)', () => {
    * Property: Order created through checkout appears in order history
    * Invariant: After successful checkout, order exists in user's order history
    */
-  test('order created through checkout appears in order history', async ({ page, request }) => {
+  test('order created through checkout appears in order history', async ({ page }) => {
     // Mark as slow test since it completes full checkout flow
     test.slow();
 
-    // Login and add product to cart
-    await loginAsCustomer(page, request);
+    // Add product to cart
     await addProductToCart(page);
 
     // Complete checkout and get order ID
@@ -307,12 +248,11 @@ test.describe('Order Creation Round-Trip (Property Tests)', () => {
    * Property: Order ID from confirmation page matches order in history
    * Invariant: confirmation_page_order_id === order_history_order_id
    */
-  test('order ID from confirmation page matches order in history', async ({ page, request }) => {
+  test('order ID from confirmation page matches order in history', async ({ page }) => {
     // Mark as slow test since it completes full checkout flow
     test.slow();
 
-    // Login and add product to cart
-    await loginAsCustomer(page, request);
+    // Add product to cart
     await addProductToCart(page);
 
     // Complete checkout and get order ID from URL
@@ -346,12 +286,11 @@ test.describe('Order Creation Round-Trip (Property Tests)', () => {
    * Property: Order status is correctly set after placement
    * Invariant: New orders have status PROCESSING or similar initial status
    */
-  test('order status is correctly set after placement', async ({ page, request }) => {
+  test('order status is correctly set after placement', async ({ page }) => {
     // Mark as slow test since it completes full checkout flow
     test.slow();
 
-    // Login and add product to cart
-    await loginAsCustomer(page, request);
+    // Add product to cart
     await addProductToCart(page);
 
     // Complete checkout and get order ID
@@ -385,12 +324,11 @@ test.describe('Order Creation Round-Trip (Property Tests)', () => {
    * Property: Order details match what was ordered
    * Invariant: order_items === cart_items at time of checkout
    */
-  test('order details match what was ordered', async ({ page, request }) => {
+  test('order details match what was ordered', async ({ page }) => {
     // Mark as slow test since it completes full checkout flow
     test.slow();
 
-    // Login and add product to cart
-    await loginAsCustomer(page, request);
+    // Add product to cart
     const productInfo = await addProductToCart(page);
 
     // Get cart details before checkout
@@ -428,14 +366,13 @@ test.describe('Order Creation Round-Trip (Property Tests)', () => {
    * Property: Shipping address in order matches what was entered
    * Invariant: order_shipping_address === entered_shipping_address
    */
-  test('shipping address in order matches what was entered', async ({ page, request }) => {
+  test('shipping address in order matches what was entered', async ({ page }) => {
     // Mark as slow test since it completes full checkout flow
     test.slow();
 
     const shippingAddress = getValidShippingAddress();
 
-    // Login and add product to cart
-    await loginAsCustomer(page, request);
+    // Add product to cart
     await addProductToCart(page);
 
     // Complete checkout using the helper
@@ -466,13 +403,10 @@ test.describe('Order Creation Round-Trip (Property Tests)', () => {
    * Property: Multiple items in order are preserved correctly
    * Invariant: All cart items appear in order with correct quantities
    */
-  test('multiple items in order are preserved correctly', async ({ page, request }) => {
+  test('multiple items in order are preserved correctly', async ({ page }) => {
     // Mark as slow test since it completes full checkout flow
     test.slow();
 
-    // Login
-    await loginAsCustomer(page, request);
-
     // Add first product
     const product1 = getInStockProduct();
     await productDetailPage.gotoProduct(product1.slug);
@@ -521,12 +455,11 @@ test.describe('Order Creation Round-Trip (Property Tests)', () => {
    * Property: Order persists after page refresh
    * Invariant: Order remains in history after navigation/refresh
    */
-  test('order persists after page refresh', async ({ page, request }) => {
+  test('order persists after page refresh', async ({ page }) => {
     // Mark as slow test since it completes full checkout flow
     test.slow();
 
-    // Login and add product to cart
-    await loginAsCustomer(page, request);
+    // Add product to cart
     await addProductToCart(page);
 
     // Complete checkout and get order ID
@@ -562,12 +495,11 @@ test.describe('Order Creation Round-Trip (Property Tests)', () => {
    * a human-readable order number (ORD-xxx). These are intentionally different formats.
    * The test verifies that both identifiers refer to the same order.
    */
-  test('order confirmation page displays correct order ID', async ({ page, request }) => {
+  test('order confirmation page displays correct order ID', async ({ page }) => {
     // Mark as slow test since it completes full checkout flow
     test.slow();
 
-    // Login and add product to cart
-    await loginAsCustomer(page, request);
+    // Add product to cart
     await addProductToCart(page);
 
     // Complete checkout and get order ID from URL
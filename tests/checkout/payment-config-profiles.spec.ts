@@ -0,0 +1,152 @@
+import { test, expect } from '../../fixtures/authFixtures';
+import { BitcoinPaymentPage } from '../../page-objects/checkout/BitcoinPaymentPage';
+import { CheckoutPage, PaymentMethodType } from '../../page-objects/CheckoutPage';
+import { ProductDetailPage } from '../../page-objects/ProductDetailPage';
+import { getInStockProduct, getValidShippingAddress } from '../../fixtures/defaultFixtures';
+import { PAYMENT_CONFIG_PROFILES } from '../../fixtures/paymentConfigProfiles';
+
+/**
+ * Payment Configuration Profiles E2E Tests
+ *
+ * Tests which payment methods checkout offers, and the crypto discount it
+ * shows, under each payment configuration profile (see
+ * fixtures/paymentConfigProfiles).
+ *
+ * Requirements covered:
+ * - 5.3: Payment method selection
+ * - 19.2: Crypto discount percentage displayed when Bitcoin selected
+ * - 19.4: Bitcoin option hidden when disabled in backend config
+ * - Disabled payment methods are not offered at checkout
+ * - Payment methods are not offered for orders below their minimum amount
+ * - The crypto discount shown follows the configured percentage
+ *
+ * The payment configuration is global to the database, so the paymentConfig
+ * fixture skips these tests unless the worker has the database to itself
+ * (E2E_DB_ISOLATION=worker or --workers=1) and restores the default profile
+ * after each test.
+ */
+
+/**
+ * Payment methods checkout can offer
+ */
+const PAYMENT_METHODS: PaymentMethodType[] = ['cashapp', 'solana-pay', 'bitcoin', 'zelle', 'ach'];
+
+test.describe('Payment Configuration Profiles', { tag: '@mutating' }, () => {
+  test.describe.configure({ mode: 'serial' });
+  test.use({ isolatedUserKey: 'paymentConfigProfiles' });
+
+  let bitcoinPage: BitcoinPaymentPage;
+  let checkoutPage: CheckoutPage;
+  let productDetailPage: ProductDetailPage;
+  const product = getInStockProduct();
+
+  /**
+   * Adds a product to the cart and proceeds to the payment step
+   * The auth fixture has already logged in and emptied the cart
+   */
+  async function gotoPaymentStep(page: import('@playwright/test').Page, quantity = 1): Promise<void> {
+    await productDetailPage.gotoProduct(product.slug);
+    await productDetailPage.productName.waitFor({ state: 'visible', timeout: 10000 });
+    if (quantity > 1) {
+      await productDetailPage.setQuantity(quantity);
+    }
+    await productDetailPage.addToCart();
+
+    // Wait for add to cart to complete and cart sync to backend
+    await page.waitForLoadState('networkidle', { timeout: 10000 }).catch(() => {});
+
+    await checkoutPage.goto();
+    await checkoutPage.waitForPage();
+    await checkoutPage.fillShippingAddress(getValidShippingAddress());
+    await checkoutPage.proceedToPayment();
+    await checkoutPage.waitForPaymentMethods();
+  }
+
+  /**
+   * Verifies checkout offers exactly the given payment methods
+   */
+  async function expectAvailableMethods(available: PaymentMethodType[]): Promise<void> {
+    for (const type of PAYMENT_METHODS) {
+      expect(await checkoutPage.isPaymentMethodAvailable(type), `${type} availability`).toBe(available.includes(type));
+    }
+  }
+
+  test.beforeEach(async ({ page, leases }) => {
+    bitcoinPage = new BitcoinPaymentPage(page);
+    checkoutPage = new CheckoutPage(page);
+    productDetailPage = new ProductDetailPage(page);
+
+    // Browser projects share the user's cart
+    await leases.isolatedUser('paymentConfigProfiles');
+  });
+
+  test('should offer CashApp, Solana Pay and Bitcoin with a 10% crypto discount by default', async ({
+    page,
+    paymentConfig,
+  }) => {
+    await paymentConfig.apply('default');
+    await gotoPaymentStep(page);
+
+    await expectAvailableMethods(['cashapp', 'solana-pay', 'bitcoin']);
+
+    await bitcoinPage.selectBitcoinPayment();
+    await bitcoinPage.assertCryptoDiscountDisplayed();
+    expect(await bitcoinPage.getCryptoDiscountPercentage()).toBe(10);
+  });
+
+  test('should offer neither crypto method nor a crypto discount when crypto is disabled', async ({
+    page,
+    paymentConfig,
+  }) => {
+    await paymentConfig.apply('allCryptoDisabled');
+    await gotoPaymentStep(page);
+
+    await expectAvailableMethods(['cashapp']);
+
+    await checkoutPage.selectPaymentMethodOnly('cashapp');
+    await expect(bitcoinPage.cryptoDiscountChip).toHaveCount(0);
+    await expect(bitcoinPage.discountAppliedAlert).toHaveCount(0);
+  });
+
+  test('should offer only CashApp under the CashApp-only profile', async ({ page, paymentConfig }) => {
+    await paymentConfig.apply('cashAppOnly');
+    await gotoPaymentStep(page);
+
+    await expectAvailableMethods(['cashapp']);
+  });
+
+  test.describe('Bitcoin minimum amount', () => {
+    const minimumAmount = PAYMENT_CONFIG_PROFILES.bitcoinMin500.BITCOIN!.minimumAmount!;
+
+    test('should not offer Bitcoin for an order below the minimum', async ({ page, paymentConfig }) => {
+      expect(product.price).toBeLessThan(minimumAmount);
+
+      await paymentConfig.apply('bitcoinMin500');
+      await gotoPaymentStep(page);
+
+      await expectAvailableMethods(['cashapp', 'solana-pay']);
+    });
+
+    test('should offer Bitcoin for an order above the minimum', async ({ page, paymentConfig }) => {
+      const quantity = Math.ceil(minimumAmount / product.price) + 1;
+      expect(product.inventory).toBeGreaterThanOrEqual(quantity);
+
+      await paymentConfig.apply('bitcoinMin500');
+      await gotoPaymentStep(page, quantity);
+      expect(await checkoutPage.getOrderTotal()).toBeGreaterThanOrEqual(minimumAmount);
+
+      await expectAvailableMethods(['cashapp', 'solana-pay', 'bitcoin']);
+    });
+  });
+
+  test('should show the configured crypto discount when Bitcoin is selected', async ({ page, paymentConfig }) => {
+    const discount = PAYMENT_CONFIG_PROFILES.cryptoDiscount20.BITCOIN!.cryptoDiscountPercentage!;
+
+    await paymentConfig.apply('cryptoDiscount20');
+    await gotoPaymentStep(page);
+
+    await bitcoinPage.selectBitcoinPayment();
+    await bitcoinPage.assertCryptoDiscountDisplayed();
+    expect(await bitcoinPage.getCryptoDiscountPercentage()).toBe(discount);
+  });
+});
@@ -1,15 +1,13 @@
-import { test, expect } from '@playwright/test';
+import { test, expect } from '../../fixtures/authFixtures';
 import {
   CheckoutPage,
   CartPage,
   ProductDetailPage,
-  LoginPage,
   PaymentMethodType,
 } from '../../page-objects';
 import {
   getInStockProduct,
   getValidShippingAddress,
-  getCheckoutUser,
 } from '../../fixtures/defaultFixtures';
 
 /**
@@ -30,69 +28,25 @@ import {
  * Requirements covered:
  * - 5.3: Payment method selection
  */
-test.describe('Payment Method Selection', () => {
+test.describe('Payment Method Selection', { tag: '@mutating' }, () => {
   // Run tests serially to avoid cart/user race conditions
   test.describe.configure({ mode: 'serial' });
+  test.use({ isolatedUserKey: 'paymentProcessing' });
 
   let checkoutPage: CheckoutPage;
   let cartPage: CartPage;
   let productDetailPage: ProductDetailPage;
-  let loginPage: LoginPage;
 
   /**
    * Helper function to setup cart with product and navigate to payment step
-   * Clears backend cart to ensure test isolation
+   * The auth fixture has already logged in and emptied the cart
    */
   async function setupCartAndNavigateToPayment(
-    page: import('@playwright/test').Page,
-    request: import('@playwright/test').APIRequestContext
+    page: import('@playwright/test').Page
   ): Promise<boolean> {
-    const customer = getCheckoutUser('paymentProcessing');
     const product = getInStockProduct();
     const shippingAddress = getValidShippingAddress();
 
-    // Clear localStorage BEFORE login
-    await page.goto('http://localhost:3000');
-    await page.evaluate(() => {
-      localStorage.removeItem('zenithCartItems');
-    });
-
-    // Login
-    await loginPage.goto();
-    await loginPage.waitForForm();
-    await loginPage.login(customer.email, customer.password);
-    await loginPage.waitForLoginComplete();
-
-    // Clear the backend cart AFTER login
-    const loginResponse = await request.post('http://localhost:8080/api/auth/login', {
-      data: {
-        email: customer.email,
-        password: customer.password,
-      },
-    });
-
-    if (loginResponse.ok()) {
-      const loginData = await loginResponse.json();
-      const token = loginData.accessToken;
-
-      // Clear the backend cart
-      await request.delete('http://localhost:8080/api/cart', {
-        headers: {
-          Authorization: `Bearer ${token}`,
-        },
-      });
-    }
-
-    // Clear localStorage again after login
-    await page.evaluate(() => {
-      localStorage.removeItem('zenithCartItems');
-    });
-
-    // Refresh to ensure clean state
-    await page.reload();
-    await page.waitForLoadState('domcontentloaded');
-    await page.waitForTimeout(500);
-
     // Add product to cart
     await productDetailPage.gotoProduct(product.slug);
     await productDetailPage.productName.waitFor({ state: 'visible', timeout: 10000 });
@@ -131,18 +85,11 @@ test.describe('Payment Method Selection', () => {
     checkoutPage = new CheckoutPage(page);
     cartPage = new CartPage(page);
     productDetailPage = new ProductDetailPage(page);
-    loginPage = new LoginPage(page);
-
-    // Clear any existing cart items
-    await page.goto('http://localhost:3000');
-    await page.evaluate(() => {
-      localStorage.removeItem('zenithCartItems');
-    });
   });
 
-  test('should display all available payment methods', async ({ page, request }) => {
+  test('should display all available payment methods', async ({ page }) => {
     // Requirements: 5.3
-    await setupCartAndNavigateToPayment(page, request);
+    await setupCartAndNavigateToPayment(page);
     
     // Wait for payment methods to load - this will throw if they don't load
     await checkoutPage.waitForPaymentMethods();
@@ -174,9 +121,9 @@ test.describe('Payment Method Selection', () => {
     expect(visibleMethodCount).toBeGreaterThan(0);
   });
 
-  test('should allow selecting CashApp payment method', async ({ page, request }) => {
+  test('should allow selecting CashApp payment method', async ({ page }) => {
     // Requirements: 5.3
-    await setupCartAndNavigateToPayment(page, request);
+    await setupCartAndNavigateToPayment(page);
     await checkoutPage.waitForPaymentMethods();
 
     const cashAppOption = checkoutPage.getPaymentMethodOption('cashapp');
@@ -203,9 +150,9 @@ test.describe('Payment Method Selection', () => {
     }
   });
 
-  test('should show Solana Pay selector when selected', async ({ page, request }) => {
+  test('should show Solana Pay selector when selected', async ({ page }) => {
     // Requirements: 5.3
-    await setupCartAndNavigateToPayment(page, request);
+    await setupCartAndNavigateToPayment(page);
     await checkoutPage.waitForPaymentMethods();
 
     const solanaOption = checkoutPage.getPaymentMethodOption('solana-pay');
@@ -232,23 +179,23 @@ test.describe('Payment Method Selection', () => {
     }
   });
 
-  test('should show Zelle instructions when selected', async ({ page, request }) => {
+  test('should show Zelle instructions when selected', async ({ page }) => {
     // Requirements: 5.3
     // NOTE: Zelle is NOT an implemented payment method - this test should skip
     // Only Solana Pay, CashApp, and Bitcoin are implemented payment options
     test.skip(true, 'Zelle payment method is not implemented');
   });
 
-  test('should show ACH form when selected', async ({ page, request }) => {
+  test('should show ACH form when selected', async ({ page }) => {
     // Requirements: 5.3
     // NOTE: ACH is NOT an implemented payment method - this test should skip
     // Only Solana Pay, CashApp, and Bitcoin are implemented payment options
     test.skip(true, 'ACH payment method is not implemented');
   });
 
-  test('should switch between payment methods correctly', async ({ page, request }) => {
+  test('should switch between payment methods correctly', async ({ page }) => {
     // Requirements: 5.3
-    const paymentMethodsAvailable = await setupCartAndNavigateToPayment(page, request);
+    const paymentMethodsAvailable = await setupCartAndNavigateToPayment(page);
     if (!paymentMethodsAvailable) {
       throw new Error('Payment methods not configured - check backend configuration');
     }
@@ -283,9 +230,9 @@ test.describe('Payment Method Selection', () => {
     }
   });
 
-  test('should persist payment method selection when navigating back', async ({ page, request }) => {
+  test('should persist payment method selection when navigating back', async ({ page }) => {
     // Requirements: 5.3
-    await setupCartAndNavigateToPayment(page, request);
+    await setupCartAndNavigateToPayment(page);
     await checkoutPage.waitForPaymentMethods();
 
     const cashAppOption = checkoutPage.getPaymentMethodOption('cashapp');
@@ -327,9 +274,9 @@ test.describe('Payment Method Selection', () => {
     }
   });
 
-  test('should show validation when no payment method is selected', async ({ page, request }) => {
+  test('should show validation when no payment method is selected', async ({ page }) => {
     // Requirements: 5.3
-    await setupCartAndNavigateToPayment(page, request);
+    await setupCartAndNavigateToPayment(page);
     await checkoutPage.waitForPaymentMethods();
 
     // Check if there's a continue button that requires payment selection
@@ -355,68 +302,23 @@ test.describe('Payment Method Selection', () => {
   });
 });
 
-test.describe('Payment Method Forms', () => {
+test.describe('Payment Method Forms', { tag: '@mutating' }, () => {
   // Run tests serially to avoid cart/user race conditions
   test.describe.configure({ mode: 'serial' });
 
   let checkoutPage: CheckoutPage;
   let productDetailPage: ProductDetailPage;
-  let loginPage: LoginPage;
 
   /**
    * Helper function to setup cart with product and navigate to payment step
-   * Clears backend cart to ensure test isolation
+   * The auth fixture has already logged in and emptied the cart
    */
   async function setupCartAndNavigateToPayment(
-    page: import('@playwright/test').Page,
-    request: import('@playwright/test').APIRequestContext
+    page: import('@playwright/test').Page
   ): Promise<boolean> {
-    const customer = getCheckoutUser('paymentProcessing');
     const product = getInStockProduct();
     const shippingAddress = getValidShippingAddress();
 
-    // Clear localStorage BEFORE login
-    await page.goto('http://localhost:3000');
-    await page.evaluate(() => {
-      localStorage.removeItem('zenithCartItems');
-    });
-
-    // Login
-    await loginPage.goto();
-    await loginPage.waitForForm();
-    await loginPage.login(customer.email, customer.password);
-    await loginPage.waitForLoginComplete();
-
-    // Clear the backend cart AFTER login
-    const loginResponse = await request.post('http://localhost:8080/api/auth/login', {
-      data: {
-        email: customer.email,
-        password: customer.password,
-      },
-    });
-
-    if (loginResponse.ok()) {
-      const loginData = await loginResponse.json();
-      const token = loginData.accessToken;
-
-      // Clear the backend cart
-      await request.delete('http://localhost:8080/api/cart', {
-        headers: {
-          Authorization: `Bearer ${token}`,
-        },
-      });
-    }
-
-    // Clear localStorage again after login
-    await page.evaluate(() => {
-      localStorage.removeItem('zenithCartItems');
-    });
-
-    // Refresh to ensure clean state
-    await page.reload();
-    await page.waitForLoadState('domcontentloaded');
-    await page.waitForTimeout(500);
-
     // Add product to cart
     await productDetailPage.gotoProduct(product.slug);
     await productDetailPage.productName.waitFor({ state: 'visible', timeout: 10000 });
@@ -454,30 +356,23 @@ test.describe('Payment Method Forms', () => {
   test.beforeEach(async ({ page }) => {
     checkoutPage = new CheckoutPage(page);
     productDetailPage = new ProductDetailPage(page);
-    loginPage = new LoginPage(page);
-
-    // Clear any existing cart items
-    await page.goto('http://localhost:3000');
-    await page.evaluate(() => {
-      localStorage.removeItem('zenithCartItems');
-    });
   });
 
-  test('should validate Zelle form fields', async ({ page, request }) => {
+  test('should validate Zelle form fields', async ({ page }) => {
     // Requirements: 5.3
     // NOTE: Zelle is NOT an implemented payment method - this test should skip
     test.skip(true, 'Zelle payment method is not implemented');
   });
 
-  test('should validate ACH form fields', async ({ page, request }) => {
+  test('should validate ACH form fields', async ({ page }) => {
     // Requirements: 5.3
     // NOTE: ACH is NOT an implemented payment method - this test should skip
     test.skip(true, 'ACH payment method is not implemented');
   });
 
-  test('should show crypto discount for Solana Pay', async ({ page, request }) => {
+  test('should show crypto discount for Solana Pay', async ({ page }) => {
     // Requirements: 5.3
-    await setupCartAndNavigateToPayment(page, request);
+    await setupCartAndNavigateToPayment(page);
     await checkoutPage.waitForPaymentMethods();
 
     const solanaOption = checkoutPage.getPaymentMethodOption('solana-pay');
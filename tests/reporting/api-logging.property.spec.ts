@@ -8,11 +8,11 @@
  * **Validates: Requirements 10.4**
  */
 
-import { test, expect } from '@playwright/test';
+import { test, expect } from '../../fixtures/workerFixtures';
 import { RequestLogger, createRequestLogger } from '../../helpers/RequestLogger';
 import { ApiHelper, createApiHelper } from '../../helpers/ApiHelper';
 
-test.describe('Property 15: API Request Logging Completeness', () => {
+test.describe('Property 15: API Request Logging Completeness', { tag: '@read-only' }, () => {
   // Feature: e2e-integration-testing, Property 15: API Request Logging Completeness
   // Validates: Requirements 10.4
 
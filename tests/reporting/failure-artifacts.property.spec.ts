@@ -11,11 +11,11 @@
  * It uses a controlled failure scenario to verify artifacts are generated.
  */
 
-import { test, expect } from '@playwright/test';
+import { test, expect } from '../../fixtures/workerFixtures';
 import * as fs from 'fs';
 import * as path from 'path';
 
-test.describe('Property 14: Failure Artifact Capture', () => {
+test.describe('Property 14: Failure Artifact Capture', { tag: '@read-only' }, () => {
   // Feature: e2e-integration-testing, Property 14: Failure Artifact Capture
   // Validates: Requirements 10.2, 10.3
 
@@ -1,4 +1,4 @@
-import { test, expect } from '@playwright/test';
+import { test, expect } from '../../fixtures/workerFixtures';
 import { ShopPage } from '../../page-objects';
 
 /**
@@ -6,7 +6,7 @@ import { ShopPage } from '../../page-objects';
  * 
  * Tests for shop page functionality with seeded test products
  */
-test.describe('Product Catalog', () => {
+test.describe('Product Catalog', { tag: '@read-only' }, () => {
   let shopPage: ShopPage;
 
   test.beforeEach(async ({ page }) => {
@@ -1,4 +1,4 @@
-import { test, expect } from '@playwright/test';
+import { test, expect } from '../../fixtures/workerFixtures';
 import { ProductDetailPage } from '../../page-objects/ProductDetailPage';
 import { getInStockProduct, getOutOfStockProduct } from '../../fixtures/defaultFixtures';
 
@@ -10,7 +10,7 @@ import { getInStockProduct, getOutOfStockProduct } from '../../fixtures/defaultF
  * Requirements covered:
  * - 3.3: Product detail page displays correct information
  */
-test.describe('Product Detail', () => {
+test.describe('Product Detail', { tag: '@read-only' }, () => {
   let productDetailPage: ProductDetailPage;
 
   test.beforeEach(async ({ page }) => {
@@ -93,7 +93,7 @@ test.describe('Product Detail', () => {
 
   test('should navigate back when clicking back button', async ({ page }) => {
     // First navigate to shop, then to product detail to have history
-    await page.goto('http://localhost:3000/shop');
+    await page.goto('/shop');
     await page.waitForLoadState('domcontentloaded');
     
     const product = getInStockProduct();
@@ -1,4 +1,4 @@
-import { test, expect } from '@playwright/test';
+import { test, expect } from '../../fixtures/workerFixtures';
 import { ShopPage } from '../../page-objects';
 import { defaultFixtures } from '../../fixtures/defaultFixtures';
 
@@ -11,7 +11,7 @@ import { defaultFixtures } from '../../fixtures/defaultFixtures';
  * - 3.2: Search results match query
  * - 3.4: Filter products by category
  */
-test.describe('Product Search', () => {
+test.describe('Product Search', { tag: '@read-only' }, () => {
   let shopPage: ShopPage;
 
   test.beforeEach(async ({ page }) => {